@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "public"."GeometryProcessingQueue" ADD COLUMN     "leaseOwner" TEXT,
+ADD COLUMN     "leaseExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "attemptCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "failureReason" TEXT;
+
+-- Jobs already in flight keep the old 10-minute retry window as their first lease,
+-- so a deploy mid-run does not hand them to a second processor.
+UPDATE "public"."GeometryProcessingQueue"
+SET "leaseExpiresAt" = "processStartedAt" + INTERVAL '10 minutes',
+    "attemptCount" = 1
+WHERE "processStartedAt" IS NOT NULL
+  AND "processCompletedAt" IS NULL;
+
+-- CreateIndex
+CREATE INDEX "GeometryProcessingQueue_processCompletedAt_leaseExpiresAt_idx" ON "public"."GeometryProcessingQueue"("processCompletedAt", "leaseExpiresAt");
@@ -0,0 +1,19 @@
+-- The singleton 'geo_processor' heartbeat cannot be attributed to an API key.
+-- Drop it; each processor re-registers itself on its next next-job poll.
+DELETE FROM "public"."ProcessorHeartbeat" WHERE "id" = 'geo_processor';
+
+-- AlterTable
+ALTER TABLE "public"."ProcessorHeartbeat" ALTER COLUMN "id" DROP DEFAULT,
+ADD COLUMN     "apiKeyId" TEXT,
+ADD COLUMN     "name" TEXT NOT NULL,
+ADD COLUMN     "isActive" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "currentJobId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProcessorHeartbeat_apiKeyId_key" ON "public"."ProcessorHeartbeat"("apiKeyId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProcessorHeartbeat" ADD CONSTRAINT "ProcessorHeartbeat_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "public"."ApiKey"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProcessorHeartbeat" ADD CONSTRAINT "ProcessorHeartbeat_currentJobId_fkey" FOREIGN KEY ("currentJobId") REFERENCES "public"."GeometryProcessingQueue"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."ProcessorHeartbeat" ADD COLUMN     "capabilities" JSONB,
+ADD COLUMN     "capabilitiesUpdatedAt" TIMESTAMP(3);
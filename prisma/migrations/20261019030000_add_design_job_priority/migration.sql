@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "public"."DesignJobPriority" AS ENUM ('RUSH', 'NORMAL', 'BACKGROUND');
+
+-- AlterTable
+ALTER TABLE "public"."GeometryProcessingQueue" ADD COLUMN     "priority" "public"."DesignJobPriority" NOT NULL DEFAULT 'NORMAL';
+
+-- Health-check and other debug jobs already queued drop to the background tier.
+UPDATE "public"."GeometryProcessingQueue"
+SET "priority" = 'BACKGROUND'
+WHERE "isDebugRequest" = true;
+
+-- CreateIndex
+CREATE INDEX "GeometryProcessingQueue_priority_createdAt_idx" ON "public"."GeometryProcessingQueue"("priority", "createdAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."GeometryProcessingQueue" ADD COLUMN     "definitionVersionSnapshot" INTEGER NOT NULL DEFAULT 1;
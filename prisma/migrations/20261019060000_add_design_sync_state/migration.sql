@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."NamedGeometry" ADD COLUMN     "lastSyncedAt" TIMESTAMP(3),
+ADD COLUMN     "removedFromCodeAt" TIMESTAMP(3);
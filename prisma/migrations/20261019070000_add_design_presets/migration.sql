@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "public"."GeometryProcessingQueue" ADD COLUMN     "presetId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."DesignPreset" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "designId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "fields" JSONB NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DesignPreset_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DesignPreset_organizationId_designId_name_key" ON "public"."DesignPreset"("organizationId", "designId", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."GeometryProcessingQueue" ADD CONSTRAINT "GeometryProcessingQueue_presetId_fkey" FOREIGN KEY ("presetId") REFERENCES "public"."DesignPreset"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DesignPreset" ADD CONSTRAINT "DesignPreset_organizationId_designId_fkey" FOREIGN KEY ("organizationId", "designId") REFERENCES "public"."OrganizationGeometry"("organizationId", "designId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DesignPreset" ADD CONSTRAINT "DesignPreset_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
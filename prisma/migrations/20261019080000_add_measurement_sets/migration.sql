@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "public"."Hand" AS ENUM ('LEFT', 'RIGHT');
+
+-- AlterTable
+ALTER TABLE "public"."GeometryProcessingQueue" ADD COLUMN     "measurementSetId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."MeasurementSet" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "caseReference" TEXT NOT NULL,
+    "hand" "public"."Hand" NOT NULL,
+    "measurements" JSONB NOT NULL,
+    "notes" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MeasurementSet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MeasurementSet_organizationId_caseReference_hand_key" ON "public"."MeasurementSet"("organizationId", "caseReference", "hand");
+
+-- AddForeignKey
+ALTER TABLE "public"."GeometryProcessingQueue" ADD CONSTRAINT "GeometryProcessingQueue_measurementSetId_fkey" FOREIGN KEY ("measurementSetId") REFERENCES "public"."MeasurementSet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MeasurementSet" ADD CONSTRAINT "MeasurementSet_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MeasurementSet" ADD CONSTRAINT "MeasurementSet_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
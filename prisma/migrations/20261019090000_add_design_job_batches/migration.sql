@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "public"."GeometryProcessingQueue" ADD COLUMN     "batchId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."DesignJobBatch" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "labelPrefix" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DesignJobBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DesignJobBatch_organizationId_createdAt_idx" ON "public"."DesignJobBatch"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "GeometryProcessingQueue_batchId_idx" ON "public"."GeometryProcessingQueue"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "public"."GeometryProcessingQueue" ADD CONSTRAINT "GeometryProcessingQueue_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "public"."DesignJobBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DesignJobBatch" ADD CONSTRAINT "DesignJobBatch_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DesignJobBatch" ADD CONSTRAINT "DesignJobBatch_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
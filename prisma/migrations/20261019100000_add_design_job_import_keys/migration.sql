@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."GeometryProcessingQueue" ADD COLUMN     "importApiKeyId" TEXT,
+ADD COLUMN     "importKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GeometryProcessingQueue_owningOrganizationId_importKey_key" ON "public"."GeometryProcessingQueue"("owningOrganizationId", "importKey");
+
+-- AddForeignKey
+ALTER TABLE "public"."GeometryProcessingQueue" ADD CONSTRAINT "GeometryProcessingQueue_importApiKeyId_fkey" FOREIGN KEY ("importApiKeyId") REFERENCES "public"."ApiKey"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."ApiKey" ADD COLUMN     "keyPrefix" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApiKey_keyPrefix_key" ON "public"."ApiKey"("keyPrefix");
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "public"."ApiKey" ADD COLUMN     "allowedCidrs" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN     "expiresAt" TIMESTAMP(3),
+ADD COLUMN     "previousKeyExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "previousKeyHash" TEXT,
+ADD COLUMN     "rotatedAt" TIMESTAMP(3);
+
+-- Permissions become a fixed scope catalogue: the "*" wildcard expands to every scope,
+-- and entries no route checks (print-queue:write, print-queue:create) are dropped.
+UPDATE "public"."ApiKey" SET "permissions" = (
+  SELECT COALESCE(json_agg(scope ORDER BY scope), '[]'::json)::text
+  FROM json_array_elements_text(
+    CASE WHEN "permissions"::jsonb ? '*'
+      THEN '["design-jobs:read","design-jobs:write","designs:read","geometry-queue:read","geometry-queue:write","print-queue:read"]'::json
+      ELSE "permissions"::json
+    END
+  ) AS scope
+  WHERE scope IN ('design-jobs:read', 'design-jobs:write', 'designs:read', 'geometry-queue:read', 'geometry-queue:write', 'print-queue:read')
+);
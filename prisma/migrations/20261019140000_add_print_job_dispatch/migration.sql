@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "public"."PrintQueue" ADD COLUMN     "assignedPrinterModel" TEXT,
+ADD COLUMN     "assignedPrinterSerial" TEXT,
+ADD COLUMN     "claimExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "claimedAt" TIMESTAMP(3),
+ADD COLUMN     "claimedByDeviceId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "PrintQueue_assignedPrinterSerial_idx" ON "public"."PrintQueue"("assignedPrinterSerial");
+
+-- CreateIndex
+CREATE INDEX "PrintQueue_assignedPrinterModel_idx" ON "public"."PrintQueue"("assignedPrinterModel");
+
+-- AddForeignKey
+ALTER TABLE "public"."PrintQueue" ADD CONSTRAINT "PrintQueue_assignedPrinterSerial_fkey" FOREIGN KEY ("assignedPrinterSerial") REFERENCES "public"."Printer"("serial") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PrintQueue" ADD CONSTRAINT "PrintQueue_claimedByDeviceId_fkey" FOREIGN KEY ("claimedByDeviceId") REFERENCES "public"."ClientDevice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
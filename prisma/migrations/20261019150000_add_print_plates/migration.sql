@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "public"."PrintQueue" ADD COLUMN     "plateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."PrintPlate" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "printerModel" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "arrangeStartedAt" TIMESTAMP(3),
+    "arrangedAt" TIMESTAMP(3),
+    "arrangeFailureReason" TEXT,
+    "printFileName" TEXT,
+    "printBlobUrl" TEXT,
+    "printBlobPathname" TEXT,
+    "printerSerial" TEXT,
+    "printStartedAt" TIMESTAMP(3),
+    "printCompletedAt" TIMESTAMP(3),
+    "isPrintSuccessful" BOOLEAN NOT NULL DEFAULT false,
+    "progress" DOUBLE PRECISION,
+    "progressLastReportAt" TIMESTAMP(3),
+
+    CONSTRAINT "PrintPlate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PrintPlate_organizationId_createdAt_idx" ON "public"."PrintPlate"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PrintQueue_plateId_idx" ON "public"."PrintQueue"("plateId");
+
+-- AddForeignKey
+ALTER TABLE "public"."PrintQueue" ADD CONSTRAINT "PrintQueue_plateId_fkey" FOREIGN KEY ("plateId") REFERENCES "public"."PrintPlate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PrintPlate" ADD CONSTRAINT "PrintPlate_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PrintPlate" ADD CONSTRAINT "PrintPlate_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "public"."PrintJobState" AS ENUM ('QUEUED', 'SENT', 'PRINTING', 'PAUSED', 'FAILED', 'COMPLETED', 'ACCEPTED', 'REJECTED', 'ARCHIVED');
+
+-- AlterTable
+ALTER TABLE "public"."PrintQueue" ADD COLUMN     "state" "public"."PrintJobState" NOT NULL DEFAULT 'QUEUED',
+ADD COLUMN     "stateChangedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing jobs take the state their timestamps and review imply. Progress above 99% counts
+-- as completed for records written before printCompletedAt was set on completion.
+UPDATE "public"."PrintQueue"
+SET "state" = CASE
+    WHEN "printAcceptance" = 'ACCEPTED' THEN 'ACCEPTED'::"public"."PrintJobState"
+    WHEN "printAcceptance" IN ('REJECT_DESIGN', 'REJECT_PRINT', 'REJECTED') THEN 'REJECTED'::"public"."PrintJobState"
+    WHEN "printAcceptance" = 'ARCHIVED' THEN 'ARCHIVED'::"public"."PrintJobState"
+    WHEN "printCompletedAt" IS NOT NULL AND "isPrintSuccessful" = false THEN 'FAILED'::"public"."PrintJobState"
+    WHEN "printCompletedAt" IS NOT NULL OR ("printStartedAt" IS NOT NULL AND "progress" > 99) THEN 'COMPLETED'::"public"."PrintJobState"
+    WHEN "printStartedAt" IS NOT NULL THEN 'PRINTING'::"public"."PrintJobState"
+    WHEN "claimExpiresAt" > CURRENT_TIMESTAMP THEN 'SENT'::"public"."PrintJobState"
+    ELSE 'QUEUED'::"public"."PrintJobState"
+  END,
+  "stateChangedAt" = COALESCE("printCompletedAt", "printStartedAt", "claimedAt", "createdAt");
+
+-- CreateTable
+CREATE TABLE "public"."PrintJobTransition" (
+    "id" TEXT NOT NULL,
+    "printJobId" TEXT NOT NULL,
+    "fromState" "public"."PrintJobState" NOT NULL,
+    "toState" "public"."PrintJobState" NOT NULL,
+    "reason" TEXT,
+    "actorUserId" TEXT,
+    "deviceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PrintJobTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PrintQueue_state_idx" ON "public"."PrintQueue"("state");
+
+-- CreateIndex
+CREATE INDEX "PrintJobTransition_printJobId_createdAt_idx" ON "public"."PrintJobTransition"("printJobId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."PrintJobTransition" ADD CONSTRAINT "PrintJobTransition_printJobId_fkey" FOREIGN KEY ("printJobId") REFERENCES "public"."PrintQueue"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PrintJobTransition" ADD CONSTRAINT "PrintJobTransition_actorUserId_fkey" FOREIGN KEY ("actorUserId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "public"."PrintInterruptionKind" AS ENUM ('FAILED', 'CANCELLED', 'PAUSED');
+
+-- AlterTable
+ALTER TABLE "public"."PrintQueue" ADD COLUMN     "failureReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."PrintInterruption" (
+    "id" TEXT NOT NULL,
+    "printJobId" TEXT NOT NULL,
+    "kind" "public"."PrintInterruptionKind" NOT NULL,
+    "hmsCode" TEXT,
+    "hmsMessage" TEXT,
+    "message" TEXT,
+    "progress" DOUBLE PRECISION,
+    "printerSerial" TEXT,
+    "printerSnapshotId" TEXT,
+    "deviceId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PrintInterruption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PrintInterruption_printJobId_createdAt_idx" ON "public"."PrintInterruption"("printJobId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PrintInterruption_printerSerial_createdAt_idx" ON "public"."PrintInterruption"("printerSerial", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."PrintInterruption" ADD CONSTRAINT "PrintInterruption_printJobId_fkey" FOREIGN KEY ("printJobId") REFERENCES "public"."PrintQueue"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PrintInterruption" ADD CONSTRAINT "PrintInterruption_printerSerial_fkey" FOREIGN KEY ("printerSerial") REFERENCES "public"."Printer"("serial") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PrintInterruption" ADD CONSTRAINT "PrintInterruption_printerSnapshotId_fkey" FOREIGN KEY ("printerSnapshotId") REFERENCES "public"."PrinterSnapshot"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -1,67 +1,5 @@
-import { PrismaClient } from '@prisma/client'
-import { readFileSync, readdirSync, statSync } from 'fs'
-import { join } from 'path'
-
-const prisma = new PrismaClient()
-
-// Load all design definitions from src/designs/*/definition.json
-function loadDesignDefinitions() {
-  const designsDir = join(__dirname, '..', 'src', 'designs')
-  const entries = readdirSync(designsDir)
-  const definitions: Array<{
-    id: string
-    name: string
-    algorithmName: string
-    shortDescription: string | null
-    isActive: boolean
-    inputParameters: unknown[]
-  }> = []
-
-  for (const entry of entries) {
-    const defPath = join(designsDir, entry, 'definition.json')
-    try {
-      if (statSync(defPath).isFile()) {
-        const raw = JSON.parse(readFileSync(defPath, 'utf-8'))
-        definitions.push({
-          id: raw.id,
-          name: raw.name,
-          algorithmName: raw.algorithmName,
-          shortDescription: raw.shortDescription ?? null,
-          isActive: raw.isActive,
-          inputParameters: raw.inputParameters,
-        })
-      }
-    } catch {
-      // skip directories without definition.json
-    }
-  }
-  return definitions
-}
-
-async function syncDesigns() {
-  const definitions = loadDesignDefinitions()
-  console.log(`Syncing ${definitions.length} design definitions...`)
-
-  for (const def of definitions) {
-    await prisma.design.upsert({
-      where: { id: def.id },
-      update: {
-        name: def.name,
-        algorithmName: def.algorithmName,
-        shortDescription: def.shortDescription,
-        isActive: def.isActive,
-      },
-      create: {
-        id: def.id,
-        name: def.name,
-        algorithmName: def.algorithmName,
-        shortDescription: def.shortDescription,
-        isActive: def.isActive,
-      },
-    })
-    console.log(`  Synced: ${def.name}`)
-  }
-}
+import { prisma } from '../src/lib/prisma'
+import { describeDesignSyncResult, reconcileDesigns } from '../src/lib/design-sync'
 
 async function main() {
   console.log('Seeding database...')
@@ -107,7 +45,8 @@ async function main() {
   }
 
   // Sync design definitions from code to DB
-  await syncDesigns()
+  const designSync = await reconcileDesigns()
+  console.log(`Synced designs: ${describeDesignSyncResult(designSync)}`)
 
   console.log('Seeding completed!')
 }
@@ -2,7 +2,7 @@
 -- Idempotent: safe to re-run; ON CONFLICT skips rows that already exist.
 --
 -- Design ID must match src/designs/sizing-rings/definition.json.
--- Run after the design row exists in the DB (i.e. after seed.ts or sync-designs.js).
+-- Run after the design row exists in the DB (i.e. after seed.ts or sync-designs.ts).
 --
 -- Local dev:
 --   psql "$DATABASE_URL" -f prisma/sql/grant-sizing-rings-to-all-orgs.sql
@@ -1,25 +1,23 @@
 import {
-  getOrCreateProcessorHeartbeat,
   getProcessorStatus,
-  updateProcessorPing,
+  getProcessorStatuses,
+  listProcessorHeartbeats,
 } from '../src/lib/geo-processor-health';
 import { prisma } from '../src/lib/prisma';
 
+// Read-only dump of the processor registry. Pings are recorded only by real
+// next-job polls, which carry the API key that identifies each processor.
 async function main(): Promise<void> {
-  const beforeStatus = await getProcessorStatus();
-  const beforeHeartbeat = await getOrCreateProcessorHeartbeat();
-
-  await updateProcessorPing();
-
-  const afterStatus = await getProcessorStatus();
-  const afterHeartbeat = await getOrCreateProcessorHeartbeat();
+  const fleetStatus = await getProcessorStatus();
+  const processorStatuses = await getProcessorStatuses(undefined, { includeInactive: true });
+  const heartbeats = await listProcessorHeartbeats({ includeInactive: true });
 
   const summary = {
-    beforeStatus,
-    beforeHeartbeat,
-    afterStatus,
-    afterHeartbeat,
-    pingUpdated: beforeStatus.lastPingMs !== afterStatus.lastPingMs,
+    fleetStatus,
+    processorStatuses,
+    heartbeats,
+    processorCount: heartbeats.length,
+    healthyCount: processorStatuses.filter((status) => status.isActive && status.isHealthy).length,
   };
 
   console.log(JSON.stringify(summary, null, 2));
@@ -0,0 +1,221 @@
+/**
+ * Discover design plugins and generate the design manifest.
+ *
+ * Every subdirectory of src/designs (or DESIGNS_DIR, for designs kept in a separate
+ * package) that contains a definition.json is a design. Each definition is validated
+ * against design-definition.schema.json and checked for duplicate ids and names, for
+ * designs that share an algorithmName with a different generatorVersion, and for
+ * measurementMap entries that don't fit the parameters; any problem fails the build with
+ * the list of what to fix.
+ *
+ * Writes (gitignored, regenerated on install, dev and build):
+ *   src/designs/generated/definitions.ts   - definition.json imports, keyed by slug (server)
+ *   src/designs/generated/modules.ts       - hints.ts / validate.ts / migrations.ts by design id (client-safe)
+ *   src/designs/generated/custom-forms.ts  - CustomForm.tsx components by design id (client)
+ *
+ * Plain JS so it doesn't need tsx.
+ */
+
+const Ajv = require('ajv');
+const { existsSync, mkdirSync, readFileSync, readdirSync, statSync, writeFileSync } = require('fs');
+const { join, relative, resolve } = require('path');
+
+const rootDir = join(__dirname, '..');
+const schemaPath = join(rootDir, 'src', 'designs', 'design-definition.schema.json');
+const outputDir = join(rootDir, 'src', 'designs', 'generated');
+const designsDir = process.env.DESIGNS_DIR ? resolve(rootDir, process.env.DESIGNS_DIR) : join(rootDir, 'src', 'designs');
+
+// Optional per-design files and the export each one must provide.
+const OPTIONAL_MODULES = {
+  hints: { file: 'hints.ts', exportName: 'getHints' },
+  validate: { file: 'validate.ts', exportName: 'validate' },
+  migrations: { file: 'migrations.ts', exportName: 'migrations' },
+  customForm: { file: 'CustomForm.tsx', exportName: 'default' },
+};
+
+function toIdentifier(slug) {
+  return slug.replace(/[^a-zA-Z0-9]+(.)?/g, (_, chr) => (chr ? chr.toUpperCase() : '')).replace(/^[0-9]/, '_$&');
+}
+
+function importPath(slug, file) {
+  const path = relative(outputDir, join(designsDir, slug, file)).split('\\').join('/').replace(/\.tsx?$/, '');
+  return path.startsWith('.') ? path : `./${path}`;
+}
+
+function discoverDesigns() {
+  return readdirSync(designsDir)
+    .filter((entry) => entry !== 'generated')
+    .filter((entry) => {
+      const defPath = join(designsDir, entry, 'definition.json');
+      return existsSync(defPath) && statSync(defPath).isFile();
+    })
+    .sort()
+    .map((slug) => ({
+      slug,
+      identifier: toIdentifier(slug),
+      definitionPath: join(designsDir, slug, 'definition.json'),
+      modules: Object.fromEntries(
+        Object.entries(OPTIONAL_MODULES).map(([key, { file }]) => [key, existsSync(join(designsDir, slug, file))]),
+      ),
+    }));
+}
+
+// measurementMap keys must be top-level parameters of the right type; dotted payload
+// paths are only for custom forms, which own their payload shape.
+function checkMeasurementMap(label, definition, hasCustomForm) {
+  const problems = [];
+  const params = new Map(definition.inputParameters.map((param) => [param.InputName, param]));
+  for (const [target, ref] of Object.entries(definition.measurementMap || {})) {
+    if (target.includes('.')) {
+      if (!hasCustomForm) {
+        problems.push(`${label}: measurementMap path "${target}" needs a CustomForm.tsx; map InputNames instead`);
+      }
+      continue;
+    }
+    const param = params.get(target);
+    const expected = ref === 'hand.is_right' ? ['Boolean'] : ['Float', 'Integer'];
+    if (!param) {
+      problems.push(`${label}: measurementMap key "${target}" is not a top-level InputName`);
+    } else if (!expected.includes(param.InputType)) {
+      problems.push(`${label}: measurementMap maps "${target}" (${param.InputType}) to "${ref}", which needs ${expected.join(' or ')}`);
+    }
+  }
+  return problems;
+}
+
+function validateDesigns(designs) {
+  const ajv = new Ajv({ allErrors: true });
+  const validateDefinition = ajv.compile(JSON.parse(readFileSync(schemaPath, 'utf-8')));
+  const problems = [];
+  const seen = { id: new Map(), name: new Map() };
+  // Several designs may drive the same generator (Infinity Extend and its contracture
+  // variant), but they must then agree on its generatorVersion, which processors
+  // advertise per algorithm.
+  const algorithms = new Map();
+
+  for (const design of designs) {
+    const label = relative(rootDir, design.definitionPath);
+    let definition;
+    try {
+      definition = JSON.parse(readFileSync(design.definitionPath, 'utf-8'));
+    } catch (err) {
+      problems.push(`${label}: invalid JSON (${err.message})`);
+      continue;
+    }
+
+    if (!validateDefinition(definition)) {
+      for (const error of validateDefinition.errors) {
+        problems.push(`${label}: ${error.dataPath || '(root)'} ${error.message}`);
+      }
+      continue;
+    }
+
+    problems.push(...checkMeasurementMap(label, definition, design.modules.customForm));
+
+    for (const field of Object.keys(seen)) {
+      // Names are compared case-insensitively; they're user-facing labels.
+      const key = field === 'name' ? definition[field].toLowerCase() : definition[field];
+      const other = seen[field].get(key);
+      if (other) {
+        problems.push(`${label}: duplicate ${field} "${definition[field]}" (also used by src/designs/${other})`);
+      } else {
+        seen[field].set(key, design.slug);
+      }
+    }
+
+    const algorithm = algorithms.get(definition.algorithmName);
+    const generatorVersion = definition.generatorVersion;
+    if (algorithm && algorithm.generatorVersion !== generatorVersion) {
+      problems.push(
+        `${label}: algorithmName "${definition.algorithmName}" is also used by src/designs/${algorithm.slug} ` +
+        `with generatorVersion "${algorithm.generatorVersion}" (this one has "${generatorVersion}"); designs sharing a generator must use the same version`,
+      );
+    } else if (!algorithm) {
+      algorithms.set(definition.algorithmName, { slug: design.slug, generatorVersion });
+    }
+
+    design.id = definition.id;
+    design.name = definition.name;
+  }
+
+  return problems;
+}
+
+function header(description) {
+  return `// Generated by scripts/generate-design-manifest.js - do not edit.\n// ${description}\n`;
+}
+
+function writeManifest(designs) {
+  mkdirSync(outputDir, { recursive: true });
+
+  const definitions = [
+    header('Every design\'s definition.json, keyed by slug (its directory name).'),
+    "import type { DesignDefinition } from '../types';",
+    ...designs.map((d) => `import ${d.identifier}Def from '${importPath(d.slug, 'definition.json')}';`),
+    '',
+    'export const designDefinitions: Array<{ slug: string; definition: DesignDefinition }> = [',
+    ...designs.map((d) => `  { slug: '${d.slug}', definition: ${d.identifier}Def as DesignDefinition },`),
+    '];',
+    '',
+  ];
+
+  const withModule = (key) => designs.filter((d) => d.modules[key]);
+  const moduleImports = (key, suffix) => withModule(key).map((d) =>
+    `import { ${OPTIONAL_MODULES[key].exportName} as ${d.identifier}${suffix} } from '${importPath(d.slug, OPTIONAL_MODULES[key].file)}';`);
+  const moduleEntries = (key, suffix) => withModule(key).map((d) => `  '${d.id}': ${d.identifier}${suffix}, // ${d.name}`);
+
+  const modules = [
+    header('Client-safe: per-design logic modules, keyed by design id.'),
+    "import type { HintsFn, ParameterMigrations, ValidateFn } from '../types';",
+    ...moduleImports('hints', 'Hints'),
+    ...moduleImports('validate', 'Validate'),
+    ...moduleImports('migrations', 'Migrations'),
+    '',
+    'export const hintsByDesignId: Record<string, HintsFn> = {',
+    ...moduleEntries('hints', 'Hints'),
+    '};',
+    '',
+    'export const validateByDesignId: Record<string, ValidateFn> = {',
+    ...moduleEntries('validate', 'Validate'),
+    '};',
+    '',
+    'export const migrationsByDesignId: Record<string, ParameterMigrations> = {',
+    ...moduleEntries('migrations', 'Migrations'),
+    '};',
+    '',
+  ];
+
+  const customForms = [
+    header('Bespoke input-form components, keyed by design id.'),
+    "import type { ComponentType } from 'react';",
+    "import type { CustomFormProps } from '../types';",
+    ...withModule('customForm').map((d) => `import ${d.identifier}Form from '${importPath(d.slug, 'CustomForm.tsx')}';`),
+    '',
+    'export const customFormByDesignId: Record<string, ComponentType<CustomFormProps>> = {',
+    ...moduleEntries('customForm', 'Form'),
+    '};',
+    '',
+  ];
+
+  writeFileSync(join(outputDir, 'definitions.ts'), definitions.join('\n'));
+  writeFileSync(join(outputDir, 'modules.ts'), modules.join('\n'));
+  writeFileSync(join(outputDir, 'custom-forms.ts'), customForms.join('\n'));
+}
+
+function main() {
+  const designs = discoverDesigns();
+  const problems = validateDesigns(designs);
+
+  if (problems.length > 0) {
+    console.error(`Design manifest failed: ${problems.length} problem(s) in ${relative(rootDir, designsDir) || '.'}`);
+    for (const problem of problems) {
+      console.error(`  - ${problem}`);
+    }
+    process.exit(1);
+  }
+
+  writeManifest(designs);
+  console.log(`Design manifest generated: ${designs.length} designs from ${relative(rootDir, designsDir)}`);
+}
+
+main();
@@ -0,0 +1,29 @@
+import { describeDesignSyncResult, reconcileDesigns } from '../src/lib/design-sync';
+import { prisma } from '../src/lib/prisma';
+
+// Deploy-time design reconcile (see src/lib/design-sync.ts). Runs in the build after
+// migrations so new designs have their Design row before the app serves traffic.
+// Fails the build on a name conflict, which needs a manual fix.
+async function main(): Promise<void> {
+  const result = await reconcileDesigns();
+  console.log(`Design sync: ${describeDesignSyncResult(result)}`);
+  for (const name of result.created) console.log(`  Created: ${name}`);
+  for (const name of result.updated) console.log(`  Updated: ${name}`);
+  for (const name of result.deactivated) console.log(`  Deactivated (removed from code): ${name}`);
+
+  if (result.conflicts.length > 0) {
+    for (const conflict of result.conflicts) {
+      console.error(`  Name conflict: "${conflict.designName}" (${conflict.designId}) is already used by design row ${conflict.databaseValue}`);
+    }
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Design sync failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
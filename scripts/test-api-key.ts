@@ -10,13 +10,29 @@ if (!testKey) {
 const prisma = new PrismaClient();
 
 async function main() {
+  // Prefixed keys (sfk_<prefix>_<secret>) are looked up by prefix; only the secret is hashed.
+  const prefixed = /^sfk_([0-9a-f]{12})_([0-9a-f]{64})$/.exec(testKey);
+  if (prefixed) {
+    const key = await prisma.apiKey.findUnique({
+      where: { keyPrefix: prefixed[1] },
+      select: { id: true, name: true, keyHash: true, isActive: true }
+    });
+    if (!key) {
+      console.log(`No API key with prefix ${prefixed[1]}`);
+      return;
+    }
+    console.log(`Prefix ${prefixed[1]} belongs to: ${key.name} (${key.isActive ? 'active' : 'disabled'})`);
+    console.log(`Match: ${await bcrypt.compare(prefixed[2], key.keyHash)}`);
+    return;
+  }
+
   const keys = await prisma.apiKey.findMany({
-    where: { isActive: true },
+    where: { isActive: true, keyPrefix: null },
     select: { id: true, name: true, keyHash: true }
   });
-  
-  console.log(`Found ${keys.length} active API key(s)`);
-  
+
+  console.log(`Not a prefixed key; found ${keys.length} active legacy API key(s)`);
+
   for (const key of keys) {
     console.log(`\nChecking against: ${key.name}`);
     console.log(`Hash: ${key.keyHash}`);
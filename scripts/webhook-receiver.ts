@@ -0,0 +1,47 @@
+import { createServer } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Local webhook receiver for testing. Register http://localhost:<port>/ as a webhook
+// (plain http to localhost is accepted outside production), then run:
+//   WEBHOOK_SECRET=whsec_... npx tsx scripts/webhook-receiver.ts [port]
+// Each POST is logged with whether its signature checks out. FAIL_STATUS=500 makes the
+// receiver answer with that status instead, to watch the retries in the delivery log.
+
+const port = Number(process.argv[2] || process.env.PORT || 4400);
+const secret = process.env.WEBHOOK_SECRET;
+const failStatus = process.env.FAIL_STATUS ? Number(process.env.FAIL_STATUS) : null;
+
+if (!secret) {
+  console.log('Usage: WEBHOOK_SECRET=whsec_... npx tsx scripts/webhook-receiver.ts [port]');
+  process.exit(1);
+}
+
+function verifySignature(header: string | undefined, body: string): boolean {
+  const parts = Object.fromEntries((header || '').split(',').map((part) => part.split('=', 2)));
+  if (!parts.t || !parts.v1) return false;
+  const expected = createHmac('sha256', secret!).update(`${parts.t}.${body}`).digest('hex');
+  return expected.length === parts.v1.length && timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1));
+}
+
+createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    const signatureHeader = req.headers['x-splint-signature'];
+    const valid = verifySignature(Array.isArray(signatureHeader) ? signatureHeader[0] : signatureHeader, body);
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url}`);
+    console.log(`Event: ${req.headers['x-splint-event']}  Delivery: ${req.headers['x-splint-delivery']}`);
+    console.log(`Signature: ${valid ? 'valid' : 'INVALID'}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    const status = failStatus ?? (valid ? 200 : 401);
+    res.writeHead(status, { 'Content-Type': 'text/plain' });
+    res.end(status < 300 ? 'ok' : 'rejected');
+  });
+}).listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/`);
+});
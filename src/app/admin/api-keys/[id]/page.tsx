@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import Header from '@/components/navigation/Header';
+import { formatDate } from '@/lib/formatDate';
+import { API_KEY_GRACE_PERIODS, API_KEY_SCOPES } from '@/lib/api-key-scopes';
 
 interface Organization {
   id: string;
@@ -15,6 +17,24 @@ interface ApiKeyFormData {
   organizationId: string;
   permissions: string[];
   isActive: boolean;
+  // yyyy-mm-dd; the key expires at the end of that day, local time. Empty = never.
+  expiresOn: string;
+  // One address or CIDR block per line. Empty = any address.
+  allowedCidrs: string;
+}
+
+interface KeyRotationInfo {
+  keyPrefix: string | null;
+  rotatedAt: string | null;
+  previousKeyExpiresAt: string | null;
+}
+
+// Local calendar date of an ISO timestamp, for a date input.
+function toDateInputValue(iso: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
 }
 
 interface Props {
@@ -29,8 +49,13 @@ export default function ApiKeyFormPage({ params }: Props) {
     name: '',
     organizationId: '',
     permissions: [],
-    isActive: true
+    isActive: true,
+    expiresOn: '',
+    allowedCidrs: ''
   });
+  const [rotationInfo, setRotationInfo] = useState<KeyRotationInfo | null>(null);
+  const [gracePeriodHours, setGracePeriodHours] = useState<number>(24);
+  const [rotating, setRotating] = useState(false);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -38,13 +63,7 @@ export default function ApiKeyFormPage({ params }: Props) {
   const [generatedApiKey, setGeneratedApiKey] = useState<string | null>(null);
 
   // Available permissions
-  const availablePermissions = [
-    { id: 'geometry-queue:read', label: 'Design Processing - Read', category: 'Design Processing' },
-    { id: 'geometry-queue:write', label: 'Design Processing - Write', category: 'Design Processing' },
-    { id: 'print-queue:read', label: 'Print Queue - Read', category: 'Print Queue' },
-    { id: 'print-queue:write', label: 'Print Queue - Write', category: 'Print Queue' },
-    { id: 'print-queue:create', label: 'Print Queue - Create', category: 'Print Queue' }
-  ];
+  const availablePermissions = API_KEY_SCOPES;
 
   useEffect(() => {
     params.then(setResolvedParams);
@@ -90,7 +109,14 @@ export default function ApiKeyFormPage({ params }: Props) {
         name: data.name,
         organizationId: data.organizationId || '',
         permissions: data.permissions,
-        isActive: data.isActive
+        isActive: data.isActive,
+        expiresOn: toDateInputValue(data.expiresAt),
+        allowedCidrs: (data.allowedCidrs as string[]).join('\n')
+      });
+      setRotationInfo({
+        keyPrefix: data.keyPrefix,
+        rotatedAt: data.rotatedAt,
+        previousKeyExpiresAt: data.previousKeyExpiresAt
       });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error occurred');
@@ -141,7 +167,9 @@ export default function ApiKeyFormPage({ params }: Props) {
           name: formData.name.trim(),
           organizationId: formData.organizationId || null,
           permissions: formData.permissions,
-          isActive: formData.isActive
+          isActive: formData.isActive,
+          expiresAt: formData.expiresOn ? new Date(`${formData.expiresOn}T23:59:59`).toISOString() : null,
+          allowedCidrs: formData.allowedCidrs.split('\n').map(line => line.trim()).filter(Boolean)
         })
       });
 
@@ -168,6 +196,41 @@ export default function ApiKeyFormPage({ params }: Props) {
     }
   };
 
+  const handleRotate = async () => {
+    if (!resolvedParams || !confirm('Issue a new secret for this key? Clients must be updated with the new key.')) {
+      return;
+    }
+
+    try {
+      setRotating(true);
+      setError(null);
+      setSuccess(null);
+
+      const response = await fetch(`/api/api-keys/${resolvedParams.id}/rotate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ gracePeriodHours })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to rotate API key');
+      }
+
+      const data = await response.json();
+      setGeneratedApiKey(data.apiKey);
+      setSuccess(data.previousKeyExpiresAt
+        ? `API key rotated. The old secret keeps working until ${formatDate(data.previousKeyExpiresAt)}.`
+        : 'API key rotated. The old secret no longer works.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      setRotating(false);
+    }
+  };
+
   const copyToClipboard = async (text: string) => {
     try {
       if (navigator.clipboard?.writeText) {
@@ -335,7 +398,7 @@ export default function ApiKeyFormPage({ params }: Props) {
                           if (!acc[perm.category]) acc[perm.category] = [];
                           acc[perm.category].push(perm);
                           return acc;
-                        }, {} as Record<string, typeof availablePermissions>)
+                        }, {} as Record<string, Array<(typeof availablePermissions)[number]>>)
                       ).map(([category, perms]) => (
                         <div key={category}>
                           <h4 className="text-sm font-medium text-primary mb-2">{category}</h4>
@@ -351,6 +414,7 @@ export default function ApiKeyFormPage({ params }: Props) {
                                 />
                                 <label htmlFor={permission.id} className="ml-3 text-sm text-secondary">
                                   {permission.label}
+                                  <span className="ml-2 text-xs text-muted">{permission.description}</span>
                                 </label>
                               </div>
                             ))}
@@ -380,6 +444,41 @@ export default function ApiKeyFormPage({ params }: Props) {
                     </p>
                   </div>
 
+                  <div>
+                    <label htmlFor="expiresOn" className="block text-sm font-medium text-secondary">
+                      Expires
+                    </label>
+                    <input
+                      type="date"
+                      id="expiresOn"
+                      value={formData.expiresOn}
+                      onChange={(e) => setFormData(prev => ({ ...prev, expiresOn: e.target.value }))}
+                      className="input-field mt-1"
+                      data-testid="expires-input"
+                    />
+                    <p className="mt-1 text-sm text-muted">
+                      The key stops working at the end of this day. Leave empty for no expiry.
+                    </p>
+                  </div>
+
+                  <div>
+                    <label htmlFor="allowedCidrs" className="block text-sm font-medium text-secondary">
+                      Allowed IP ranges
+                    </label>
+                    <textarea
+                      id="allowedCidrs"
+                      value={formData.allowedCidrs}
+                      onChange={(e) => setFormData(prev => ({ ...prev, allowedCidrs: e.target.value }))}
+                      className="input-field mt-1 font-mono text-sm"
+                      rows={3}
+                      placeholder={'203.0.113.0/24\n2001:db8::/32'}
+                      data-testid="allowed-cidrs-input"
+                    />
+                    <p className="mt-1 text-sm text-muted">
+                      One address or CIDR block per line. Requests from anywhere else are denied. Leave empty to allow any address.
+                    </p>
+                  </div>
+
                   <div className="flex justify-end gap-3">
                     <Link
                       href="/admin/api-keys"
@@ -401,6 +500,54 @@ export default function ApiKeyFormPage({ params }: Props) {
               )}
             </div>
           </div>
+
+          {isEditing && rotationInfo && !generatedApiKey && (
+            <div className="card mt-6" data-testid="rotate-key-card">
+              <div className="px-4 py-5 sm:p-6">
+                <h2 className="text-lg font-semibold text-primary mb-2">Rotate Key</h2>
+                <p className="text-sm text-muted mb-4">
+                  {rotationInfo.keyPrefix ? (
+                    <>Key <span className="font-mono">sfk_{rotationInfo.keyPrefix}_********</span>. </>
+                  ) : (
+                    <>This is a legacy key without a lookup prefix and is slower to verify; rotating it issues a prefixed key. </>
+                  )}
+                  {rotationInfo.rotatedAt ? `Last rotated ${formatDate(rotationInfo.rotatedAt)}.` : 'Never rotated.'}
+                  {rotationInfo.previousKeyExpiresAt && new Date(rotationInfo.previousKeyExpiresAt) > new Date() && (
+                    <> The previous secret works until {formatDate(rotationInfo.previousKeyExpiresAt)}.</>
+                  )}
+                </p>
+                <div className="flex items-end gap-3">
+                  <div>
+                    <label htmlFor="gracePeriod" className="block text-sm font-medium text-secondary">
+                      Old secret keeps working for
+                    </label>
+                    <select
+                      id="gracePeriod"
+                      value={gracePeriodHours}
+                      onChange={(e) => setGracePeriodHours(Number(e.target.value))}
+                      className="input-field mt-1"
+                      data-testid="grace-period-select"
+                    >
+                      {API_KEY_GRACE_PERIODS.map((period) => (
+                        <option key={period.hours} value={period.hours}>
+                          {period.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={handleRotate}
+                    disabled={rotating}
+                    className="btn-primary px-4 py-2 text-sm"
+                    data-testid="rotate-key-btn"
+                  >
+                    {rotating ? 'Rotating...' : 'Rotate Key'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
       </div>
     </div>
   );
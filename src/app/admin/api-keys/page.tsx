@@ -7,9 +7,12 @@ import Header from '@/components/navigation/Header';
 interface ApiKey {
   id: string;
   name: string;
+  keyPrefix: string | null;
   permissions: string[];
   organizationId: string | null;
   isActive: boolean;
+  expiresAt: string | null;
+  allowedCidrs: string[];
   lastUsedAt: string | null;
   createdAt: string;
   organization?: {
@@ -71,8 +74,10 @@ export default function ApiKeysListPage() {
     }
   };
 
-  const maskApiKey = (keyId: string) => {
-    return `ak_${'*'.repeat(8)}${keyId.slice(-4)}`;
+  // Prefixed keys show their public prefix, which appears in server logs; legacy
+  // keys have none and are slower to verify until they are replaced.
+  const maskApiKey = (keyPrefix: string) => {
+    return `sfk_${keyPrefix}_${'*'.repeat(8)}`;
   };
 
   if (loading) {
@@ -152,7 +157,13 @@ export default function ApiKeysListPage() {
                       {apiKey.name}
                     </td>
                     <td className="whitespace-nowrap text-sm text-muted font-mono">
-                      {maskApiKey(apiKey.id)}
+                      {apiKey.keyPrefix ? (
+                        maskApiKey(apiKey.keyPrefix)
+                      ) : (
+                        <span className="status-badge status-warning" title="Issued before key prefixes; replace it with a new key">
+                          Legacy
+                        </span>
+                      )}
                     </td>
                     <td className="whitespace-nowrap text-sm text-muted">
                       {apiKey.organization?.name || 'All Organizations'}
@@ -175,6 +186,16 @@ export default function ApiKeysListPage() {
                       }`}>
                         {apiKey.isActive ? 'Active' : 'Disabled'}
                       </span>
+                      {apiKey.expiresAt && (
+                        <div className={`text-xs mt-1 ${new Date(apiKey.expiresAt) <= new Date() ? 'text-error' : 'text-muted'}`}>
+                          {new Date(apiKey.expiresAt) <= new Date() ? 'Expired' : 'Expires'} {new Date(apiKey.expiresAt).toLocaleDateString()}
+                        </div>
+                      )}
+                      {apiKey.allowedCidrs.length > 0 && (
+                        <div className="text-xs mt-1 text-muted" title={apiKey.allowedCidrs.join(', ')}>
+                          {apiKey.allowedCidrs.length} IP range{apiKey.allowedCidrs.length !== 1 ? 's' : ''}
+                        </div>
+                      )}
                     </td>
                     <td className="whitespace-nowrap text-sm text-muted">
                       {apiKey.lastUsedAt
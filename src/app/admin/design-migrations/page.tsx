@@ -0,0 +1,187 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Header from '@/components/navigation/Header';
+import { formatDate } from '@/lib/formatDate';
+
+interface MigrationFailure {
+  designJobId: string;
+  objectId: string | null;
+  jobLabel: string | null;
+  organizationName: string;
+  createdAt: string;
+  isEnabled: boolean;
+  fromVersion: number;
+  reason: 'migration-error' | 'invalid-after-migration';
+  details: string[];
+}
+
+interface DesignMigrationReport {
+  designId: string;
+  designName: string;
+  currentVersion: number;
+  outdatedJobCount: number;
+  migratableJobCount: number;
+  failures: MigrationFailure[];
+}
+
+export default function DesignMigrationsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [reports, setReports] = useState<DesignMigrationReport[]>([]);
+  const [generatedAt, setGeneratedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session?.user || session.user.role !== 'SYSTEM_ADMIN') {
+      router.push('/');
+      return;
+    }
+    fetchReport();
+  }, [session, status, router]);
+
+  const fetchReport = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/design-migrations');
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to run migration dry run');
+      }
+      const data = await response.json();
+      setReports(data.designs);
+      setGeneratedAt(data.generatedAt);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const failures = reports.flatMap((report) => report.failures.map((failure) => ({ ...failure, report })));
+
+  return (
+    <div className="page-shell" data-testid="design-migrations-page">
+      <Header />
+      <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <div className="sm:flex sm:items-center mb-8">
+          <div className="sm:flex-auto">
+            <h1 className="page-title">Design Migrations</h1>
+            <p className="mt-2 text-sm text-muted">
+              Dry run of the parameter migrations for jobs created under an older design definition.
+              Nothing is changed; jobs are migrated for real when they are reprocessed or copied.
+            </p>
+          </div>
+          <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none">
+            <button
+              onClick={fetchReport}
+              disabled={loading}
+              className="btn-primary px-3 py-2 text-sm"
+              data-testid="run-dry-run-btn"
+            >
+              {loading ? 'Running...' : 'Run Dry Run'}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="alert-error mb-6" data-testid="alert-error">
+            Error: {error}
+          </div>
+        )}
+
+        <div className="card overflow-hidden mb-8">
+          <table className="data-table" data-testid="design-migrations-summary">
+            <thead>
+              <tr>
+                <th>Design</th>
+                <th>Definition</th>
+                <th>Older Jobs</th>
+                <th>Migrate Cleanly</th>
+                <th>Fail</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reports.map((report) => (
+                <tr key={report.designId}>
+                  <td className="whitespace-nowrap text-sm font-medium text-primary">{report.designName}</td>
+                  <td className="whitespace-nowrap text-sm text-muted">v{report.currentVersion}</td>
+                  <td className="whitespace-nowrap text-sm text-muted">{report.outdatedJobCount}</td>
+                  <td className="whitespace-nowrap text-sm text-muted">{report.migratableJobCount}</td>
+                  <td className="whitespace-nowrap text-sm">
+                    <span className={`status-badge ${report.failures.length > 0 ? 'status-error' : 'status-success'}`}>
+                      {report.failures.length}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <h2 className="text-lg font-medium text-primary mb-4">Jobs That Fail to Migrate</h2>
+        <div className="card overflow-hidden">
+          <table className="data-table" data-testid="design-migrations-failures">
+            <thead>
+              <tr>
+                <th>Job</th>
+                <th>Design</th>
+                <th>Organization</th>
+                <th>Created</th>
+                <th>From</th>
+                <th>Problem</th>
+              </tr>
+            </thead>
+            <tbody>
+              {failures.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-muted">
+                    {loading ? 'Running dry run...' : 'Every older job migrates cleanly.'}
+                  </td>
+                </tr>
+              ) : (
+                failures.map((failure) => (
+                  <tr key={failure.designJobId}>
+                    <td className="whitespace-nowrap text-sm">
+                      <Link href={`/design-jobs/${failure.designJobId}`} className="text-link hover:underline font-mono">
+                        {failure.objectId ?? failure.designJobId}
+                      </Link>
+                      {failure.jobLabel && <span className="ml-2 text-muted">{failure.jobLabel}</span>}
+                      {!failure.isEnabled && <span className="ml-2 status-badge status-neutral">Disabled</span>}
+                    </td>
+                    <td className="whitespace-nowrap text-sm text-muted">{failure.report.designName}</td>
+                    <td className="whitespace-nowrap text-sm text-muted">{failure.organizationName}</td>
+                    <td className="whitespace-nowrap text-sm text-muted">{formatDate(failure.createdAt)}</td>
+                    <td className="whitespace-nowrap text-sm text-muted">
+                      v{failure.fromVersion} &rarr; v{failure.report.currentVersion}
+                    </td>
+                    <td className="text-sm">
+                      <span className={`status-badge ${failure.reason === 'migration-error' ? 'status-error' : 'status-warning'}`}>
+                        {failure.reason === 'migration-error' ? 'Migration error' : 'Invalid after migration'}
+                      </span>
+                      <ul className="mt-1 text-xs text-muted list-disc list-inside">
+                        {failure.details.map((detail) => (
+                          <li key={detail}>{detail}</li>
+                        ))}
+                      </ul>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {generatedAt && (
+          <p className="mt-4 text-xs text-muted">Generated {formatDate(generatedAt)}</p>
+        )}
+      </div>
+    </div>
+  );
+}
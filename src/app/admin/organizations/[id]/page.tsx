@@ -150,13 +150,29 @@ export default function OrganizationViewPage({
                     )}
                   </p>
                 </div>
-                <Link
-                  href={`/admin/organizations/${orgId}/edit`}
-                  className="btn-primary px-4 py-2 text-sm"
-                  data-testid="edit-org-btn"
-                >
-                  Edit
-                </Link>
+                <div className="flex gap-2">
+                  <Link
+                    href={`/admin/organizations/${orgId}/presets`}
+                    className="btn-neutral px-4 py-2 text-sm"
+                    data-testid="design-presets-btn"
+                  >
+                    Design Presets
+                  </Link>
+                  <Link
+                    href={`/admin/organizations/${orgId}/webhooks`}
+                    className="btn-neutral px-4 py-2 text-sm"
+                    data-testid="webhooks-btn"
+                  >
+                    Webhooks
+                  </Link>
+                  <Link
+                    href={`/admin/organizations/${orgId}/edit`}
+                    className="btn-primary px-4 py-2 text-sm"
+                    data-testid="edit-org-btn"
+                  >
+                    Edit
+                  </Link>
+                </div>
               </div>
             </div>
 
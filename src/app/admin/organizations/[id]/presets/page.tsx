@@ -0,0 +1,560 @@
+'use client';
+
+import { useState, useEffect, use } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Header from '@/components/navigation/Header';
+import ValidationSummary from '@/components/forms/ValidationSummary';
+import { useFormValidation } from '@/lib/formValidation';
+import { formatDate } from '@/lib/formatDate';
+import type { InputParameter, NumericInputParameter } from '@/types/design-input-parameter';
+import {
+  PRESET_NAME_MAX_LENGTH,
+  isPresettableParameter,
+  type DesignPresetData,
+  type PresetFields,
+  type PresetFieldSettings,
+} from '@/designs/presets';
+import { DEFAULT_MEASUREMENT_MODE, describeEntryUnit } from '@/designs/units';
+
+interface OrgDesign {
+  id: string;
+  name: string;
+  inputParameters: InputParameter[];
+}
+
+interface PresetRow extends DesignPresetData {
+  updatedAt: string;
+  createdBy: { name: string | null; email: string };
+}
+
+// Form state per parameter, kept as entered; empty strings mean "not set".
+interface FieldDraft {
+  value: string;
+  locked: boolean;
+  min: string;
+  max: string;
+}
+
+interface PresetDraft {
+  id: string | null;
+  name: string;
+  isDefault: boolean;
+  fields: Record<string, FieldDraft>;
+}
+
+const EMPTY_FIELD: FieldDraft = { value: '', locked: false, min: '', max: '' };
+
+function isNumeric(param: InputParameter): param is NumericInputParameter {
+  return param.InputType === 'Float' || param.InputType === 'Integer';
+}
+
+function toDraft(params: InputParameter[], preset: DesignPresetData | null): PresetDraft {
+  const fields: Record<string, FieldDraft> = {};
+  for (const param of params) {
+    const settings = preset?.fields[param.InputName];
+    fields[param.InputName] = {
+      value: settings?.value === undefined ? '' : String(settings.value),
+      locked: settings?.locked ?? false,
+      min: settings?.min === undefined ? '' : String(settings.min),
+      max: settings?.max === undefined ? '' : String(settings.max),
+    };
+  }
+  return { id: preset?.id ?? null, name: preset?.name ?? '', isDefault: preset?.isDefault ?? false, fields };
+}
+
+// Numbers that don't parse are sent as typed so the server reports them against the field.
+function toNumber(raw: string): number | string {
+  const parsed = Number(raw);
+  return raw.trim() !== '' && Number.isFinite(parsed) ? parsed : raw;
+}
+
+function toPresetFields(params: InputParameter[], draft: PresetDraft): PresetFields {
+  const fields: PresetFields = {};
+  for (const param of params) {
+    const field = draft.fields[param.InputName] ?? EMPTY_FIELD;
+    const settings: Record<string, unknown> = {};
+    if (field.value !== '') {
+      settings.value = isNumeric(param)
+        ? toNumber(field.value)
+        : param.InputType === 'Boolean' ? field.value === 'true' : field.value;
+    }
+    if (field.locked) settings.locked = true;
+    if (isNumeric(param) && field.min !== '') settings.min = toNumber(field.min);
+    if (isNumeric(param) && field.max !== '') settings.max = toNumber(field.max);
+    if (Object.keys(settings).length > 0) {
+      fields[param.InputName] = settings as PresetFieldSettings;
+    }
+  }
+  return fields;
+}
+
+function describeFields(params: InputParameter[], fields: PresetFields): string {
+  const parts = params
+    .filter((param) => fields[param.InputName])
+    .map((param) => {
+      const settings = fields[param.InputName];
+      const label = param.InputDescription || param.InputName;
+      const range = isNumeric(param) && (settings.min !== undefined || settings.max !== undefined)
+        ? ` [${settings.min ?? param.NumberMin ?? 'any'} - ${settings.max ?? param.NumberMax ?? 'any'}]`
+        : '';
+      const value = settings.value !== undefined ? ` = ${String(settings.value)}` : '';
+      return `${label}${value}${settings.locked ? ' (locked)' : ''}${range}`;
+    });
+  return parts.length > 0 ? parts.join('; ') : 'No fields set';
+}
+
+export default function OrganizationPresetsPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const resolvedParams = use(params);
+  const orgId = resolvedParams.id;
+
+  const [designs, setDesigns] = useState<OrgDesign[]>([]);
+  const [selectedDesignId, setSelectedDesignId] = useState('');
+  const [presets, setPresets] = useState<PresetRow[]>([]);
+  const [draft, setDraft] = useState<PresetDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const validation = useFormValidation();
+
+  const selectedDesign = designs.find((design) => design.id === selectedDesignId) ?? null;
+  const presettableParams = selectedDesign?.inputParameters.filter(isPresettableParameter) ?? [];
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session?.user) {
+      router.push('/login');
+      return;
+    }
+    fetchDesigns();
+  }, [status, session, router, orgId]);
+
+  const fetchDesigns = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/organizations/${orgId}/designs?includeSchema=true`);
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to load designs');
+      }
+      const data: OrgDesign[] = await res.json();
+      setDesigns(data);
+      if (data.length > 0) {
+        selectDesign(data[0].id);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectDesign = (designId: string) => {
+    setSelectedDesignId(designId);
+    fetchPresets(designId);
+  };
+
+  const fetchPresets = async (designId: string) => {
+    setDraft(null);
+    validation.clearAll();
+    try {
+      const res = await fetch(`/api/organizations/${orgId}/designs/${designId}/presets`);
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to load presets');
+      }
+      setPresets(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const updateField = (name: string, patch: Partial<FieldDraft>) => {
+    setDraft((prev) => prev && {
+      ...prev,
+      fields: { ...prev.fields, [name]: { ...(prev.fields[name] ?? EMPTY_FIELD), ...patch } },
+    });
+    validation.clearError(name);
+  };
+
+  const savePreset = async () => {
+    if (!draft || !selectedDesign) return;
+    const isValid = validation.runValidation(() => {
+      const errors: Record<string, string> = {};
+      if (!draft.name.trim()) errors.name = 'Preset name is required';
+      return errors;
+    });
+    if (!isValid) return;
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const base = `/api/organizations/${orgId}/designs/${selectedDesign.id}/presets`;
+      const res = await fetch(draft.id ? `${base}/${draft.id}` : base, {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name.trim(),
+          isDefault: draft.isDefault,
+          fields: toPresetFields(presettableParams, draft),
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        if (data.fieldErrors && Object.keys(data.fieldErrors).length > 0) {
+          validation.setErrors(data.fieldErrors);
+          validation.scrollToErrors();
+          return;
+        }
+        throw new Error(data.error || 'Failed to save preset');
+      }
+      setSuccess(`Preset "${draft.name.trim()}" saved.`);
+      await fetchPresets(selectedDesign.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deletePreset = async (preset: PresetRow) => {
+    if (!selectedDesign || !confirm(`Delete the "${preset.name}" preset? Jobs already created from it keep their values.`)) {
+      return;
+    }
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch(`/api/organizations/${orgId}/designs/${selectedDesign.id}/presets/${preset.id}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to delete preset');
+      }
+      setSuccess(`Preset "${preset.name}" deleted.`);
+      await fetchPresets(selectedDesign.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const renderValueInput = (param: InputParameter, field: FieldDraft) => {
+    const common = {
+      value: field.value,
+      className: `input-field text-sm ${validation.errors[param.InputName] ? 'input-field-error' : ''}`,
+      'data-testid': `preset-value-${param.InputName}`,
+    };
+    if (param.InputType === 'Boolean') {
+      return (
+        <select {...common} onChange={(e) => updateField(param.InputName, { value: e.target.value })}>
+          <option value="">Not set</option>
+          <option value="true">Yes</option>
+          <option value="false">No</option>
+        </select>
+      );
+    }
+    if (param.InputType === 'Enum') {
+      return (
+        <select {...common} onChange={(e) => updateField(param.InputName, { value: e.target.value })}>
+          <option value="">Not set</option>
+          {param.EnumOptions.map((option) => (
+            <option key={option.Value} value={option.Value}>{option.Label ?? option.Value}</option>
+          ))}
+        </select>
+      );
+    }
+    return (
+      <input
+        {...common}
+        type="text"
+        inputMode={isNumeric(param) ? 'decimal' : undefined}
+        onChange={(e) => updateField(param.InputName, { value: e.target.value })}
+      />
+    );
+  };
+
+  if (loading || status === 'loading') {
+    return (
+      <div className="page-shell" data-testid="org-presets-loading">
+        <Header />
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="text-center text-muted">Loading...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="page-shell" data-testid="org-presets-page">
+      <Header />
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <button
+          onClick={() => router.push(`/admin/organizations/${orgId}`)}
+          className="text-sm text-link hover:underline mb-4 inline-block"
+          data-testid="back-btn"
+        >
+          &larr; Back to Organization
+        </button>
+
+        <div className="mb-6">
+          <h1 className="page-title">Design Presets</h1>
+          <p className="mt-2 text-sm text-muted">
+            Named starting points for new jobs. A preset can prefill values, lock fields so they
+            can&apos;t be changed, and narrow the allowed range of numeric parameters. Values and
+            ranges are in the design&apos;s canonical units (mm, degrees).
+          </p>
+        </div>
+
+        {error && (
+          <div className="alert-error mb-4 flex items-center justify-between" data-testid="alert-error">
+            <span>{error}</span>
+            <button onClick={() => setError(null)} className="ml-2 hover:opacity-70" data-testid="dismiss-error-btn">
+              x
+            </button>
+          </div>
+        )}
+        {success && (
+          <div className="alert-success mb-4" data-testid="alert-success">
+            {success}
+          </div>
+        )}
+
+        {designs.length === 0 ? (
+          <div className="card px-6 py-8 text-center text-muted">
+            No splint designs are visible to this organization yet.
+          </div>
+        ) : (
+          <>
+            <div className="card mb-6">
+              <div className="px-6 py-4">
+                <label className="block text-sm font-medium text-secondary mb-1" htmlFor="preset-design">
+                  Design
+                </label>
+                <select
+                  id="preset-design"
+                  value={selectedDesignId}
+                  onChange={(e) => selectDesign(e.target.value)}
+                  className="input-field text-sm"
+                  data-testid="preset-design-select"
+                >
+                  {designs.map((design) => (
+                    <option key={design.id} value={design.id}>{design.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="card mb-6" data-testid="presets-card">
+              <div className="card-header flex justify-between items-center">
+                <h2 className="text-lg font-medium text-primary">Presets</h2>
+                {presettableParams.length > 0 && (
+                  <button
+                    onClick={() => {
+                      validation.clearAll();
+                      setDraft(toDraft(presettableParams, null));
+                    }}
+                    className="btn-primary px-4 py-2 text-sm"
+                    data-testid="new-preset-btn"
+                  >
+                    New Preset
+                  </button>
+                )}
+              </div>
+
+              {presettableParams.length === 0 ? (
+                <div className="px-6 py-8 text-center text-muted">
+                  This design has no parameters that can be preset.
+                </div>
+              ) : presets.length === 0 ? (
+                <div className="px-6 py-8 text-center text-muted">
+                  No presets for this design yet.
+                </div>
+              ) : (
+                <table className="data-table" data-testid="presets-table">
+                  <thead>
+                    <tr>
+                      <th>Name</th>
+                      <th>Fields</th>
+                      <th>Updated</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {presets.map((preset) => (
+                      <tr key={preset.id} data-testid="preset-row">
+                        <td className="whitespace-nowrap text-sm font-medium text-primary">
+                          {preset.name}
+                          {preset.isDefault && <span className="ml-2 status-badge status-success">Default</span>}
+                        </td>
+                        <td className="text-sm text-muted">{describeFields(presettableParams, preset.fields)}</td>
+                        <td className="whitespace-nowrap text-sm text-muted">
+                          {formatDate(preset.updatedAt)}
+                          <div className="text-xs">{preset.createdBy.name || preset.createdBy.email}</div>
+                        </td>
+                        <td className="whitespace-nowrap text-sm text-right">
+                          <button
+                            onClick={() => {
+                              validation.clearAll();
+                              setDraft(toDraft(presettableParams, preset));
+                            }}
+                            className="text-link hover:underline mr-3"
+                            data-testid="edit-preset-btn"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => deletePreset(preset)}
+                            className="text-error hover:underline"
+                            data-testid="delete-preset-btn"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {draft && (
+              <div className="card" data-testid="preset-editor">
+                <div className="card-header flex justify-between items-center">
+                  <h2 className="text-lg font-medium text-primary">
+                    {draft.id ? 'Edit Preset' : 'New Preset'}
+                  </h2>
+                  <div className="flex gap-2">
+                    <button onClick={() => setDraft(null)} className="btn-neutral px-4 py-2 text-sm" data-testid="cancel-preset-btn">
+                      Cancel
+                    </button>
+                    <button
+                      onClick={savePreset}
+                      disabled={saving}
+                      className="btn-primary px-4 py-2 text-sm"
+                      data-testid="save-preset-btn"
+                    >
+                      {saving ? 'Saving...' : 'Save Preset'}
+                    </button>
+                  </div>
+                </div>
+                <div className="px-6 py-4 space-y-4">
+                  <ValidationSummary
+                    errors={validation.errors}
+                    summaryRef={validation.summaryRef}
+                    message="The preset could not be saved:"
+                    testId="preset-validation-summary"
+                    showDetails
+                  />
+                  <div>
+                    <label className="block text-sm font-medium text-secondary mb-1" htmlFor="preset-name">
+                      Name
+                    </label>
+                    <input
+                      id="preset-name"
+                      type="text"
+                      value={draft.name}
+                      maxLength={PRESET_NAME_MAX_LENGTH}
+                      onChange={(e) => {
+                        setDraft({ ...draft, name: e.target.value });
+                        validation.clearError('name');
+                      }}
+                      className={`input-field text-sm ${validation.errors.name ? 'input-field-error' : ''}`}
+                      data-testid="preset-name-input"
+                    />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <input
+                      id="preset-default"
+                      type="checkbox"
+                      checked={draft.isDefault}
+                      onChange={(e) => setDraft({ ...draft, isDefault: e.target.checked })}
+                      className="h-4 w-4 rounded"
+                      data-testid="preset-default-checkbox"
+                    />
+                    <label htmlFor="preset-default" className="text-sm text-secondary">
+                      Apply by default when this design is chosen for a new job
+                    </label>
+                  </div>
+
+                  <table className="data-table" data-testid="preset-fields-table">
+                    <thead>
+                      <tr>
+                        <th>Parameter</th>
+                        <th>Value</th>
+                        <th>Locked</th>
+                        <th>Min</th>
+                        <th>Max</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {presettableParams.map((param) => {
+                        const field = draft.fields[param.InputName] ?? EMPTY_FIELD;
+                        const unit = describeEntryUnit(param, DEFAULT_MEASUREMENT_MODE);
+                        return (
+                          <tr key={param.InputName} data-testid={`preset-field-${param.InputName}`}>
+                            <td className="text-sm text-primary">
+                              {param.InputDescription || param.InputName}
+                              {isNumeric(param) && (
+                                <div className="text-xs text-muted">
+                                  {param.NumberMin ?? 'any'} - {param.NumberMax ?? 'any'}{unit ? ` ${unit}` : ''}
+                                </div>
+                              )}
+                            </td>
+                            <td className="text-sm">{renderValueInput(param, field)}</td>
+                            <td className="text-sm">
+                              <input
+                                type="checkbox"
+                                checked={field.locked}
+                                onChange={(e) => updateField(param.InputName, { locked: e.target.checked })}
+                                className="h-4 w-4 rounded"
+                                data-testid={`preset-locked-${param.InputName}`}
+                              />
+                            </td>
+                            <td className="text-sm">
+                              {isNumeric(param) && (
+                                <input
+                                  type="text"
+                                  inputMode="decimal"
+                                  value={field.min}
+                                  onChange={(e) => updateField(param.InputName, { min: e.target.value })}
+                                  className="input-field text-sm w-24"
+                                  data-testid={`preset-min-${param.InputName}`}
+                                />
+                              )}
+                            </td>
+                            <td className="text-sm">
+                              {isNumeric(param) && (
+                                <input
+                                  type="text"
+                                  inputMode="decimal"
+                                  value={field.max}
+                                  onChange={(e) => updateField(param.InputName, { max: e.target.value })}
+                                  className="input-field text-sm w-24"
+                                  data-testid={`preset-max-${param.InputName}`}
+                                />
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,494 @@
+'use client';
+
+import { useState, useEffect, use } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Header from '@/components/navigation/Header';
+import ValidationSummary from '@/components/forms/ValidationSummary';
+import { useFormValidation } from '@/lib/formValidation';
+import { formatDate } from '@/lib/formatDate';
+import { WEBHOOK_EVENTS, type WebhookEventType } from '@/lib/webhook-events';
+
+interface WebhookEndpointRow {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  description: string | null;
+  isActive: boolean;
+  createdAt: string;
+  createdBy: { name: string | null; email: string };
+}
+
+interface WebhookDeliveryRow {
+  id: string;
+  eventType: string;
+  payload: unknown;
+  status: 'PENDING' | 'SUCCEEDED' | 'FAILED';
+  attemptCount: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: string;
+}
+
+interface WebhookDraft {
+  id: string | null;
+  url: string;
+  description: string;
+  events: WebhookEventType[];
+}
+
+const DELIVERY_STATUS_CLASS: Record<WebhookDeliveryRow['status'], string> = {
+  PENDING: 'status-pending',
+  SUCCEEDED: 'status-success',
+  FAILED: 'status-error',
+};
+
+export default function OrganizationWebhooksPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const resolvedParams = use(params);
+  const orgId = resolvedParams.id;
+
+  const [endpoints, setEndpoints] = useState<WebhookEndpointRow[]>([]);
+  const [draft, setDraft] = useState<WebhookDraft | null>(null);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [logEndpointId, setLogEndpointId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryRow[]>([]);
+  const [expandedDeliveryId, setExpandedDeliveryId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const validation = useFormValidation();
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session?.user) {
+      router.push('/login');
+      return;
+    }
+    fetchEndpoints();
+  }, [status, session, router, orgId]);
+
+  const fetchEndpoints = async () => {
+    try {
+      const res = await fetch(`/api/organizations/${orgId}/webhooks`);
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to load webhooks');
+      }
+      setEndpoints(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchDeliveries = async (endpointId: string) => {
+    try {
+      const res = await fetch(`/api/organizations/${orgId}/webhooks/${endpointId}/deliveries`);
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to load deliveries');
+      }
+      setDeliveries(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const showLog = (endpointId: string) => {
+    setLogEndpointId(endpointId);
+    setExpandedDeliveryId(null);
+    setDeliveries([]);
+    fetchDeliveries(endpointId);
+  };
+
+  const editEndpoint = (endpoint: WebhookEndpointRow | null) => {
+    validation.clearAll();
+    setSuccess(null);
+    setNewSecret(null);
+    setDraft({
+      id: endpoint?.id ?? null,
+      url: endpoint?.url ?? '',
+      description: endpoint?.description ?? '',
+      events: endpoint?.events ?? WEBHOOK_EVENTS.map((event) => event.type),
+    });
+  };
+
+  const toggleEvent = (type: WebhookEventType) => {
+    setDraft((prev) => prev && {
+      ...prev,
+      events: prev.events.includes(type) ? prev.events.filter((event) => event !== type) : [...prev.events, type],
+    });
+    validation.clearError('events');
+  };
+
+  const saveEndpoint = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const base = `/api/organizations/${orgId}/webhooks`;
+      const res = await fetch(draft.id ? `${base}/${draft.id}` : base, {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: draft.url, description: draft.description, events: draft.events }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        if (data.fieldErrors && Object.keys(data.fieldErrors).length > 0) {
+          validation.setErrors(data.fieldErrors);
+          validation.scrollToErrors();
+          return;
+        }
+        throw new Error(data.error || 'Failed to save webhook');
+      }
+      if (data.secret) {
+        setNewSecret(data.secret);
+      }
+      setSuccess(`Webhook for ${data.url} saved.`);
+      setDraft(null);
+      await fetchEndpoints();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setActive = async (endpoint: WebhookEndpointRow, isActive: boolean) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/organizations/${orgId}/webhooks/${endpoint.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to update webhook');
+      }
+      await fetchEndpoints();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const deleteEndpoint = async (endpoint: WebhookEndpointRow) => {
+    if (!confirm(`Delete the webhook for ${endpoint.url}? Its delivery log is deleted too.`)) {
+      return;
+    }
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch(`/api/organizations/${orgId}/webhooks/${endpoint.id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to delete webhook');
+      }
+      if (logEndpointId === endpoint.id) {
+        setLogEndpointId(null);
+      }
+      setSuccess(`Webhook for ${endpoint.url} deleted.`);
+      await fetchEndpoints();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  // Test sends and redeliveries go out in the background; the log is reloaded shortly
+  // after so the first attempt's result is usually there.
+  const sendAndShowLog = async (endpointId: string, url: string, failureMessage: string) => {
+    setError(null);
+    try {
+      const res = await fetch(url, { method: 'POST' });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || failureMessage);
+      }
+      setLogEndpointId(endpointId);
+      setTimeout(() => fetchDeliveries(endpointId), 1500);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const logEndpoint = endpoints.find((endpoint) => endpoint.id === logEndpointId) ?? null;
+
+  if (loading) {
+    return (
+      <div className="page-shell">
+        <Header />
+        <div className="page-content">
+          <div className="text-center text-secondary">Loading webhooks...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="page-shell" data-testid="org-webhooks-page">
+      <Header />
+      <div className="page-content">
+        <div className="sm:flex sm:items-center mb-8">
+          <div className="sm:flex-auto">
+            <Link href={`/admin/organizations/${orgId}`} className="text-link hover:underline text-sm">
+              &larr; Back to organization
+            </Link>
+            <h1 className="page-title mt-2">Webhooks</h1>
+            <p className="mt-2 text-sm text-muted">
+              Endpoints that receive a signed POST when this organization&apos;s design jobs and prints change state.
+              Verify the <code>X-Splint-Signature</code> header with the endpoint&apos;s secret.
+            </p>
+          </div>
+          <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none">
+            <button onClick={() => editEndpoint(null)} className="btn-primary px-3 py-2 text-sm" data-testid="new-webhook-btn">
+              New Webhook
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="alert-error mb-6" data-testid="alert-error">
+            Error: {error}
+          </div>
+        )}
+        {success && (
+          <div className="alert-success mb-6" data-testid="alert-success">
+            {success}
+          </div>
+        )}
+        {newSecret && (
+          <div className="alert-success mb-6" data-testid="webhook-secret">
+            Signing secret (shown only once; store it with your receiver):
+            <div className="mt-2 font-mono text-sm break-all select-all">{newSecret}</div>
+          </div>
+        )}
+
+        {draft && (
+          <div className="card mb-8" data-testid="webhook-editor">
+            <div className="card-header flex justify-between items-center">
+              <h2 className="text-lg font-medium text-primary">{draft.id ? 'Edit Webhook' : 'New Webhook'}</h2>
+              <div className="flex gap-2">
+                <button onClick={() => setDraft(null)} className="btn-neutral px-4 py-2 text-sm">
+                  Cancel
+                </button>
+                <button onClick={saveEndpoint} disabled={saving} className="btn-primary px-4 py-2 text-sm" data-testid="save-webhook-btn">
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+            <div className="px-6 py-4 space-y-4">
+              <ValidationSummary
+                errors={validation.errors}
+                summaryRef={validation.summaryRef}
+                message="The webhook could not be saved:"
+                testId="webhook-validation-summary"
+                showDetails
+              />
+              <div>
+                <label htmlFor="webhookUrl" className="block text-sm font-medium text-secondary mb-1">
+                  URL
+                </label>
+                <input
+                  id="webhookUrl"
+                  type="url"
+                  value={draft.url}
+                  onChange={(e) => {
+                    setDraft({ ...draft, url: e.target.value });
+                    validation.clearError('url');
+                  }}
+                  placeholder="https://"
+                  className={`input-field text-sm ${validation.errors.url ? 'input-field-error' : ''}`}
+                  data-testid="webhook-url-input"
+                />
+              </div>
+              <div>
+                <label htmlFor="webhookDescription" className="block text-sm font-medium text-secondary mb-1">
+                  Description
+                </label>
+                <input
+                  id="webhookDescription"
+                  type="text"
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  className="input-field text-sm"
+                  data-testid="webhook-description-input"
+                />
+              </div>
+              <fieldset>
+                <legend className="block text-sm font-medium text-secondary mb-1">Events</legend>
+                <div className="space-y-1">
+                  {WEBHOOK_EVENTS.map((event) => (
+                    <label key={event.type} className="flex items-start gap-2 text-sm text-primary">
+                      <input
+                        type="checkbox"
+                        checked={draft.events.includes(event.type)}
+                        onChange={() => toggleEvent(event.type)}
+                        className="mt-1"
+                        data-testid={`webhook-event-${event.type}`}
+                      />
+                      <span>
+                        {event.label} <code className="text-xs text-muted">{event.type}</code>
+                        <div className="text-xs text-muted">{event.description}</div>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            </div>
+          </div>
+        )}
+
+        <div className="card overflow-hidden mb-8">
+          <table className="data-table" data-testid="webhooks-table">
+            <thead>
+              <tr>
+                <th>URL</th>
+                <th>Events</th>
+                <th>Status</th>
+                <th>Created</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {endpoints.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-center text-muted">No webhooks yet.</td>
+                </tr>
+              ) : (
+                endpoints.map((endpoint) => (
+                  <tr key={endpoint.id} data-testid="webhook-row">
+                    <td className="text-sm text-primary font-mono break-all">
+                      {endpoint.url}
+                      {endpoint.description && <div className="text-xs text-muted font-sans">{endpoint.description}</div>}
+                    </td>
+                    <td className="text-xs text-muted">{endpoint.events.join(', ')}</td>
+                    <td className="whitespace-nowrap">
+                      <span className={`status-badge ${endpoint.isActive ? 'status-success' : 'status-neutral'}`}>
+                        {endpoint.isActive ? 'Active' : 'Disabled'}
+                      </span>
+                    </td>
+                    <td className="whitespace-nowrap text-sm text-muted">
+                      {formatDate(endpoint.createdAt)}
+                      <div className="text-xs">{endpoint.createdBy.name || endpoint.createdBy.email}</div>
+                    </td>
+                    <td className="whitespace-nowrap text-sm text-right space-x-3">
+                      <button onClick={() => showLog(endpoint.id)} className="text-link hover:underline" data-testid="webhook-log-btn">
+                        Deliveries
+                      </button>
+                      <button
+                        onClick={() => sendAndShowLog(endpoint.id, `/api/organizations/${orgId}/webhooks/${endpoint.id}/test`, 'Failed to send test')}
+                        className="text-link hover:underline"
+                        data-testid="webhook-test-btn"
+                      >
+                        Send Test
+                      </button>
+                      <button onClick={() => editEndpoint(endpoint)} className="text-link hover:underline" data-testid="edit-webhook-btn">
+                        Edit
+                      </button>
+                      <button onClick={() => setActive(endpoint, !endpoint.isActive)} className="text-link hover:underline" data-testid="toggle-webhook-btn">
+                        {endpoint.isActive ? 'Disable' : 'Enable'}
+                      </button>
+                      <button onClick={() => deleteEndpoint(endpoint)} className="text-error hover:underline" data-testid="delete-webhook-btn">
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {logEndpoint && (
+          <div className="card overflow-hidden" data-testid="webhook-deliveries">
+            <div className="card-header flex justify-between items-center">
+              <h2 className="text-lg font-medium text-primary">
+                Deliveries <span className="text-sm font-mono text-muted">{logEndpoint.url}</span>
+              </h2>
+              <button onClick={() => fetchDeliveries(logEndpoint.id)} className="btn-neutral px-3 py-1 text-sm">
+                Refresh
+              </button>
+            </div>
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Event</th>
+                  <th>Status</th>
+                  <th>Attempts</th>
+                  <th>Response</th>
+                  <th>Created</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-4 text-center text-muted">No deliveries yet.</td>
+                  </tr>
+                ) : (
+                  deliveries.map((delivery) => [
+                    <tr key={delivery.id} data-testid="webhook-delivery-row">
+                      <td className="text-sm font-mono text-primary">{delivery.eventType}</td>
+                      <td className="whitespace-nowrap">
+                        <span className={`status-badge ${DELIVERY_STATUS_CLASS[delivery.status]}`}>{delivery.status}</span>
+                        {delivery.status === 'PENDING' && delivery.nextAttemptAt && (
+                          <div className="text-xs text-muted mt-1">Next try {formatDate(delivery.nextAttemptAt)}</div>
+                        )}
+                      </td>
+                      <td className="text-sm text-muted">{delivery.attemptCount}</td>
+                      <td className="text-sm text-muted">
+                        {delivery.responseStatus ?? '-'}
+                        {delivery.lastError && <div className="text-xs text-error break-all">{delivery.lastError}</div>}
+                      </td>
+                      <td className="whitespace-nowrap text-sm text-muted">{formatDate(delivery.createdAt)}</td>
+                      <td className="whitespace-nowrap text-sm text-right space-x-3">
+                        <button
+                          onClick={() => setExpandedDeliveryId(expandedDeliveryId === delivery.id ? null : delivery.id)}
+                          className="text-link hover:underline"
+                        >
+                          Payload
+                        </button>
+                        <button
+                          onClick={() => sendAndShowLog(
+                            logEndpoint.id,
+                            `/api/organizations/${orgId}/webhooks/${logEndpoint.id}/deliveries/${delivery.id}/redeliver`,
+                            'Failed to redeliver',
+                          )}
+                          className="text-link hover:underline"
+                          data-testid="webhook-redeliver-btn"
+                        >
+                          Redeliver
+                        </button>
+                      </td>
+                    </tr>,
+                    expandedDeliveryId === delivery.id && (
+                      <tr key={`${delivery.id}-payload`}>
+                        <td colSpan={6}>
+                          <pre className="text-xs text-secondary whitespace-pre-wrap break-all">
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </pre>
+                        </td>
+                      </tr>
+                    ),
+                  ])
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import React, { useEffect, useState } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import Header from '@/components/navigation/Header';
 
 interface ProcessorStatus {
@@ -13,6 +14,19 @@ interface ProcessorStatus {
   keepWarmRemainingSeconds: number;
 }
 
+interface ProcessorInstance extends ProcessorStatus {
+  id: string;
+  name: string;
+  apiKeyId: string | null;
+  isActive: boolean;
+  capabilities: { algorithmName: string; generatorVersions?: string[] }[] | null;
+  currentJob: {
+    id: string;
+    objectId: string | null;
+    designName: string;
+  } | null;
+}
+
 interface QueueSummary {
   neverStartedCount: number;
   stuckJobsCount: number;
@@ -46,6 +60,8 @@ interface Job {
   processCompletedAt?: string;
   isProcessSuccessful?: boolean;
   isDebugRequest?: boolean;
+  leaseOwner?: string | null;
+  attemptCount?: number;
   objectId: string | null;
   design: {
     name: string;
@@ -95,6 +111,7 @@ interface SiteAlertApiUser {
 interface QueueData {
   timestamp: string;
   processor: ProcessorStatus;
+  processors: ProcessorInstance[];
   summary: QueueSummary;
   metrics: Metrics;
   queues: {
@@ -126,6 +143,36 @@ interface MoreInfoRow {
   };
 }
 
+interface DesignSyncIssue {
+  designId: string;
+  designName: string;
+  kind: 'missing' | 'name-mismatch' | 'algorithm-mismatch' | 'active-mismatch' | 'name-conflict' | 'removed-still-active';
+  codeValue?: string;
+  databaseValue?: string;
+}
+
+interface DesignSyncReport {
+  issues: DesignSyncIssue[];
+  removedDesigns: Array<{
+    id: string;
+    name: string;
+    algorithmName: string;
+    isActive: boolean;
+    removedFromCodeAt: string | null;
+    jobCount: number;
+  }>;
+  lastSyncedAt: string | null;
+}
+
+const DESIGN_SYNC_ISSUE_LABELS: Record<DesignSyncIssue['kind'], string> = {
+  'missing': 'No database row',
+  'name-mismatch': 'Name differs',
+  'algorithm-mismatch': 'Algorithm differs',
+  'active-mismatch': 'Active flag differs',
+  'name-conflict': 'Name used by another row',
+  'removed-still-active': 'Removed from code, still active',
+};
+
 export default function SystemStatusPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -145,6 +192,10 @@ export default function SystemStatusPage() {
   const [moreInfoExpanded, setMoreInfoExpanded] = useState<string | null>(null);
   const [digestSending, setDigestSending] = useState(false);
   const [digestResult, setDigestResult] = useState<string | null>(null);
+  const [updatingProcessorId, setUpdatingProcessorId] = useState<string | null>(null);
+  const [designSync, setDesignSync] = useState<DesignSyncReport | null>(null);
+  const [designSyncRunning, setDesignSyncRunning] = useState(false);
+  const [designSyncResult, setDesignSyncResult] = useState<string | null>(null);
 
   useEffect(() => {
     if (status === 'loading') return;
@@ -157,6 +208,7 @@ export default function SystemStatusPage() {
     fetchQueueStatus();
     fetchSiteAlertAdmins();
     fetchMoreInfoRequests();
+    fetchDesignSync();
   }, [session, status, router]);
 
   const fetchQueueStatus = async () => {
@@ -166,6 +218,7 @@ export default function SystemStatusPage() {
       const data = await response.json();
       setQueueData({
         ...data,
+        processors: data.processors || [],
         internalTasks: data.internalTasks || [],
       });
       setMaintenanceEnabled(data.maintenance.maintenanceModeEnabled);
@@ -214,6 +267,39 @@ export default function SystemStatusPage() {
     }
   };
 
+  const fetchDesignSync = async () => {
+    try {
+      const response = await fetch('/api/admin/design-sync');
+      if (!response.ok) {
+        console.error('[Admin] design-sync fetch failed:', response.status, await response.text());
+        return;
+      }
+      setDesignSync(await response.json() as DesignSyncReport);
+    } catch (err) {
+      console.error('[Admin] design-sync fetch error:', err);
+    }
+  };
+
+  const handleReconcileDesigns = async () => {
+    setDesignSyncRunning(true);
+    setDesignSyncResult(null);
+    try {
+      const response = await fetch('/api/admin/design-sync', { method: 'POST' });
+      const payload = await response.json();
+      if (!response.ok) throw new Error(payload.error || 'Failed to reconcile designs');
+      const { created, updated, deactivated, conflicts } = payload.result;
+      setDesignSyncResult(
+        `${created.length} created, ${updated.length} updated, ${deactivated.length} deactivated` +
+        (conflicts.length > 0 ? `, ${conflicts.length} name conflict(s) need a manual fix.` : '.'),
+      );
+      setDesignSync(payload.report);
+    } catch (err) {
+      setDesignSyncResult(err instanceof Error ? err.message : 'Failed to reconcile designs');
+    } finally {
+      setDesignSyncRunning(false);
+    }
+  };
+
   const handleDownloadMoreInfoCsv = async () => {
     const response = await fetch('/api/admin/more-info-requests', { method: 'POST' });
     if (!response.ok) return;
@@ -276,6 +362,30 @@ export default function SystemStatusPage() {
     }
   };
 
+  const handleProcessorActiveToggle = async (processorId: string, isActive: boolean) => {
+    setUpdatingProcessorId(processorId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/processors/${processorId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive }),
+      });
+
+      const payload = await response.json();
+      if (!response.ok) {
+        throw new Error(payload.error || 'Failed to update processor');
+      }
+
+      await fetchQueueStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update processor');
+    } finally {
+      setUpdatingProcessorId(null);
+    }
+  };
+
   const handleSendDigestNow = async () => {
     setDigestSending(true);
     setDigestResult(null);
@@ -348,6 +458,7 @@ export default function SystemStatusPage() {
         const statusData = await statusResp.json();
         setQueueData({
           ...statusData,
+          processors: statusData.processors || [],
           internalTasks: statusData.internalTasks || [],
         });
 
@@ -531,6 +642,97 @@ export default function SystemStatusPage() {
             </div>
           </div>
 
+          {/* Processor Registry */}
+          <div className="mb-6">
+            <h2 className="text-xl font-semibold mb-3 text-primary">Processors</h2>
+            <div className="card p-4" data-testid="processor-registry-card">
+              <p className="text-sm text-secondary mb-4">
+                Each geo processor registers itself by the API key it polls with. Retired processors are excluded from offline alerts and keep-warm.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="data-table" data-testid="processor-registry-table">
+                  <thead>
+                    <tr>
+                      <th className="px-3 py-2">Processor</th>
+                      <th className="px-3 py-2">Status</th>
+                      <th className="px-3 py-2">Last Ping</th>
+                      <th className="px-3 py-2">Keep-warm</th>
+                      <th className="px-3 py-2">Algorithms</th>
+                      <th className="px-3 py-2">Current Job</th>
+                      <th className="px-3 py-2">Active</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {queueData.processors.map((processor) => (
+                      <tr key={processor.id} data-testid={`processor-row-${processor.id}`}>
+                        <td className="px-3 py-2 text-sm font-medium text-primary">{processor.name}</td>
+                        <td className="px-3 py-2 text-sm">
+                          {!processor.isActive ? (
+                            <span className="status-badge status-neutral">Retired</span>
+                          ) : processor.isHealthy ? (
+                            <span className="status-badge status-success">Online</span>
+                          ) : (
+                            <span className="status-badge status-error">Offline</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-sm text-secondary">
+                          {processor.lastPingTime ? (
+                            <>
+                              {formatTimestamp(processor.lastPingTime)}
+                              {' '}({processor.secondsSinceLastPing}s ago)
+                            </>
+                          ) : 'Never'}
+                        </td>
+                        <td className="px-3 py-2 text-sm text-secondary">
+                          {processor.keepWarmRemainingSeconds > 0
+                            ? `${formatKeepWarmRemaining(processor.keepWarmRemainingSeconds)} remaining`
+                            : 'Inactive'}
+                        </td>
+                        <td className="px-3 py-2 text-sm text-secondary">
+                          {processor.capabilities === null
+                            ? 'Any (not advertised)'
+                            : processor.capabilities.length === 0
+                              ? 'None'
+                              : processor.capabilities
+                                .map((capability) => capability.generatorVersions
+                                  ? `${capability.algorithmName} (v${capability.generatorVersions.join(', v')})`
+                                  : capability.algorithmName)
+                                .join(', ')}
+                        </td>
+                        <td className="px-3 py-2 text-sm text-secondary">
+                          {processor.currentJob ? (
+                            <Link href={`/design-jobs/${processor.currentJob.id}`} className="text-link hover:underline">
+                              {processor.currentJob.objectId || processor.currentJob.id.slice(0, 8)} ({processor.currentJob.designName})
+                            </Link>
+                          ) : 'Idle'}
+                        </td>
+                        <td className="px-3 py-2 text-sm">
+                          <label className="inline-flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={processor.isActive}
+                              disabled={updatingProcessorId === processor.id}
+                              onChange={(event) => handleProcessorActiveToggle(processor.id, event.target.checked)}
+                              className="w-4 h-4"
+                            />
+                            <span className="text-secondary">{processor.isActive ? 'Active' : 'Retired'}</span>
+                          </label>
+                        </td>
+                      </tr>
+                    ))}
+                    {queueData.processors.length === 0 && (
+                      <tr>
+                        <td colSpan={7} className="px-3 py-4 text-sm text-muted text-center">
+                          No processors have polled yet.
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+
           {/* Site Alerts */}
           <div className="mb-6">
             <h2 className="text-xl font-semibold mb-3 text-primary">Site Alerts</h2>
@@ -873,6 +1075,7 @@ export default function SystemStatusPage() {
                       <tr>
                         <th className="px-3 py-2">Object ID</th>
                         <th className="px-3 py-2">Started</th>
+                        <th className="px-3 py-2">Worker</th>
                       </tr>
                     </thead>
                     <tbody>
@@ -885,6 +1088,10 @@ export default function SystemStatusPage() {
                           <td className="px-3 py-2 text-sm text-muted">
                             {job.processStartedAt ? getTimeDiff(job.processStartedAt) : 'N/A'}
                           </td>
+                          <td className="px-3 py-2 text-sm text-muted">
+                            {job.leaseOwner || 'N/A'}
+                            {job.attemptCount && job.attemptCount > 1 ? ` (attempt ${job.attemptCount})` : ''}
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -903,6 +1110,7 @@ export default function SystemStatusPage() {
                       <tr>
                         <th className="px-3 py-2">Object ID</th>
                         <th className="px-3 py-2">Started</th>
+                        <th className="px-3 py-2">Worker</th>
                       </tr>
                     </thead>
                     <tbody>
@@ -915,6 +1123,10 @@ export default function SystemStatusPage() {
                           <td className="px-3 py-2 text-sm text-muted">
                             {job.processStartedAt ? getTimeDiff(job.processStartedAt) : 'N/A'}
                           </td>
+                          <td className="px-3 py-2 text-sm text-muted">
+                            {job.leaseOwner || 'N/A'}
+                            {job.attemptCount && job.attemptCount > 1 ? ` (attempt ${job.attemptCount})` : ''}
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -977,6 +1189,81 @@ export default function SystemStatusPage() {
         </>
       )}
 
+      {/* Design Sync */}
+      {designSync && (
+        <div className="mb-6 mt-6">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-xl font-semibold text-primary">
+              Design Sync{' '}
+              <span className="text-sm font-normal text-muted">
+                (last synced {designSync.lastSyncedAt ? formatTimestamp(designSync.lastSyncedAt) : 'never'})
+              </span>
+            </h2>
+            <button
+              onClick={handleReconcileDesigns}
+              disabled={designSyncRunning}
+              className="btn-primary px-4 py-2 text-sm disabled:opacity-50"
+              data-testid="reconcile-designs-btn"
+            >
+              {designSyncRunning ? 'Reconciling...' : 'Reconcile Now'}
+            </button>
+          </div>
+          <div className="card p-4" data-testid="design-sync-card">
+            {designSyncResult && <p className="text-sm text-secondary mb-3">{designSyncResult}</p>}
+            {designSync.issues.length === 0 ? (
+              <p className="text-sm text-muted">The Design table matches the code registry.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="data-table" data-testid="design-sync-issues">
+                  <thead>
+                    <tr>
+                      <th className="px-3 py-2">Design</th>
+                      <th className="px-3 py-2">Drift</th>
+                      <th className="px-3 py-2">Code</th>
+                      <th className="px-3 py-2">Database</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {designSync.issues.map((issue) => (
+                      <tr key={`${issue.designId}-${issue.kind}`}>
+                        <td className="px-3 py-2 text-sm">
+                          <div className="font-medium text-primary">{issue.designName}</div>
+                          <div className="text-xs text-muted font-mono">{issue.designId}</div>
+                        </td>
+                        <td className="px-3 py-2 text-sm">
+                          <span className={`status-badge ${issue.kind === 'name-conflict' ? 'status-error' : 'status-warning'}`}>
+                            {DESIGN_SYNC_ISSUE_LABELS[issue.kind]}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-sm text-secondary font-mono">{issue.codeValue ?? '—'}</td>
+                        <td className="px-3 py-2 text-sm text-secondary font-mono">{issue.databaseValue ?? '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {designSync.removedDesigns.length > 0 && (
+              <div className="mt-4">
+                <h3 className="text-sm font-semibold text-secondary mb-2">Removed from code</h3>
+                <ul className="text-sm text-secondary space-y-1" data-testid="design-sync-removed">
+                  {designSync.removedDesigns.map((design) => (
+                    <li key={design.id}>
+                      <span className="font-medium text-primary">{design.name}</span>{' '}
+                      <span className="text-muted">
+                        ({design.algorithmName}, {design.jobCount} job{design.jobCount === 1 ? '' : 's'}
+                        {design.removedFromCodeAt ? `, removed ${formatTimestamp(design.removedFromCodeAt)}` : ''})
+                      </span>
+                      {!design.isActive && <span className="ml-2 status-badge status-neutral">Inactive</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* More-Info Form Submissions */}
       <div className="mb-6 mt-6">
         <div className="flex items-center justify-between mb-3">
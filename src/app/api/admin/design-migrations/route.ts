@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { buildDesignMigrationReport } from '@/lib/design-migration-report';
+
+// GET /api/admin/design-migrations - Dry-run parameter migrations for jobs created under
+// older design definition versions and list the ones that would fail. Read-only.
+// Supports ?designId= to limit the report to one design.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.role || session.user.role !== 'SYSTEM_ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const designId = request.nextUrl.searchParams.get('designId') ?? undefined;
+    const designs = await buildDesignMigrationReport(designId);
+
+    return NextResponse.json({ generatedAt: new Date().toISOString(), designs });
+  } catch (error) {
+    console.error('Error building design migration report:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { logAuditEvent } from '@/lib/audit';
+import { getDesignSyncReport, reconcileDesigns } from '@/lib/design-sync';
+
+// GET /api/admin/design-sync - Drift between the code design registry and the Design table
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.role || session.user.role !== 'SYSTEM_ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const report = await getDesignSyncReport();
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error building design sync report:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/design-sync - Reconcile the Design table with the registry now
+export async function POST() {
+  try {
+    const session = await auth();
+    if (!session?.user?.role || session.user.role !== 'SYSTEM_ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await reconcileDesigns();
+    logAuditEvent({
+      eventType: 'DESIGNS_RECONCILED',
+      channel: 'SYSTEM',
+      actorId: session.user.id,
+      metadata: {
+        created: result.created,
+        updated: result.updated,
+        deactivated: result.deactivated,
+        conflicts: result.conflicts.map((issue) => issue.designName),
+      },
+    });
+
+    const report = await getDesignSyncReport();
+    return NextResponse.json({ result, report });
+  } catch (error) {
+    console.error('Error reconciling designs:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -5,9 +5,9 @@ import { sendEmail } from '@/lib/email';
 import { logAuditEvent } from '@/lib/audit';
 import ProcessorOfflineAlertEmail from '@/emails/processor-offline-alert';
 import {
-  getOrCreateProcessorHeartbeat,
   getProcessorOfflineReminderIntervalMs,
   getProcessorOfflineThresholdMs,
+  listProcessorHeartbeats,
 } from '@/lib/geo-processor-health';
 
 function buildAdminUrl(request: NextRequest): string {
@@ -46,15 +46,20 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    const heartbeat = await getOrCreateProcessorHeartbeat();
+    // Use the most recently seen processor so the sample email looks like a real one.
+    const heartbeats = await listProcessorHeartbeats();
+    const heartbeat = heartbeats
+      .filter((candidate) => candidate.lastPingAt)
+      .sort((a, b) => b.lastPingAt!.getTime() - a.lastPingAt!.getTime())[0];
     const now = new Date();
-    const lastPing = heartbeat.lastPingAt || now;
+    const lastPing = heartbeat?.lastPingAt || now;
 
     await sendEmail({
       to: recipientEmails,
       subject: 'Test: Design Processor Offline Alert',
       react: ProcessorOfflineAlertEmail({
         isReminder: false,
+        processorName: heartbeat?.name ?? 'Test Processor',
         lastPingTime: lastPing.toISOString(),
         offlineDuration: 'test notification',
         adminUrl: buildAdminUrl(request),
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit';
+
+// PATCH /api/admin/processors/[id] - Retire or reactivate a registered geo processor (admin only)
+// Inactive processors are skipped by offline alerting and keep-warm, but keep their row
+// so the history stays visible. A retired processor that polls again stays retired.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.role || session.user.role !== 'SYSTEM_ADMIN') {
+      return NextResponse.json({ error: 'Unauthorized - admin access required' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { isActive } = body;
+
+    if (typeof isActive !== 'boolean') {
+      return NextResponse.json({ error: 'isActive (boolean) is required' }, { status: 400 });
+    }
+
+    const existing = await prisma.processorHeartbeat.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Processor not found' }, { status: 404 });
+    }
+
+    const updated = await prisma.processorHeartbeat.update({
+      where: { id },
+      data: {
+        isActive,
+        // Start clean if it comes back; a stale offlineSince would fire an alert at once.
+        offlineSince: null,
+        lastOfflineAlertSentAt: null,
+      },
+      select: {
+        id: true,
+        name: true,
+        isActive: true,
+      },
+    });
+
+    logAuditEvent({
+      eventType: isActive ? 'PROCESSOR_REACTIVATED' : 'PROCESSOR_RETIRED',
+      channel: 'SYSTEM',
+      actorId: session.user.id,
+      metadata: {
+        processorId: updated.id,
+        processorName: updated.name,
+      },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating processor:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
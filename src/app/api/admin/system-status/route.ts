@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { getProcessorStatus } from '@/lib/geo-processor-health';
+import { getProcessorStatus, getProcessorStatuses } from '@/lib/geo-processor-health';
 import { ensureInternalTaskRuntimeStarted, getInternalTaskStatuses } from '@/lib/internal-task-runtime';
 import { createProcessorHealthCheckJob } from '@/lib/processor-health-check';
 
@@ -17,7 +17,6 @@ export async function GET() {
     }
 
     const now = new Date();
-    const tenMinutesAgo = new Date(now.getTime() - 10 * 60 * 1000);
     const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
     const twoDaysAgo = new Date(now.getTime() - 48 * 60 * 60 * 1000);
 
@@ -53,10 +52,11 @@ export async function GET() {
         take: 10
       }),
       
-      // Started but stuck (>10 min, not completed)
+      // Started but stuck (lease lapsed, waiting to be reclaimed or failed)
       prisma.designJob.findMany({
         where: {
-          processStartedAt: { lt: tenMinutesAgo },
+          processStartedAt: { not: null },
+          leaseExpiresAt: { lt: now },
           processCompletedAt: null,
           isEnabled: true
         },
@@ -64,6 +64,8 @@ export async function GET() {
           id: true,
           createdAt: true,
           processStartedAt: true,
+          leaseOwner: true,
+          attemptCount: true,
           design: { select: { name: true } },
           objectId: true,
           isDebugRequest: true
@@ -93,10 +95,10 @@ export async function GET() {
         take: 50
       }),
       
-      // Currently processing (started in last 10 min, not completed)
+      // Currently processing (lease still active, not completed)
       prisma.designJob.findMany({
         where: {
-          processStartedAt: { gte: tenMinutesAgo },
+          leaseExpiresAt: { gte: now },
           processCompletedAt: null,
           isEnabled: true
         },
@@ -104,6 +106,9 @@ export async function GET() {
           id: true,
           createdAt: true,
           processStartedAt: true,
+          leaseOwner: true,
+          leaseExpiresAt: true,
+          attemptCount: true,
           design: { select: { name: true } },
           objectId: true,
           isDebugRequest: true
@@ -293,7 +298,10 @@ export async function GET() {
       };
     }).sort((a, b) => b.count - a.count);
 
-    const processorStatus = await getProcessorStatus();
+    const [processorStatus, processors] = await Promise.all([
+      getProcessorStatus(),
+      getProcessorStatuses(undefined, { includeInactive: true }),
+    ]);
     const internalTasks = getInternalTaskStatuses();
 
     // Get maintenance mode settings
@@ -314,6 +322,7 @@ export async function GET() {
         keepWarmUntil: processorStatus.keepWarmUntil,
         keepWarmRemainingSeconds: processorStatus.keepWarmRemainingSeconds,
       },
+      processors,
       summary: {
         neverStartedCount: neverStarted.length,
         stuckJobsCount: stuckJobs.length,
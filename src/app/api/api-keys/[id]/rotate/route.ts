@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit';
+import { generateRotatedApiKey } from '@/lib/api-auth';
+import { API_KEY_GRACE_PERIODS } from '@/lib/api-key-scopes';
+
+// POST /api/api-keys/[id]/rotate - Issue a new secret for an API key (SYSTEM_ADMIN only)
+// Body: { gracePeriodHours } from API_KEY_GRACE_PERIODS. The old secret keeps working
+// for that long so clients can be switched over; a second rotation ends any earlier grace.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check if user is SYSTEM_ADMIN
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true }
+    });
+
+    if (user?.role !== 'SYSTEM_ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const gracePeriod = API_KEY_GRACE_PERIODS.find((period) => period.hours === body.gracePeriodHours);
+    if (!gracePeriod) {
+      return NextResponse.json({ error: 'Invalid grace period' }, { status: 400 });
+    }
+
+    const existingKey = await prisma.apiKey.findUnique({
+      where: { id },
+      select: { id: true, name: true, keyPrefix: true, keyHash: true, organizationId: true }
+    });
+
+    if (!existingKey) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    const now = new Date();
+    const { apiKey, keyPrefix, keyHash } = await generateRotatedApiKey(existingKey.keyPrefix);
+    const previousKeyExpiresAt = gracePeriod.hours > 0
+      ? new Date(now.getTime() + gracePeriod.hours * 60 * 60 * 1000)
+      : null;
+
+    const rotated = await prisma.apiKey.update({
+      where: { id },
+      data: {
+        keyPrefix,
+        keyHash,
+        previousKeyHash: previousKeyExpiresAt ? existingKey.keyHash : null,
+        previousKeyExpiresAt,
+        rotatedAt: now
+      },
+      select: { id: true, keyPrefix: true, rotatedAt: true, previousKeyExpiresAt: true }
+    });
+
+    logAuditEvent({
+      eventType: 'API_KEY_ROTATED',
+      channel: 'AUTH',
+      actorId: session.user.id,
+      organizationId: existingKey.organizationId,
+      metadata: {
+        apiKeyId: id,
+        apiKeyName: existingKey.name,
+        wasLegacy: !existingKey.keyPrefix,
+        gracePeriodHours: gracePeriod.hours
+      }
+    });
+
+    // Like creation, this is the only time the plain text key is returned
+    return NextResponse.json({ ...rotated, apiKey });
+  } catch (error) {
+    console.error('Error rotating API key:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
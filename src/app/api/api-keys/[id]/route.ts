@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import bcrypt from 'bcryptjs';
+import { parseApiKeyRestrictions } from '@/lib/api-auth';
 
 // GET /api/api-keys/[id] - Get specific API key (SYSTEM_ADMIN only)
 export async function GET(
@@ -32,9 +32,14 @@ export async function GET(
       select: {
         id: true,
         name: true,
+        keyPrefix: true,
         permissions: true,
         organizationId: true,
         isActive: true,
+        expiresAt: true,
+        allowedCidrs: true,
+        rotatedAt: true,
+        previousKeyExpiresAt: true,
         lastUsedAt: true,
         createdAt: true,
         createdBy: true,
@@ -90,25 +95,22 @@ export async function PUT(
 
     const { id } = await params;
     const body = await request.json();
-    const { name, permissions, organizationId, isActive } = body;
+    const { name, organizationId, isActive } = body;
 
     // Validate input
-    if (!name || !Array.isArray(permissions)) {
-      return NextResponse.json({ error: 'Name and permissions are required' }, { status: 400 });
+    if (!name) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
     }
 
     if (name.length > 250) {
       return NextResponse.json({ error: 'Name must be 250 characters or less' }, { status: 400 });
     }
 
-    // Validate permissions format
-    const validPermissions = permissions.every((perm: any) => 
-      typeof perm === 'string' && perm.includes(':')
-    );
-    
-    if (!validPermissions) {
-      return NextResponse.json({ error: 'Invalid permissions format' }, { status: 400 });
+    const restrictions = parseApiKeyRestrictions(body);
+    if (!restrictions.input) {
+      return NextResponse.json({ error: restrictions.error }, { status: 400 });
     }
+    const { permissions, expiresAt, allowedCidrs } = restrictions.input;
 
     // Validate organization exists if provided
     if (organizationId) {
@@ -137,14 +139,21 @@ export async function PUT(
         name,
         permissions: JSON.stringify(permissions),
         organizationId: organizationId || null,
-        isActive: isActive !== undefined ? isActive : existingKey.isActive
+        isActive: isActive !== undefined ? isActive : existingKey.isActive,
+        expiresAt,
+        allowedCidrs
       },
       select: {
         id: true,
         name: true,
+        keyPrefix: true,
         permissions: true,
         organizationId: true,
         isActive: true,
+        expiresAt: true,
+        allowedCidrs: true,
+        rotatedAt: true,
+        previousKeyExpiresAt: true,
         lastUsedAt: true,
         createdAt: true,
         organization: {
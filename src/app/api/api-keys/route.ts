@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import bcrypt from 'bcryptjs';
-import { randomBytes } from 'crypto';
+import { generateApiKey, parseApiKeyRestrictions } from '@/lib/api-auth';
 
 // GET /api/api-keys - List all API keys (SYSTEM_ADMIN only)
 export async function GET() {
@@ -27,9 +26,14 @@ export async function GET() {
       select: {
         id: true,
         name: true,
+        keyPrefix: true,
         permissions: true,
         organizationId: true,
         isActive: true,
+        expiresAt: true,
+        allowedCidrs: true,
+        rotatedAt: true,
+        previousKeyExpiresAt: true,
         lastUsedAt: true,
         createdAt: true,
         createdBy: true,
@@ -83,24 +87,24 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, permissions, organizationId } = body;
+    const { name, organizationId } = body;
 
     // Validate input
-    if (!name || !Array.isArray(permissions)) {
-      return NextResponse.json({ error: 'Name and permissions are required' }, { status: 400 });
+    if (!name) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
     }
 
     if (name.length > 250) {
       return NextResponse.json({ error: 'Name must be 250 characters or less' }, { status: 400 });
     }
 
-    // Validate permissions format
-    const validPermissions = permissions.every((perm: any) => 
-      typeof perm === 'string' && perm.includes(':')
-    );
-    
-    if (!validPermissions) {
-      return NextResponse.json({ error: 'Invalid permissions format' }, { status: 400 });
+    const restrictions = parseApiKeyRestrictions(body);
+    if (!restrictions.input) {
+      return NextResponse.json({ error: restrictions.error }, { status: 400 });
+    }
+    const { permissions, expiresAt, allowedCidrs } = restrictions.input;
+    if (expiresAt && expiresAt <= new Date()) {
+      return NextResponse.json({ error: 'Expiry must be in the future' }, { status: 400 });
     }
 
     // Validate organization exists if provided
@@ -114,25 +118,31 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Generate API key (32 random bytes as hex)
-    const apiKey = randomBytes(32).toString('hex');
-    const keyHash = await bcrypt.hash(apiKey, 12);
+    const { apiKey, keyPrefix, keyHash } = await generateApiKey();
 
     // Create API key record
     const newApiKey = await prisma.apiKey.create({
       data: {
         name,
+        keyPrefix,
         keyHash,
         permissions: JSON.stringify(permissions),
         organizationId: organizationId || null,
+        expiresAt,
+        allowedCidrs,
         createdBy: session.user.id
       },
       select: {
         id: true,
         name: true,
+        keyPrefix: true,
         permissions: true,
         organizationId: true,
         isActive: true,
+        expiresAt: true,
+        allowedCidrs: true,
+        rotatedAt: true,
+        previousKeyExpiresAt: true,
         createdAt: true,
         organization: {
           select: {
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { DesignJobPriority } from '@prisma/client';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit';
+
+// Org admins may rush a job or return it to normal; only system admins may
+// push work into the background tier.
+const ORG_ADMIN_PRIORITIES: DesignJobPriority[] = ['RUSH', 'NORMAL'];
+const ALL_PRIORITIES: DesignJobPriority[] = ['RUSH', 'NORMAL', 'BACKGROUND'];
+
+// PATCH /api/design-jobs/[id]/priority - Change a queued job's priority (SYSTEM_ADMIN or ORG_ADMIN of the job's org)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true, organizationId: true },
+    });
+
+    const { id } = await params;
+
+    const existingJob = await prisma.designJob.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        objectId: true,
+        priority: true,
+        owningOrganizationId: true,
+        processCompletedAt: true,
+      },
+    });
+
+    if (!existingJob) {
+      return NextResponse.json({ error: 'Design job not found' }, { status: 404 });
+    }
+
+    const isSystemAdmin = user?.role === 'SYSTEM_ADMIN';
+    const isOrgAdmin = user?.role === 'ORG_ADMIN' && user?.organizationId === existingJob.owningOrganizationId;
+    if (!isSystemAdmin && !isOrgAdmin) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { priority } = body;
+    const allowed = isSystemAdmin ? ALL_PRIORITIES : ORG_ADMIN_PRIORITIES;
+
+    if (!allowed.includes(priority)) {
+      return NextResponse.json({ error: `priority must be one of: ${allowed.join(', ')}` }, { status: 400 });
+    }
+
+    if (existingJob.processCompletedAt) {
+      return NextResponse.json({ error: 'Job has already finished processing' }, { status: 409 });
+    }
+
+    const updatedJob = await prisma.designJob.update({
+      where: { id },
+      data: { priority },
+      select: { id: true, priority: true },
+    });
+
+    if (existingJob.priority !== updatedJob.priority) {
+      console.log(`Design job ${id} priority changed ${existingJob.priority} -> ${updatedJob.priority} by user ${session.user.id}`);
+      logAuditEvent({
+        eventType: 'DESIGN_JOB_PRIORITY_CHANGED',
+        channel: 'SYSTEM',
+        actorId: session.user.id,
+        organizationId: existingJob.owningOrganizationId,
+        metadata: {
+          designJobId: id,
+          objectId: existingJob.objectId,
+          from: existingJob.priority,
+          to: updatedJob.priority,
+        },
+      });
+    }
+
+    return NextResponse.json(updatedJob);
+  } catch (error) {
+    console.error('Error updating design job priority:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,8 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { getBlobStorageInstance } from '@/lib/blob-storage';
+import { getDesignById } from '@/designs/registry';
+import { describeParameterDrift, hasParameterDrift } from '@/designs/definition-drift';
+import { checkStoredJobParameters } from '@/designs/parameter-migrations';
+import { logAuditEvent } from '@/lib/audit';
 
-// POST /api/design-jobs/[id]/reprocess - Reset job state so geo processor picks it up again
+// POST /api/design-jobs/[id]/reprocess - Reset job state so geo processor picks it up again.
+// Stored inputParameters from an older definition version are migrated first. If that
+// fails, or the result still doesn't fit the current definition, responds 409 with the
+// differences unless the body is { "force": true }.
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -34,6 +41,11 @@ export async function POST(
       where: { id },
       select: {
         id: true,
+        designId: true,
+        owningOrganizationId: true,
+        inputParameters: true,
+        definitionVersionSnapshot: true,
+        generatorVersionSnapshot: true,
         meshBlobPathname: true,
         printBlobPathname: true,
       },
@@ -43,6 +55,37 @@ export async function POST(
       return NextResponse.json({ error: 'Design job not found' }, { status: 404 });
     }
 
+    const registryDesign = getDesignById(existingJob.designId);
+    if (!registryDesign) {
+      return NextResponse.json({ error: 'Design definition not found in registry' }, { status: 404 });
+    }
+
+    // The body is optional; only { force: true } is meaningful.
+    let force = false;
+    try {
+      force = (await request.json())?.force === true;
+    } catch {
+      force = false;
+    }
+
+    // Bring the stored parameters up to the current definition before the generator sees them.
+    const { migration, drift, values } = checkStoredJobParameters(registryDesign, existingJob);
+    if (!force && !migration.ok) {
+      return NextResponse.json({
+        error: `This job's parameters could not be migrated to the current ${registryDesign.name} definition: ${migration.error}`,
+        drift,
+      }, { status: 409 });
+    }
+    if (!force && hasParameterDrift(drift)) {
+      return NextResponse.json({
+        error: `This job's parameters no longer match the current ${registryDesign.name} definition (v${drift.definitionVersionSnapshot} -> v${drift.currentDefinitionVersion})`,
+        drift,
+        details: describeParameterDrift(drift),
+      }, { status: 409 });
+    }
+    // A forced reprocess after a failed migration keeps the stored payload and version.
+    const isMigrated = migration.ok && migration.fromVersion !== migration.toVersion;
+
     // Delete any previously uploaded blob files so they don't become orphans
     const blobStorage = getBlobStorageInstance();
     const deletePromises: Promise<void>[] = [];
@@ -66,6 +109,10 @@ export async function POST(
         isProcessSuccessful: false,
         processingLog: null,
         meshMetadata: null,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        attemptCount: 0,
+        failureReason: null,
         meshBlobUrl: null,
         meshBlobPathname: null,
         meshFileName: null,
@@ -75,9 +122,29 @@ export async function POST(
         printFileName: null,
         printFileContents: null,
         isEnabled: true,
+        // The job is regenerated by the current generator.
+        generatorVersionSnapshot: registryDesign.generatorVersion,
+        ...(isMigrated
+          ? { inputParameters: JSON.stringify(values), definitionVersionSnapshot: registryDesign.definitionVersion }
+          : {}),
       },
     });
 
+    if (isMigrated) {
+      logAuditEvent({
+        eventType: 'DESIGN_JOB_PARAMETERS_MIGRATED',
+        channel: 'SYSTEM',
+        actorId: session.user.id,
+        organizationId: existingJob.owningOrganizationId,
+        metadata: {
+          designJobId: id,
+          fromVersion: migration.fromVersion,
+          toVersion: migration.toVersion,
+          appliedVersions: migration.appliedVersions,
+        },
+      });
+    }
+
     console.log(`Reprocess requested for design job ${id} by user ${session.user.id}`);
 
     return NextResponse.json({
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { getDesignById } from '@/designs/registry';
+import { getOnlineProcessorCapabilities } from '@/lib/geo-processor-health';
+import { isWaitingForCapableProcessor } from '@/lib/processor-capabilities';
+import { checkStoredJobParameters } from '@/designs/parameter-migrations';
 
 // GET /api/design-jobs/[id] - Get specific geometry processing job
 export async function GET(
@@ -50,6 +53,17 @@ export async function GET(
           select: {
             name: true
           }
+        },
+        preset: {
+          select: {
+            name: true
+          }
+        },
+        measurementSet: {
+          select: {
+            caseReference: true,
+            hand: true
+          }
         }
       }
     });
@@ -70,7 +84,39 @@ export async function GET(
       inputParameterSchema: registryDesign ? JSON.stringify(registryDesign.inputParameters) : '[]',
     };
 
-    return NextResponse.json({ ...geometryJob, design: enrichedDesign });
+    // A queued job nobody has leased may be stuck only because every online
+    // processor lacks its algorithm/version. With no processor online at all the
+    // usual offline state applies instead.
+    let waitingForCapableProcessor = false;
+    const isUnleased = !geometryJob.leaseExpiresAt || geometryJob.leaseExpiresAt < new Date();
+    if (geometryJob.isEnabled && !geometryJob.processCompletedAt && isUnleased) {
+      const onlineCapabilities = await getOnlineProcessorCapabilities();
+      waitingForCapableProcessor = onlineCapabilities.length > 0 && isWaitingForCapableProcessor(onlineCapabilities, {
+        designId: geometryJob.designId,
+        algorithmName: geometryJob.design.algorithmName,
+        generatorVersionSnapshot: geometryJob.generatorVersionSnapshot,
+      });
+    }
+
+    // How the job's stored parameters compare with the design as it is now, after
+    // running any migrations from its definition version to the current one.
+    let definitionDrift = null;
+    let definitionMigration = null;
+    if (registryDesign) {
+      const check = checkStoredJobParameters(registryDesign, geometryJob);
+      definitionDrift = check.drift;
+      if (geometryJob.definitionVersionSnapshot !== registryDesign.definitionVersion) {
+        definitionMigration = {
+          fromVersion: geometryJob.definitionVersionSnapshot,
+          toVersion: registryDesign.definitionVersion,
+          ...(check.migration.ok
+            ? { migratedInputParameters: JSON.stringify(check.values) }
+            : { error: check.migration.error }),
+        };
+      }
+    }
+
+    return NextResponse.json({ ...geometryJob, design: enrichedDesign, waitingForCapableProcessor, definitionDrift, definitionMigration });
   } catch (error) {
     console.error('Error fetching geometry job:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { generateObjectId } from '@/lib/objectId';
+import { logAuditEvent } from '@/lib/audit';
+import { getDesignById } from '@/designs/registry';
+import { summarizeFieldErrors } from '@/designs/validation';
+import { parseMeasurementMode } from '@/designs/units';
+import { findDesignPreset } from '@/lib/design-presets';
+import { findMeasurementSet } from '@/lib/measurement-sets';
+import {
+  BATCH_MAX_ROWS,
+  JOB_LABEL_MAX_LENGTH,
+  buildBatchJobLabel,
+  prepareDesignJobInput,
+  type PreparedDesignJobInput,
+} from '@/lib/design-job-input';
+import type { FieldErrors } from '@/lib/formValidation';
+
+interface BatchRow {
+  label?: unknown;
+  inputParameters?: unknown;
+  measurementSetId?: unknown;
+}
+
+// POST /api/design-jobs/batch - Create several jobs for one design in one transaction
+// Body: { designId, labelPrefix, measurementMode?, presetId?, rows: [{ label, inputParameters, measurementSetId? }] }
+// Every row is validated like POST /api/design-jobs; if any fails nothing is created and
+// the errors come back keyed "rows.<index>.<field>" (or "rows.<index>" for a row that isn't an object).
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { organizationId: true },
+    });
+    if (!user?.organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+    const organizationId = user.organizationId;
+    const userId = session.user.id;
+
+    const body = await request.json();
+    const { designId, labelPrefix, measurementMode: rawMeasurementMode, presetId, rows } = body;
+
+    if (!designId || !Array.isArray(rows) || rows.length === 0) {
+      return NextResponse.json({ error: 'designId and at least one row are required' }, { status: 400 });
+    }
+    if (rows.length > BATCH_MAX_ROWS) {
+      return NextResponse.json({ error: `A batch can have at most ${BATCH_MAX_ROWS} jobs` }, { status: 400 });
+    }
+    if (typeof labelPrefix !== 'string' || !labelPrefix.trim()) {
+      return NextResponse.json({ error: 'labelPrefix is required' }, { status: 400 });
+    }
+
+    const design = await prisma.design.findUnique({ where: { id: designId }, select: { id: true } });
+    const registryDesign = getDesignById(designId);
+    if (!design || !registryDesign) {
+      return NextResponse.json({ error: 'Design not found' }, { status: 404 });
+    }
+
+    const measurementMode = parseMeasurementMode(rawMeasurementMode);
+    if (!measurementMode) {
+      return NextResponse.json({
+        error: 'measurementMode must have lengthUnit mm, cm or in and circumferenceEntry circumference or diameter'
+      }, { status: 400 });
+    }
+
+    const preset = presetId ? await findDesignPreset(organizationId, designId, presetId) : null;
+    if (presetId && !preset) {
+      return NextResponse.json({ error: 'Preset not found for this design' }, { status: 400 });
+    }
+
+    const fieldErrors: FieldErrors = {};
+    const prepared: Array<PreparedDesignJobInput & { jobLabel: string; measurementSetId: string | null }> = [];
+    for (const [index, rawRow] of (rows as unknown[]).entries()) {
+      const prefix = `rows.${index}`;
+      if (typeof rawRow !== 'object' || rawRow === null || Array.isArray(rawRow)) {
+        fieldErrors[prefix] = `Row ${index + 1}: must be an object`;
+        continue;
+      }
+      const row = rawRow as BatchRow;
+      const jobLabel = buildBatchJobLabel(labelPrefix, typeof row.label === 'string' ? row.label : '');
+      if (jobLabel.length > JOB_LABEL_MAX_LENGTH) {
+        fieldErrors[`${prefix}.label`] = `Row ${index + 1}: "${jobLabel}" is longer than ${JOB_LABEL_MAX_LENGTH} characters`;
+      }
+
+      let measurementSetId: string | null = null;
+      if (typeof row.measurementSetId === 'string' && row.measurementSetId) {
+        const measurementSet = await findMeasurementSet(organizationId, row.measurementSetId);
+        if (measurementSet) {
+          measurementSetId = measurementSet.id;
+        } else {
+          fieldErrors[`${prefix}.measurementSetId`] = `Row ${index + 1}: measurement set not found`;
+        }
+      }
+
+      const result = prepareDesignJobInput(registryDesign, row.inputParameters ?? {}, measurementMode, preset);
+      if (!result.ok) {
+        for (const [field, message] of Object.entries(result.fieldErrors ?? { inputParameters: result.error })) {
+          fieldErrors[`${prefix}.${field}`] = `Row ${index + 1}: ${message}`;
+        }
+        continue;
+      }
+      prepared.push({ ...result.data, jobLabel, measurementSetId });
+    }
+
+    if (Object.keys(fieldErrors).length > 0) {
+      return NextResponse.json({
+        error: `Invalid batch: ${summarizeFieldErrors(fieldErrors)}`,
+        fieldErrors,
+      }, { status: 400 });
+    }
+
+    // Object IDs are checked against the table one at a time, so also keep them unique
+    // within the batch.
+    const objectIds = new Set<string>();
+    while (objectIds.size < prepared.length) {
+      objectIds.add(await generateObjectId());
+    }
+
+    const now = new Date();
+    const objectIdList = [...objectIds];
+    const batch = await prisma.$transaction(async (tx) => {
+      const created = await tx.designJobBatch.create({
+        data: { organizationId, labelPrefix: labelPrefix.trim(), createdById: userId },
+      });
+      const designJobs = [];
+      for (const [index, job] of prepared.entries()) {
+        designJobs.push(await tx.designJob.create({
+          data: {
+            ...job,
+            designId,
+            creatorId: userId,
+            owningOrganizationId: organizationId,
+            presetId: preset?.id ?? null,
+            batchId: created.id,
+            objectId: objectIdList[index],
+            objectIdGeneratedAt: now,
+          },
+          select: { id: true, objectId: true, jobLabel: true },
+        }));
+      }
+      return { ...created, designJobs };
+    });
+
+    logAuditEvent({
+      eventType: 'DESIGN_JOB_BATCH_CREATED',
+      channel: 'SYSTEM',
+      actorId: userId,
+      organizationId,
+      metadata: { batchId: batch.id, designId, jobCount: batch.designJobs.length, labelPrefix: batch.labelPrefix },
+    });
+
+    console.log(`Created batch ${batch.id} of ${batch.designJobs.length} ${registryDesign.name} jobs by user ${userId}`);
+    return NextResponse.json(batch, { status: 201 });
+  } catch (error) {
+    console.error('Error creating design job batch:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
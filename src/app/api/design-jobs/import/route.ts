@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { validateApiKey, checkApiPermission } from '@/lib/api-auth';
+import { generateObjectId } from '@/lib/objectId';
+import { logAuditEvent } from '@/lib/audit';
+import { getDesignById } from '@/designs/registry';
+import { DEFAULT_MEASUREMENT_MODE } from '@/designs/units';
+import { JOB_LABEL_MAX_LENGTH, prepareDesignJobInput } from '@/lib/design-job-input';
+import {
+  IMPORT_MAX_ROWS,
+  parseCsvImport,
+  parseJsonImport,
+  validateImportKey,
+  type ImportRowResult,
+} from '@/lib/design-job-import';
+
+// POST /api/design-jobs/import?designId=... - Bulk-create jobs from a partner system
+// API key with design-jobs:write, scoped to an organization. The body is either text/csv
+// (header: idempotencyKey, jobLabel, then one column per InputName) or a JSON array of
+// { idempotencyKey, jobLabel?, inputParameters }. Values are canonical units (mm).
+// Each row is validated and created on its own and the response reports every row, so a
+// failed import can be fixed and resent whole: rows whose idempotencyKey the organization
+// has already imported come back as "duplicate" with the existing job.
+export async function POST(request: NextRequest) {
+  try {
+    const apiAuth = await validateApiKey(request);
+
+    if (!apiAuth.success || !checkApiPermission(apiAuth.apiKey, 'design-jobs:write')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const apiKey = apiAuth.apiKey!;
+    if (!apiKey.organizationId) {
+      return NextResponse.json({ error: 'API key must be scoped to an organization' }, { status: 403 });
+    }
+    const organizationId = apiKey.organizationId;
+
+    const designId = request.nextUrl.searchParams.get('designId');
+    if (!designId) {
+      return NextResponse.json({ error: 'designId query parameter is required' }, { status: 400 });
+    }
+
+    // Partners can only order designs their organization can see.
+    const registryDesign = getDesignById(designId);
+    const visible = await prisma.organizationDesign.findFirst({
+      where: { organizationId, designId },
+      select: { designId: true },
+    });
+    if (!registryDesign || !registryDesign.isActive || !visible) {
+      return NextResponse.json({ error: 'Design not found' }, { status: 404 });
+    }
+
+    const isCsv = request.headers.get('content-type')?.includes('text/csv') ?? false;
+    let parsed;
+    if (isCsv) {
+      parsed = parseCsvImport(await request.text(), registryDesign.inputParameters);
+    } else {
+      try {
+        parsed = parseJsonImport(await request.json());
+      } catch {
+        return NextResponse.json({ error: 'Body must be valid JSON, or CSV sent as text/csv' }, { status: 400 });
+      }
+    }
+    if (!parsed.rows) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const rows = parsed.rows;
+    if (rows.length === 0) {
+      return NextResponse.json({ error: 'No jobs to import' }, { status: 400 });
+    }
+    if (rows.length > IMPORT_MAX_ROWS) {
+      return NextResponse.json({ error: `An import can have at most ${IMPORT_MAX_ROWS} jobs` }, { status: 400 });
+    }
+
+    const keys = rows.map((row) => (typeof row.idempotencyKey === 'string' ? row.idempotencyKey.trim() : ''));
+    const existing = await prisma.designJob.findMany({
+      where: { owningOrganizationId: organizationId, importKey: { in: keys.filter(Boolean) } },
+      select: { id: true, objectId: true, importKey: true, designId: true },
+    });
+    const existingByKey = new Map(existing.map((job) => [job.importKey, job]));
+
+    const results: ImportRowResult[] = [];
+    const seenKeys = new Map<string, number>();
+    for (const [index, row] of rows.entries()) {
+      const rowNumber = index + 1;
+      const key = keys[index];
+      const invalid = (error: string, fieldErrors?: Record<string, string>) =>
+        results.push({ row: rowNumber, idempotencyKey: key || null, status: 'invalid', error, fieldErrors });
+
+      const keyError = validateImportKey(row.idempotencyKey);
+      if (keyError) {
+        invalid(keyError);
+        continue;
+      }
+      if (seenKeys.has(key)) {
+        invalid(`idempotencyKey repeats row ${seenKeys.get(key)}`);
+        continue;
+      }
+      seenKeys.set(key, rowNumber);
+
+      // A key names one order; reusing it for another design is a partner bug, not a retry.
+      const duplicate = existingByKey.get(key);
+      if (duplicate && duplicate.designId !== designId) {
+        invalid(`idempotencyKey already used for design ${duplicate.designId}`);
+        continue;
+      }
+      if (duplicate) {
+        results.push({ row: rowNumber, idempotencyKey: key, status: 'duplicate', designJobId: duplicate.id, objectId: duplicate.objectId });
+        continue;
+      }
+
+      if (row.jobLabel !== null && (typeof row.jobLabel !== 'string' || row.jobLabel.length > JOB_LABEL_MAX_LENGTH)) {
+        invalid(`jobLabel must be text of ${JOB_LABEL_MAX_LENGTH} characters or less`);
+        continue;
+      }
+
+      const prepared = prepareDesignJobInput(registryDesign, row.inputParameters ?? {}, DEFAULT_MEASUREMENT_MODE, null);
+      if (!prepared.ok) {
+        invalid(prepared.error, prepared.fieldErrors);
+        continue;
+      }
+
+      try {
+        const job = await prisma.designJob.create({
+          data: {
+            ...prepared.data,
+            designId,
+            // API keys aren't users; imported jobs belong to the admin who issued the key.
+            creatorId: apiKey.createdBy,
+            owningOrganizationId: organizationId,
+            jobLabel: row.jobLabel || null,
+            importKey: key,
+            importApiKeyId: apiKey.id,
+            objectId: await generateObjectId(),
+            objectIdGeneratedAt: new Date(),
+          },
+          select: { id: true, objectId: true },
+        });
+        results.push({ row: rowNumber, idempotencyKey: key, status: 'created', designJobId: job.id, objectId: job.objectId });
+      } catch (error) {
+        // A concurrent retry of the same import got there first.
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          const job = await prisma.designJob.findFirst({
+            where: { owningOrganizationId: organizationId, importKey: key },
+            select: { id: true, objectId: true, designId: true },
+          });
+          if (job && job.designId !== designId) {
+            invalid(`idempotencyKey already used for design ${job.designId}`);
+            continue;
+          }
+          if (job) {
+            results.push({ row: rowNumber, idempotencyKey: key, status: 'duplicate', designJobId: job.id, objectId: job.objectId });
+            continue;
+          }
+        }
+        throw error;
+      }
+    }
+
+    const created = results.filter((result) => result.status === 'created').length;
+    const duplicates = results.filter((result) => result.status === 'duplicate').length;
+    const invalidCount = results.filter((result) => result.status === 'invalid').length;
+
+    logAuditEvent({
+      eventType: 'DESIGN_JOBS_IMPORTED',
+      channel: 'SYSTEM',
+      organizationId,
+      metadata: { apiKeyId: apiKey.id, designId, format: isCsv ? 'csv' : 'json', created, duplicates, invalid: invalidCount },
+    });
+
+    console.log(`Import via API key ${apiKey.name} (${apiKey.id}): ${created} created, ${duplicates} duplicate, ${invalidCount} invalid ${registryDesign.name} jobs`);
+    return NextResponse.json({ designId, created, duplicates, invalid: invalidCount, results });
+  } catch (error) {
+    console.error('Error importing design jobs:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -3,6 +3,10 @@ import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { generateObjectId } from '@/lib/objectId';
 import { getDesignById } from '@/designs/registry';
+import { findDesignPreset } from '@/lib/design-presets';
+import { findMeasurementSet } from '@/lib/measurement-sets';
+import { JOB_LABEL_MAX_LENGTH, prepareDesignJobInput } from '@/lib/design-job-input';
+import { parseMeasurementMode } from '@/designs/units';
 
 // GET /api/design-jobs - List geometry processing queue entries for user's organization
 export async function GET() {
@@ -41,6 +45,7 @@ export async function GET() {
         isProcessSuccessful: true,
         isEnabled: true,
         isDebugRequest: true,
+        priority: true,
         // Exclude: inputParameters (can be large JSON)
         // Exclude: meshFileContents, printFileContents (CRITICAL - huge binary files)
         // Exclude: meshFileName, printFileName, processingLog (not shown in list)
@@ -59,9 +64,17 @@ export async function GET() {
         printJobs: {
           select: {
             id: true,
+            state: true,
             printAcceptance: true,
             printCompletedAt: true
           }
+        },
+        batch: {
+          select: {
+            id: true,
+            labelPrefix: true,
+            createdAt: true
+          }
         }
         // Exclude: owningOrganization (not displayed in list)
       },
@@ -104,7 +117,10 @@ export async function POST(request: NextRequest) {
       designId, 
       inputParameters, 
       jobLabel,
-      isEnabled 
+      isEnabled,
+      measurementMode: rawMeasurementMode,
+      presetId,
+      measurementSetId
     } = body;
 
     // Validate required fields
@@ -115,9 +131,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate field lengths per requirements
-    if (jobLabel && jobLabel.length > 20) {
+    if (jobLabel && jobLabel.length > JOB_LABEL_MAX_LENGTH) {
       return NextResponse.json({ 
-        error: 'Print Queue Label must be 20 characters or less' 
+        error: `Print Queue Label must be ${JOB_LABEL_MAX_LENGTH} characters or less` 
       }, { status: 400 });
     }
 
@@ -139,68 +155,31 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Design definition not found in registry' }, { status: 404 });
     }
 
-    // Validate inputParameters against schema
-    try {
-      const schema = registryDesign.inputParameters;
-      const inputData = JSON.parse(inputParameters);
-      
-      // Basic validation that required parameters are present
-      if (!Array.isArray(schema)) {
-        throw new Error('Invalid geometry schema format');
-      }
-      
-      if (typeof inputData !== 'object') {
-        throw new Error('inputParameters must be a JSON object');
-      }
+    const measurementMode = parseMeasurementMode(rawMeasurementMode);
+    if (!measurementMode) {
+      return NextResponse.json({
+        error: 'measurementMode must have lengthUnit mm, cm or in and circumferenceEntry circumference or diameter'
+      }, { status: 400 });
+    }
 
-      // Validate each required parameter is provided
-      for (const param of schema) {
-        if (!(param.InputName in inputData)) {
-          throw new Error(`Missing required parameter: ${param.InputName}`);
-        }
+    // A job created from one of the org's presets must stay within its ranges and locks.
+    const preset = presetId ? await findDesignPreset(user.organizationId, designId, presetId) : null;
+    if (presetId && !preset) {
+      return NextResponse.json({ error: 'Preset not found for this design' }, { status: 400 });
+    }
 
-        const value = inputData[param.InputName];
-        
-        // Type validation
-        if (param.InputType === 'Boolean') {
-          if (typeof value !== 'boolean') {
-            throw new Error(`Parameter ${param.InputName} must be true or false`);
-          }
-        } else if (param.InputType === 'Float') {
-          if (typeof value !== 'number') {
-            throw new Error(`Parameter ${param.InputName} must be a number`);
-          }
-          if (param.NumberMin !== undefined && value < param.NumberMin) {
-            throw new Error(`Parameter ${param.InputName} must be >= ${param.NumberMin}`);
-          }
-          if (param.NumberMax !== undefined && value > param.NumberMax) {
-            throw new Error(`Parameter ${param.InputName} must be <= ${param.NumberMax}`);
-          }
-        } else if (param.InputType === 'Integer') {
-          if (!Number.isInteger(value)) {
-            throw new Error(`Parameter ${param.InputName} must be an integer`);
-          }
-          if (param.NumberMin !== undefined && value < param.NumberMin) {
-            throw new Error(`Parameter ${param.InputName} must be >= ${param.NumberMin}`);
-          }
-          if (param.NumberMax !== undefined && value > param.NumberMax) {
-            throw new Error(`Parameter ${param.InputName} must be <= ${param.NumberMax}`);
-          }
-        } else if (param.InputType === 'Text') {
-          if (typeof value !== 'string') {
-            throw new Error(`Parameter ${param.InputName} must be a string`);
-          }
-          if (param.TextMinLen !== undefined && value.length < param.TextMinLen) {
-            throw new Error(`Parameter ${param.InputName} must be at least ${param.TextMinLen} characters`);
-          }
-          if (param.TextMaxLen !== undefined && value.length > param.TextMaxLen) {
-            throw new Error(`Parameter ${param.InputName} must be no more than ${param.TextMaxLen} characters`);
-          }
-        }
-      }
-    } catch (validationError) {
-      return NextResponse.json({ 
-        error: `Invalid geometry input parameters: ${validationError}` 
+    // Prefilling from a measurement set is only recorded; the values are validated like any other.
+    const measurementSet = measurementSetId ? await findMeasurementSet(user.organizationId, measurementSetId) : null;
+    if (measurementSetId && !measurementSet) {
+      return NextResponse.json({ error: 'Measurement set not found' }, { status: 400 });
+    }
+
+    // Validate inputParameters with the same engine the new-job form uses
+    const prepared = prepareDesignJobInput(registryDesign, inputParameters, measurementMode, preset);
+    if (!prepared.ok) {
+      return NextResponse.json({
+        error: prepared.error,
+        fieldErrors: prepared.fieldErrors,
       }, { status: 400 });
     }
 
@@ -212,7 +191,9 @@ export async function POST(request: NextRequest) {
         designId,
         creatorId: session.user.id,
         owningOrganizationId: user.organizationId,
-        inputParameters,
+        ...prepared.data,
+        presetId: preset?.id ?? null,
+        measurementSetId: measurementSet?.id ?? null,
         jobLabel: jobLabel || null,
         isEnabled: isEnabled !== undefined ? isEnabled : true,
         objectId,
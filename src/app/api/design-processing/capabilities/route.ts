@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateApiKey, checkApiPermission } from '@/lib/api-auth';
+import { setProcessorCapabilities, getProcessorCapabilities } from '@/lib/geo-processor-health';
+import { parseProcessorCapabilities } from '@/lib/processor-capabilities';
+
+// POST /api/design-processing/capabilities - Advertise which algorithms this processor can run.
+// Body: { algorithms: [{ algorithmName, generatorVersions? }] } (or "Name@version" strings).
+// Replaces any previous advertisement; next-job only offers jobs that match it.
+export async function POST(request: NextRequest) {
+  try {
+    const apiAuth = await validateApiKey(request);
+
+    if (!apiAuth.success || !checkApiPermission(apiAuth.apiKey, 'geometry-queue:read')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const capabilities = parseProcessorCapabilities(body?.algorithms);
+
+    if (!capabilities) {
+      return NextResponse.json({
+        error: 'algorithms must be an array of { algorithmName, generatorVersions? } entries',
+      }, { status: 400 });
+    }
+
+    const processor = await setProcessorCapabilities(
+      { apiKeyId: apiAuth.apiKey!.id, name: apiAuth.apiKey!.name },
+      capabilities,
+    );
+
+    console.log(`Processor ${processor.name} advertised ${capabilities.length} algorithm(s): ${capabilities.map((c) => c.algorithmName).join(', ') || 'none'}`);
+
+    return NextResponse.json({
+      success: true,
+      processorId: processor.id,
+      capabilities: getProcessorCapabilities(processor),
+      capabilitiesUpdatedAt: processor.capabilitiesUpdatedAt,
+    });
+  } catch (error) {
+    console.error('Error updating processor capabilities:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
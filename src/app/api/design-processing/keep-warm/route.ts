@@ -6,7 +6,7 @@ import {
 } from '@/lib/geo-processor-health';
 
 // POST /api/design-processing/keep-warm
-// Called by the /design-jobs/new client page on mount to extend the geo
+// Called by the /design-jobs/new client page on mount to extend every active geo
 // processor's Rhino keep-warm lease. Session auth only -- no body, fire-and-
 // forget from the client. Idempotent: extends warmUntil to max(current, now+lease).
 export async function POST() {
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { validateApiKey, checkApiPermission } from '@/lib/api-auth';
+import { renewDesignJobLease, resolveWorkerId } from '@/lib/design-job-lease';
 
-// POST /api/design-processing/mark-started - Mark a job as started
+// POST /api/design-processing/mark-started - Confirm a claimed job has started.
+// next-job now claims the job itself; this is kept for processors that still call it
+// and simply renews the caller's lease. Returns 409 if the caller no longer holds it.
 export async function POST(request: NextRequest) {
   try {
     // API key authentication required
@@ -19,12 +22,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'jobId required' }, { status: 400 });
     }
 
-    // Mark the job as started
-    const updatedJob = await prisma.designJob.update({
+    const workerId = resolveWorkerId(request, `api-key:${apiAuth.apiKey!.id}`);
+    const leaseExpiresAt = await renewDesignJobLease(jobId, workerId);
+
+    if (!leaseExpiresAt) {
+      return NextResponse.json({ error: 'Job is not leased to this worker' }, { status: 409 });
+    }
+
+    const updatedJob = await prisma.designJob.findUniqueOrThrow({
       where: { id: jobId },
-      data: {
-        processStartedAt: new Date()
-      },
       select: {
         id: true,
         processStartedAt: true,
@@ -36,12 +42,13 @@ export async function POST(request: NextRequest) {
       }
     });
 
-    console.log(`Marked geometry job ${updatedJob.id} (${updatedJob.design.name}) as started at ${updatedJob.processStartedAt}`);
+    console.log(`Marked geometry job ${updatedJob.id} (${updatedJob.design.name}) as started at ${updatedJob.processStartedAt} by worker ${workerId}`);
 
     return NextResponse.json({ 
       success: true,
       jobId: updatedJob.id,
-      startedAt: updatedJob.processStartedAt
+      startedAt: updatedJob.processStartedAt,
+      leaseExpiresAt,
     });
 
   } catch (error) {
@@ -1,31 +1,57 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
-import { prisma } from '@/lib/prisma';
 import { validateApiKey, checkApiPermission } from '@/lib/api-auth';
 import {
   updateProcessorPing,
   getProcessorKeepWarmRemainingSeconds,
+  setProcessorCurrentJob,
+  getProcessorCapabilities,
 } from '@/lib/geo-processor-health';
+import { buildCapabilityJobFilter, getRequiredGeneratorVersion } from '@/lib/processor-capabilities';
 import { ensureInternalTaskRuntimeStarted } from '@/lib/internal-task-runtime';
 import { getDesignById } from '@/designs/registry';
+import {
+  claimNextDesignJob,
+  getDesignJobLeaseMs,
+  getDesignJobMaxAttempts,
+  peekNextDesignJob,
+  resolveWorkerId,
+  type ClaimedDesignJob,
+} from '@/lib/design-job-lease';
 
-// GET /api/design-processing/next-job - Get next geometry processing record for external processing software
+// GET /api/design-processing/next-job - Claim the next geometry processing record for external processing software.
+// API-key callers receive a lease (renew via /renew-lease); session callers only peek.
 export async function GET(request: NextRequest) {
   try {
     ensureInternalTaskRuntimeStarted();
 
     // Try API key authentication first
     const apiAuth = await validateApiKey(request);
-    
+    let nextJob: ClaimedDesignJob | null;
+    let processorId: string | undefined;
+
     if (apiAuth.success) {
       // Validate API key has required permission
       if (!checkApiPermission(apiAuth.apiKey, 'geometry-queue:read')) {
         return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
       }
 
-      // Only processor API-key traffic should advance heartbeat recency.
-      await updateProcessorPing();
-      console.log(`API key access: ${apiAuth.apiKey?.name} requesting next job`);
+      // Only processor API-key traffic should advance heartbeat recency. The
+      // polling key identifies the processor in the registry.
+      const processor = await updateProcessorPing({
+        apiKeyId: apiAuth.apiKey!.id,
+        name: apiAuth.apiKey!.name,
+      });
+      processorId = processor.id;
+
+      // Processors claim the job atomically; the lease keeps every other worker off it.
+      // Only jobs matching the processor's advertised capabilities are offered.
+      const workerId = resolveWorkerId(request, `api-key:${apiAuth.apiKey!.id}`);
+      console.log(`API key access: ${apiAuth.apiKey?.name} (worker ${workerId}) requesting next job`);
+      nextJob = await claimNextDesignJob(workerId, {
+        where: buildCapabilityJobFilter(getProcessorCapabilities(processor)),
+      });
+      await setProcessorCurrentJob(processor.id, nextJob?.id ?? null);
     } else {
       // Fall back to session authentication
       const session = await auth();
@@ -33,53 +59,15 @@ export async function GET(request: NextRequest) {
       if (!session?.user?.id) {
         return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
       }
-    }
 
-    // Find the oldest unprocessed geometry processing queue entry
-    // Include jobs that are either:
-    // 1. Never started (processStartedAt: null)
-    // 2. Started but stuck (processStartedAt set, but no processCompletedAt and older than 10 minutes)
-    const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
-    
-    const nextJob = await prisma.designJob.findFirst({
-      where: {
-        isEnabled: true,
-        processCompletedAt: null, // Not completed
-        OR: [
-          { processStartedAt: null }, // Never started
-          { processStartedAt: { lt: tenMinutesAgo } } // Started but stuck (>10 min ago)
-        ]
-      },
-      include: {
-        design: {
-          select: {
-            name: true,
-            algorithmName: true,
-          }
-        },
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        },
-        owningOrganization: {
-          select: {
-            id: true,
-            name: true
-          }
-        }
-      },
-      orderBy: {
-        createdAt: 'asc'
-      }
-    });
+      // Session callers only peek -- they never take a lease.
+      nextJob = await peekNextDesignJob();
+    }
 
     // keepWarmForSeconds piggybacks on every poll response (200 + 404) so the
     // processor can decide whether to launch or shut down Rhino without a
     // separate request and without any clock-sync assumptions.
-    const keepWarmForSeconds = await getProcessorKeepWarmRemainingSeconds();
+    const keepWarmForSeconds = await getProcessorKeepWarmRemainingSeconds(processorId);
 
     if (!nextJob) {
       return NextResponse.json({
@@ -88,17 +76,13 @@ export async function GET(request: NextRequest) {
       }, { status: 404 });
     }
 
-    // Log whether this is a retry of a stuck job
-    if (nextJob.processStartedAt) {
-      console.log(`Retrying stuck geometry job ${nextJob.id} (${nextJob.design.name}) - originally started at ${nextJob.processStartedAt}`);
+    // Log whether this is a retry of a job whose previous lease lapsed
+    if (nextJob.attemptCount > 1) {
+      console.log(`Retrying geometry job ${nextJob.id} (${nextJob.design.name}) - attempt ${nextJob.attemptCount}, leased to ${nextJob.leaseOwner}`);
     } else {
       console.log(`Fetching geometry job ${nextJob.id} (${nextJob.design.name})`);
     }
 
-    // DON'T mark as started here - the processor will call the mark-started endpoint
-    // This prevents race conditions where the job gets marked as started but the 
-    // processor never receives it due to network issues
-    
     // Get inputParameterSchema from code registry
     const registryDesign = getDesignById(nextJob.designId);
     const geometryJobWithFiles = nextJob as typeof nextJob & {
@@ -106,18 +90,25 @@ export async function GET(request: NextRequest) {
       printFileName?: string | null;
     };
 
-    // Prepare response - return the job without marking as started
+    // Prepare response. leaseExpiresAt/leaseSeconds tell the worker when to call renew-lease.
     const response = NextResponse.json({
       id: nextJob.id,
       objectId: nextJob.objectId,
       designId: nextJob.designId,
       name: nextJob.design.name,
       algorithmName: nextJob.design.algorithmName,
+      generatorVersion: getRequiredGeneratorVersion(nextJob),
       inputParameterSchema: registryDesign ? JSON.stringify(registryDesign.inputParameters) : '[]',
       inputParameters: nextJob.inputParameters,
       jobLabel: nextJob.jobLabel,
+      priority: nextJob.priority,
       createdAt: nextJob.createdAt,
       processStartedAt: nextJob.processStartedAt,
+      leaseOwner: nextJob.leaseOwner,
+      leaseExpiresAt: nextJob.leaseExpiresAt,
+      leaseSeconds: Math.floor(getDesignJobLeaseMs() / 1000),
+      attemptCount: nextJob.attemptCount,
+      maxAttempts: getDesignJobMaxAttempts(),
       // File metadata lives on geometry job; no binary returned here
       meshFileName: geometryJobWithFiles.meshFileName ?? null,
       printFileName: geometryJobWithFiles.printFileName ?? null,
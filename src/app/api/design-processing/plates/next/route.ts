@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateApiKey, checkApiPermission } from '@/lib/api-auth';
+import { claimNextPlateToArrange, getPlateArrangeTimeoutMs } from '@/lib/print-plates';
+
+// GET /api/design-processing/plates/next - Claim the next print plate whose member meshes need arranging.
+// Report the arranged print file to /api/design-processing/plates/result before the claim times out.
+export async function GET(request: NextRequest) {
+  try {
+    const apiAuth = await validateApiKey(request);
+    if (!apiAuth.success || !checkApiPermission(apiAuth.apiKey, 'geometry-queue:read')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const plate = await claimNextPlateToArrange();
+    if (!plate) {
+      return NextResponse.json({ message: 'No plates waiting to be arranged' }, { status: 404 });
+    }
+
+    console.log(`API key access: ${apiAuth.apiKey?.name} arranging print plate ${plate.id} (${plate.printJobs.length} meshes)`);
+
+    return NextResponse.json({
+      id: plate.id,
+      printerModel: plate.printerModel,
+      createdAt: plate.createdAt,
+      arrangeTimeoutSeconds: Math.floor(getPlateArrangeTimeoutMs() / 1000),
+      // Meshes are in blob storage; rows from before blob storage carry their bytes inline.
+      items: plate.printJobs.map((printJob) => ({
+        printJobId: printJob.id,
+        designJobId: printJob.designJob.id,
+        objectId: printJob.designJob.objectId,
+        jobLabel: printJob.designJob.jobLabel,
+        meshFileName: printJob.designJob.meshFileName,
+        meshBlobUrl: printJob.designJob.meshBlobUrl,
+        meshFileContents: !printJob.designJob.meshBlobUrl && printJob.designJob.meshFileContents
+          ? Buffer.from(printJob.designJob.meshFileContents).toString('base64')
+          : null,
+        meshMetadata: printJob.designJob.meshMetadata,
+      })),
+    });
+  } catch (error) {
+    console.error('Error claiming print plate to arrange:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { validateApiKey, checkApiPermission } from '@/lib/api-auth';
+import { getBlobStorageInstance } from '@/lib/blob-storage';
+
+const maxFileSize = 500 * 1024 * 1024; // 500MB, as for design job results
+const maxFileNameLen = 255;
+const allowedPrintExtensions = ['.3mf', '.gcode'];
+
+// POST /api/design-processing/plates/result - Report an arranged plate's print file, or why arranging failed.
+// Multipart (plateId, isSuccess, errorMessage, printFile) or JSON with printBlobUrl/printBlobPathname/printFileName.
+export async function POST(request: NextRequest) {
+  try {
+    const apiAuth = await validateApiKey(request);
+    if (!apiAuth.success || !checkApiPermission(apiAuth.apiKey, 'geometry-queue:write')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const contentType = request.headers.get('content-type') || '';
+    let plateId: string;
+    let isSuccess: boolean;
+    let errorMessage: string | undefined;
+    let printFile: File | undefined;
+    let printFileName: string | undefined;
+    let printBlobUrl: string | undefined;
+    let printBlobPathname: string | undefined;
+
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      plateId = formData.get('plateId') as string;
+      isSuccess = formData.get('isSuccess') === 'true';
+      errorMessage = (formData.get('errorMessage') as string | null) ?? undefined;
+      printFile = (formData.get('printFile') as File | null) ?? undefined;
+      printFileName = printFile?.name;
+    } else {
+      const body = await request.json();
+      plateId = body.plateId;
+      isSuccess = body.isSuccess;
+      errorMessage = body.errorMessage;
+      printFileName = body.printFileName;
+      printBlobUrl = body.printBlobUrl;
+      printBlobPathname = body.printBlobPathname;
+    }
+
+    if (!plateId || typeof isSuccess !== 'boolean') {
+      return NextResponse.json({ error: 'plateId and isSuccess are required' }, { status: 400 });
+    }
+
+    const plate = await prisma.printPlate.findUnique({
+      where: { id: plateId },
+      select: { id: true, isEnabled: true, arrangeStartedAt: true, arrangedAt: true },
+    });
+
+    if (!plate || !plate.isEnabled) {
+      return NextResponse.json({ error: 'Print plate not found' }, { status: 404 });
+    }
+    if (!plate.arrangeStartedAt) {
+      return NextResponse.json({ error: 'Plate has not been handed out for arranging' }, { status: 400 });
+    }
+    if (plate.arrangedAt) {
+      return NextResponse.json({ error: 'Plate has already been arranged' }, { status: 409 });
+    }
+
+    if (!isSuccess) {
+      await prisma.printPlate.update({
+        where: { id: plateId },
+        data: { arrangeFailureReason: errorMessage || 'Arranging failed' },
+      });
+      console.warn(`Print plate ${plateId} could not be arranged: ${errorMessage || 'no error message provided'}`);
+      return NextResponse.json({ success: true });
+    }
+
+    if (!printFileName || printFileName.length > maxFileNameLen || /[\\/]/.test(printFileName)) {
+      return NextResponse.json({ error: 'Invalid printFileName' }, { status: 400 });
+    }
+    const extension = printFileName.slice(printFileName.lastIndexOf('.')).toLowerCase();
+    if (!allowedPrintExtensions.includes(extension)) {
+      return NextResponse.json({ error: `Unsupported print file extension. Allowed: ${allowedPrintExtensions.join(', ')}` }, { status: 400 });
+    }
+
+    if (printFile) {
+      if (printFile.size > maxFileSize) {
+        return NextResponse.json({ error: 'Print file exceeds 500MB limit' }, { status: 400 });
+      }
+      const uploaded = await getBlobStorageInstance().upload(Buffer.from(await printFile.arrayBuffer()), printFile.name);
+      printBlobUrl = uploaded.url;
+      printBlobPathname = uploaded.pathname;
+    }
+    if (!printBlobUrl || !printBlobPathname) {
+      return NextResponse.json({ error: 'A print file (printFile, or printBlobUrl and printBlobPathname) is required' }, { status: 400 });
+    }
+
+    await prisma.printPlate.update({
+      where: { id: plateId },
+      data: { arrangedAt: new Date(), printFileName, printBlobUrl, printBlobPathname },
+    });
+
+    console.log(`Print plate ${plateId} arranged by ${apiAuth.apiKey?.name}: ${printFileName}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error recording print plate arrangement:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
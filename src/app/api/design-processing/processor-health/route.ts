@@ -1,9 +1,9 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
-import { getProcessorStatus } from '@/lib/geo-processor-health';
+import { getProcessorStatus, getProcessorStatuses } from '@/lib/geo-processor-health';
 import { ensureInternalTaskRuntimeStarted } from '@/lib/internal-task-runtime';
 
-// GET /api/design-processing/processor-health - Check if geometry processor is actively polling
+// GET /api/design-processing/processor-health - Check if geometry processors are actively polling
 export async function GET() {
   try {
     ensureInternalTaskRuntimeStarted();
@@ -15,9 +15,12 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const status = await getProcessorStatus();
+    const [status, processors] = await Promise.all([
+      getProcessorStatus(),
+      getProcessorStatuses(),
+    ]);
     
-    return NextResponse.json(status);
+    return NextResponse.json({ ...status, processors });
   } catch (error) {
     console.error('Error checking processor health:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
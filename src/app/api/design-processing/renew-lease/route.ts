@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateApiKey, checkApiPermission } from '@/lib/api-auth';
+import { renewDesignJobLease, resolveWorkerId } from '@/lib/design-job-lease';
+
+// POST /api/design-processing/renew-lease - Extend the caller's lease on a claimed job.
+// Processors call this periodically while a long job runs. 409 means the lease was lost
+// (expired and reclaimed, or the job was reprocessed) and the worker should abandon the job.
+export async function POST(request: NextRequest) {
+  try {
+    const apiAuth = await validateApiKey(request);
+
+    if (!apiAuth.success || !checkApiPermission(apiAuth.apiKey, 'geometry-queue:write')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { jobId } = body;
+
+    if (!jobId || typeof jobId !== 'string') {
+      return NextResponse.json({ error: 'jobId required' }, { status: 400 });
+    }
+
+    const workerId = resolveWorkerId(request, `api-key:${apiAuth.apiKey!.id}`);
+    const leaseExpiresAt = await renewDesignJobLease(jobId, workerId);
+
+    if (!leaseExpiresAt) {
+      console.warn(`Lease renewal rejected for geometry job ${jobId}: not leased to worker ${workerId}`);
+      return NextResponse.json({ error: 'Job is not leased to this worker' }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      leaseExpiresAt,
+    });
+  } catch (error) {
+    console.error('Error renewing job lease:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -3,6 +3,9 @@ import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { validateApiKey, checkApiPermission } from '@/lib/api-auth';
 import { getBlobStorageInstance } from '@/lib/blob-storage';
+import { resolveWorkerId } from '@/lib/design-job-lease';
+import { clearProcessorCurrentJob } from '@/lib/geo-processor-health';
+import { emitDesignJobWebhookEvent } from '@/lib/webhooks';
 import { sendEmail } from '@/lib/email';
 import DesignJobFailedEmail from '@/emails/design-job-failed';
 
@@ -23,18 +26,23 @@ function isAllowedPrintFilename(name: string | undefined): boolean {
   return ext === '.3mf' || ext === '.gcode' || ext === '.stl' || ext === '.obj';
 }
 
+// Thrown inside the result transaction when another result or the retry sweep got there first.
+class DesignJobResultConflictError extends Error {}
+
 // POST /api/design-processing/result - Report geometry processing result from external software
 export async function POST(request: NextRequest) {
   try {
     // Try API key authentication first
     const apiAuth = await validateApiKey(request);
+    let workerId: string | null = null;
     
     if (apiAuth.success) {
       // Validate API key has required permission
       if (!checkApiPermission(apiAuth.apiKey, 'geometry-queue:write')) {
         return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
       }
-      console.log(`API key access: ${apiAuth.apiKey?.name} reporting processing result`);
+      workerId = resolveWorkerId(request, `api-key:${apiAuth.apiKey!.id}`);
+      console.log(`API key access: ${apiAuth.apiKey?.name} (worker ${workerId}) reporting processing result`);
     } else {
       // Fall back to session authentication
       const session = await auth();
@@ -108,7 +116,9 @@ export async function POST(request: NextRequest) {
       select: {
         id: true,
         processStartedAt: true,
-        isProcessSuccessful: true
+        processCompletedAt: true,
+        isProcessSuccessful: true,
+        leaseOwner: true,
       }
     });
 
@@ -125,6 +135,22 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // A late result (another worker finished it, or it ran out of retries) must not overwrite it
+    if (geometryJob.processCompletedAt) {
+      console.warn(`Rejected result for geometry job ${designJobId} from worker ${workerId ?? 'session'}; already completed`);
+      return NextResponse.json({ 
+        error: 'Job has already been completed' 
+      }, { status: 409 });
+    }
+
+    // A processor whose lease lapsed must not overwrite the worker that reclaimed the job
+    if (workerId && geometryJob.leaseOwner !== workerId) {
+      console.warn(`Rejected result for geometry job ${designJobId} from worker ${workerId}; leased to ${geometryJob.leaseOwner}`);
+      return NextResponse.json({ 
+        error: 'Job is leased to another worker' 
+      }, { status: 409 });
+    }
+
     // Validate file size limits (500MB for blob storage, 10MB for legacy base64)
     const maxFileSize = 500 * 1024 * 1024; // 500MB for blob storage
     const maxLegacyFileSize = 10 * 1024 * 1024; // 10MB for base64 (legacy)
@@ -244,70 +270,96 @@ export async function POST(request: NextRequest) {
     }
 
     // Start transaction to update geometry processing queue and create print queue entry if successful
-    const result = await prisma.$transaction(async (tx) => {
-      // Prepare update data
-      const updateData: any = {
-        processCompletedAt: currentTime,
-        isProcessSuccessful: isSuccess,
-        processingLog: processingLog ?? undefined,
-        meshMetadata: meshMetadata ?? undefined,
-      };
-
-      // Handle blob storage (new format)
-      if (geometryBlobResult) {
-        updateData.meshBlobUrl = geometryBlobResult.url;
-        updateData.meshBlobPathname = geometryBlobResult.pathname;
-        updateData.meshFileName = meshFileName;
-      }
-      if (printBlobResult) {
-        updateData.printBlobUrl = printBlobResult.url;
-        updateData.printBlobPathname = printBlobResult.pathname;
-        updateData.printFileName = printFileName;
-      }
+    let result;
+    try {
+      result = await prisma.$transaction(async (tx) => {
+        // Prepare update data
+        const updateData: any = {
+          processCompletedAt: currentTime,
+          isProcessSuccessful: isSuccess,
+          failureReason: isSuccess ? null : (errorMessage || null),
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          processingLog: processingLog ?? undefined,
+          meshMetadata: meshMetadata ?? undefined,
+        };
+
+        // Handle blob storage (new format)
+        if (geometryBlobResult) {
+          updateData.meshBlobUrl = geometryBlobResult.url;
+          updateData.meshBlobPathname = geometryBlobResult.pathname;
+          updateData.meshFileName = meshFileName;
+        }
+        if (printBlobResult) {
+          updateData.printBlobUrl = printBlobResult.url;
+          updateData.printBlobPathname = printBlobResult.pathname;
+          updateData.printFileName = printFileName;
+        }
 
-      // Handle legacy base64 format (fallback)
-      if (meshFileContents && !geometryBlobResult) {
-        updateData.meshFileContents = Buffer.from(meshFileContents, 'base64');
-        updateData.meshFileName = meshFileName;
-      }
-      if (printFileContents && !printBlobResult) {
-        updateData.printFileContents = Buffer.from(printFileContents, 'base64');
-        updateData.printFileName = printFileName;
-      }
+        // Handle legacy base64 format (fallback)
+        if (meshFileContents && !geometryBlobResult) {
+          updateData.meshFileContents = Buffer.from(meshFileContents, 'base64');
+          updateData.meshFileName = meshFileName;
+        }
+        if (printFileContents && !printBlobResult) {
+          updateData.printFileContents = Buffer.from(printFileContents, 'base64');
+          updateData.printFileName = printFileName;
+        }
 
-      // Update the geometry processing queue entry
-      const updatedGeometryJob = await tx.designJob.update({
-        where: { id: designJobId },
-        data: updateData,
-        include: {
-          design: {
-            select: {
-              name: true,
-              algorithmName: true
-            }
+        // Update the geometry processing queue entry, only if it is still open (and still ours),
+        // so two results racing each other can't both be recorded
+        const updated = await tx.designJob.updateMany({
+          where: {
+            id: designJobId,
+            processCompletedAt: null,
+            ...(workerId ? { leaseOwner: workerId } : {}),
           },
-          creator: {
-            select: {
-              name: true,
-              email: true
+          data: updateData,
+        });
+        if (updated.count === 0) {
+          throw new DesignJobResultConflictError('Job has already been completed or is leased to another worker');
+        }
+        const updatedGeometryJob = await tx.designJob.findUniqueOrThrow({
+          where: { id: designJobId },
+          include: {
+            design: {
+              select: {
+                name: true,
+                algorithmName: true
+              }
+            },
+            creator: {
+              select: {
+                name: true,
+                email: true
+              }
             }
           }
-        }
-      });
+        });
 
-      let printQueueEntry = null;
+        let printQueueEntry = null;
 
-      // If processing was successful, create print queue entry referencing this job
-      if (isSuccess) {
-        printQueueEntry = await tx.printJob.create({
-          data: {
-            designJobId
-          }
-        });
+        // If processing was successful, create print queue entry referencing this job
+        if (isSuccess) {
+          printQueueEntry = await tx.printJob.create({
+            data: {
+              designJobId
+            }
+          });
+        }
+
+        return { updatedGeometryJob, printQueueEntry };
+      });
+    } catch (error) {
+      if (error instanceof DesignJobResultConflictError) {
+        console.warn(`Rejected result for geometry job ${designJobId} from worker ${workerId ?? 'session'}: ${error.message}`);
+        return NextResponse.json({ error: error.message }, { status: 409 });
       }
+      throw error;
+    }
 
-      return { updatedGeometryJob, printQueueEntry };
-    });
+    await clearProcessorCurrentJob(designJobId);
+    emitDesignJobWebhookEvent(designJobId, isSuccess ? 'design_job.completed' : 'design_job.failed');
 
     const logMessage = result.updatedGeometryJob.isProcessSuccessful 
       ? `Successfully processed geometry job ${designJobId} (${result.updatedGeometryJob.design.name})`
@@ -110,6 +110,7 @@ export async function POST(
           processCompletedAt: now,
           isProcessSuccessful: true,
           generatorVersionSnapshot: generatorVersion,
+          definitionVersionSnapshot: design.definitionVersion,
           meshFileName: template.meshFileName,
           meshBlobUrl: template.meshBlobUrl,
           meshBlobPathname: template.meshBlobPathname,
@@ -139,6 +140,7 @@ export async function POST(
         objectId,
         objectIdGeneratedAt: new Date(),
         generatorVersionSnapshot: generatorVersion,
+        definitionVersionSnapshot: design.definitionVersion,
       },
     });
 
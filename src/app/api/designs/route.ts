@@ -53,7 +53,7 @@ export async function GET(request: NextRequest) {
         hasCustomForm: d.hasCustomForm,
         hasClinicalGuide: d.hasClinicalGuide,
         category: d.category,
-        ...(includeSchema ? { inputParameters: d.inputParameters } : {}),
+        ...(includeSchema ? { inputParameters: d.inputParameters, rules: d.rules, measurementMap: d.measurementMap } : {}),
       }))
       .sort((a, b) => a.name.localeCompare(b.name));
 
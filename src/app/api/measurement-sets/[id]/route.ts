@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit';
+import { summarizeFieldErrors } from '@/designs/validation';
+import {
+  findMeasurementSet,
+  getMeasurementSetOrganizationId,
+  measurementSetSelect,
+  parseMeasurementSetInput,
+  toMeasurementSetData,
+} from '@/lib/measurement-sets';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET /api/measurement-sets/[id] - Get one of the organization's measurement sets
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = await getMeasurementSetOrganizationId(session.user.id);
+    if (!organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const measurementSet = await findMeasurementSet(organizationId, id);
+    if (!measurementSet) {
+      return NextResponse.json({ error: 'Measurement set not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(measurementSet);
+  } catch (error) {
+    console.error('Error fetching measurement set:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/measurement-sets/[id] - Update a measurement set (partial)
+// Jobs already prefilled from it keep their own values.
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = await getMeasurementSetOrganizationId(session.user.id);
+    if (!organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const current = await findMeasurementSet(organizationId, id);
+    if (!current) {
+      return NextResponse.json({ error: 'Measurement set not found' }, { status: 404 });
+    }
+
+    const { input, errors } = parseMeasurementSetInput(await request.json(), current);
+    if (Object.keys(errors).length > 0) {
+      return NextResponse.json({
+        error: `Invalid measurement set: ${summarizeFieldErrors(errors)}`,
+        fieldErrors: errors,
+      }, { status: 400 });
+    }
+
+    const duplicate = await prisma.measurementSet.findFirst({
+      where: { organizationId, caseReference: input.caseReference, hand: input.hand, id: { not: id } },
+      select: { id: true },
+    });
+    if (duplicate) {
+      return NextResponse.json({ error: 'This case already has measurements for that hand' }, { status: 409 });
+    }
+
+    const row = await prisma.measurementSet.update({
+      where: { id },
+      data: {
+        caseReference: input.caseReference,
+        hand: input.hand,
+        measurements: input.measurements,
+        notes: input.notes,
+      },
+      select: measurementSetSelect,
+    });
+
+    logAuditEvent({
+      eventType: 'MEASUREMENT_SET_UPDATED',
+      channel: 'SYSTEM',
+      actorId: session.user.id,
+      organizationId,
+      metadata: { measurementSetId: id, caseReference: row.caseReference, hand: row.hand },
+    });
+
+    return NextResponse.json(toMeasurementSetData(row));
+  } catch (error) {
+    console.error('Error updating measurement set:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/measurement-sets/[id] - Delete a measurement set
+// Jobs prefilled from it keep their values and lose the link.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = await getMeasurementSetOrganizationId(session.user.id);
+    if (!organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const current = await findMeasurementSet(organizationId, id);
+    if (!current) {
+      return NextResponse.json({ error: 'Measurement set not found' }, { status: 404 });
+    }
+
+    await prisma.measurementSet.delete({ where: { id } });
+
+    logAuditEvent({
+      eventType: 'MEASUREMENT_SET_DELETED',
+      channel: 'SYSTEM',
+      actorId: session.user.id,
+      organizationId,
+      metadata: { measurementSetId: id, caseReference: current.caseReference, hand: current.hand },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting measurement set:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
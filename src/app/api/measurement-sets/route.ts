@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit';
+import { summarizeFieldErrors } from '@/designs/validation';
+import {
+  getMeasurementSetOrganizationId,
+  measurementSetSelect,
+  parseMeasurementSetInput,
+  toMeasurementSetData,
+} from '@/lib/measurement-sets';
+
+// GET /api/measurement-sets - List the organization's measurement sets
+// Supports ?q= to filter by case reference
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = await getMeasurementSetOrganizationId(session.user.id);
+    if (!organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const query = request.nextUrl.searchParams.get('q')?.trim();
+    const rows = await prisma.measurementSet.findMany({
+      where: {
+        organizationId,
+        ...(query ? { caseReference: { contains: query, mode: 'insensitive' as const } } : {}),
+      },
+      select: measurementSetSelect,
+      orderBy: [{ updatedAt: 'desc' }],
+    });
+
+    return NextResponse.json(rows.map(toMeasurementSetData));
+  } catch (error) {
+    console.error('Error fetching measurement sets:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/measurement-sets - Create a measurement set
+// Body: { caseReference, hand: 'LEFT' | 'RIGHT', measurements: { "<finger>.<measurement>": mm }, notes? }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organizationId = await getMeasurementSetOrganizationId(session.user.id);
+    if (!organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const { input, errors } = parseMeasurementSetInput(await request.json());
+    if (Object.keys(errors).length > 0) {
+      return NextResponse.json({
+        error: `Invalid measurement set: ${summarizeFieldErrors(errors)}`,
+        fieldErrors: errors,
+      }, { status: 400 });
+    }
+
+    const existing = await prisma.measurementSet.findFirst({
+      where: { organizationId, caseReference: input.caseReference, hand: input.hand },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json({ error: 'This case already has measurements for that hand' }, { status: 409 });
+    }
+
+    const row = await prisma.measurementSet.create({
+      data: {
+        organizationId,
+        caseReference: input.caseReference,
+        hand: input.hand,
+        measurements: input.measurements,
+        notes: input.notes,
+        createdById: session.user.id,
+      },
+      select: measurementSetSelect,
+    });
+
+    logAuditEvent({
+      eventType: 'MEASUREMENT_SET_CREATED',
+      channel: 'SYSTEM',
+      actorId: session.user.id,
+      organizationId,
+      metadata: { measurementSetId: row.id, caseReference: row.caseReference, hand: row.hand },
+    });
+
+    return NextResponse.json(toMeasurementSetData(row), { status: 201 });
+  } catch (error) {
+    console.error('Error creating measurement set:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit';
+import { getDesignById } from '@/designs/registry';
+import { summarizeFieldErrors } from '@/designs/validation';
+import { findDesignPreset, getPresetAccess, parsePresetInput, saveDesignPreset } from '@/lib/design-presets';
+
+type RouteParams = { params: Promise<{ id: string; designId: string; presetId: string }> };
+
+// PUT /api/organizations/[id]/designs/[designId]/presets/[presetId] - Update a preset
+// Body: any of { name, isDefault, fields }; omitted properties are kept.
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, designId, presetId } = await params;
+    const access = await getPresetAccess(session.user.id, id);
+    if (!access.canManage) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const design = getDesignById(designId);
+    const current = await findDesignPreset(id, designId, presetId);
+    if (!design || !current) {
+      return NextResponse.json({ error: 'Preset not found' }, { status: 404 });
+    }
+
+    const { input, errors } = parsePresetInput(await request.json(), design, current);
+    if (Object.keys(errors).length > 0) {
+      return NextResponse.json({
+        error: `Invalid preset: ${summarizeFieldErrors(errors)}`,
+        fieldErrors: errors,
+      }, { status: 400 });
+    }
+
+    if (input.name !== current.name) {
+      const existing = await prisma.designPreset.findFirst({
+        where: { organizationId: id, designId, name: input.name },
+        select: { id: true },
+      });
+      if (existing) {
+        return NextResponse.json({ error: 'A preset with this name already exists for this design' }, { status: 409 });
+      }
+    }
+
+    const preset = await saveDesignPreset(id, designId, input, { presetId, createdById: session.user.id });
+
+    logAuditEvent({
+      eventType: 'DESIGN_PRESET_UPDATED',
+      channel: 'SYSTEM',
+      actorId: session.user.id,
+      organizationId: id,
+      metadata: { presetId, designId, name: preset.name, fields: input.fields },
+    });
+
+    return NextResponse.json(preset);
+  } catch (error) {
+    console.error('Error updating design preset:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/organizations/[id]/designs/[designId]/presets/[presetId] - Delete a preset
+// Jobs created from it keep their values; their presetId is cleared.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, designId, presetId } = await params;
+    const access = await getPresetAccess(session.user.id, id);
+    if (!access.canManage) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const current = await findDesignPreset(id, designId, presetId);
+    if (!current) {
+      return NextResponse.json({ error: 'Preset not found' }, { status: 404 });
+    }
+
+    await prisma.designPreset.delete({ where: { id: presetId } });
+
+    logAuditEvent({
+      eventType: 'DESIGN_PRESET_DELETED',
+      channel: 'SYSTEM',
+      actorId: session.user.id,
+      organizationId: id,
+      metadata: { presetId, designId, name: current.name },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting design preset:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
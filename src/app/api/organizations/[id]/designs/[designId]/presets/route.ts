@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit';
+import { getDesignById } from '@/designs/registry';
+import { summarizeFieldErrors } from '@/designs/validation';
+import {
+  designPresetSelect,
+  getPresetAccess,
+  parsePresetInput,
+  saveDesignPreset,
+  toDesignPresetData,
+} from '@/lib/design-presets';
+
+type RouteParams = { params: Promise<{ id: string; designId: string }> };
+
+// GET /api/organizations/[id]/designs/[designId]/presets - List the org's presets for a design
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, designId } = await params;
+    const access = await getPresetAccess(session.user.id, id);
+    if (!access.canRead) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const rows = await prisma.designPreset.findMany({
+      where: { organizationId: id, designId },
+      select: designPresetSelect,
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    });
+
+    return NextResponse.json(rows.map(toDesignPresetData));
+  } catch (error) {
+    console.error('Error fetching design presets:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/organizations/[id]/designs/[designId]/presets - Create a preset
+// Body: { name, isDefault?, fields: { [InputName]: { value?, locked?, min?, max? } } }
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, designId } = await params;
+    const access = await getPresetAccess(session.user.id, id);
+    if (!access.canManage) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const design = getDesignById(designId);
+    const visible = await prisma.organizationDesign.findUnique({
+      where: { organizationId_designId: { organizationId: id, designId } },
+    });
+    if (!design || !visible) {
+      return NextResponse.json({ error: 'Design not found for this organization' }, { status: 404 });
+    }
+
+    const { input, errors } = parsePresetInput(await request.json(), design);
+    if (Object.keys(errors).length > 0) {
+      return NextResponse.json({
+        error: `Invalid preset: ${summarizeFieldErrors(errors)}`,
+        fieldErrors: errors,
+      }, { status: 400 });
+    }
+
+    const existing = await prisma.designPreset.findFirst({
+      where: { organizationId: id, designId, name: input.name },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json({ error: 'A preset with this name already exists for this design' }, { status: 409 });
+    }
+
+    const preset = await saveDesignPreset(id, designId, input, { createdById: session.user.id });
+
+    logAuditEvent({
+      eventType: 'DESIGN_PRESET_CREATED',
+      channel: 'SYSTEM',
+      actorId: session.user.id,
+      organizationId: id,
+      metadata: { presetId: preset.id, designId, name: preset.name, fields: input.fields },
+    });
+
+    return NextResponse.json(preset, { status: 201 });
+  } catch (error) {
+    console.error('Error creating design preset:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
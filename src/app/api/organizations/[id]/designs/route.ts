@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { getDesignById } from '@/designs/registry';
 
 // GET /api/organizations/[id]/designs - List design IDs visible to this org
+// ?includeSchema=true returns { id, name, inputParameters } for each visible code design instead
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -34,6 +36,15 @@ export async function GET(
       select: { designId: true },
     });
 
+    if (request.nextUrl.searchParams.get('includeSchema') === 'true') {
+      const designs = rows
+        .map((r) => getDesignById(r.designId))
+        .filter((d) => d !== undefined)
+        .map((d) => ({ id: d.id, name: d.name, inputParameters: d.inputParameters }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      return NextResponse.json(designs);
+    }
+
     return NextResponse.json(rows.map((r) => r.designId));
   } catch (error) {
     console.error('Error fetching org geometries:', error);
@@ -85,10 +96,11 @@ export async function PUT(
       return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
     }
 
-    // Replace the full set in a transaction
+    // Replace the full set in a transaction. Rows that stay are left alone so their
+    // presets (which cascade with the row) survive a re-save.
     await prisma.$transaction([
       prisma.organizationDesign.deleteMany({
-        where: { organizationId: id },
+        where: { organizationId: id, designId: { notIn: geometryIds } },
       }),
       ...(geometryIds.length > 0
         ? [
@@ -97,6 +109,7 @@ export async function PUT(
                 organizationId: id,
                 designId: geoId,
               })),
+              skipDuplicates: true,
             }),
           ]
         : []),
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit';
+import { canManageWebhooks, createWebhookDelivery } from '@/lib/webhooks';
+
+type RouteParams = { params: Promise<{ id: string; webhookId: string; deliveryId: string }> };
+
+// POST /api/organizations/[id]/webhooks/[webhookId]/deliveries/[deliveryId]/redeliver
+// Send a delivery's event again as a new delivery, with a fresh set of attempts.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, webhookId, deliveryId } = await params;
+    if (!(await canManageWebhooks(session.user.id, id))) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const original = await prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, endpointId: webhookId, endpoint: { organizationId: id } },
+      select: { eventType: true, payload: true },
+    });
+    if (!original) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+    }
+
+    const delivery = await createWebhookDelivery(webhookId, original.eventType, original.payload ?? {});
+
+    logAuditEvent({
+      eventType: 'WEBHOOK_REDELIVERED',
+      channel: 'SYSTEM',
+      actorId: session.user.id,
+      organizationId: id,
+      metadata: { webhookEndpointId: webhookId, originalDeliveryId: deliveryId, deliveryId: delivery.id },
+    });
+
+    return NextResponse.json(delivery, { status: 201 });
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { canManageWebhooks } from '@/lib/webhooks';
+
+type RouteParams = { params: Promise<{ id: string; webhookId: string }> };
+
+const DELIVERY_LOG_LIMIT = 50;
+
+// GET /api/organizations/[id]/webhooks/[webhookId]/deliveries - Recent deliveries, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, webhookId } = await params;
+    if (!(await canManageWebhooks(session.user.id, id))) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { endpointId: webhookId, endpoint: { organizationId: id } },
+      orderBy: { createdAt: 'desc' },
+      take: DELIVERY_LOG_LIMIT,
+    });
+
+    return NextResponse.json(deliveries);
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit';
+import { summarizeFieldErrors } from '@/designs/validation';
+import {
+  canManageWebhooks,
+  parseWebhookEndpointInput,
+  toWebhookEndpointData,
+  webhookEndpointSelect,
+} from '@/lib/webhooks';
+
+type RouteParams = { params: Promise<{ id: string; webhookId: string }> };
+
+// PUT /api/organizations/[id]/webhooks/[webhookId] - Update an endpoint
+// Body: any of { url, events, description, isActive }; omitted properties are kept.
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, webhookId } = await params;
+    if (!(await canManageWebhooks(session.user.id, id))) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const existing = await prisma.webhookEndpoint.findFirst({
+      where: { id: webhookId, organizationId: id },
+      select: webhookEndpointSelect,
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    const { input, errors } = await parseWebhookEndpointInput(await request.json(), toWebhookEndpointData(existing));
+    if (Object.keys(errors).length > 0) {
+      return NextResponse.json({
+        error: `Invalid webhook: ${summarizeFieldErrors(errors)}`,
+        fieldErrors: errors,
+      }, { status: 400 });
+    }
+
+    const row = await prisma.webhookEndpoint.update({
+      where: { id: webhookId },
+      data: input,
+      select: webhookEndpointSelect,
+    });
+
+    logAuditEvent({
+      eventType: 'WEBHOOK_ENDPOINT_UPDATED',
+      channel: 'SYSTEM',
+      actorId: session.user.id,
+      organizationId: id,
+      metadata: { webhookEndpointId: webhookId, url: input.url, events: input.events, isActive: input.isActive },
+    });
+
+    return NextResponse.json(toWebhookEndpointData(row));
+  } catch (error) {
+    console.error('Error updating webhook endpoint:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/organizations/[id]/webhooks/[webhookId] - Remove an endpoint and its delivery log
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, webhookId } = await params;
+    if (!(await canManageWebhooks(session.user.id, id))) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const deleted = await prisma.webhookEndpoint.deleteMany({ where: { id: webhookId, organizationId: id } });
+    if (deleted.count === 0) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    logAuditEvent({
+      eventType: 'WEBHOOK_ENDPOINT_DELETED',
+      channel: 'SYSTEM',
+      actorId: session.user.id,
+      organizationId: id,
+      metadata: { webhookEndpointId: webhookId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting webhook endpoint:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { canManageWebhooks, createWebhookDelivery } from '@/lib/webhooks';
+import { WEBHOOK_TEST_EVENT } from '@/lib/webhook-events';
+
+type RouteParams = { params: Promise<{ id: string; webhookId: string }> };
+
+// POST /api/organizations/[id]/webhooks/[webhookId]/test - Send a webhook.test event
+// It goes through the normal delivery log, so the result shows up there.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, webhookId } = await params;
+    if (!(await canManageWebhooks(session.user.id, id))) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const endpoint = await prisma.webhookEndpoint.findFirst({
+      where: { id: webhookId, organizationId: id },
+      select: { id: true },
+    });
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    const delivery = await createWebhookDelivery(endpoint.id, WEBHOOK_TEST_EVENT, {
+      type: WEBHOOK_TEST_EVENT,
+      createdAt: new Date().toISOString(),
+      organizationId: id,
+      data: {},
+    });
+
+    return NextResponse.json(delivery, { status: 201 });
+  } catch (error) {
+    console.error('Error sending test webhook:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
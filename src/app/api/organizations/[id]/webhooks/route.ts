@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit';
+import { summarizeFieldErrors } from '@/designs/validation';
+import {
+  canManageWebhooks,
+  generateWebhookSecret,
+  parseWebhookEndpointInput,
+  toWebhookEndpointData,
+  webhookEndpointSelect,
+} from '@/lib/webhooks';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET /api/organizations/[id]/webhooks - List the org's webhook endpoints
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await canManageWebhooks(session.user.id, id))) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const rows = await prisma.webhookEndpoint.findMany({
+      where: { organizationId: id },
+      select: webhookEndpointSelect,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json(rows.map(toWebhookEndpointData));
+  } catch (error) {
+    console.error('Error fetching webhook endpoints:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/organizations/[id]/webhooks - Register an endpoint
+// Body: { url, events: string[], description?, isActive? }
+// Returns the signing secret; this is the only time it is shown.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!(await canManageWebhooks(session.user.id, id))) {
+      return NextResponse.json({ error: 'Forbidden - admin access required' }, { status: 403 });
+    }
+
+    const { input, errors } = await parseWebhookEndpointInput(await request.json());
+    if (Object.keys(errors).length > 0) {
+      return NextResponse.json({
+        error: `Invalid webhook: ${summarizeFieldErrors(errors)}`,
+        fieldErrors: errors,
+      }, { status: 400 });
+    }
+
+    const secret = generateWebhookSecret();
+    const row = await prisma.webhookEndpoint.create({
+      data: { ...input, secret, organizationId: id, createdById: session.user.id },
+      select: webhookEndpointSelect,
+    });
+
+    logAuditEvent({
+      eventType: 'WEBHOOK_ENDPOINT_CREATED',
+      channel: 'SYSTEM',
+      actorId: session.user.id,
+      organizationId: id,
+      metadata: { webhookEndpointId: row.id, url: input.url, events: input.events },
+    });
+
+    return NextResponse.json({ ...toWebhookEndpointData(row), secret }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating webhook endpoint:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
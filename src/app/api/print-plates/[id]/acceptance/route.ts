@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { emitPrintWebhookEvent } from '@/lib/webhooks';
+import { VALID_ACCEPTANCE_VALUES, isPrintAcceptanceValue } from '@/lib/print-acceptance';
+import { isActivePrintState, stateForAcceptance } from '@/lib/print-state';
+import { PrintTransitionError, transitionPrintJob } from '@/lib/print-state-transitions';
+
+// POST /api/print-plates/[id]/acceptance - Accept, reject, or archive every unreviewed print on a plate
+// Members already reviewed one by one keep their own outcome. { reprint: true } queues a new print per member.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { printAcceptance, printNote, reprint } = body;
+
+    if (!isPrintAcceptanceValue(printAcceptance)) {
+      return NextResponse.json(
+        { error: `printAcceptance must be one of: ${VALID_ACCEPTANCE_VALUES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { organizationId: true }
+    });
+
+    if (!user?.organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const plate = await prisma.printPlate.findUnique({
+      where: { id },
+      select: {
+        organizationId: true,
+        printCompletedAt: true,
+        printJobs: { select: { id: true, designJobId: true, state: true, printNote: true } },
+      },
+    });
+
+    if (!plate) {
+      return NextResponse.json({ error: 'Print plate not found' }, { status: 404 });
+    }
+
+    if (plate.organizationId !== user.organizationId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    if (printAcceptance === 'ACCEPTED' && !plate.printCompletedAt) {
+      return NextResponse.json({ error: 'Plate must be completed before acceptance' }, { status: 400 });
+    }
+
+    const unreviewed = plate.printJobs.filter((printJob) => isActivePrintState(printJob.state));
+    if (unreviewed.length === 0) {
+      return NextResponse.json({ error: 'Every print on this plate has already been reviewed' }, { status: 400 });
+    }
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        for (const printJob of unreviewed) {
+          const result = await transitionPrintJob(printJob.id, stateForAcceptance(printAcceptance), {
+            data: {
+              printAcceptance,
+              printNote: printNote || printJob.printNote,
+              acceptedByUserId: session.user!.id,
+            },
+            actorUserId: session.user!.id,
+            reason: printNote || 'Reviewed with its plate',
+          }, tx);
+          if (!result.ok) {
+            throw new PrintTransitionError(result.reason);
+          }
+        }
+        if (reprint === true) {
+          await tx.printJob.createMany({
+            data: unreviewed.map((printJob) => ({ designJobId: printJob.designJobId })),
+          });
+        }
+      });
+    } catch (error) {
+      if (error instanceof PrintTransitionError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    for (const printJob of unreviewed) {
+      if (printAcceptance === 'ACCEPTED') {
+        emitPrintWebhookEvent(printJob.id, 'print.accepted');
+      } else if (printAcceptance === 'REJECT_DESIGN' || printAcceptance === 'REJECT_PRINT') {
+        emitPrintWebhookEvent(printJob.id, 'print.rejected');
+      }
+    }
+
+    console.log(`Recorded ${printAcceptance} for ${unreviewed.length} print(s) on plate ${id} by user ${session.user.id}`);
+    return NextResponse.json({ success: true, printJobIds: unreviewed.map((printJob) => printJob.id), reprinted: reprint === true });
+  } catch (error) {
+    console.error('Error updating print plate acceptance:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
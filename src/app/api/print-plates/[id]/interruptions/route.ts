@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { broadcastPrintQueueUpdate } from '../../../print-queue/events/route';
+import { DEVICE_ID_HEADER } from '@/lib/print-dispatch';
+import { recordPrintPlateInterruption } from '@/lib/print-plates';
+import { parsePrintInterruptionInput } from '@/lib/print-interruptions';
+
+// POST /api/print-plates/[id]/interruptions - The printer client reports a failed, cancelled or paused plate
+// Body: { kind, hmsCode?, hmsMessage?, message?, progress?, printerSerial? }; recorded against every member.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = parsePrintInterruptionInput(body ?? {});
+    if (!parsed.input) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const input = parsed.input;
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { organizationId: true }
+    });
+    if (!user?.organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const plate = await prisma.printPlate.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true, isEnabled: true, printerSerial: true, printCompletedAt: true },
+    });
+    if (!plate || !plate.isEnabled) {
+      return NextResponse.json({ error: 'Print plate not found' }, { status: 404 });
+    }
+    if (plate.organizationId !== user.organizationId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    // The printer the client named, else the one the plate started on, with its latest snapshot.
+    const printerSerial = input.printerSerial ?? plate.printerSerial;
+    const printer = printerSerial ? await prisma.printer.findUnique({
+      where: { serial: printerSerial },
+      select: {
+        serial: true,
+        device: { select: { organizationId: true } },
+        snapshots: { orderBy: { capturedAt: 'desc' }, take: 1, select: { id: true } }
+      }
+    }) : null;
+    if (input.printerSerial && printer?.device?.organizationId !== user.organizationId) {
+      return NextResponse.json({ error: 'Printer not found in your organization' }, { status: 400 });
+    }
+
+    const result = await recordPrintPlateInterruption(plate, input, {
+      actorUserId: session.user.id,
+      deviceId: request.headers.get(DEVICE_ID_HEADER),
+      printer: printer ? { serial: printer.serial, snapshotId: printer.snapshots[0]?.id ?? null } : null,
+    });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.reason }, { status: 409 });
+    }
+
+    // Queue pages listen per print job, so each member gets its own update.
+    const members = await prisma.printJob.findMany({
+      where: { id: { in: result.memberIds } },
+      select: { id: true, state: true, stateChangedAt: true, failureReason: true }
+    });
+    for (const member of members) {
+      broadcastPrintQueueUpdate({ type: 'state', ...member });
+    }
+
+    console.log(`Print plate ${id} reported ${input.kind}${input.hmsCode ? ` (HMS ${input.hmsCode})` : ''} by user ${session.user.id}`);
+
+    return NextResponse.json({ id, printJobs: members, interruptions: result.interruptions }, { status: 201 });
+  } catch (error) {
+    console.error('Error recording print plate interruption:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
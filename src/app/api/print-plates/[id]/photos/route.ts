@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getBlobStorageInstance } from '@/lib/blob-storage';
+
+// POST /api/print-plates/[id]/photos - Upload a print bed photo of a plate; recorded on every member
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const plate = await prisma.printPlate.findUnique({
+      where: { id },
+      select: { organizationId: true, printJobs: { select: { id: true } } },
+    });
+
+    if (!plate) {
+      return NextResponse.json({ error: 'Print plate not found' }, { status: 404 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { organizationId: true },
+    });
+
+    if (plate.organizationId !== user?.organizationId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const photo = formData.get('photo') as File | null;
+    const progressStr = formData.get('progress') as string | null;
+
+    if (!photo || !progressStr) {
+      return NextResponse.json({ error: 'photo and progress are required' }, { status: 400 });
+    }
+
+    const progress = parseFloat(progressStr);
+    if (isNaN(progress) || progress < 0 || progress > 100) {
+      return NextResponse.json({ error: 'Invalid progress value' }, { status: 400 });
+    }
+
+    const buffer = Buffer.from(await photo.arrayBuffer());
+    const filename = `plate-${id}-${Math.round(progress)}pct.jpg`;
+
+    const storage = getBlobStorageInstance();
+    const uploadResult = await storage.upload(buffer, filename);
+
+    // One upload, one photo row per member so each print job's page shows it.
+    const capturedAt = new Date();
+    await prisma.printJobPhoto.createMany({
+      data: plate.printJobs.map((printJob) => ({
+        printJobId: printJob.id,
+        photoUrl: uploadResult.url,
+        photoPathname: uploadResult.pathname,
+        progress,
+        capturedAt,
+      })),
+    });
+
+    return NextResponse.json({
+      photoUrl: uploadResult.url,
+      progress,
+      capturedAt,
+      printJobIds: plate.printJobs.map((printJob) => printJob.id),
+    });
+  } catch (error) {
+    console.error('Error uploading print plate photo:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
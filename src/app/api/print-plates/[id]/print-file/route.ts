@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+// GET /api/print-plates/[id]/print-file - Download the arranged plate's print file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { organizationId: true },
+    });
+
+    if (!user?.organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const plate = await prisma.printPlate.findUnique({
+      where: { id },
+      select: { organizationId: true, printBlobUrl: true },
+    });
+
+    if (!plate) {
+      return NextResponse.json({ error: 'Print plate not found' }, { status: 404 });
+    }
+
+    if (plate.organizationId !== user.organizationId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    if (!plate.printBlobUrl) {
+      return NextResponse.json({ error: 'Plate has not been arranged yet' }, { status: 404 });
+    }
+
+    // Local blob URLs are relative and served (with session auth) by /api/local-blob.
+    return NextResponse.redirect(new URL(plate.printBlobUrl, request.url));
+  } catch (error) {
+    console.error('Error downloading print plate file:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
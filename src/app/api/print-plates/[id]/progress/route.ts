@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { broadcastPrintQueueUpdate } from '../../../print-queue/events/route';
+import { recordPrintPlateProgress } from '@/lib/print-plates';
+
+// PUT /api/print-plates/[id]/progress - Report plate progress; copied to every member print job
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { progress } = body;
+
+    if (typeof progress !== 'number' || progress < 0 || progress > 100) {
+      return NextResponse.json({ error: 'Invalid progress value' }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { organizationId: true }
+    });
+
+    const plate = await prisma.printPlate.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true, isEnabled: true, printStartedAt: true, printCompletedAt: true },
+    });
+
+    if (!plate || !plate.isEnabled) {
+      return NextResponse.json({ error: 'Print plate not found' }, { status: 404 });
+    }
+
+    if (plate.organizationId !== user?.organizationId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const result = await recordPrintPlateProgress(plate, progress);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.reason }, { status: 409 });
+    }
+    const { memberIds, reportedAt } = result;
+
+    // Queue pages listen per print job, so each member gets its own update.
+    broadcastPrintQueueUpdate({ type: 'plate-progress', id, progress, progressLastReportAt: reportedAt });
+    for (const memberId of memberIds) {
+      broadcastPrintQueueUpdate({ type: 'progress', id: memberId, progress, progressLastReportAt: reportedAt });
+    }
+
+    return NextResponse.json({ success: true, id, progress });
+  } catch (error) {
+    console.error('Error updating print plate progress:', error);
+    return NextResponse.json({ error: 'Failed to update print plate progress' }, { status: 500 });
+  }
+}
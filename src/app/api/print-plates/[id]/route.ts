@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { DEVICE_ID_HEADER } from '@/lib/print-dispatch';
+import { disbandPrintPlate, printPlateInclude, startPrintPlate } from '@/lib/print-plates';
+
+// GET /api/print-plates/[id] - Get a print plate with its members
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { organizationId: true }
+    });
+
+    if (!user?.organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const plate = await prisma.printPlate.findUnique({
+      where: { id },
+      include: printPlateInclude,
+    });
+
+    if (!plate) {
+      return NextResponse.json({ error: 'Print plate not found' }, { status: 404 });
+    }
+
+    if (plate.organizationId !== user.organizationId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    return NextResponse.json(plate);
+  } catch (error) {
+    console.error('Error fetching print plate:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT /api/print-plates/[id] - Start an arranged plate ({ printStartedAt, printerSerial? })
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { organizationId: true }
+    });
+
+    if (!user?.organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const plate = await prisma.printPlate.findUnique({
+      where: { id },
+      select: { organizationId: true, printerModel: true, arrangedAt: true, printStartedAt: true, isEnabled: true },
+    });
+
+    if (!plate || !plate.isEnabled) {
+      return NextResponse.json({ error: 'Print plate not found' }, { status: 404 });
+    }
+
+    if (plate.organizationId !== user.organizationId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { printStartedAt, printerSerial } = body;
+
+    if (!printStartedAt || Number.isNaN(new Date(printStartedAt).getTime())) {
+      return NextResponse.json({ error: 'printStartedAt is required' }, { status: 400 });
+    }
+    if (!plate.arrangedAt) {
+      return NextResponse.json({ error: 'Plate has not been arranged yet' }, { status: 400 });
+    }
+
+    // The printer has to be one of the organization's, of the plate's model. A client that
+    // doesn't say which printer gets its device's printer of that model, if it has one.
+    const deviceId = request.headers.get(DEVICE_ID_HEADER);
+    let serial: string | null = null;
+    if (printerSerial !== undefined && printerSerial !== null) {
+      const printer = typeof printerSerial === 'string'
+        ? await prisma.printer.findFirst({
+            where: { serial: printerSerial, device: { organizationId: user.organizationId } },
+            select: { serial: true, model: true },
+          })
+        : null;
+      if (!printer) {
+        return NextResponse.json({ error: 'Printer not found in your organization' }, { status: 400 });
+      }
+      if (printer.model !== plate.printerModel) {
+        return NextResponse.json({ error: `This plate is arranged for a ${plate.printerModel} printer` }, { status: 400 });
+      }
+      serial = printer.serial;
+    } else if (deviceId) {
+      const printer = await prisma.printer.findFirst({
+        where: { deviceId, model: plate.printerModel },
+        select: { serial: true },
+        orderBy: { serial: 'asc' },
+      });
+      serial = printer?.serial ?? null;
+    }
+
+    const started = await startPrintPlate(id, {
+      startedAt: new Date(printStartedAt),
+      userId: session.user.id,
+      printerSerial: serial,
+    });
+    if (!started) {
+      return NextResponse.json({ error: 'This plate has already been started' }, { status: 409 });
+    }
+
+    console.log(`Started print plate ${id} on printer ${serial ?? 'unknown'} by user ${session.user.id}`);
+
+    const updated = await prisma.printPlate.findUnique({ where: { id }, include: printPlateInclude });
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error starting print plate:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/print-plates/[id] - Disband a plate that hasn't started; its jobs return to the queue
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { organizationId: true }
+    });
+
+    if (!user?.organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const plate = await prisma.printPlate.findUnique({
+      where: { id },
+      select: { organizationId: true },
+    });
+
+    if (!plate) {
+      return NextResponse.json({ error: 'Print plate not found' }, { status: 404 });
+    }
+
+    if (plate.organizationId !== user.organizationId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const disbanded = await disbandPrintPlate(id);
+    if (!disbanded) {
+      return NextResponse.json({ error: 'Only plates that have not started can be disbanded' }, { status: 409 });
+    }
+
+    console.log(`Disbanded print plate ${id} by user ${session.user.id}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error disbanding print plate:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { createPrintPlate, parsePrintPlateInput, printPlateInclude } from '@/lib/print-plates';
+
+// GET /api/print-plates - List the organization's print plates with their members
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { organizationId: true }
+    });
+
+    if (!user?.organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const plates = await prisma.printPlate.findMany({
+      where: { organizationId: user.organizationId, isEnabled: true },
+      include: printPlateInclude,
+      orderBy: [
+        { printCompletedAt: { sort: 'desc', nulls: 'first' } },
+        { createdAt: 'desc' }
+      ],
+      take: 100,
+    });
+
+    return NextResponse.json(plates);
+  } catch (error) {
+    console.error('Error fetching print plates:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/print-plates - Group unstarted print jobs into a plate for the geo processor to arrange
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { organizationId: true }
+    });
+
+    if (!user?.organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = await parsePrintPlateInput(body, user.organizationId);
+    if (!parsed.input) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const plate = await createPrintPlate(user.organizationId, session.user.id, parsed.input);
+    if (!plate) {
+      return NextResponse.json({ error: 'Some print jobs were started or plated in the meantime; refresh and try again' }, { status: 409 });
+    }
+
+    console.log(`Created print plate ${plate.id} (${plate.printerModel}) with ${plate.printJobs.length} print jobs by user ${session.user.id}`);
+    return NextResponse.json(plate, { status: 201 });
+  } catch (error) {
+    console.error('Error creating print plate:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { emitPrintWebhookEvent } from '@/lib/webhooks';
+import { VALID_ACCEPTANCE_VALUES } from '@/lib/print-acceptance';
+import { stateForAcceptance } from '@/lib/print-state';
+import { transitionPrintJob } from '@/lib/print-state-transitions';
 
 // POST /api/print-queue/[id]/acceptance - Accept, reject, or archive a print
 // Valid printAcceptance values: ACCEPTED, REJECT_DESIGN, REJECT_PRINT, ARCHIVED
-const VALID_ACCEPTANCE_VALUES = ['ACCEPTED', 'REJECT_DESIGN', 'REJECT_PRINT', 'ARCHIVED'] as const;
-type PrintAcceptanceValue = typeof VALID_ACCEPTANCE_VALUES[number];
 
 export async function POST(
   request: NextRequest,
@@ -67,31 +69,23 @@ export async function POST(
       );
     }
 
-    // Require print completion before accepting; support both the canonical
-    // printCompletedAt flag and legacy progress > 99 for older records
-    if (printAcceptance === 'ACCEPTED' && !printJob.printCompletedAt && (!printJob.progress || printJob.progress <= 99)) {
-      return NextResponse.json(
-        { error: 'Print must be completed (progress > 99%) before acceptance' },
-        { status: 400 }
-      );
-    }
-
-    // Verify print hasn't already been accepted/rejected
-    if (printJob.printAcceptance !== null) {
-      return NextResponse.json(
-        { error: 'Print has already been accepted or rejected' },
-        { status: 400 }
-      );
-    }
-
-    // Update the print job
-    const updatedPrint = await prisma.printJob.update({
-      where: { id },
+    // The state machine decides what can be reviewed: only a completed print can be
+    // accepted, and a reviewed print can't be reviewed again.
+    const transition = await transitionPrintJob(id, stateForAcceptance(printAcceptance), {
       data: {
         printAcceptance,
         printNote: printNote || printJob.printNote,
         acceptedByUserId: session.user.id,
       },
+      actorUserId: session.user.id,
+      reason: printNote || null,
+    });
+    if (!transition.ok) {
+      return NextResponse.json({ error: transition.reason }, { status: 400 });
+    }
+
+    const updatedPrint = await prisma.printJob.findUniqueOrThrow({
+      where: { id },
       include: {
         designJob: {
           include: {
@@ -106,6 +100,12 @@ export async function POST(
       }
     });
 
+    if (printAcceptance === 'ACCEPTED') {
+      emitPrintWebhookEvent(id, 'print.accepted');
+    } else if (printAcceptance === 'REJECT_DESIGN' || printAcceptance === 'REJECT_PRINT') {
+      emitPrintWebhookEvent(id, 'print.rejected');
+    }
+
     return NextResponse.json(updatedPrint);
   } catch (error) {
     console.error('Error updating print acceptance:', error);
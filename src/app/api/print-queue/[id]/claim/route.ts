@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  claimPrintJob,
+  findDevicePrinters,
+  releasePrintJobClaim,
+  resolveDispatchDevice,
+} from '@/lib/print-dispatch';
+
+async function authorize(request: NextRequest, id: string) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { organizationId: true }
+  });
+  if (!user?.organizationId) {
+    return { response: NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 }) };
+  }
+
+  const printJob = await prisma.printJob.findUnique({
+    where: { id },
+    select: { designJob: { select: { owningOrganizationId: true } } }
+  });
+  if (!printJob) {
+    return { response: NextResponse.json({ error: 'Print queue entry not found' }, { status: 404 }) };
+  }
+  if (printJob.designJob.owningOrganizationId !== user.organizationId) {
+    return { response: NextResponse.json({ error: 'Access denied' }, { status: 403 }) };
+  }
+
+  const resolved = await resolveDispatchDevice(request, user.organizationId);
+  if (!resolved.device) {
+    return { response: NextResponse.json({ error: resolved.error }, { status: resolved.status }) };
+  }
+  return { device: resolved.device };
+}
+
+// POST /api/print-queue/[id]/claim - Claim this print job for the calling device before sending it to a printer
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const authorized = await authorize(request, id);
+    if (!authorized.device) {
+      return authorized.response;
+    }
+
+    // Optional body: { printerSerial } when the operator picked the printer, and
+    // { allowFilamentMismatch } when they confirmed the filament is loaded despite the snapshot.
+    const body = await request.json().catch(() => ({}));
+    const printerSerial = body?.printerSerial;
+    if (printerSerial !== undefined && typeof printerSerial !== 'string') {
+      return NextResponse.json({ error: 'printerSerial must be a string' }, { status: 400 });
+    }
+    const allowFilamentMismatch = body?.allowFilamentMismatch ?? false;
+    if (typeof allowFilamentMismatch !== 'boolean') {
+      return NextResponse.json({ error: 'allowFilamentMismatch must be a boolean' }, { status: 400 });
+    }
+
+    const printers = await findDevicePrinters(authorized.device.id, printerSerial ? [printerSerial] : undefined);
+    if (!printers) {
+      return NextResponse.json({ error: 'Printer is not attached to this device' }, { status: 400 });
+    }
+
+    const result = await claimPrintJob(id, authorized.device, printers, { allowFilamentMismatch });
+    if (!result.dispatch) {
+      console.warn(`Print job ${id} claim refused for device ${authorized.device.id}: ${result.conflict}`);
+      return NextResponse.json({ error: result.conflict }, { status: 409 });
+    }
+
+    return NextResponse.json(result.dispatch);
+  } catch (error) {
+    console.error('Error claiming print job:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/print-queue/[id]/claim - Release the calling device's claim without starting the print
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const authorized = await authorize(request, id);
+    if (!authorized.device) {
+      return authorized.response;
+    }
+
+    const released = await releasePrintJobClaim(id, authorized.device.id);
+    if (!released) {
+      return NextResponse.json({ error: 'This device does not hold a claim on this print job' }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error releasing print job claim:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
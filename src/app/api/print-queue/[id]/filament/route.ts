@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  DEVICE_ID_HEADER,
+  checkPrintersFilament,
+  findDevicePrinters,
+  getDesignFilament,
+  resolveDispatchDevice,
+  type DispatchPrinter,
+} from '@/lib/print-dispatch';
+
+// GET /api/print-queue/[id]/filament - The filament this print needs and whether the printers it can go to have it loaded
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { organizationId: true }
+    });
+    if (!user?.organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const printJob = await prisma.printJob.findUnique({
+      where: { id },
+      select: {
+        assignedPrinterSerial: true,
+        assignedPrinterModel: true,
+        designJob: { select: { designId: true, owningOrganizationId: true } }
+      }
+    });
+    if (!printJob) {
+      return NextResponse.json({ error: 'Print queue entry not found' }, { status: 404 });
+    }
+    if (printJob.designJob.owningOrganizationId !== user.organizationId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const filament = getDesignFilament(printJob.designJob.designId);
+    if (!filament) {
+      return NextResponse.json({ filament: null, printers: [] });
+    }
+
+    // From a client device, the printers attached to it; otherwise the organization's.
+    let printers: DispatchPrinter[];
+    if (request.headers.get(DEVICE_ID_HEADER)) {
+      const resolved = await resolveDispatchDevice(request, user.organizationId);
+      if (!resolved.device) {
+        return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+      }
+      printers = (await findDevicePrinters(resolved.device.id)) ?? [];
+    } else {
+      printers = await prisma.printer.findMany({
+        where: { device: { organizationId: user.organizationId } },
+        select: { serial: true, model: true, name: true },
+        orderBy: { serial: 'asc' }
+      });
+    }
+
+    const eligible = printers.filter((printer) => (
+      printJob.assignedPrinterSerial ? printer.serial === printJob.assignedPrinterSerial
+        : printJob.assignedPrinterModel ? printer.model === printJob.assignedPrinterModel
+          : true
+    ));
+
+    return NextResponse.json({ filament, printers: await checkPrintersFilament(filament, eligible) });
+  } catch (error) {
+    console.error('Error checking print filament:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { broadcastPrintQueueUpdate } from '../../events/route';
+import { emitPrintWebhookEvent } from '@/lib/webhooks';
+import { DEVICE_ID_HEADER } from '@/lib/print-dispatch';
+import { PrintTransitionError, transitionPrintJob } from '@/lib/print-state-transitions';
+import {
+  PRINT_INTERRUPTION_STATES,
+  describePrintInterruption,
+  parsePrintInterruptionInput,
+} from '@/lib/print-interruptions';
+
+// POST /api/print-queue/[id]/interruptions - The printer client reports a failed, cancelled or paused print
+// Body: { kind, hmsCode?, hmsMessage?, message?, progress?, printerSerial? }. A later progress report resumes a pause.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = parsePrintInterruptionInput(body ?? {});
+    if (!parsed.input) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const input = parsed.input;
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { organizationId: true }
+    });
+    if (!user?.organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const printJob = await prisma.printJob.findUnique({
+      where: { id },
+      select: {
+        plateId: true,
+        printerSerial: true,
+        printCompletedAt: true,
+        designJob: { select: { owningOrganizationId: true } }
+      }
+    });
+    if (!printJob) {
+      return NextResponse.json({ error: 'Print queue entry not found' }, { status: 404 });
+    }
+    if (printJob.designJob.owningOrganizationId !== user.organizationId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+    if (printJob.plateId) {
+      return NextResponse.json({ error: `This print is on a plate; report to /api/print-plates/${printJob.plateId}/interruptions` }, { status: 400 });
+    }
+
+    // The printer the client named, else the one the job started on, with its latest snapshot.
+    const printerSerial = input.printerSerial ?? printJob.printerSerial;
+    const printer = printerSerial ? await prisma.printer.findUnique({
+      where: { serial: printerSerial },
+      select: {
+        serial: true,
+        device: { select: { organizationId: true } },
+        snapshots: { orderBy: { capturedAt: 'desc' }, take: 1, select: { id: true } }
+      }
+    }) : null;
+    if (input.printerSerial && printer?.device?.organizationId !== user.organizationId) {
+      return NextResponse.json({ error: 'Printer not found in your organization' }, { status: 400 });
+    }
+
+    const now = new Date();
+    const state = PRINT_INTERRUPTION_STATES[input.kind];
+    const reason = describePrintInterruption(input);
+    const progressData = input.progress != null ? { progress: input.progress, progressLastReportAt: now } : {};
+    const deviceId = request.headers.get(DEVICE_ID_HEADER);
+
+    let recorded;
+    try {
+      recorded = await prisma.$transaction(async (tx) => {
+        const result = await transitionPrintJob(id, state, {
+          data: state === 'FAILED' ? {
+            ...progressData,
+            failureReason: reason,
+            isPrintSuccessful: false,
+            claimExpiresAt: null,
+            ...(printJob.printCompletedAt ? {} : { printCompletedAt: now }),
+          } : progressData,
+          actorUserId: session.user!.id,
+          deviceId,
+          reason,
+        }, tx);
+        if (!result.ok) {
+          throw new PrintTransitionError(result.reason);
+        }
+
+        const interruption = await tx.printInterruption.create({
+          data: {
+            printJobId: id,
+            kind: input.kind,
+            hmsCode: input.hmsCode,
+            hmsMessage: input.hmsMessage,
+            message: input.message,
+            progress: input.progress,
+            printerSerial: printer?.serial ?? null,
+            printerSnapshotId: printer?.snapshots[0]?.id ?? null,
+            deviceId,
+            createdAt: now,
+          }
+        });
+        return { interruption, failed: state === 'FAILED' && result.from !== 'FAILED' };
+      });
+    } catch (error) {
+      if (error instanceof PrintTransitionError) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      throw error;
+    }
+
+    if (recorded.failed) {
+      emitPrintWebhookEvent(id, 'print.failed');
+    }
+
+    const updated = await prisma.printJob.findUniqueOrThrow({
+      where: { id },
+      select: { id: true, state: true, stateChangedAt: true, failureReason: true }
+    });
+    broadcastPrintQueueUpdate({ type: 'state', ...updated });
+
+    console.log(`Print queue entry ${id} reported ${input.kind}${input.hmsCode ? ` (HMS ${input.hmsCode})` : ''} by user ${session.user.id}`);
+
+    return NextResponse.json({ ...updated, interruption: recorded.interruption }, { status: 201 });
+  } catch (error) {
+    console.error('Error recording print interruption:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
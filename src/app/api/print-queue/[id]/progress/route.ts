@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { broadcastPrintQueueUpdate } from '../../events/route';
+import { emitPrintWebhookEvent } from '@/lib/webhooks';
+import { DEVICE_ID_HEADER } from '@/lib/print-dispatch';
+import { recordPrintProgress } from '@/lib/print-state-transitions';
 
 export async function PUT(
   request: NextRequest,
@@ -27,59 +30,47 @@ export async function PUT(
     // TODO: In the future, we could match by filename if needed
     const printQueueEntry = await prisma.printJob.findUnique({
       where: { id },
-      include: {
-        designJob: {
-          include: {
-            design: true,
-          },
-        },
-      },
+      select: { id: true },
     });
 
     if (!printQueueEntry) {
       return NextResponse.json({ error: 'Print queue entry not found' }, { status: 404 });
     }
 
-    // Update progress; set printStartedAt if not already set (covers recovery after restart);
-    // auto-complete when the printer reports 100%
-    const progressData: any = {
-      progress,
-      progressLastReportAt: new Date(),
-    };
-    if (!printQueueEntry.printStartedAt) {
-      progressData.printStartedAt = new Date();
-    }
-    if (progress >= 100) {
-      progressData.printCompletedAt = new Date();
-      progressData.isPrintSuccessful = true;
+    const result = await recordPrintProgress(id, progress, {
+      now: new Date(),
+      actorUserId: session.user.id,
+      deviceId: request.headers.get(DEVICE_ID_HEADER),
+    });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.reason }, { status: 409 });
     }
 
-    const updatedEntry = await prisma.printJob.update({
+    const updatedEntry = await prisma.printJob.findUniqueOrThrow({
       where: { id: printQueueEntry.id },
-      data: progressData,
-      include: {
-        designJob: {
-          include: {
-            design: true,
-            creator: true,
-            owningOrganization: true,
-          },
-        },
-      },
+      select: { id: true, state: true, progress: true, progressLastReportAt: true },
     });
 
+    if (result.started) {
+      emitPrintWebhookEvent(updatedEntry.id, 'print.started');
+    }
+    if (result.completed) {
+      emitPrintWebhookEvent(updatedEntry.id, 'print.completed');
+    }
+
     // Broadcast the update to all connected clients
     broadcastPrintQueueUpdate({
       type: 'progress',
       id: updatedEntry.id,
       progress,
-      progressLastReportAt: (updatedEntry as any).progressLastReportAt,
+      progressLastReportAt: updatedEntry.progressLastReportAt,
+      state: updatedEntry.state,
     });
 
     return NextResponse.json({ 
       success: true,
       id: updatedEntry.id,
-      progress: (updatedEntry as any).progress,
+      progress: updatedEntry.progress,
     });
   } catch (error) {
     console.error('Error updating print progress:', error);
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { getDesignById } from '@/designs/registry';
+import { emitPrintWebhookEvent } from '@/lib/webhooks';
+import { DEVICE_ID_HEADER, parsePrintAssignment, startPrintJob } from '@/lib/print-dispatch';
+import { printJobTransitionSelect, transitionPrintJob } from '@/lib/print-state-transitions';
 
 // GET /api/print-queue/[id] - Get specific print queue entry
 export async function GET(
@@ -40,7 +43,25 @@ export async function GET(
             owningOrganization: { select: { name: true } }
           }
         },
-        photos: { orderBy: { capturedAt: 'asc' }, select: { id: true, photoUrl: true, progress: true, capturedAt: true } }
+        assignedPrinter: { select: { serial: true, model: true, name: true } },
+        plate: { select: { id: true, printerModel: true, arrangedAt: true } },
+        claimedByDevice: { select: { id: true, name: true } },
+        photos: { orderBy: { capturedAt: 'asc' }, select: { id: true, photoUrl: true, progress: true, capturedAt: true } },
+        transitions: { orderBy: { createdAt: 'asc' }, select: printJobTransitionSelect },
+        interruptions: {
+          orderBy: { createdAt: 'desc' },
+          select: {
+            id: true,
+            kind: true,
+            hmsCode: true,
+            hmsMessage: true,
+            message: true,
+            progress: true,
+            createdAt: true,
+            printer: { select: { serial: true, name: true, model: true } },
+            printerSnapshot: { select: { firmware: true, capturedAt: true } }
+          }
+        }
       }
     });
 
@@ -175,25 +196,69 @@ export async function PUT(
       }
     }
 
+    const assignment = await parsePrintAssignment(body, user.organizationId);
+    if (assignment.error) {
+      return NextResponse.json({ error: assignment.error }, { status: 400 });
+    }
+    if (assignment.input && existingEntry.printStartedAt) {
+      return NextResponse.json({ error: 'Cannot reassign a print that has already started' }, { status: 400 });
+    }
+    if (assignment.input && existingEntry.plateId) {
+      return NextResponse.json({ error: 'This print is on a plate; the plate decides the printer model' }, { status: 400 });
+    }
+
     // Prepare update data - only include fields that are provided
     const updateData: any = {};
-    
-    if (printStartedAt !== undefined) {
-      updateData.printStartedAt = printStartedAt ? new Date(printStartedAt) : null;
-      // Track who started the print
-      if (printStartedAt) {
-        updateData.printedByUserId = session.user.id;
+
+    // Starting goes through a conditional update so two devices can't both start it.
+    if (printStartedAt && !existingEntry.printStartedAt) {
+      const start = await startPrintJob(id, {
+        startedAt: new Date(printStartedAt),
+        userId: session.user.id,
+        deviceId: request.headers.get(DEVICE_ID_HEADER),
+      });
+      if (!start.started) {
+        console.warn(`Print queue entry ${id} start refused for user ${session.user.id}: ${start.reason}`);
+        return NextResponse.json({ error: start.reason }, { status: 409 });
       }
     }
-    
-    if (printCompletedAt !== undefined) {
-      updateData.printCompletedAt = printCompletedAt ? new Date(printCompletedAt) : null;
+
+    // Clearing the start puts the print back in the queue; any dispatch claim is void.
+    if (printStartedAt === null && existingEntry.printStartedAt) {
+      const reset = await transitionPrintJob(id, 'QUEUED', {
+        data: { printStartedAt: null, claimedByDeviceId: null, claimedAt: null, claimExpiresAt: null },
+        actorUserId: session.user.id,
+        reason: 'Start cleared',
+      });
+      if (!reset.ok) {
+        return NextResponse.json({ error: reset.reason }, { status: 409 });
+      }
     }
-    
-    if (isPrintSuccessful !== undefined) {
-      updateData.isPrintSuccessful = isPrintSuccessful;
+
+    if (assignment.input) {
+      updateData.assignedPrinterSerial = assignment.input.assignedPrinterSerial;
+      updateData.assignedPrinterModel = assignment.input.assignedPrinterModel;
+      // A claim taken under the old assignment may be for a printer that no longer qualifies.
+      updateData.printerSerial = null;
+      updateData.claimedByDeviceId = null;
+      updateData.claimedAt = null;
+      updateData.claimExpiresAt = null;
     }
-    
+
+    // Recording the finish moves the print to COMPLETED or FAILED.
+    if (printCompletedAt && !existingEntry.printCompletedAt) {
+      const successful = isPrintSuccessful ?? existingEntry.isPrintSuccessful;
+      const finish = await transitionPrintJob(id, successful ? 'COMPLETED' : 'FAILED', {
+        data: { printCompletedAt: new Date(printCompletedAt), isPrintSuccessful: !!successful },
+        actorUserId: session.user.id,
+        deviceId: request.headers.get(DEVICE_ID_HEADER),
+        reason: successful ? 'Marked completed' : 'Marked failed',
+      });
+      if (!finish.ok) {
+        return NextResponse.json({ error: finish.reason }, { status: 409 });
+      }
+    }
+
     if (printNote !== undefined) {
       updateData.printNote = printNote;
     }
@@ -236,6 +301,13 @@ export async function PUT(
     });
 
     console.log(`Updated print queue entry ${id} by user ${session.user.id}`);
+
+    if (printStartedAt && !existingEntry.printStartedAt) {
+      emitPrintWebhookEvent(id, 'print.started');
+    }
+    if (printCompletedAt && !existingEntry.printCompletedAt) {
+      emitPrintWebhookEvent(id, updatedEntry.isPrintSuccessful ? 'print.completed' : 'print.failed');
+    }
     
     // Return without binary data
     const gpqUpdate: any = (updatedEntry as any).designJob;
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { broadcastPrintQueueUpdate } from '../../events/route';
+import { emitPrintWebhookEvent } from '@/lib/webhooks';
+import { DEVICE_ID_HEADER } from '@/lib/print-dispatch';
+import { transitionPrintJob } from '@/lib/print-state-transitions';
+import type { PrintJobStateValue } from '@/lib/print-state';
+
+const MAX_REASON_LENGTH = 500;
+
+// States this route moves a print into. Claims, starts, progress and review have their own
+// routes; these are what the printer or operator report in between.
+// Printer-reported failures with an HMS code go through ./interruptions instead.
+const REPORTABLE_STATES: Partial<Record<PrintJobStateValue, (now: Date, reason: string | null) => Prisma.PrintJobUncheckedUpdateManyInput>> = {
+  PAUSED: () => ({}),
+  PRINTING: () => ({}),
+  FAILED: (now, reason) => ({ printCompletedAt: now, isPrintSuccessful: false, failureReason: reason, claimExpiresAt: null }),
+  // Back to the queue as if it had never been sent.
+  QUEUED: () => ({
+    printStartedAt: null,
+    printCompletedAt: null,
+    isPrintSuccessful: false,
+    failureReason: null,
+    progress: null,
+    progressLastReportAt: null,
+    printerSerial: null,
+    claimedByDeviceId: null,
+    claimedAt: null,
+    claimExpiresAt: null,
+  }),
+};
+
+// POST /api/print-queue/[id]/state - Pause, resume, fail or requeue a print
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { state, reason } = body;
+
+    const buildData = typeof state === 'string' ? REPORTABLE_STATES[state as PrintJobStateValue] : undefined;
+    if (!buildData) {
+      return NextResponse.json(
+        { error: `state must be one of: ${Object.keys(REPORTABLE_STATES).join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (reason !== undefined && reason !== null && (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH)) {
+      return NextResponse.json({ error: `reason must be text of at most ${MAX_REASON_LENGTH} characters` }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { organizationId: true }
+    });
+    if (!user?.organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const printJob = await prisma.printJob.findUnique({
+      where: { id },
+      select: { plateId: true, designJob: { select: { owningOrganizationId: true } } }
+    });
+    if (!printJob) {
+      return NextResponse.json({ error: 'Print queue entry not found' }, { status: 404 });
+    }
+    if (printJob.designJob.owningOrganizationId !== user.organizationId) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+    if (printJob.plateId) {
+      return NextResponse.json({ error: `This print is on a plate; its state follows the plate (interruptions go to /api/print-plates/${printJob.plateId}/interruptions)` }, { status: 400 });
+    }
+
+    const result = await transitionPrintJob(id, state, {
+      data: buildData(new Date(), reason || null),
+      actorUserId: session.user.id,
+      deviceId: request.headers.get(DEVICE_ID_HEADER),
+      reason: reason || null,
+    });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.reason }, { status: 409 });
+    }
+    if (state === 'FAILED' && result.from !== 'FAILED') {
+      emitPrintWebhookEvent(id, 'print.failed');
+    }
+
+    const updated = await prisma.printJob.findUniqueOrThrow({
+      where: { id },
+      select: { id: true, state: true, stateChangedAt: true }
+    });
+    broadcastPrintQueueUpdate({ type: 'state', ...updated });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error changing print state:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
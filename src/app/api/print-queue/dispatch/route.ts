@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { claimNextPrintJob, findDevicePrinters, resolveDispatchDevice } from '@/lib/print-dispatch';
+
+// POST /api/print-queue/dispatch - Claim the next print job for one of this device's printers
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { organizationId: true }
+    });
+
+    if (!user?.organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const resolved = await resolveDispatchDevice(request, user.organizationId);
+    if (!resolved.device) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+
+    // Optional body: { printerSerials: [...] } limits the claim to the printers that are ready.
+    const body = await request.json().catch(() => ({}));
+    const printerSerials = body?.printerSerials;
+    if (printerSerials !== undefined && (!Array.isArray(printerSerials) || printerSerials.some((s: unknown) => typeof s !== 'string'))) {
+      return NextResponse.json({ error: 'printerSerials must be a list of printer serials' }, { status: 400 });
+    }
+
+    const printers = await findDevicePrinters(resolved.device.id, printerSerials);
+    if (!printers) {
+      return NextResponse.json({ error: 'Every printer in printerSerials must be attached to this device' }, { status: 400 });
+    }
+
+    const dispatch = await claimNextPrintJob(resolved.device, printers);
+
+    await prisma.clientDevice.update({
+      where: { id: resolved.device.id },
+      data: { lastSeenAt: new Date() },
+    }).catch(() => {}); // non-critical
+
+    if (!dispatch) {
+      return NextResponse.json({ printJob: null, printer: null });
+    }
+
+    console.log(`Dispatched print job ${dispatch.printJob.id} to device ${resolved.device.id} (printer ${dispatch.printer?.serial ?? 'unknown'})`);
+    return NextResponse.json(dispatch);
+  } catch (error) {
+    console.error('Error dispatching print job:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -25,9 +25,10 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
     }
 
-    // Check for optional geometry job ID filter
+    // Check for optional geometry job ID and batch filters
     const { searchParams } = new URL(request.url);
     const geometryJobId = searchParams.get('geometryJobId');
+    const batchId = searchParams.get('batchId');
 
     // Build where clause
     const whereClause: any = {
@@ -41,6 +42,9 @@ export async function GET(request: NextRequest) {
     if (geometryJobId) {
       whereClause.designJobId = geometryJobId;
     }
+    if (batchId) {
+      whereClause.designJob.batchId = batchId;
+    }
 
     const printQueue = await prisma.printJob.findMany({
       where: whereClause,
@@ -48,6 +52,8 @@ export async function GET(request: NextRequest) {
         // Print Queue fields
         id: true,
         createdAt: true,
+        state: true,
+        stateChangedAt: true,
         printStartedAt: true,
         printCompletedAt: true,
         isPrintSuccessful: true,
@@ -55,6 +61,10 @@ export async function GET(request: NextRequest) {
         printAcceptance: true,
         progress: true,
         progressLastReportAt: true,
+        assignedPrinterSerial: true,
+        assignedPrinterModel: true,
+        assignedPrinter: { select: { name: true } },
+        plateId: true,
         // Nested geometry processing queue - ONLY fields needed for list view
         designJob: {
           select: {
@@ -76,6 +86,13 @@ export async function GET(request: NextRequest) {
               select: {
                 name: true
               }
+            },
+            // Lets the queue group a batch's prints so they can be plated together
+            batch: {
+              select: {
+                id: true,
+                labelPrefix: true
+              }
             }
             // Exclude: owningOrganization (not displayed in list)
           }
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+// GET /api/printers - List printers attached to the organization's devices (for print assignment)
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { organizationId: true }
+    });
+
+    if (!user?.organizationId) {
+      return NextResponse.json({ error: 'User must be part of an organization' }, { status: 403 });
+    }
+
+    const printers = await prisma.printer.findMany({
+      where: { device: { organizationId: user.organizationId } },
+      select: {
+        serial: true,
+        model: true,
+        name: true,
+        lastSnapshotAt: true,
+        device: { select: { id: true, name: true } },
+      },
+      orderBy: [{ model: 'asc' }, { serial: 'asc' }],
+    });
+
+    return NextResponse.json(printers);
+  } catch (error) {
+    console.error('Error fetching printers:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  apiV1DesignJobSelect,
+  apiV1Error,
+  apiV1InternalError,
+  authenticateApiV1,
+  toDesignJobResource,
+} from '@/lib/api-v1';
+
+// GET /api/v1/design-jobs/[id] - One of the organization's design jobs
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { caller, response } = await authenticateApiV1(request, 'design-jobs:read');
+    if (response) return response;
+
+    const { id } = await params;
+    const job = await prisma.designJob.findFirst({
+      where: { id, owningOrganizationId: caller.organizationId, isDebugRequest: false },
+      select: apiV1DesignJobSelect,
+    });
+    if (!job) {
+      return apiV1Error('not_found', 'Design job not found');
+    }
+
+    return NextResponse.json({ data: toDesignJobResource(job) });
+  } catch (error) {
+    return apiV1InternalError('fetching a design job', error);
+  }
+}
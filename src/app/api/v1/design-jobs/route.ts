@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { generateObjectId } from '@/lib/objectId';
+import { getDesignById } from '@/designs/registry';
+import { DEFAULT_MEASUREMENT_MODE } from '@/designs/units';
+import { summarizeFieldErrors } from '@/designs/validation';
+import { prepareDesignJobInput } from '@/lib/design-job-input';
+import { createDesignJobRequestSchema } from '@/lib/api-v1-schema';
+import {
+  apiV1DesignJobSelect,
+  type ApiV1DesignJobRow,
+  apiV1Error,
+  apiV1InternalError,
+  apiV1Page,
+  authenticateApiV1,
+  createdAtCursor,
+  CREATED_AT_CURSOR,
+  createdBeforeCursor,
+  parseApiV1PageParams,
+  toDesignJobResource,
+  validateApiV1Body,
+} from '@/lib/api-v1';
+
+interface CreateDesignJobRequest {
+  designId: string;
+  inputParameters: Record<string, unknown>;
+  jobLabel?: string | null;
+  idempotencyKey?: string | null;
+}
+
+// GET /api/v1/design-jobs - The organization's design jobs, newest first
+// Supports ?designId=, ?limit= and ?cursor=
+export async function GET(request: NextRequest) {
+  try {
+    const { caller, response } = await authenticateApiV1(request, 'design-jobs:read');
+    if (response) return response;
+    const { page, response: pageError } = parseApiV1PageParams(request, CREATED_AT_CURSOR);
+    if (pageError) return pageError;
+
+    const designId = request.nextUrl.searchParams.get('designId');
+    const jobs = await prisma.designJob.findMany({
+      where: {
+        owningOrganizationId: caller.organizationId,
+        isDebugRequest: false,
+        ...(designId ? { designId } : {}),
+        ...createdBeforeCursor(page.after),
+      },
+      select: apiV1DesignJobSelect,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: page.limit + 1,
+    });
+
+    return apiV1Page(jobs, page.limit, createdAtCursor, toDesignJobResource);
+  } catch (error) {
+    return apiV1InternalError('listing design jobs', error);
+  }
+}
+
+// POST /api/v1/design-jobs - Create a design job in the key's organization
+// Body: { designId, inputParameters, jobLabel?, idempotencyKey? }; values in canonical units.
+// Jobs belong to the admin who issued the key, like imported jobs.
+export async function POST(request: NextRequest) {
+  try {
+    const { caller, response } = await authenticateApiV1(request, 'design-jobs:write');
+    if (response) return response;
+    const { body, response: bodyError } = await validateApiV1Body<CreateDesignJobRequest>(request, createDesignJobRequestSchema);
+    if (bodyError) return bodyError;
+
+    const design = getDesignById(body.designId);
+    const visible = await prisma.organizationDesign.findFirst({
+      where: { organizationId: caller.organizationId, designId: body.designId },
+      select: { designId: true },
+    });
+    if (!design || !design.isActive || !visible) {
+      return apiV1Error('not_found', 'Design not found');
+    }
+
+    const idempotencyKey = body.idempotencyKey?.trim() || null;
+    const findExisting = () => idempotencyKey
+      ? prisma.designJob.findFirst({
+        where: { owningOrganizationId: caller.organizationId, importKey: idempotencyKey },
+        select: apiV1DesignJobSelect,
+      })
+      : null;
+    // The key namespace is shared with bulk imports; a key names one order of one design.
+    const existingResponse = (job: ApiV1DesignJobRow) => job.designId === design.id
+      ? NextResponse.json({ data: toDesignJobResource(job) })
+      : apiV1Error('invalid_request', `idempotencyKey already used for design ${job.designId}`, {
+        idempotencyKey: `Already used for design ${job.designId}`,
+      });
+    const existing = await findExisting();
+    if (existing) {
+      return existingResponse(existing);
+    }
+
+    const prepared = prepareDesignJobInput(design, body.inputParameters, DEFAULT_MEASUREMENT_MODE, null);
+    if (!prepared.ok) {
+      const fieldErrors = Object.fromEntries(
+        Object.entries(prepared.fieldErrors ?? {}).map(([name, message]) => [`inputParameters.${name}`, message]),
+      );
+      return apiV1Error(
+        'invalid_request',
+        prepared.fieldErrors ? `Invalid inputParameters: ${summarizeFieldErrors(prepared.fieldErrors)}` : 'Invalid inputParameters',
+        fieldErrors,
+      );
+    }
+
+    try {
+      const job = await prisma.designJob.create({
+        data: {
+          ...prepared.data,
+          designId: design.id,
+          creatorId: caller.createdBy,
+          owningOrganizationId: caller.organizationId,
+          jobLabel: body.jobLabel?.trim() || null,
+          importKey: idempotencyKey,
+          importApiKeyId: idempotencyKey ? caller.apiKeyId : null,
+          objectId: await generateObjectId(),
+          objectIdGeneratedAt: new Date(),
+        },
+        select: apiV1DesignJobSelect,
+      });
+      console.log(`API v1 design job ${job.id} created via API key ${caller.apiKeyName} (${caller.apiKeyId})`);
+      return NextResponse.json({ data: toDesignJobResource(job) }, { status: 201 });
+    } catch (error) {
+      // A concurrent retry with the same idempotencyKey got there first.
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const job = await findExisting();
+        if (job) {
+          return existingResponse(job);
+        }
+      }
+      throw error;
+    }
+  } catch (error) {
+    return apiV1InternalError('creating a design job', error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getDesignById } from '@/designs/registry';
+import { apiV1Error, apiV1InternalError, authenticateApiV1, toDesignResource } from '@/lib/api-v1';
+
+// GET /api/v1/designs/[id] - One design with its input parameters
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { caller, response } = await authenticateApiV1(request, 'designs:read');
+    if (response) return response;
+
+    const { id } = await params;
+    const design = getDesignById(id);
+    const visible = await prisma.organizationDesign.findFirst({
+      where: { organizationId: caller.organizationId, designId: id },
+      select: { designId: true },
+    });
+    if (!design || !design.isActive || !visible) {
+      return apiV1Error('not_found', 'Design not found');
+    }
+
+    return NextResponse.json({ data: toDesignResource(design) });
+  } catch (error) {
+    return apiV1InternalError('fetching a design', error);
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getActiveDesigns } from '@/designs/registry';
+import {
+  apiV1InternalError,
+  apiV1Page,
+  authenticateApiV1,
+  parseApiV1PageParams,
+  toDesignResource,
+} from '@/lib/api-v1';
+
+// GET /api/v1/designs - Active designs the key's organization can order, by name
+export async function GET(request: NextRequest) {
+  try {
+    const { caller, response } = await authenticateApiV1(request, 'designs:read');
+    if (response) return response;
+    const { page, response: pageError } = parseApiV1PageParams(request, ['string', 'string']);
+    if (pageError) return pageError;
+
+    const visible = await prisma.organizationDesign.findMany({
+      where: { organizationId: caller.organizationId },
+      select: { designId: true },
+    });
+    const visibleIds = new Set(visible.map((row) => row.designId));
+
+    // Designs come from the code registry, so the page is cut in memory.
+    const compare = (a: { name: string; id: string }, b: { name: string; id: string }) =>
+      a.name.localeCompare(b.name) || a.id.localeCompare(b.id);
+    const designs = getActiveDesigns()
+      .filter((design) => visibleIds.has(design.id))
+      .sort(compare);
+    const after = page.after && { name: page.after[0], id: page.after[1] };
+    const remaining = after ? designs.filter((design) => compare(design, after) > 0) : designs;
+
+    return apiV1Page(remaining.slice(0, page.limit + 1), page.limit, (design) => [design.name, design.id], toDesignResource);
+  } catch (error) {
+    return apiV1InternalError('listing designs', error);
+  }
+}
@@ -0,0 +1,7 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/api-v1-schema';
+
+// GET /api/v1/openapi.json - OpenAPI 3.1 document for the v1 API (no auth)
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(`${request.nextUrl.origin}/api/v1`));
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  apiV1Error,
+  apiV1InternalError,
+  apiV1PrintJobSelect,
+  authenticateApiV1,
+  toPrintJobResource,
+} from '@/lib/api-v1';
+
+// GET /api/v1/print-jobs/[id] - One of the organization's print jobs
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { caller, response } = await authenticateApiV1(request, 'print-queue:read');
+    if (response) return response;
+
+    const { id } = await params;
+    const print = await prisma.printJob.findFirst({
+      where: { id, designJob: { owningOrganizationId: caller.organizationId, isDebugRequest: false } },
+      select: apiV1PrintJobSelect,
+    });
+    if (!print) {
+      return apiV1Error('not_found', 'Print job not found');
+    }
+
+    return NextResponse.json({ data: toPrintJobResource(print) });
+  } catch (error) {
+    return apiV1InternalError('fetching a print job', error);
+  }
+}
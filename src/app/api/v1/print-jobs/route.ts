@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  apiV1InternalError,
+  apiV1Page,
+  apiV1PrintJobSelect,
+  authenticateApiV1,
+  createdAtCursor,
+  CREATED_AT_CURSOR,
+  createdBeforeCursor,
+  parseApiV1PageParams,
+  toPrintJobResource,
+} from '@/lib/api-v1';
+
+// GET /api/v1/print-jobs - The organization's print jobs, newest first
+// Supports ?designJobId=, ?limit= and ?cursor=
+export async function GET(request: NextRequest) {
+  try {
+    const { caller, response } = await authenticateApiV1(request, 'print-queue:read');
+    if (response) return response;
+    const { page, response: pageError } = parseApiV1PageParams(request, CREATED_AT_CURSOR);
+    if (pageError) return pageError;
+
+    const designJobId = request.nextUrl.searchParams.get('designJobId');
+    const prints = await prisma.printJob.findMany({
+      where: {
+        designJob: { owningOrganizationId: caller.organizationId, isDebugRequest: false },
+        ...(designJobId ? { designJobId } : {}),
+        ...createdBeforeCursor(page.after),
+      },
+      select: apiV1PrintJobSelect,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: page.limit + 1,
+    });
+
+    return apiV1Page(prints, page.limit, createdAtCursor, toPrintJobResource);
+  } catch (error) {
+    return apiV1InternalError('listing print jobs', error);
+  }
+}
@@ -8,22 +8,45 @@ import Header from '@/components/navigation/Header';
 import ProcessingLogViewer from '@/components/ProcessingLogViewer';
 import StlViewer from '@/components/StlViewer';
 import PrintStatusBadge from '@/components/PrintStatusBadge';
-import PrintAcceptanceBadge from '@/components/PrintAcceptanceBadge';
 import PrintAcceptanceModal from '@/components/PrintAcceptanceModal';
 import { formatDate } from '@/lib/formatDate';
+import { isAwaitingReview, type PrintJobStateValue } from '@/lib/print-state';
 import { formatBytes } from '@/lib/formatBytes';
+import { formatParameterValue } from '@/designs/parameter-values';
+import { describeEntryUnit, describeMeasurementMode, parseEnteredInputParameters } from '@/designs/units';
+import { describeParameterDrift, hasDefinitionDrift, hasParameterDrift, type DefinitionDrift } from '@/designs/definition-drift';
+import type { InputParameter } from '@/types/design-input-parameter';
 
 interface GeometryJob {
   id: string;
   objectId?: string;
   createdAt: string;
   inputParameters: string;
+  // Set when the values were entered in cm/inches or as diameters (see designs/units.ts).
+  enteredInputParameters?: string | null;
   jobLabel?: string;
   processStartedAt?: string;
   processCompletedAt?: string;
   isProcessSuccessful: boolean;
   isEnabled: boolean;
   processingLog?: string | null;
+  failureReason?: string | null;
+  attemptCount?: number;
+  priority?: 'RUSH' | 'NORMAL' | 'BACKGROUND';
+  // Queued, but no online processor advertises this algorithm/version.
+  waitingForCapableProcessor?: boolean;
+  definitionVersionSnapshot?: number;
+  generatorVersionSnapshot?: string | null;
+  // Comparison with the design's current definition (null if it left the registry),
+  // made after migrating the stored parameters to the current definition version.
+  definitionDrift?: DefinitionDrift | null;
+  // Present when the job predates the current definition version.
+  definitionMigration?: {
+    fromVersion: number;
+    toVersion: number;
+    migratedInputParameters?: string;
+    error?: string;
+  } | null;
   meshMetadata?: string | null;
   meshFileName?: string | null;
   printFileName?: string | null;
@@ -40,6 +63,13 @@ interface GeometryJob {
   owningOrganization: {
     name: string;
   };
+  preset?: {
+    name: string;
+  } | null;
+  measurementSet?: {
+    caseReference: string;
+    hand: 'LEFT' | 'RIGHT';
+  } | null;
 }
 
 interface PrintJobPhoto {
@@ -52,6 +82,7 @@ interface PrintJobPhoto {
 interface PrintJob {
   id: string;
   designJobId: string;
+  state: PrintJobStateValue;
   printStartedAt?: string | null;
   printCompletedAt?: string | null;
   isPrintSuccessful: boolean;
@@ -86,6 +117,7 @@ export default function GeometryJobDetailPage({
   const [creatingPrint, setCreatingPrint] = useState(false);
   const [showDebugModal, setShowDebugModal] = useState(false);
   const [reprocessing, setReprocessing] = useState(false);
+  const [updatingPriority, setUpdatingPriority] = useState(false);
   const [id, setId] = useState<string>('');
   const pollingRef = useRef<NodeJS.Timeout | undefined>(undefined);
   const photoRequestedRef = useRef<Set<string>>(new Set());
@@ -248,10 +280,26 @@ export default function GeometryJobDetailPage({
   };
 
   const handleReprocess = async () => {
-    if (!confirm('Reset this job so it will be reprocessed by the geo processor?')) return;
+    // The API refuses to reprocess parameters that no longer fit the design unless forced,
+    // so spell out the differences before asking.
+    const drift = job?.definitionDrift;
+    const migrationError = job?.definitionMigration?.error;
+    const force = !!migrationError || (!!drift && hasParameterDrift(drift));
+    const problems = [
+      ...(migrationError ? [`Automatic migration failed: ${migrationError}`] : []),
+      ...(drift ? describeParameterDrift(drift) : []),
+    ];
+    const message = force
+      ? `This job's parameters no longer match the current design definition:\n\n${problems.join('\n')}\n\nReprocess anyway with the stored parameters?`
+      : 'Reset this job so it will be reprocessed by the geo processor?';
+    if (!confirm(message)) return;
     try {
       setReprocessing(true);
-      const response = await fetch(`/api/design-jobs/${id}/reprocess`, { method: 'POST' });
+      const response = await fetch(`/api/design-jobs/${id}/reprocess`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ force }),
+      });
       if (!response.ok) {
         throw new Error('Failed to reprocess job');
       }
@@ -263,6 +311,27 @@ export default function GeometryJobDetailPage({
     }
   };
 
+  const handleToggleRush = async () => {
+    if (!job) return;
+    try {
+      setUpdatingPriority(true);
+      const response = await fetch(`/api/design-jobs/${id}/priority`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ priority: job.priority === 'RUSH' ? 'NORMAL' : 'RUSH' }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update priority');
+      }
+      await fetchJob();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update priority');
+    } finally {
+      setUpdatingPriority(false);
+    }
+  };
+
   const handleToggleExpand = (printJobId: string) => {
     if (expandedPrintJobId === printJobId) {
       setExpandedPrintJobId(null);
@@ -344,6 +413,9 @@ export default function GeometryJobDetailPage({
     if (job.processCompletedAt && !job.isProcessSuccessful) {
       return <span className="status-badge status-error" data-testid="design-job-status" data-status="failed">Failed</span>;
     }
+    if (job.waitingForCapableProcessor) {
+      return <span className="status-badge status-warning" data-testid="design-job-status" data-status="waiting-for-processor">Waiting for Processor</span>;
+    }
     if (job.processStartedAt) {
       return <span className="status-badge status-warning" data-testid="design-job-status" data-status="processing">Processing</span>;
     }
@@ -403,9 +475,11 @@ export default function GeometryJobDetailPage({
 
   const parameterData = parseParameterData(job.inputParameters);
   const parameterSchema = parseParameterSchema(job.design.inputParameterSchema);
+  const enteredParameters = parseEnteredInputParameters(job.enteredInputParameters);
   const isProcessing = !job.processCompletedAt;
   const isSuccess = job.processCompletedAt && job.isProcessSuccessful;
   const isFailed = job.processCompletedAt && !job.isProcessSuccessful;
+  const canChangePriority = session?.user?.role === 'SYSTEM_ADMIN' || session?.user?.role === 'ORG_ADMIN';
 
   return (
     <div className="page-shell" data-testid="design-job-detail-page">
@@ -437,6 +511,17 @@ export default function GeometryJobDetailPage({
                   Debug Locally
                 </button>
               )}
+              {canChangePriority && isProcessing && job.isEnabled && (
+                <button
+                  onClick={handleToggleRush}
+                  disabled={updatingPriority}
+                  className={`${job.priority === 'RUSH' ? 'btn-neutral' : 'btn-danger'} px-4 py-2 text-sm`}
+                  title="Rush jobs are processed ahead of the normal queue"
+                  data-testid="toggle-rush-btn"
+                >
+                  {updatingPriority ? 'Updating...' : job.priority === 'RUSH' ? 'Remove Rush' : 'Mark Rush'}
+                </button>
+              )}
               <Link
                 href={`/design-jobs/new?template=${job.id}`}
                 className="btn-alt px-4 py-2 text-sm"
@@ -465,8 +550,50 @@ export default function GeometryJobDetailPage({
           </div>
         </div>
 
+        {/* Definition Banner - the design has changed since this job was created */}
+        {job.definitionDrift && hasDefinitionDrift(job.definitionDrift) && (
+          <div className="banner-warning mb-6 rounded-lg px-6 py-4 flex items-center gap-4" role="status" data-testid="design-job-definition-changed-banner">
+            <div className="text-2xl flex-shrink-0">&#9888;</div>
+            <div>
+              <p className="font-semibold">{job.design.name} has changed since this job was created</p>
+              <p className="text-sm opacity-80">
+                Created with definition v{job.definitionDrift.definitionVersionSnapshot}
+                {job.definitionDrift.generatorVersionSnapshot && <> and generator v{job.definitionDrift.generatorVersionSnapshot}</>};
+                the design is now at definition v{job.definitionDrift.currentDefinitionVersion} and generator v{job.definitionDrift.currentGeneratorVersion}.
+              </p>
+              {job.definitionMigration && (
+                <p className="text-sm opacity-80" data-testid="design-job-migration-status">
+                  {job.definitionMigration.error
+                    ? `Its parameters could not be migrated automatically: ${job.definitionMigration.error}`
+                    : 'Its parameters are migrated automatically when it is reprocessed or copied.'}
+                </p>
+              )}
+              {hasParameterDrift(job.definitionDrift) && (
+                <ul className="mt-1 text-sm opacity-80 list-disc list-inside">
+                  {describeParameterDrift(job.definitionDrift).map((line) => (
+                    <li key={line}>{line}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Waiting Banner - queued but no online processor can run this algorithm */}
+        {isProcessing && job.waitingForCapableProcessor && (
+          <div className="banner-warning mb-6 rounded-lg px-6 py-4 flex items-center gap-4" role="status" data-testid="design-job-waiting-banner">
+            <div className="text-2xl flex-shrink-0">&#9888;</div>
+            <div>
+              <p className="font-semibold">Waiting for capable processor</p>
+              <p className="text-sm opacity-80">
+                No online processor currently supports {job.design.algorithmName}. The job will start once one does.
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Inline Progress Banner - shown while job is processing */}
-        {isProcessing && (
+        {isProcessing && !job.waitingForCapableProcessor && (
           <div className="banner-info mb-6 rounded-lg px-6 py-4 flex items-center gap-4" role="status" data-testid="design-job-processing-banner">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[var(--accent-blue)] flex-shrink-0"></div>
             <div>
@@ -505,6 +632,11 @@ export default function GeometryJobDetailPage({
               <p className="text-sm opacity-80">
                 {job.design.name} encountered an error. See the processing log below.
               </p>
+              {job.failureReason && (
+                <p className="text-sm opacity-80 mt-1" data-testid="design-job-failure-reason">
+                  Reason: {job.failureReason}
+                </p>
+              )}
             </div>
           </div>
         )}
@@ -578,12 +710,51 @@ export default function GeometryJobDetailPage({
                     <dd className="mt-1 text-sm text-primary">{job.isEnabled ? 'Yes' : 'No'}</dd>
                   </div>
                 )}
+                {job.priority && job.priority !== 'NORMAL' && (
+                  <div>
+                    <dt className="text-sm font-medium text-muted">Priority</dt>
+                    <dd className="mt-1 text-sm text-primary" data-testid="design-job-priority">
+                      {job.priority === 'RUSH'
+                        ? <span className="status-badge status-error">Rush</span>
+                        : <span className="status-badge status-neutral">Background</span>}
+                    </dd>
+                  </div>
+                )}
+                {job.definitionVersionSnapshot !== undefined && (
+                  <div>
+                    <dt className="text-sm font-medium text-muted">Design Version</dt>
+                    <dd className="mt-1 text-sm text-primary" data-testid="design-job-definition-version">
+                      Definition v{job.definitionVersionSnapshot}
+                      {job.generatorVersionSnapshot && <>, generator v{job.generatorVersionSnapshot}</>}
+                    </dd>
+                  </div>
+                )}
+                {job.preset && (
+                  <div>
+                    <dt className="text-sm font-medium text-muted">Preset</dt>
+                    <dd className="mt-1 text-sm text-primary" data-testid="design-job-preset">{job.preset.name}</dd>
+                  </div>
+                )}
+                {job.measurementSet && (
+                  <div>
+                    <dt className="text-sm font-medium text-muted">Measurement Set</dt>
+                    <dd className="mt-1 text-sm text-primary" data-testid="design-job-measurement-set">
+                      {job.measurementSet.caseReference} ({job.measurementSet.hand === 'LEFT' ? 'left' : 'right'} hand)
+                    </dd>
+                  </div>
+                )}
                 {job.processStartedAt && (
                   <div>
                     <dt className="text-sm font-medium text-muted">Processing Started</dt>
                     <dd className="mt-1 text-sm text-primary">{formatDate(job.processStartedAt)}</dd>
                   </div>
                 )}
+                {session?.user?.role === 'SYSTEM_ADMIN' && job.attemptCount !== undefined && job.attemptCount > 1 && (
+                  <div>
+                    <dt className="text-sm font-medium text-muted">Processing Attempts</dt>
+                    <dd className="mt-1 text-sm text-primary">{job.attemptCount}</dd>
+                  </div>
+                )}
                 {job.processCompletedAt && (
                   <div>
                     <dt className="text-sm font-medium text-muted">Processing Completed</dt>
@@ -599,6 +770,11 @@ export default function GeometryJobDetailPage({
             <div className="card shadow" data-testid="design-job-input-values-card">
               <div className="card-header">
                 <h2 className="text-lg font-medium text-primary">Input Values</h2>
+                {enteredParameters && (
+                  <p className="mt-1 text-xs text-muted" data-testid="design-job-entered-units">
+                    Entered in {describeMeasurementMode(enteredParameters.measurementMode)}; shown here in millimetres.
+                  </p>
+                )}
               </div>
               <div className="card-body">
                 <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -607,14 +783,17 @@ export default function GeometryJobDetailPage({
                       <dt className="text-sm font-medium text-muted">{param.InputDescription}</dt>
                       <dd className="mt-1 text-sm text-primary">
                         <span className="font-mono">
-                          {parameterData[param.InputName] !== undefined
-                            ? String(parameterData[param.InputName])
-                            : 'Not set'
-                          }
+                          {formatParameterValue(parameterData[param.InputName])}
                         </span>
                         <span className="ml-2 text-xs text-muted">
                           ({param.InputType})
                         </span>
+                        {enteredParameters && enteredParameters.values[param.InputName] !== parameterData[param.InputName] && (
+                          <span className="block text-xs text-muted" data-testid={`entered-value-${param.InputName}`}>
+                            Entered as {formatParameterValue(enteredParameters.values[param.InputName])}
+                            {' '}{describeEntryUnit(param as InputParameter, enteredParameters.measurementMode) ?? ''}
+                          </span>
+                        )}
                       </dd>
                     </div>
                   ))}
@@ -688,8 +867,7 @@ export default function GeometryJobDetailPage({
                               </td>
                               <td className="whitespace-nowrap" data-testid="print-job-status-cell">
                                 <div className="flex flex-col gap-1">
-                                  <PrintStatusBadge printStartedAt={printJob.printStartedAt} printCompletedAt={printJob.printCompletedAt} isPrintSuccessful={printJob.isPrintSuccessful} />
-                                  <PrintAcceptanceBadge printAcceptance={printJob.printAcceptance} printNote={printJob.printNote} />
+                                  <PrintStatusBadge state={printJob.state} printAcceptance={printJob.printAcceptance} printNote={printJob.printNote} />
                                 </div>
                               </td>
                               <td className="whitespace-nowrap">
@@ -725,7 +903,7 @@ export default function GeometryJobDetailPage({
                                     </dl>
 
                                     {/* Review action */}
-                                    {printJob.progress != null && printJob.progress > 99 && printJob.printAcceptance === null && (
+                                    {isAwaitingReview(printJob.state) && (
                                       <button
                                         onClick={(e) => { e.stopPropagation(); setAcceptanceModal({ printId: printJob.id, geometryName: job!.design.name }); }}
                                         className="btn-primary px-3 py-1.5 text-sm"
@@ -0,0 +1,563 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import Header from '@/components/navigation/Header';
+import ValidationSummary from '@/components/forms/ValidationSummary';
+import { useFormValidation, type FieldErrors } from '@/lib/formValidation';
+import { getDesignCustomForm } from '@/designs/custom-form-registry';
+import { buildInitialParameterValues } from '@/designs/parameter-values';
+import { DEFAULT_MEASUREMENT_MODE } from '@/designs/units';
+import {
+  applyPresetToParameters,
+  getPresetValues,
+  isPresettableParameter,
+  validatePresetDesignInputs,
+  type DesignPresetData,
+} from '@/designs/presets';
+import {
+  FINGERS,
+  mapNeedsFinger,
+  resolveMeasurementPrefill,
+  type MeasurementMap,
+  type MeasurementSetData,
+} from '@/designs/measurements';
+import { BATCH_MAX_ROWS, JOB_LABEL_MAX_LENGTH, buildBatchJobLabel } from '@/lib/design-job-input';
+import type { InputParameter } from '@/types/design-input-parameter';
+
+interface Design {
+  id: string;
+  name: string;
+  inputParameters: InputParameter[];
+  measurementMap?: MeasurementMap;
+}
+
+// One job in the batch. Values are canonical units, as typed.
+interface BatchRowDraft {
+  key: number;
+  label: string;
+  values: Record<string, unknown>;
+  measurementSetId: string | null;
+}
+
+let nextRowKey = 0;
+
+function newRow(values: Record<string, unknown>, label = '', measurementSetId: string | null = null): BatchRowDraft {
+  nextRowKey += 1;
+  return { key: nextRowKey, label, values, measurementSetId };
+}
+
+// Batch mode lays each job out as a table row, so it only works for designs whose
+// parameters are all flat scalars.
+function supportsBatch(design: Design): boolean {
+  return !getDesignCustomForm(design.id) && design.inputParameters.every(isPresettableParameter);
+}
+
+function CreateDesignJobBatchPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const designId = searchParams.get('designId');
+
+  const [design, setDesign] = useState<Design | null>(null);
+  const [presets, setPresets] = useState<DesignPresetData[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  const [measurementSets, setMeasurementSets] = useState<MeasurementSetData[]>([]);
+  const [selectedMeasurementSetId, setSelectedMeasurementSetId] = useState('');
+  const [labelPrefix, setLabelPrefix] = useState('');
+  const [rows, setRows] = useState<BatchRowDraft[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const validation = useFormValidation();
+  const selectedPreset = presets.find((preset) => preset.id === selectedPresetId) ?? null;
+
+  useEffect(() => {
+    if (status === 'loading') return;
+
+    if (!session?.user) {
+      router.push('/login');
+      return;
+    }
+    if (!designId) {
+      router.push('/design-menu');
+      return;
+    }
+
+    fetchDesign(designId);
+  }, [session, status, router, designId]);
+
+  const fetchDesign = async (id: string) => {
+    try {
+      const response = await fetch('/api/designs?includeSchema=true');
+      if (!response.ok) {
+        throw new Error('Failed to fetch designs');
+      }
+      const designs: Design[] = await response.json();
+      const found = designs.find((candidate) => candidate.id === id) ?? null;
+      if (!found) {
+        throw new Error('Design not found');
+      }
+      setDesign(found);
+      if (!supportsBatch(found)) return;
+
+      const defaultPreset = await loadPresets(found);
+      setSelectedPresetId(defaultPreset?.id ?? '');
+      setRows([newRow(initialValues(found, defaultPreset))]);
+      if (found.measurementMap) {
+        loadMeasurementSets();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch designs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Presets and measurement sets are optional, as on the single-job form.
+  const loadPresets = async (found: Design): Promise<DesignPresetData | null> => {
+    const organizationId = session?.user?.organizationId;
+    if (!organizationId) return null;
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}/designs/${found.id}/presets`);
+      if (!response.ok) return null;
+      const data: DesignPresetData[] = await response.json();
+      setPresets(data);
+      return data.find((preset) => preset.isDefault) ?? null;
+    } catch (err) {
+      console.error('Failed to load design presets:', err);
+      return null;
+    }
+  };
+
+  const loadMeasurementSets = async () => {
+    try {
+      const response = await fetch('/api/measurement-sets');
+      if (!response.ok) return;
+      setMeasurementSets(await response.json());
+    } catch (err) {
+      console.error('Failed to load measurement sets:', err);
+    }
+  };
+
+  const initialValues = (found: Design, preset: DesignPresetData | null) => ({
+    ...buildInitialParameterValues(found.inputParameters),
+    ...(preset ? getPresetValues(preset.fields) : {}),
+  });
+
+  // A preset fills its values into every row.
+  const choosePreset = (presetId: string) => {
+    const preset = presets.find((candidate) => candidate.id === presetId) ?? null;
+    setSelectedPresetId(preset?.id ?? '');
+    validation.clearAll();
+    if (preset) {
+      setRows(prev => prev.map(row => ({ ...row, values: { ...row.values, ...getPresetValues(preset.fields) } })));
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<BatchRowDraft>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const updateValue = (index: number, name: string, value: unknown) => {
+    validation.clearError(`rows.${index}.${name}`);
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, values: { ...row.values, [name]: value } } : row)));
+  };
+
+  // A new row starts as a copy of the last one, since a batch usually shares most settings.
+  const addRow = () => {
+    if (!design || rows.length >= BATCH_MAX_ROWS) return;
+    const last = rows[rows.length - 1];
+    setRows(prev => [...prev, newRow(last ? { ...last.values } : initialValues(design, selectedPreset))]);
+  };
+
+  const removeRow = (index: number) => {
+    validation.clearAll();
+    setRows(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // One row per measured finger (or one for the hand, when the map names its fingers),
+  // filled from the set. Fields locked by the preset keep the preset's value.
+  const addRowsFromMeasurementSet = () => {
+    const set = measurementSets.find((candidate) => candidate.id === selectedMeasurementSetId);
+    if (!design?.measurementMap || !set) return;
+    const map = design.measurementMap;
+    const hand = set.hand === 'LEFT' ? 'L' : 'R';
+    const base = initialValues(design, selectedPreset);
+    const unlocked = (values: Record<string, number | boolean>) =>
+      Object.fromEntries(Object.entries(values).filter(([name]) => !selectedPreset?.fields[name]?.locked));
+
+    const added = mapNeedsFinger(map)
+      ? FINGERS.flatMap((finger) => {
+        // Skip fingers the set has nothing for.
+        const measured = Object.values(map).some(
+          (ref) => !ref.includes('.') && set.measurements[`${finger.key}.${ref}`] !== undefined,
+        );
+        if (!measured) return [];
+        const { values } = resolveMeasurementPrefill(map, set, finger.key);
+        return [newRow({ ...base, ...unlocked(values) }, `${hand} ${finger.label}`, set.id)];
+      })
+      : [newRow({ ...base, ...unlocked(resolveMeasurementPrefill(map, set, 'mf').values) }, hand, set.id)];
+
+    validation.clearAll();
+    setRows(prev => {
+      // Replace the untouched starting row rather than leaving it blank at the top.
+      const kept = prev.length === 1 && !prev[0].label && !prev[0].measurementSetId ? [] : prev;
+      return [...kept, ...added].slice(0, BATCH_MAX_ROWS);
+    });
+    if (!labelPrefix) {
+      setLabelPrefix(set.caseReference.slice(0, JOB_LABEL_MAX_LENGTH));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!design) return;
+
+    // Every row runs through the same checks as the single-job form; errors are keyed
+    // by row so the matching cell is highlighted.
+    const submittedRows: Array<Record<string, unknown>> = [];
+    const isValid = validation.runValidation(() => {
+      const errors: FieldErrors = {};
+      if (!labelPrefix.trim()) {
+        errors.labelPrefix = 'Label prefix is required';
+      }
+      if (rows.length === 0) {
+        errors.rows = 'Add at least one row';
+      }
+      submittedRows.length = 0;
+      rows.forEach((row, index) => {
+        const jobLabel = buildBatchJobLabel(labelPrefix, row.label);
+        if (jobLabel.length > JOB_LABEL_MAX_LENGTH) {
+          errors[`rows.${index}.label`] = `Row ${index + 1}: "${jobLabel}" is longer than ${JOB_LABEL_MAX_LENGTH} characters`;
+        }
+        const result = validatePresetDesignInputs(design, selectedPreset, row.values, DEFAULT_MEASUREMENT_MODE, { coerceNumericStrings: true });
+        for (const [field, message] of Object.entries(result.errors)) {
+          errors[`rows.${index}.${field}`] = `Row ${index + 1}: ${message}`;
+        }
+        submittedRows.push(result.enteredValues);
+      });
+      return errors;
+    });
+    if (!isValid) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/design-jobs/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          designId: design.id,
+          labelPrefix: labelPrefix.trim(),
+          presetId: selectedPreset?.id ?? null,
+          rows: rows.map((row, index) => ({
+            label: row.label.trim(),
+            inputParameters: submittedRows[index],
+            measurementSetId: row.measurementSetId,
+          })),
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        if (errorData.fieldErrors && Object.keys(errorData.fieldErrors).length > 0) {
+          validation.setErrors(errorData.fieldErrors);
+          validation.scrollToErrors();
+        }
+        throw new Error(errorData.error || 'Failed to create design jobs');
+      }
+      router.push('/design-jobs');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create design jobs');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="page-shell" data-testid="design-job-batch-loading">
+        <Header />
+        <div className="page-content">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[var(--accent-blue)] mx-auto"></div>
+            <p className="mt-4 text-secondary">Loading design...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const columns = design ? applyPresetToParameters(design.inputParameters, selectedPreset?.fields ?? {}) : [];
+
+  const renderCell = (param: InputParameter, row: BatchRowDraft, index: number) => {
+    const name = param.InputName;
+    const value = row.values[name];
+    const locked = !!selectedPreset?.fields[name]?.locked;
+    const hasError = !!validation.errors[`rows.${index}.${name}`];
+    const className = `input-field text-sm ${hasError ? 'input-field-error' : ''}`;
+    const testId = `batch-row-${index}-${name}`;
+
+    switch (param.InputType) {
+      case 'Boolean':
+        return (
+          <input
+            type="checkbox"
+            checked={value === true}
+            disabled={locked}
+            onChange={(e) => updateValue(index, name, e.target.checked)}
+            aria-label={`Row ${index + 1} ${param.InputDescription}`}
+            data-testid={testId}
+          />
+        );
+      case 'Enum':
+        return (
+          <select
+            value={typeof value === 'string' ? value : ''}
+            disabled={locked}
+            onChange={(e) => updateValue(index, name, e.target.value)}
+            className={className}
+            aria-label={`Row ${index + 1} ${param.InputDescription}`}
+            data-testid={testId}
+          >
+            <option value=""></option>
+            {param.EnumOptions.map((option) => (
+              <option key={option.Value} value={option.Value}>{option.Label ?? option.Value}</option>
+            ))}
+          </select>
+        );
+      default:
+        return (
+          <input
+            type="text"
+            inputMode={param.InputType === 'Text' ? 'text' : 'decimal'}
+            value={value === undefined || value === null ? '' : String(value)}
+            disabled={locked}
+            onChange={(e) => updateValue(index, name, e.target.value)}
+            className={`${className} ${param.InputType === 'Text' ? 'w-32' : 'w-20'}`}
+            aria-label={`Row ${index + 1} ${param.InputDescription}`}
+            data-testid={testId}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="page-shell" data-testid="design-job-batch-page">
+      <Header />
+
+      <div className="page-content">
+        <div className="mb-8">
+          <div className="flex justify-between items-center">
+            <h1 className="page-title">
+              {design ? `New ${design.name} Batch` : 'New Batch'}
+            </h1>
+            <Link
+              href={designId ? `/design-jobs/new?designId=${designId}` : '/design-menu'}
+              className="btn-neutral px-4 py-2 text-sm"
+              data-testid="back-btn"
+            >
+              &larr; Single Job
+            </Link>
+          </div>
+          <p className="mt-2 text-sm text-muted">
+            Create one job per row, in one go. The jobs share a batch and label prefix, and their prints
+            can be grouped in the print queue to plate together. Values are in mm.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 alert-error" data-testid="design-job-batch-error">
+            {error}
+          </div>
+        )}
+
+        {design && !supportsBatch(design) ? (
+          <div className="alert-error" data-testid="design-job-batch-unsupported">
+            {design.name} uses its own form, so its jobs have to be created one at a time.
+          </div>
+        ) : design && (
+          <div className="card shadow" data-testid="design-job-batch-card">
+            <form onSubmit={handleSubmit} noValidate className="px-6 py-4 space-y-6">
+              <ValidationSummary
+                errors={validation.errors}
+                summaryRef={validation.summaryRef}
+                message="The batch could not be created:"
+                testId="design-job-batch-validation-summary"
+                showDetails
+              />
+
+              <div className="flex flex-wrap gap-4">
+                <div>
+                  <label htmlFor="labelPrefix" className="block text-sm font-medium text-secondary mb-1">
+                    Label Prefix (No PII)
+                  </label>
+                  <input
+                    id="labelPrefix"
+                    type="text"
+                    value={labelPrefix}
+                    maxLength={JOB_LABEL_MAX_LENGTH}
+                    onChange={(e) => {
+                      setLabelPrefix(e.target.value);
+                      validation.clearError('labelPrefix');
+                    }}
+                    className={`input-field text-sm ${validation.errors.labelPrefix ? 'input-field-error' : ''}`}
+                    data-testid="batch-label-prefix-input"
+                  />
+                </div>
+                {presets.length > 0 && (
+                  <div>
+                    <label htmlFor="preset" className="block text-sm font-medium text-secondary mb-1">
+                      Preset
+                    </label>
+                    <select
+                      id="preset"
+                      value={selectedPresetId}
+                      onChange={(e) => choosePreset(e.target.value)}
+                      className="input-field text-sm"
+                      data-testid="batch-preset-select"
+                    >
+                      <option value="">None</option>
+                      {presets.map((preset) => (
+                        <option key={preset.id} value={preset.id}>{preset.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+
+              {design.measurementMap && measurementSets.length > 0 && (
+                <div className="flex flex-wrap items-end gap-2" data-testid="batch-measurement-set-prefill">
+                  <div>
+                    <label htmlFor="measurementSet" className="block text-sm font-medium text-secondary mb-1">
+                      Measurement Set
+                    </label>
+                    <select
+                      id="measurementSet"
+                      value={selectedMeasurementSetId}
+                      onChange={(e) => setSelectedMeasurementSetId(e.target.value)}
+                      className="input-field text-sm"
+                      data-testid="batch-measurement-set-select"
+                    >
+                      <option value="">Choose a set</option>
+                      {measurementSets.map((set) => (
+                        <option key={set.id} value={set.id}>
+                          {set.caseReference} ({set.hand === 'LEFT' ? 'left' : 'right'})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={addRowsFromMeasurementSet}
+                    disabled={!selectedMeasurementSetId || rows.length >= BATCH_MAX_ROWS}
+                    className="btn-neutral px-3 py-2 text-sm"
+                    data-testid="batch-add-measurement-rows-btn"
+                  >
+                    {mapNeedsFinger(design.measurementMap) ? 'Add a Row per Finger' : 'Add Row'}
+                  </button>
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="data-table" data-testid="batch-rows-table">
+                  <thead>
+                    <tr>
+                      <th>Label</th>
+                      {columns.map((param) => (
+                        <th key={param.InputName} title={param.InputDescription}>
+                          {param.InputName}
+                          {(param.InputType === 'Float' || param.InputType === 'Integer') &&
+                            (param.NumberMin !== undefined || param.NumberMax !== undefined) && (
+                            <div className="text-xs text-muted font-normal">
+                              {param.NumberMin ?? ''}&ndash;{param.NumberMax ?? ''}
+                            </div>
+                          )}
+                        </th>
+                      ))}
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row, index) => (
+                      <tr key={row.key} data-testid="batch-row">
+                        <td>
+                          <input
+                            type="text"
+                            value={row.label}
+                            onChange={(e) => {
+                              updateRow(index, { label: e.target.value });
+                              validation.clearError(`rows.${index}.label`);
+                            }}
+                            placeholder="e.g. R Middle"
+                            className={`input-field text-sm w-28 ${validation.errors[`rows.${index}.label`] ? 'input-field-error' : ''}`}
+                            aria-label={`Row ${index + 1} label`}
+                            data-testid={`batch-row-${index}-label`}
+                          />
+                        </td>
+                        {columns.map((param) => (
+                          <td key={param.InputName}>{renderCell(param, row, index)}</td>
+                        ))}
+                        <td className="text-right">
+                          <button
+                            type="button"
+                            onClick={() => removeRow(index)}
+                            className="text-error hover:underline text-sm"
+                            data-testid="batch-remove-row-btn"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-between items-center">
+                <button
+                  type="button"
+                  onClick={addRow}
+                  disabled={rows.length >= BATCH_MAX_ROWS}
+                  className="btn-neutral px-3 py-2 text-sm"
+                  data-testid="batch-add-row-btn"
+                >
+                  Add Row
+                </button>
+                <button
+                  type="submit"
+                  disabled={submitting || rows.length === 0}
+                  className="btn-primary px-6 py-2 text-sm"
+                  data-testid="batch-submit-btn"
+                >
+                  {submitting ? 'Creating...' : `Create ${rows.length} ${rows.length === 1 ? 'Job' : 'Jobs'}`}
+                </button>
+              </div>
+              <p className="text-xs text-muted">
+                Job labels are the prefix and the row label, {JOB_LABEL_MAX_LENGTH} characters at most. Up to {BATCH_MAX_ROWS} jobs per batch.
+              </p>
+            </form>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Wrap the page component in Suspense to handle useSearchParams
+export default function CreateDesignJobBatchPageWrapper() {
+  return (
+    <Suspense fallback={
+      <div className="page-shell flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[var(--accent-blue)] mx-auto"></div>
+          <p className="mt-2 text-sm text-secondary">Loading...</p>
+        </div>
+      </div>
+    }>
+      <CreateDesignJobBatchPage />
+    </Suspense>
+  );
+}
@@ -7,10 +7,45 @@ import Link from 'next/link';
 import Image from 'next/image';
 import Header from '@/components/navigation/Header';
 import ValidationSummary from '@/components/forms/ValidationSummary';
-import { useFormValidation, fieldErrorClass, type FieldErrors } from '@/lib/formValidation';
+import DesignParameterField from '@/components/forms/DesignParameterField';
+import { useFormValidation, type FieldErrors } from '@/lib/formValidation';
 import { getDesignHintsFn } from '@/designs/hints-registry';
 import { getDesignCustomForm } from '@/designs/custom-form-registry';
-import type { DesignHint } from '@/designs/types';
+import { buildInitialParameterValues } from '@/designs/parameter-values';
+import {
+  DEFAULT_MEASUREMENT_MODE,
+  LENGTH_UNITS,
+  hasCircumferenceParameters,
+  hasLengthParameters,
+  isDefaultMeasurementMode,
+  normalizeEnteredValues,
+  toEnteredValues,
+  toEntrySchema,
+  type CircumferenceEntry,
+  type LengthUnit,
+  type MeasurementMode,
+} from '@/designs/units';
+import { evaluateDesignRules } from '@/designs/rules';
+import { describeParameterDrift, hasParameterDrift, type DefinitionDrift } from '@/designs/definition-drift';
+import {
+  applyPresetToParameters,
+  getPresetValues,
+  isPresettableParameter,
+  validatePresetDesignInputs,
+  type DesignPresetData,
+} from '@/designs/presets';
+import {
+  FINGERS,
+  applyMeasurementPrefill,
+  describeMeasurementKey,
+  mapNeedsFinger,
+  resolveMeasurementPrefill,
+  type FingerKey,
+  type MeasurementMap,
+  type MeasurementSetData,
+} from '@/designs/measurements';
+import type { DesignHint, DesignRule } from '@/designs/types';
+import type { InputParameter } from '@/types/design-input-parameter';
 import { trackEvent } from '@/lib/analytics';
 
 interface Design {
@@ -19,20 +54,12 @@ interface Design {
   algorithmName: string;
   slug: string;
   inputParameters: InputParameter[];
+  rules?: DesignRule[];
+  measurementMap?: MeasurementMap;
   hasMeasurementImage: boolean;
   hasClinicalGuide: boolean;
 }
 
-interface InputParameter {
-  InputName: string;
-  InputDescription: string;
-  InputType: 'Float' | 'Integer' | 'Text' | 'Boolean';
-  NumberMin?: number;
-  NumberMax?: number;
-  TextMinLen?: number;
-  TextMaxLen?: number;
-}
-
 function CreateGeometryJobPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -44,11 +71,29 @@ function CreateGeometryJobPage() {
   const [selectedDesign, setSelectedDesign] = useState<Design | null>(null);
   const [parameterSchema, setParameterSchema] = useState<InputParameter[]>([]);
   const [parameterValues, setParameterValues] = useState<Record<string, any>>({});
+  // Units the user is entering lengths in; parameterValues are held in these units
+  // and normalized to canonical mm on submit.
+  const [measurementMode, setMeasurementMode] = useState<MeasurementMode>(DEFAULT_MEASUREMENT_MODE);
+  // The org's presets for the selected design; the chosen one prefills, locks and
+  // narrows fields, and the API enforces it.
+  const [presets, setPresets] = useState<DesignPresetData[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  // The org's measurement sets, for designs with a measurementMap. The one applied last
+  // is recorded on the job.
+  const [measurementSets, setMeasurementSets] = useState<MeasurementSetData[]>([]);
+  const [selectedMeasurementSetId, setSelectedMeasurementSetId] = useState('');
+  const [prefillFinger, setPrefillFinger] = useState<FingerKey>('mf');
+  const [appliedMeasurementSetId, setAppliedMeasurementSetId] = useState<string | null>(null);
+  const [prefillMissing, setPrefillMissing] = useState<string[]>([]);
+  // Bumped to remount a design's bespoke form after a prefill, since it reads `value` once.
+  const [customFormKey, setCustomFormKey] = useState(0);
   const [jobLabel, setJobLabel] = useState('');
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [activeHints, setActiveHints] = useState<DesignHint[]>([]);
+  // Differences found when the template job was created under an older definition.
+  const [templateDriftNotes, setTemplateDriftNotes] = useState<string[]>([]);
   // Validity reported by a design's bespoke form (only used when one is rendered).
   const [customFormValid, setCustomFormValid] = useState(false);
   const hasTrackedFormOpenRef = useRef(false);
@@ -56,6 +101,7 @@ function CreateGeometryJobPage() {
   // so the summary alert lands well within view on mobile.
   const formCardRef = useRef<HTMLDivElement | null>(null);
   const validation = useFormValidation({ scrollTargetRef: formCardRef });
+  const selectedPreset = presets.find((preset) => preset.id === selectedPresetId) ?? null;
 
   useEffect(() => {
     if (status === 'loading') return;
@@ -114,10 +160,32 @@ function CreateGeometryJobPage() {
       if (design) {
         setSelectedDesign(design);
         setParameterSchema(design.inputParameters);
+        loadPresets(design, { applyDefault: false });
+        loadMeasurementSets(design);
         
-        // Parse and set parameter values from template
-        const templateParams = JSON.parse(templateJob.inputParameters);
-        setParameterValues(templateParams);
+        // Parse and set parameter values from template (stored in canonical units). A
+        // template from an older definition version comes back already migrated.
+        const migration = templateJob.definitionMigration;
+        const templateParams: Record<string, unknown> = JSON.parse(
+          migration?.migratedInputParameters ?? templateJob.inputParameters,
+        );
+        setMeasurementMode(DEFAULT_MEASUREMENT_MODE);
+
+        // If the result still doesn't fit the design, drop parameters it no longer has
+        // and start new ones blank; out-of-range values are left for validation to flag.
+        const drift: DefinitionDrift | null = templateJob.definitionDrift ?? null;
+        if (drift && hasParameterDrift(drift)) {
+          for (const removed of drift.removedParameters) {
+            delete templateParams[removed];
+          }
+          setParameterValues({ ...buildInitialParameterValues(design.inputParameters), ...templateParams });
+          setTemplateDriftNotes([
+            ...(migration?.error ? [`Automatic migration failed: ${migration.error}`] : []),
+            ...describeParameterDrift(drift),
+          ]);
+        } else {
+          setParameterValues(templateParams);
+        }
         
         // Optionally copy job info (leave blank for new job)
         // setJobID(templateJob.jobLabel || '');
@@ -128,6 +196,76 @@ function CreateGeometryJobPage() {
     }
   };
 
+  // Presets are a convenience: if they fail to load the form still works without them.
+  const loadPresets = async (design: Design, { applyDefault }: { applyDefault: boolean }) => {
+    setPresets([]);
+    setSelectedPresetId('');
+    const organizationId = session?.user?.organizationId;
+    if (!organizationId) return;
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}/designs/${design.id}/presets`);
+      if (!response.ok) return;
+      const data: DesignPresetData[] = await response.json();
+      setPresets(data);
+      const defaultPreset = data.find((preset) => preset.isDefault);
+      if (applyDefault && defaultPreset) {
+        applyPreset(defaultPreset, design.inputParameters, DEFAULT_MEASUREMENT_MODE);
+      }
+    } catch (err) {
+      console.error('Failed to load design presets:', err);
+    }
+  };
+
+  // Choosing a preset fills in its values over whatever has been entered; switching
+  // back to none keeps the values but unlocks them.
+  const applyPreset = (preset: DesignPresetData | null, schema: InputParameter[], mode: MeasurementMode) => {
+    setSelectedPresetId(preset?.id ?? '');
+    validation.clearAll();
+    if (preset) {
+      setParameterValues(prev => ({ ...prev, ...toEnteredValues(schema, getPresetValues(preset.fields), mode) }));
+    }
+  };
+
+  // Measurement sets are optional too; without them the form is filled in by hand.
+  const loadMeasurementSets = async (design: Design) => {
+    setSelectedMeasurementSetId('');
+    setAppliedMeasurementSetId(null);
+    setPrefillMissing([]);
+    if (!design.measurementMap) {
+      setMeasurementSets([]);
+      return;
+    }
+    try {
+      const response = await fetch('/api/measurement-sets');
+      if (!response.ok) return;
+      setMeasurementSets(await response.json());
+    } catch (err) {
+      console.error('Failed to load measurement sets:', err);
+    }
+  };
+
+  // Fill the design's mapped fields from the chosen set, leaving fields the set has no
+  // value for (and fields locked by the preset) as they are.
+  const applyMeasurementSet = () => {
+    const set = measurementSets.find((candidate) => candidate.id === selectedMeasurementSetId);
+    if (!selectedDesign?.measurementMap || !set) return;
+    const { values, missing } = resolveMeasurementPrefill(selectedDesign.measurementMap, set, prefillFinger);
+    validation.clearAll();
+
+    if (getDesignCustomForm(selectedDesign.id)) {
+      setParameterValues(prev => applyMeasurementPrefill(prev, values));
+      setCustomFormKey(key => key + 1);
+    } else {
+      const unlocked = Object.fromEntries(
+        Object.entries(values).filter(([name]) => !selectedPreset?.fields[name]?.locked),
+      );
+      setParameterValues(prev => ({ ...prev, ...toEnteredValues(parameterSchema, unlocked, measurementMode) }));
+    }
+
+    setAppliedMeasurementSetId(set.id);
+    setPrefillMissing(missing.map(describeMeasurementKey));
+  };
+
   const fetchGeometries = async () => {
     try {
       const response = await fetch('/api/designs?includeSchema=true');
@@ -143,11 +281,27 @@ function CreateGeometryJobPage() {
     }
   };
 
-  // Evaluate hints against the given values and update state.
+  // Evaluate hints against the given values and update state: declarative rules from
+  // definition.json plus the design's hints.ts, if it has one. Both are written against
+  // canonical units, so entered values are normalized first.
   // Pass merged values directly to avoid waiting on async state updates.
-  const evaluateHints = (designId: string, values: Record<string, any>) => {
-    const hintsFn = getDesignHintsFn(designId);
-    setActiveHints(hintsFn ? hintsFn(values) : []);
+  const evaluateHints = (design: Design, values: Record<string, any>) => {
+    const hintsFn = getDesignHintsFn(design.id);
+    const canonicalValues = normalizeEnteredValues(design.inputParameters, values, measurementMode);
+    setActiveHints([
+      ...evaluateDesignRules(design.rules, canonicalValues).hints,
+      ...(hintsFn ? hintsFn(canonicalValues as Record<string, number | boolean | string>) : []),
+    ]);
+  };
+
+  // Switching units converts whatever has been entered so far, so the measurements
+  // themselves don't change.
+  const handleMeasurementModeChange = (next: MeasurementMode) => {
+    setParameterValues(prev =>
+      toEnteredValues(parameterSchema, normalizeEnteredValues(parameterSchema, prev, measurementMode), next),
+    );
+    setMeasurementMode(next);
+    validation.clearAll();
   };
 
   const handleGeometryChange = (geometryId: string) => {
@@ -165,96 +319,49 @@ function CreateGeometryJobPage() {
 
       const schema = design.inputParameters;
       setParameterSchema(schema);
+      setMeasurementMode(DEFAULT_MEASUREMENT_MODE);
       
-      // Initialize parameter values as empty (no defaults)
-      const initialValues: Record<string, any> = {};
-      schema.forEach(param => {
-        initialValues[param.InputName] = param.InputType === 'Boolean' ? false : '';
-        });
-        setParameterValues(initialValues);
+      // Initialize parameter values as empty (no defaults) unless the org has a default preset
+      setParameterValues(buildInitialParameterValues(schema));
+      loadPresets(design, { applyDefault: true });
+      loadMeasurementSets(design);
     } else {
       setParameterSchema([]);
       setParameterValues({});
     }
   };
 
-  // Clear only the edited field's error so other invalid fields stay highlighted.
+  // Clear only the edited field's errors (including nested ones under a Group or
+  // Array) so other invalid fields stay highlighted.
   const handleParameterChange = (paramName: string, value: any) => {
-    validation.clearError(paramName);
+    Object.keys(validation.errors)
+      .filter(field => field === paramName || field.startsWith(`${paramName}.`))
+      .forEach(field => validation.clearError(field));
     setParameterValues(prev => ({
       ...prev,
       [paramName]: value
     }));
   };
 
-  // Build a map of all parameter errors at once (first error per field wins).
-  // Returning the full map lets the validation hook scroll/highlight everything
-  // that needs attention rather than only the first failure.
-  const collectParameterErrors = (): FieldErrors => {
-    const errors: FieldErrors = {};
-    for (const param of parameterSchema) {
-      const value = parameterValues[param.InputName];
-      const label = param.InputDescription || param.InputName;
-
-      if (param.InputType === 'Boolean') continue; // false is a valid value
-
-      if (value === undefined || value === null || value === '') {
-        errors[param.InputName] = `${label} is required`;
-        continue;
-      }
-
-      if (param.InputType === 'Float' || param.InputType === 'Integer') {
-        const numValue = param.InputType === 'Float' ? parseFloat(value) : parseInt(value);
-        const isInt = param.InputType === 'Integer' && Number.isInteger(parseFloat(value));
-        if (isNaN(numValue) || (param.InputType === 'Integer' && !isInt)) {
-          errors[param.InputName] = `${label} must be a valid ${param.InputType === 'Integer' ? 'integer' : 'number'}`;
-          continue;
-        }
-        if (param.NumberMin !== undefined && numValue < param.NumberMin) {
-          errors[param.InputName] = `${label} must be >= ${param.NumberMin}`;
-          continue;
-        }
-        if (param.NumberMax !== undefined && numValue > param.NumberMax) {
-          errors[param.InputName] = `${label} must be <= ${param.NumberMax}`;
-          continue;
-        }
-      } else if (param.InputType === 'Text') {
-        const strValue = String(value);
-        if (param.TextMinLen !== undefined && strValue.length < param.TextMinLen) {
-          errors[param.InputName] = `${label} must be at least ${param.TextMinLen} characters`;
-          continue;
-        }
-        if (param.TextMaxLen !== undefined && strValue.length > param.TextMaxLen) {
-          errors[param.InputName] = `${label} must be no more than ${param.TextMaxLen} characters`;
-          continue;
-        }
-      }
-    }
-    return errors;
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    // Build a single error map covering design selection + every parameter,
-    // then hand it to the validation hook which sets state and scrolls on failure.
+    // Build a single error map covering design selection + every parameter (via the
+    // shared engine the API also runs), then hand it to the validation hook which sets
+    // state and scrolls on failure.
+    let submittedValues: Record<string, unknown> = parameterValues;
     const isValid = validation.runValidation(() => {
       const errors: FieldErrors = {};
       if (!selectedDesign) {
         errors.__design = 'Please select a design';
         return errors;
       }
-      return collectParameterErrors();
+      const result = validatePresetDesignInputs(selectedDesign, selectedPreset, parameterValues, measurementMode, { coerceNumericStrings: true });
+      submittedValues = result.enteredValues;
+      return result.errors;
     });
     if (!isValid || !selectedDesign) return;
 
-    // Designs with a bespoke form validate themselves; block submit until they report valid.
-    const customForm = getDesignCustomForm(selectedDesign.id);
-    if (customForm && !customFormValid) {
-      setError('Please complete the required fields before submitting.');
-      return;
-    }
-
     trackEvent('design_job_create_submitted', {
       design_id: selectedDesign.id,
       parameter_count: parameterSchema.length,
@@ -274,7 +381,10 @@ function CreateGeometryJobPage() {
         },
         body: JSON.stringify({
           designId: selectedDesign.id,
-          inputParameters: JSON.stringify(parameterValues),
+          inputParameters: JSON.stringify(submittedValues),
+          measurementMode,
+          presetId: selectedPreset?.id ?? null,
+          measurementSetId: appliedMeasurementSetId,
           jobLabel: jobLabel.trim() || null,
         }),
       });
@@ -283,6 +393,11 @@ function CreateGeometryJobPage() {
 
       if (!response.ok) {
         const errorData = await response.json();
+        // Server-side per-field errors use the same keys as the form, so show them inline.
+        if (errorData.fieldErrors && Object.keys(errorData.fieldErrors).length > 0) {
+          validation.setErrors(errorData.fieldErrors);
+          validation.scrollToErrors();
+        }
         throw new Error(errorData.error || 'Failed to create design job');
       }
 
@@ -322,6 +437,10 @@ function CreateGeometryJobPage() {
 
   // Bespoke form for designs whose parameters do not fit the flat scalar schema.
   const CustomFormComp = selectedDesign ? getDesignCustomForm(selectedDesign.id) : undefined;
+  const entrySchema = toEntrySchema(
+    selectedPreset ? applyPresetToParameters(parameterSchema, selectedPreset.fields) : parameterSchema,
+    measurementMode,
+  );
 
   return (
     <div className="page-shell" data-testid="new-design-job-page">
@@ -333,13 +452,25 @@ function CreateGeometryJobPage() {
             <h1 className="page-title">
               {selectedDesign ? `New ${selectedDesign.name} Job` : 'Create New Print'}
             </h1>
-            <Link
-              href="/design-menu"
-              className="btn-neutral px-4 py-2 text-sm"
-              data-testid="back-btn"
-            >
-              &larr; Back to Designs
-            </Link>
+            <div className="flex gap-2">
+              {/* Batch mode is a table of rows, so only flat designs can use it */}
+              {selectedDesign && !CustomFormComp && selectedDesign.inputParameters.every(isPresettableParameter) && (
+                <Link
+                  href={`/design-jobs/batch?designId=${selectedDesign.id}`}
+                  className="btn-neutral px-4 py-2 text-sm"
+                  data-testid="create-batch-link"
+                >
+                  Create Several
+                </Link>
+              )}
+              <Link
+                href="/design-menu"
+                className="btn-neutral px-4 py-2 text-sm"
+                data-testid="back-btn"
+              >
+                &larr; Back to Designs
+              </Link>
+            </div>
           </div>
         </div>
 
@@ -427,6 +558,7 @@ function CreateGeometryJobPage() {
               errors={validation.errors}
               summaryRef={validation.summaryRef}
               testId="new-design-job-validation-error"
+              showDetails={!!CustomFormComp}
             />
 
             {/* Design type shown as read-only info (pre-selected via URL) */}
@@ -455,8 +587,78 @@ function CreateGeometryJobPage() {
               />
             </div>
 
+            {templateDriftNotes.length > 0 && (
+              <div className="banner-warning rounded-lg px-4 py-3 text-sm" role="status" data-testid="template-definition-changed-banner">
+                <p className="font-semibold">This design has changed since the copied job was created. Check these parameters:</p>
+                <ul className="mt-1 list-disc list-inside">
+                  {templateDriftNotes.map((note) => (
+                    <li key={note}>{note}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {selectedDesign?.measurementMap && measurementSets.length > 0 && (
+              <div className="rounded-lg border border-[var(--border)] px-4 py-3" data-testid="measurement-set-prefill">
+                <div className="flex flex-wrap items-end gap-4">
+                  <div>
+                    <label htmlFor="measurementSet" className="block text-sm font-medium text-secondary">
+                      Prefill from measurement set
+                    </label>
+                    <select
+                      id="measurementSet"
+                      value={selectedMeasurementSetId}
+                      onChange={(e) => setSelectedMeasurementSetId(e.target.value)}
+                      className="mt-1 input-field"
+                      data-testid="measurement-set-select"
+                    >
+                      <option value="">Choose a case...</option>
+                      {measurementSets.map((set) => (
+                        <option key={set.id} value={set.id}>
+                          {set.caseReference} ({set.hand === 'LEFT' ? 'left' : 'right'} hand)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {mapNeedsFinger(selectedDesign.measurementMap) && (
+                    <div>
+                      <label htmlFor="prefillFinger" className="block text-sm font-medium text-secondary">
+                        Finger
+                      </label>
+                      <select
+                        id="prefillFinger"
+                        value={prefillFinger}
+                        onChange={(e) => setPrefillFinger(e.target.value as FingerKey)}
+                        className="mt-1 input-field"
+                        data-testid="prefill-finger-select"
+                      >
+                        {FINGERS.map((finger) => (
+                          <option key={finger.key} value={finger.key}>{finger.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  <button
+                    type="button"
+                    onClick={applyMeasurementSet}
+                    disabled={!selectedMeasurementSetId}
+                    className="btn-neutral px-4 py-2 text-sm"
+                    data-testid="apply-measurement-set-btn"
+                  >
+                    Fill In
+                  </button>
+                </div>
+                {appliedMeasurementSetId && prefillMissing.length > 0 && (
+                  <p className="mt-2 text-xs text-muted" data-testid="measurement-set-missing">
+                    Not in this set, enter by hand: {prefillMissing.join(', ')}
+                  </p>
+                )}
+              </div>
+            )}
+
             {selectedDesign && CustomFormComp && (
               <CustomFormComp
+                key={customFormKey}
                 value={parameterValues}
                 onChange={setParameterValues}
                 onValidChange={setCustomFormValid}
@@ -468,115 +670,87 @@ function CreateGeometryJobPage() {
                 <h3 className="text-lg font-medium text-primary mb-4">
                   Design Parameters for {selectedDesign.name}
                 </h3>
-                <div className="grid grid-cols-1 gap-4">
-                  {parameterSchema.map((param) => {
-                    const fieldError = validation.errors[param.InputName];
-                    const errClass = fieldErrorClass(fieldError);
-                    return (
-                    <div key={param.InputName}>
-                      {param.InputType !== 'Boolean' && (
-                        <label htmlFor={param.InputName} className="block text-sm font-medium text-secondary">
-                          {param.InputDescription} *
-                        </label>
-                      )}
-                      {param.InputType === 'Float' ? (
-                        <input
-                          type="text"
-                          inputMode="decimal"
-                          id={param.InputName}
-                          value={parameterValues[param.InputName] ?? ''}
-                          onChange={(e) => handleParameterChange(param.InputName, e.target.value)}
-                          onBlur={(e) => {
-                            const val = e.target.value;
-                            const numVal = parseFloat(val);
-                            if (val !== '' && !isNaN(numVal)) {
-                              handleParameterChange(param.InputName, numVal);
-                            }
-                            if (selectedDesign) {
-                              evaluateHints(selectedDesign.id, { ...parameterValues, [param.InputName]: !isNaN(numVal) ? numVal : val });
-                            }
-                          }}
-                          className={`mt-1 input-field ${errClass}`}
-                          aria-invalid={!!fieldError}
-                        />
-                      ) : param.InputType === 'Integer' ? (
-                        <input
-                          type="text"
-                          inputMode="numeric"
-                          id={param.InputName}
-                          value={parameterValues[param.InputName] ?? ''}
-                          onChange={(e) => handleParameterChange(param.InputName, e.target.value)}
-                          onBlur={(e) => {
-                            const val = e.target.value;
-                            const numVal = parseInt(val);
-                            if (val !== '' && !isNaN(numVal)) {
-                              handleParameterChange(param.InputName, numVal);
-                            }
-                            if (selectedDesign) {
-                              evaluateHints(selectedDesign.id, { ...parameterValues, [param.InputName]: !isNaN(numVal) ? numVal : val });
-                            }
-                          }}
-                          className={`mt-1 input-field ${errClass}`}
-                          aria-invalid={!!fieldError}
-                        />
-                      ) : param.InputType === 'Boolean' ? (
-                        <label htmlFor={param.InputName} className="mt-2 inline-flex items-center gap-2 cursor-pointer">
-                          <input
-                            type="checkbox"
-                            id={param.InputName}
-                            checked={!!parameterValues[param.InputName]}
-                            onChange={(e) => handleParameterChange(param.InputName, e.target.checked)}
-                            className="h-5 w-5 rounded border-[var(--border)] accent-[var(--accent-blue)]"
-                          />
-                          <span className="text-sm text-secondary">{param.InputDescription}</span>
-                        </label>
-                      ) : (
-                        <input
-                          type="text"
-                          id={param.InputName}
-                          value={parameterValues[param.InputName] || ''}
-                          onChange={(e) => handleParameterChange(param.InputName, e.target.value)}
-                          className={`mt-1 input-field ${errClass}`}
-                          aria-invalid={!!fieldError}
-                        />
-                      )}
-                      {fieldError && (
-                        <p className="mt-1 text-xs text-[var(--accent-red)]" data-testid={`field-error-${param.InputName}`}>
-                          {fieldError}
-                        </p>
-                      )}
-                      {activeHints
-                        .filter(h => h.targetParameter === param.InputName)
-                        .map((hint, i) => (
-                          <p key={i} className="mt-1 text-xs text-[var(--accent-yellow)]" data-testid={`hint-${param.InputName}`}>
-                            {hint.message}
-                          </p>
+                {presets.length > 0 && (
+                  <div className="mb-4">
+                    <label htmlFor="preset" className="block text-sm font-medium text-secondary">
+                      Preset
+                    </label>
+                    <select
+                      id="preset"
+                      value={selectedPresetId}
+                      onChange={(e) => applyPreset(presets.find((preset) => preset.id === e.target.value) ?? null, parameterSchema, measurementMode)}
+                      className="mt-1 input-field"
+                      data-testid="preset-select"
+                    >
+                      <option value="">None</option>
+                      {presets.map((preset) => (
+                        <option key={preset.id} value={preset.id}>
+                          {preset.name}{preset.isDefault ? ' (default)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {hasLengthParameters(parameterSchema) && (
+                  <div className="mb-4 flex flex-wrap gap-4" data-testid="measurement-mode">
+                    <div>
+                      <label htmlFor="lengthUnit" className="block text-sm font-medium text-secondary">
+                        Enter lengths in
+                      </label>
+                      <select
+                        id="lengthUnit"
+                        value={measurementMode.lengthUnit}
+                        onChange={(e) => handleMeasurementModeChange({ ...measurementMode, lengthUnit: e.target.value as LengthUnit })}
+                        className="mt-1 input-field"
+                        data-testid="length-unit-select"
+                      >
+                        {LENGTH_UNITS.map((unit) => (
+                          <option key={unit} value={unit}>{unit}</option>
                         ))}
-                      {(param.InputType === 'Float' || param.InputType === 'Integer') && (
-                        <p className="mt-1 text-xs text-muted">
-                          {param.NumberMin !== undefined && param.NumberMax !== undefined
-                            ? `Range: ${param.NumberMin} - ${param.NumberMax}`
-                            : param.NumberMin !== undefined
-                            ? `Minimum: ${param.NumberMin}`
-                            : param.NumberMax !== undefined
-                            ? `Maximum: ${param.NumberMax}`
-                            : ''}
-                        </p>
-                      )}
-                      {param.InputType === 'Text' && (
-                        <p className="mt-1 text-xs text-muted">
-                          {param.TextMinLen !== undefined && param.TextMaxLen !== undefined
-                            ? `Length: ${param.TextMinLen} - ${param.TextMaxLen} characters`
-                            : param.TextMinLen !== undefined
-                            ? `Minimum: ${param.TextMinLen} characters`
-                            : param.TextMaxLen !== undefined
-                            ? `Maximum: ${param.TextMaxLen} characters`
-                            : ''}
-                        </p>
-                      )}
+                      </select>
                     </div>
-                    );
-                  })}
+                    {hasCircumferenceParameters(parameterSchema) && (
+                      <div>
+                        <label htmlFor="circumferenceEntry" className="block text-sm font-medium text-secondary">
+                          Measure fingers by
+                        </label>
+                        <select
+                          id="circumferenceEntry"
+                          value={measurementMode.circumferenceEntry}
+                          onChange={(e) => handleMeasurementModeChange({ ...measurementMode, circumferenceEntry: e.target.value as CircumferenceEntry })}
+                          className="mt-1 input-field"
+                          data-testid="circumference-entry-select"
+                        >
+                          <option value="circumference">Circumference</option>
+                          <option value="diameter">Diameter</option>
+                        </select>
+                      </div>
+                    )}
+                    {!isDefaultMeasurementMode(measurementMode) && (
+                      <p className="basis-full text-xs text-muted">
+                        Measurements are saved in millimetres (diameters as circumferences). What you enter here is kept on the job.
+                      </p>
+                    )}
+                  </div>
+                )}
+                <div className="grid grid-cols-1 gap-4">
+                  {entrySchema.map((param) => (
+                    <DesignParameterField
+                      key={param.InputName}
+                      param={param}
+                      value={parameterValues[param.InputName]}
+                      path={param.InputName}
+                      errors={validation.errors}
+                      onChange={(value) => handleParameterChange(param.InputName, value)}
+                      onBlur={(value) => {
+                        if (selectedDesign) {
+                          evaluateHints(selectedDesign, { ...parameterValues, [param.InputName]: value });
+                        }
+                      }}
+                      hints={activeHints.filter(h => h.targetParameter === param.InputName)}
+                      locked={!!selectedPreset?.fields[param.InputName]?.locked}
+                    />
+                  ))}
                 </div>
               </div>
             )}
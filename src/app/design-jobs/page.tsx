@@ -7,6 +7,7 @@ import Link from 'next/link';
 import Header from '@/components/navigation/Header';
 import { useSmartPolling } from '@/hooks/useSmartPolling';
 import { formatDate } from '@/lib/formatDate';
+import { isAwaitingReview, type PrintJobStateValue } from '@/lib/print-state';
 
 interface GeometryJob {
   id: string;
@@ -18,6 +19,7 @@ interface GeometryJob {
   isProcessSuccessful: boolean;
   isEnabled: boolean;
   isDebugRequest?: boolean;
+  priority?: 'RUSH' | 'NORMAL' | 'BACKGROUND';
   design: {
     name: string;
     algorithmName: string;
@@ -27,9 +29,49 @@ interface GeometryJob {
   };
   printJobs: Array<{
     id: string;
+    state: PrintJobStateValue;
     printAcceptance: string | null;
     printCompletedAt: string | null;
   }>;
+  batch?: {
+    id: string;
+    labelPrefix: string;
+    createdAt: string;
+  } | null;
+}
+
+interface BatchProgress {
+  id: string;
+  labelPrefix: string;
+  createdAt: string;
+  total: number;
+  generated: number;
+  failed: number;
+  printed: number;
+}
+
+// Recent batches to summarize above the job list
+const BATCH_SUMMARY_LIMIT = 5;
+
+// Roll the jobs in the list up into their batches, newest batch first.
+function summarizeBatches(jobs: GeometryJob[]): BatchProgress[] {
+  const batches = new Map<string, BatchProgress>();
+  for (const job of jobs) {
+    if (!job.batch) continue;
+    const progress = batches.get(job.batch.id) ?? {
+      ...job.batch,
+      total: 0,
+      generated: 0,
+      failed: 0,
+      printed: 0,
+    };
+    progress.total += 1;
+    if (job.processCompletedAt && job.isProcessSuccessful) progress.generated += 1;
+    if (job.processCompletedAt && !job.isProcessSuccessful) progress.failed += 1;
+    if (job.printJobs.some(p => p.printCompletedAt != null)) progress.printed += 1;
+    batches.set(job.batch.id, progress);
+  }
+  return [...batches.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
 }
 
 export default function GeometryJobsPage() {
@@ -37,6 +79,7 @@ export default function GeometryJobsPage() {
   const router = useRouter();
   const [searchObjectId, setSearchObjectId] = useState('');
   const [searchError, setSearchError] = useState('');
+  const [batchFilter, setBatchFilter] = useState<string | null>(null);
   
   // Use smart polling hook for real-time updates
   const { 
@@ -76,6 +119,12 @@ export default function GeometryJobsPage() {
     }
   };
 
+  const batches = summarizeBatches(geometryJobs ?? []);
+  const filteredBatch = batches.find(b => b.id === batchFilter) ?? null;
+  const visibleJobs = filteredBatch
+    ? (geometryJobs ?? []).filter(job => job.batch?.id === filteredBatch.id)
+    : geometryJobs;
+
   const getStatusBadge = (job: GeometryJob) => {
     const processingBadge = (() => {
       if (!job.isEnabled) {
@@ -100,10 +149,8 @@ export default function GeometryJobsPage() {
     const hasRejectDesign = statuses.has('REJECT_DESIGN');
     const hasArchived = statuses.has('ARCHIVED');
     const hasLegacyRejected = statuses.has('REJECTED');
-    // "Awaiting Review" if any completed print job has no review yet
-    const hasAwaitingReview = job.printJobs.some(
-      p => p.printAcceptance === null && p.printCompletedAt != null
-    );
+    // "Awaiting Review" if any print job has finished and has no review yet
+    const hasAwaitingReview = job.printJobs.some(p => isAwaitingReview(p.state));
 
     return (
       <div className="flex flex-col gap-1">
@@ -180,15 +227,79 @@ export default function GeometryJobsPage() {
           </div>
         )}
 
+        {batches.length > 0 && (
+          <div className="card mb-6" data-testid="design-job-batches">
+            <div className="card-header">
+              <h2 className="text-lg font-medium text-primary">Batches</h2>
+            </div>
+            <table className="data-table min-w-full">
+              <thead>
+                <tr>
+                  <th>Label Prefix</th>
+                  <th>Progress</th>
+                  <th>Created</th>
+                  <th className="text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batches.slice(0, BATCH_SUMMARY_LIMIT).map((batch) => (
+                  <tr key={batch.id} data-testid="design-job-batch-row" data-batch-id={batch.id}>
+                    <td className="whitespace-nowrap text-sm font-medium text-primary">{batch.labelPrefix}</td>
+                    <td className="text-sm">
+                      <div className="h-2 w-40 rounded bg-[var(--surface-secondary)] overflow-hidden flex">
+                        <div className="bg-[var(--accent-green)]" style={{ width: `${(batch.generated / batch.total) * 100}%` }} />
+                        <div className="bg-[var(--accent-red)]" style={{ width: `${(batch.failed / batch.total) * 100}%` }} />
+                      </div>
+                      <div className="text-xs text-muted mt-1" data-testid="design-job-batch-progress">
+                        {batch.generated} of {batch.total} generated
+                        {batch.failed > 0 && `, ${batch.failed} failed`}
+                        {batch.printed > 0 && `, ${batch.printed} printed`}
+                      </div>
+                    </td>
+                    <td className="whitespace-nowrap text-sm text-muted">{formatDate(batch.createdAt)}</td>
+                    <td className="whitespace-nowrap text-right text-sm">
+                      <button
+                        onClick={() => setBatchFilter(batchFilter === batch.id ? null : batch.id)}
+                        className="text-link hover:underline mr-4"
+                        data-testid="filter-batch-btn"
+                      >
+                        {batchFilter === batch.id ? 'Show All' : 'Show Jobs'}
+                      </button>
+                      <Link
+                        href={`/print-queue?batchId=${batch.id}`}
+                        className="text-link-alt"
+                        data-testid="batch-print-queue-link"
+                      >
+                        Prints
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         <div className="card" data-testid="design-jobs-card">
           <div className="card-header flex justify-between items-center">
-            <Link
-              href="/design-jobs/new"
-              className="btn-primary px-6 py-2 text-sm"
-              data-testid="create-job-btn"
-            >
-              Create New Job
-            </Link>
+            <div className="flex items-center gap-2">
+              <Link
+                href="/design-jobs/new"
+                className="btn-primary px-6 py-2 text-sm"
+                data-testid="create-job-btn"
+              >
+                Create New Job
+              </Link>
+              {filteredBatch && (
+                <button
+                  onClick={() => setBatchFilter(null)}
+                  className="btn-neutral px-3 py-2 text-sm"
+                  data-testid="clear-batch-filter-btn"
+                >
+                  Batch {filteredBatch.labelPrefix} &times;
+                </button>
+              )}
+            </div>
             <div className="flex items-center gap-2">
               {lastUpdate && (
                 <span className="text-xs text-muted">
@@ -221,7 +332,7 @@ export default function GeometryJobsPage() {
           </div>
 
           <div className="overflow-x-auto">
-            {!geometryJobs || geometryJobs.length === 0 ? (
+            {!visibleJobs || visibleJobs.length === 0 ? (
               <div className="text-center py-12" data-testid="design-jobs-empty">
                 <div className="text-muted text-lg">No design jobs found</div>
                 <p className="text-muted mt-2">Create your first design job to get started.</p>
@@ -245,7 +356,7 @@ export default function GeometryJobsPage() {
                   </tr>
                 </thead>
                 <tbody>
-                  {geometryJobs.map((job) => (
+                  {visibleJobs.map((job) => (
                     <tr
                       key={job.id}
                       className="cursor-pointer"
@@ -260,11 +371,19 @@ export default function GeometryJobsPage() {
                           {job.isDebugRequest && (
                             <span className="ml-1 status-badge status-neutral font-sans font-normal">Test</span>
                           )}
+                          {job.priority === 'RUSH' && !job.processCompletedAt && (
+                            <span className="ml-1 status-badge status-error font-sans font-normal">Rush</span>
+                          )}
                         </div>
                         <div className="text-xs text-muted mt-1">Job:</div>
                         <div className="text-sm text-primary">
                           {job.jobLabel || 'N/A'}
                         </div>
+                        {job.batch && (
+                          <div className="text-xs text-muted mt-1" data-testid="design-job-batch">
+                            Batch: {job.batch.labelPrefix}
+                          </div>
+                        )}
                       </td>
                       <td className="whitespace-nowrap">
                         <div className="text-sm font-medium text-primary">
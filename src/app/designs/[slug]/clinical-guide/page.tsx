@@ -1,14 +1,13 @@
 import { readFile } from 'fs/promises';
-import { join } from 'path';
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import Header from '@/components/navigation/Header';
-import { getDesignBySlug } from '@/designs/registry';
+import { getDesignBySlug, getDesignSourcePath } from '@/designs/registry';
 
 // Server-rendered clinical guide page.
-// Reads src/designs/<slug>/clinical-guide.md at request time and renders it
+// Reads the design's clinical-guide.md at request time and renders it
 // with GFM support (tables, task lists). Middleware enforces auth.
 
 interface PageProps {
@@ -23,7 +22,7 @@ export default async function ClinicalGuidePage({ params }: PageProps) {
     notFound();
   }
 
-  const filePath = join(process.cwd(), 'src', 'designs', slug, 'clinical-guide.md');
+  const filePath = getDesignSourcePath(slug, 'clinical-guide.md');
   const markdown = await readFile(filePath, 'utf-8');
 
   return (
@@ -0,0 +1,372 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Header from '@/components/navigation/Header';
+import ValidationSummary from '@/components/forms/ValidationSummary';
+import { useFormValidation } from '@/lib/formValidation';
+import { formatDate } from '@/lib/formatDate';
+import {
+  CASE_REFERENCE_MAX_LENGTH,
+  FINGERS,
+  MEASUREMENTS,
+  NOTES_MAX_LENGTH,
+  measurementKey,
+  type Hand,
+  type MeasurementSetData,
+} from '@/designs/measurements';
+
+interface MeasurementSetRow extends MeasurementSetData {
+  updatedAt: string;
+  createdBy: { name: string | null; email: string };
+  jobCount: number;
+}
+
+// Measurements are kept as typed (mm) until saved; the API validates and rounds them.
+interface MeasurementSetDraft {
+  id: string | null;
+  caseReference: string;
+  hand: Hand;
+  notes: string;
+  measurements: Record<string, string>;
+}
+
+function toDraft(set: MeasurementSetData | null): MeasurementSetDraft {
+  return {
+    id: set?.id ?? null,
+    caseReference: set?.caseReference ?? '',
+    hand: set?.hand ?? 'RIGHT',
+    notes: set?.notes ?? '',
+    measurements: Object.fromEntries(
+      Object.entries(set?.measurements ?? {}).map(([key, value]) => [key, String(value)]),
+    ),
+  };
+}
+
+export default function MeasurementSetsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [sets, setSets] = useState<MeasurementSetRow[]>([]);
+  const [search, setSearch] = useState('');
+  const [draft, setDraft] = useState<MeasurementSetDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const validation = useFormValidation();
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session?.user) {
+      router.push('/login');
+      return;
+    }
+    fetchSets('');
+  }, [session, status, router]);
+
+  const fetchSets = async (query: string) => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/measurement-sets${query.trim() ? `?q=${encodeURIComponent(query.trim())}` : ''}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load measurement sets');
+      }
+      setSets(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const editSet = (set: MeasurementSetData | null) => {
+    validation.clearAll();
+    setSuccess(null);
+    setDraft(toDraft(set));
+  };
+
+  const updateMeasurement = (key: string, value: string) => {
+    setDraft((prev) => prev && { ...prev, measurements: { ...prev.measurements, [key]: value } });
+    validation.clearError(key);
+  };
+
+  const saveSet = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      const response = await fetch(draft.id ? `/api/measurement-sets/${draft.id}` : '/api/measurement-sets', {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          caseReference: draft.caseReference,
+          hand: draft.hand,
+          notes: draft.notes,
+          measurements: draft.measurements,
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        if (errorData.fieldErrors && Object.keys(errorData.fieldErrors).length > 0) {
+          validation.setErrors(errorData.fieldErrors);
+          validation.scrollToErrors();
+          return;
+        }
+        throw new Error(errorData.error || 'Failed to save measurement set');
+      }
+      setSuccess(`Measurements for ${draft.caseReference.trim()} saved.`);
+      setDraft(null);
+      await fetchSets(search);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteSet = async (set: MeasurementSetRow) => {
+    if (!confirm(`Delete the ${set.hand === 'LEFT' ? 'left' : 'right'} hand measurements for ${set.caseReference}? Jobs created from them keep their values.`)) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/measurement-sets/${set.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete measurement set');
+      }
+      setSuccess(`Measurements for ${set.caseReference} deleted.`);
+      await fetchSets(search);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    }
+  };
+
+  return (
+    <div className="page-shell" data-testid="measurement-sets-page">
+      <Header />
+      <div className="page-content">
+        <div className="sm:flex sm:items-center mb-8">
+          <div className="sm:flex-auto">
+            <h1 className="page-title">Measurement Sets</h1>
+            <p className="mt-2 text-sm text-muted">
+              A hand&apos;s finger measurements, saved once under a de-identified case reference and used to
+              prefill new jobs for any design that takes them. Never use a name, MRN or date of birth as the reference.
+            </p>
+          </div>
+          <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none">
+            <button
+              onClick={() => editSet(null)}
+              className="btn-primary px-3 py-2 text-sm"
+              data-testid="new-measurement-set-btn"
+            >
+              New Measurement Set
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="alert-error mb-6" data-testid="alert-error">
+            Error: {error}
+          </div>
+        )}
+        {success && (
+          <div className="alert-success mb-6" data-testid="alert-success">
+            {success}
+          </div>
+        )}
+
+        {draft && (
+          <div className="card mb-8" data-testid="measurement-set-editor">
+            <div className="card-header flex justify-between items-center">
+              <h2 className="text-lg font-medium text-primary">
+                {draft.id ? 'Edit Measurement Set' : 'New Measurement Set'}
+              </h2>
+              <div className="flex gap-2">
+                <button onClick={() => setDraft(null)} className="btn-neutral px-4 py-2 text-sm" data-testid="cancel-measurement-set-btn">
+                  Cancel
+                </button>
+                <button
+                  onClick={saveSet}
+                  disabled={saving}
+                  className="btn-primary px-4 py-2 text-sm"
+                  data-testid="save-measurement-set-btn"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+            <div className="px-6 py-4 space-y-4">
+              <ValidationSummary
+                errors={validation.errors}
+                summaryRef={validation.summaryRef}
+                message="The measurement set could not be saved:"
+                testId="measurement-set-validation-summary"
+                showDetails
+              />
+              <div className="flex flex-wrap gap-4">
+                <div>
+                  <label htmlFor="caseReference" className="block text-sm font-medium text-secondary mb-1">
+                    Case Reference (No PII)
+                  </label>
+                  <input
+                    id="caseReference"
+                    type="text"
+                    value={draft.caseReference}
+                    maxLength={CASE_REFERENCE_MAX_LENGTH}
+                    onChange={(e) => {
+                      setDraft({ ...draft, caseReference: e.target.value });
+                      validation.clearError('caseReference');
+                    }}
+                    className={`input-field text-sm ${validation.errors.caseReference ? 'input-field-error' : ''}`}
+                    data-testid="case-reference-input"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="hand" className="block text-sm font-medium text-secondary mb-1">
+                    Hand
+                  </label>
+                  <select
+                    id="hand"
+                    value={draft.hand}
+                    onChange={(e) => setDraft({ ...draft, hand: e.target.value as Hand })}
+                    className="input-field text-sm"
+                    data-testid="hand-select"
+                  >
+                    <option value="RIGHT">Right</option>
+                    <option value="LEFT">Left</option>
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label htmlFor="notes" className="block text-sm font-medium text-secondary mb-1">
+                  Notes (No PII)
+                </label>
+                <input
+                  id="notes"
+                  type="text"
+                  value={draft.notes}
+                  maxLength={NOTES_MAX_LENGTH}
+                  onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                  className="input-field text-sm"
+                  data-testid="notes-input"
+                />
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="data-table" data-testid="measurement-grid">
+                  <thead>
+                    <tr>
+                      <th>Measurement (mm)</th>
+                      {FINGERS.map((finger) => (
+                        <th key={finger.key}>{finger.label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {MEASUREMENTS.map((measurement) => (
+                      <tr key={measurement.key}>
+                        <td className="text-sm text-primary">
+                          {measurement.label}
+                          <div className="text-xs text-muted">{measurement.description}</div>
+                        </td>
+                        {FINGERS.map((finger) => {
+                          const key = measurementKey(finger.key, measurement.key);
+                          return (
+                            <td key={key}>
+                              <input
+                                type="text"
+                                inputMode="decimal"
+                                value={draft.measurements[key] ?? ''}
+                                onChange={(e) => updateMeasurement(key, e.target.value)}
+                                className={`input-field text-sm w-20 ${validation.errors[key] ? 'input-field-error' : ''}`}
+                                aria-label={`${finger.label} ${measurement.label}`}
+                                data-testid={`measurement-${key}`}
+                              />
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-muted">Leave blank anything you didn&apos;t measure. Circumferences are around the finger, in millimetres.</p>
+            </div>
+          </div>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            fetchSets(search);
+          }}
+          className="mb-4 flex gap-2"
+        >
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by case reference"
+            className="input-field text-sm max-w-xs"
+            data-testid="measurement-set-search"
+          />
+          <button type="submit" className="btn-neutral px-3 py-2 text-sm">
+            Search
+          </button>
+        </form>
+
+        <div className="card overflow-hidden">
+          <table className="data-table" data-testid="measurement-sets-table">
+            <thead>
+              <tr>
+                <th>Case Reference</th>
+                <th>Hand</th>
+                <th>Measurements</th>
+                <th>Jobs</th>
+                <th>Updated</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sets.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-muted">
+                    {loading ? 'Loading measurement sets...' : 'No measurement sets yet.'}
+                  </td>
+                </tr>
+              ) : (
+                sets.map((set) => (
+                  <tr key={set.id} data-testid="measurement-set-row">
+                    <td className="whitespace-nowrap text-sm font-medium text-primary font-mono">
+                      {set.caseReference}
+                      {set.notes && <div className="text-xs text-muted font-sans">{set.notes}</div>}
+                    </td>
+                    <td className="whitespace-nowrap text-sm text-muted">{set.hand === 'LEFT' ? 'Left' : 'Right'}</td>
+                    <td className="whitespace-nowrap text-sm text-muted">{Object.keys(set.measurements).length}</td>
+                    <td className="whitespace-nowrap text-sm text-muted">{set.jobCount}</td>
+                    <td className="whitespace-nowrap text-sm text-muted">
+                      {formatDate(set.updatedAt)}
+                      <div className="text-xs">{set.createdBy.name || set.createdBy.email}</div>
+                    </td>
+                    <td className="whitespace-nowrap text-sm text-right">
+                      <button onClick={() => editSet(set)} className="text-link hover:underline mr-3" data-testid="edit-measurement-set-btn">
+                        Edit
+                      </button>
+                      <button onClick={() => deleteSet(set)} className="text-error hover:underline" data-testid="delete-measurement-set-btn">
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
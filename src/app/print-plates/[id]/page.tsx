@@ -0,0 +1,307 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Header from '@/components/navigation/Header';
+import PrintPlateStatusBadge from '@/components/PrintPlateStatusBadge';
+import PrintStatusBadge from '@/components/PrintStatusBadge';
+import PrintAcceptanceModal from '@/components/PrintAcceptanceModal';
+import { formatDate } from '@/lib/formatDate';
+import { isActivePrintState, type PrintJobStateValue } from '@/lib/print-state';
+
+interface PrintPlate {
+  id: string;
+  printerModel: string;
+  createdAt: string;
+  arrangeStartedAt: string | null;
+  arrangedAt: string | null;
+  arrangeFailureReason: string | null;
+  printFileName: string | null;
+  printerSerial: string | null;
+  printStartedAt: string | null;
+  printCompletedAt: string | null;
+  isPrintSuccessful: boolean;
+  progress: number | null;
+  progressLastReportAt: string | null;
+  createdBy: { name: string | null; email: string };
+  printJobs: Array<{
+    id: string;
+    state: PrintJobStateValue;
+    printAcceptance: string | null;
+    printNote: string | null;
+    designJob: {
+      id: string;
+      objectId: string | null;
+      jobLabel: string | null;
+      design: { name: string };
+    };
+  }>;
+}
+
+export default function PrintPlateDetailPage({
+  params
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [id, setId] = useState('');
+  const [plate, setPlate] = useState<PrintPlate | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+
+  useEffect(() => {
+    params.then(p => setId(p.id));
+  }, [params]);
+
+  const fetchPlate = useCallback(async () => {
+    if (!id) return;
+    try {
+      const response = await fetch(`/api/print-plates/${id}`);
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'Print plate not found' : 'Failed to fetch print plate');
+      }
+      setPlate(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch print plate');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session?.user) {
+      router.push('/login');
+      return;
+    }
+    fetchPlate();
+  }, [session, status, router, fetchPlate]);
+
+  // Live progress while the plate prints
+  useEffect(() => {
+    if (!id) return;
+    const eventSource = new EventSource('/api/print-queue/events');
+    eventSource.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        if (data.type === 'plate-progress' && data.id === id) {
+          setPlate(prev => prev ? { ...prev, progress: data.progress, progressLastReportAt: data.progressLastReportAt } : null);
+        }
+      } catch {
+        // Ignore heartbeat messages and connection confirmations
+      }
+    };
+    return () => eventSource.close();
+  }, [id]);
+
+  const runAction = async (request: () => Promise<Response>, failureMessage: string) => {
+    setUpdating(true);
+    setError(null);
+    try {
+      const response = await request();
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || failureMessage);
+      }
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failureMessage);
+      return false;
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleStart = async () => {
+    const ok = await runAction(() => fetch(`/api/print-plates/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ printStartedAt: new Date().toISOString() }),
+    }), 'Failed to start plate');
+    if (ok) await fetchPlate();
+  };
+
+  const handleMarkDone = async () => {
+    const ok = await runAction(() => fetch(`/api/print-plates/${id}/progress`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ progress: 100 }),
+    }), 'Failed to mark plate as done');
+    if (ok) await fetchPlate();
+  };
+
+  const handleDisband = async () => {
+    if (!confirm('Disband this plate? Its prints go back to the queue to print individually.')) return;
+    const ok = await runAction(() => fetch(`/api/print-plates/${id}`, { method: 'DELETE' }), 'Failed to disband plate');
+    if (ok) router.push('/print-plates');
+  };
+
+  const handleAcceptanceSubmit = async (_plateId: string, acceptance: string, note: string, shouldReprint: boolean) => {
+    const ok = await runAction(() => fetch(`/api/print-plates/${id}/acceptance`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ printAcceptance: acceptance, printNote: note || undefined, reprint: shouldReprint }),
+    }), 'Failed to review plate');
+    if (!ok) throw new Error('Failed to review plate'); // keeps the modal open
+    await fetchPlate();
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="page-shell" data-testid="print-plate-loading">
+        <Header />
+        <div className="page-content text-center text-secondary">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!plate) {
+    return (
+      <div className="page-shell">
+        <Header />
+        <div className="page-content">
+          <div className="alert-error" data-testid="print-plate-detail-error">{error}</div>
+        </div>
+      </div>
+    );
+  }
+
+  const unreviewed = plate.printJobs.filter(printJob => isActivePrintState(printJob.state));
+
+  return (
+    <div className="page-shell" data-testid="print-plate-detail-page">
+      <Header />
+      <div className="page-content">
+        <div className="mb-8 flex justify-between items-center">
+          <div>
+            <h1 className="page-title">Print Plate</h1>
+            <p className="mt-2 text-secondary">
+              {plate.printJobs.length} prints for a {plate.printerModel} printer
+            </p>
+          </div>
+          <Link href="/print-plates" className="btn-neutral px-4 py-2 text-sm" data-testid="back-btn">
+            &larr; Back to Plates
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-6 alert-error" data-testid="alert-error">{error}</div>
+        )}
+
+        <div className="space-y-6">
+          <div className="card shadow" data-testid="plate-status-card">
+            <div className="card-header flex justify-between items-center">
+              <h2 className="text-lg font-medium text-primary">Plate Status</h2>
+              <PrintPlateStatusBadge {...plate} />
+            </div>
+            <div className="card-body space-y-4">
+              {plate.arrangeFailureReason && (
+                <div className="alert-error text-sm" data-testid="arrange-failure">{plate.arrangeFailureReason}</div>
+              )}
+              <div className="flex flex-wrap gap-3">
+                {plate.arrangedAt && (
+                  <a href={`/api/print-plates/${plate.id}/print-file`} className="btn-neutral px-4 py-2 text-sm" data-testid="download-plate-file-btn">
+                    Download {plate.printFileName}
+                  </a>
+                )}
+                {plate.arrangedAt && !plate.printStartedAt && (
+                  <button onClick={handleStart} disabled={updating} className="btn-alt px-4 py-2 text-sm" data-testid="start-plate-btn">
+                    Mark Started
+                  </button>
+                )}
+                {plate.printStartedAt && !plate.printCompletedAt && (
+                  <button onClick={handleMarkDone} disabled={updating} className="btn-neutral px-4 py-2 text-sm" data-testid="mark-plate-done-btn">
+                    Mark Done
+                  </button>
+                )}
+                {plate.printCompletedAt && unreviewed.length > 0 && (
+                  <button onClick={() => setReviewing(true)} disabled={updating} className="btn-primary px-4 py-2 text-sm" data-testid="review-plate-btn">
+                    Review Plate
+                  </button>
+                )}
+                {!plate.printStartedAt && (
+                  <button onClick={handleDisband} disabled={updating} className="btn-neutral px-4 py-2 text-sm" data-testid="disband-plate-btn">
+                    Disband
+                  </button>
+                )}
+              </div>
+
+              {plate.printStartedAt && !plate.printCompletedAt && plate.progress != null && (
+                <div data-testid="plate-progress-section">
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm font-medium text-secondary">Plate Progress</span>
+                    <span className="text-sm font-semibold text-primary">{plate.progress.toFixed(1)}%</span>
+                  </div>
+                  <div className="progress-track">
+                    <div className="progress-fill transition-all duration-300" style={{ width: `${Math.min(100, Math.max(0, plate.progress))}%` }} />
+                  </div>
+                </div>
+              )}
+
+              <dl className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <div>
+                  <dt className="font-medium text-muted">Created</dt>
+                  <dd className="mt-1 text-primary">{formatDate(plate.createdAt)} by {plate.createdBy.name || plate.createdBy.email}</dd>
+                </div>
+                <div>
+                  <dt className="font-medium text-muted">Arranged</dt>
+                  <dd className="mt-1 text-primary">{plate.arrangedAt ? formatDate(plate.arrangedAt) : 'Not yet'}</dd>
+                </div>
+                <div>
+                  <dt className="font-medium text-muted">Printer</dt>
+                  <dd className="mt-1 text-primary font-mono">{plate.printerSerial || plate.printerModel}</dd>
+                </div>
+              </dl>
+            </div>
+          </div>
+
+          <div className="card shadow overflow-hidden">
+            <div className="card-header">
+              <h2 className="text-lg font-medium text-primary">Prints on this Plate</h2>
+            </div>
+            <table className="data-table" data-testid="plate-members-table">
+              <thead>
+                <tr>
+                  <th>Object ID</th>
+                  <th>Design</th>
+                  <th>Job</th>
+                  <th>Review</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plate.printJobs.map(printJob => (
+                  <tr key={printJob.id} data-testid="plate-member-row">
+                    <td className="text-sm font-mono">
+                      <Link href={`/print-queue/${printJob.id}`} className="text-link">
+                        {printJob.designJob.objectId || printJob.id}
+                      </Link>
+                    </td>
+                    <td className="text-sm text-primary">{printJob.designJob.design.name}</td>
+                    <td className="text-sm text-muted">{printJob.designJob.jobLabel || ''}</td>
+                    <td className="text-sm">
+                      <PrintStatusBadge state={printJob.state} printAcceptance={printJob.printAcceptance} printNote={printJob.printNote} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {reviewing && (
+        <PrintAcceptanceModal
+          printId={plate.id}
+          geometryName={`${unreviewed.length} prints on this plate`}
+          onClose={() => setReviewing(false)}
+          onSubmit={handleAcceptanceSubmit}
+        />
+      )}
+    </div>
+  );
+}
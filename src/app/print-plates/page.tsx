@@ -0,0 +1,304 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Header from '@/components/navigation/Header';
+import PrintPlateStatusBadge from '@/components/PrintPlateStatusBadge';
+import { formatDate } from '@/lib/formatDate';
+import type { PrintJobStateValue } from '@/lib/print-state';
+
+interface PrintPlateRow {
+  id: string;
+  printerModel: string;
+  createdAt: string;
+  arrangeStartedAt: string | null;
+  arrangedAt: string | null;
+  arrangeFailureReason: string | null;
+  printStartedAt: string | null;
+  printCompletedAt: string | null;
+  isPrintSuccessful: boolean;
+  progress: number | null;
+  createdBy: { name: string | null; email: string };
+  printJobs: Array<{ id: string; state: PrintJobStateValue; designJob: { objectId: string | null; design: { name: string } } }>;
+}
+
+// Unstarted queue entries that can go on a plate.
+interface CandidatePrint {
+  id: string;
+  state: PrintJobStateValue;
+  plateId?: string | null;
+  hasGeometryFile: boolean;
+  assignedPrinterModel?: string | null;
+  assignedPrinterSerial?: string | null;
+  designJob: {
+    objectId?: string;
+    jobLabel?: string;
+    design: { name: string };
+  };
+}
+
+// Mirrors PRINT_PLATE_MIN_JOBS / PRINT_PLATE_MAX_JOBS in src/lib/print-plates.ts.
+const MIN_JOBS = 2;
+const MAX_JOBS = 24;
+
+export default function PrintPlatesPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [plates, setPlates] = useState<PrintPlateRow[]>([]);
+  const [candidates, setCandidates] = useState<CandidatePrint[]>([]);
+  const [printerModels, setPrinterModels] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [printerModel, setPrinterModel] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session?.user) {
+      router.push('/login');
+      return;
+    }
+    fetchPlates();
+  }, [session, status, router]);
+
+  const fetchPlates = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/print-plates');
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load print plates');
+      }
+      setPlates(await response.json());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startCreating = async () => {
+    setCreating(true);
+    setSelectedIds([]);
+    setError(null);
+    try {
+      const [queueResponse, printersResponse] = await Promise.all([
+        fetch('/api/print-queue'),
+        fetch('/api/printers'),
+      ]);
+      if (!queueResponse.ok) {
+        throw new Error('Failed to load the print queue');
+      }
+      const queue: CandidatePrint[] = await queueResponse.json();
+      setCandidates(queue.filter(entry => (entry.state === 'QUEUED' || entry.state === 'SENT') && !entry.plateId && entry.hasGeometryFile));
+      const printers: Array<{ model: string }> = printersResponse.ok ? await printersResponse.json() : [];
+      const models = [...new Set(printers.map(printer => printer.model))];
+      setPrinterModels(models);
+      setPrinterModel(current => current || models[0] || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]);
+  };
+
+  const createPlate = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/print-plates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ printJobIds: selectedIds, printerModel }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create print plate');
+      }
+      router.push(`/print-plates/${data.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // A job already assigned elsewhere can't go on a plate for a different model.
+  const conflictsWithModel = (entry: CandidatePrint) =>
+    !!entry.assignedPrinterModel && entry.assignedPrinterModel !== printerModel;
+
+  return (
+    <div className="page-shell" data-testid="print-plates-page">
+      <Header />
+      <div className="page-content">
+        <div className="sm:flex sm:items-center mb-8">
+          <div className="sm:flex-auto">
+            <h1 className="page-title">Print Plates</h1>
+            <p className="mt-2 text-sm text-muted">
+              Print several small jobs in one cycle. The geo processor arranges the chosen meshes onto one
+              plate; progress, photos and review on the plate apply to every print on it.
+            </p>
+          </div>
+          <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none flex gap-2">
+            <Link href="/print-queue" className="btn-neutral px-3 py-2 text-sm" data-testid="back-to-queue-btn">
+              &larr; Print Queue
+            </Link>
+            <button
+              onClick={startCreating}
+              className="btn-primary px-3 py-2 text-sm"
+              data-testid="new-print-plate-btn"
+            >
+              New Plate
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="alert-error mb-6" data-testid="alert-error">
+            Error: {error}
+          </div>
+        )}
+
+        {creating && (
+          <div className="card mb-8" data-testid="print-plate-editor">
+            <div className="card-header flex justify-between items-center">
+              <h2 className="text-lg font-medium text-primary">New Plate</h2>
+              <div className="flex gap-2">
+                <button onClick={() => setCreating(false)} className="btn-neutral px-4 py-2 text-sm" data-testid="cancel-print-plate-btn">
+                  Cancel
+                </button>
+                <button
+                  onClick={createPlate}
+                  disabled={saving || !printerModel.trim() || selectedIds.length < MIN_JOBS || selectedIds.length > MAX_JOBS}
+                  className="btn-primary px-4 py-2 text-sm"
+                  data-testid="create-print-plate-btn"
+                >
+                  {saving ? 'Creating...' : `Create Plate (${selectedIds.length})`}
+                </button>
+              </div>
+            </div>
+            <div className="px-6 py-4 space-y-4">
+              <div>
+                <label htmlFor="printerModel" className="block text-sm font-medium text-secondary mb-1">
+                  Printer Model
+                </label>
+                <input
+                  id="printerModel"
+                  type="text"
+                  list="printer-models"
+                  value={printerModel}
+                  onChange={(e) => setPrinterModel(e.target.value)}
+                  className="input-field text-sm max-w-xs"
+                  data-testid="plate-printer-model-input"
+                />
+                <datalist id="printer-models">
+                  {printerModels.map(model => <option key={model} value={model} />)}
+                </datalist>
+              </div>
+
+              <p className="text-xs text-muted">
+                Choose {MIN_JOBS} to {MAX_JOBS} prints that haven&apos;t started. Only prints with a mesh can be arranged.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="data-table" data-testid="plate-candidates-table">
+                  <thead>
+                    <tr>
+                      <th></th>
+                      <th>Object ID</th>
+                      <th>Design</th>
+                      <th>Job</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {candidates.length === 0 ? (
+                      <tr>
+                        <td colSpan={4} className="px-6 py-4 text-center text-muted">No prints are waiting.</td>
+                      </tr>
+                    ) : (
+                      candidates.map(entry => (
+                        <tr key={entry.id} data-testid="plate-candidate-row">
+                          <td>
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.includes(entry.id)}
+                              onChange={() => toggleSelected(entry.id)}
+                              disabled={conflictsWithModel(entry)}
+                              aria-label={`Add ${entry.designJob.objectId || entry.id} to the plate`}
+                              data-testid="plate-candidate-checkbox"
+                            />
+                          </td>
+                          <td className="text-sm font-mono text-primary">{entry.designJob.objectId || 'N/A'}</td>
+                          <td className="text-sm text-primary">
+                            {entry.designJob.design.name}
+                            {conflictsWithModel(entry) && (
+                              <div className="text-xs text-muted">Assigned to {entry.assignedPrinterModel}</div>
+                            )}
+                          </td>
+                          <td className="text-sm text-muted">{entry.designJob.jobLabel || ''}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="card overflow-hidden">
+          <table className="data-table" data-testid="print-plates-table">
+            <thead>
+              <tr>
+                <th>Plate</th>
+                <th>Printer Model</th>
+                <th>Prints</th>
+                <th>Status</th>
+                <th>Created</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plates.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-center text-muted">
+                    {loading ? 'Loading print plates...' : 'No print plates yet.'}
+                  </td>
+                </tr>
+              ) : (
+                plates.map(plate => (
+                  <tr key={plate.id} data-testid="print-plate-row">
+                    <td className="whitespace-nowrap text-sm font-mono">
+                      <Link href={`/print-plates/${plate.id}`} className="text-link">
+                        {plate.id.slice(-8)}
+                      </Link>
+                    </td>
+                    <td className="whitespace-nowrap text-sm text-muted">{plate.printerModel}</td>
+                    <td className="text-sm text-muted">
+                      {plate.printJobs.length}
+                      <div className="text-xs">
+                        {plate.printJobs.map(printJob => printJob.designJob.objectId || printJob.designJob.design.name).join(', ')}
+                      </div>
+                    </td>
+                    <td className="whitespace-nowrap text-sm">
+                      <PrintPlateStatusBadge {...plate} />
+                    </td>
+                    <td className="whitespace-nowrap text-sm text-muted">
+                      {formatDate(plate.createdAt)}
+                      <div className="text-xs">{plate.createdBy.name || plate.createdBy.email}</div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
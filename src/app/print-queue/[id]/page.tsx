@@ -10,11 +10,40 @@ import PrintAcceptanceModal from '@/components/PrintAcceptanceModal';
 import DeletePrintModal from '@/components/DeletePrintModal';
 import DeviceAuthOverlay from '@/components/DeviceAuthOverlay';
 import PrintStatusBadge from '@/components/PrintStatusBadge';
-import PrintAcceptanceBadge from '@/components/PrintAcceptanceBadge';
 import { formatDate } from '@/lib/formatDate';
+import { PRINT_JOB_STATE_LABELS, isAwaitingReview, type PrintJobStateValue } from '@/lib/print-state';
+import { PRINT_INTERRUPTION_LABELS, type PrintInterruptionKindValue } from '@/lib/print-interruptions';
+import { formatParameterValue } from '@/designs/parameter-values';
+
+interface PrintStateTransition {
+  id: string;
+  fromState: PrintJobStateValue;
+  toState: PrintJobStateValue;
+  reason: string | null;
+  deviceId: string | null;
+  createdAt: string;
+  actor: { id: string; name: string | null; email: string } | null;
+}
+
+interface PrintInterruption {
+  id: string;
+  kind: PrintInterruptionKindValue;
+  hmsCode: string | null;
+  hmsMessage: string | null;
+  message: string | null;
+  progress: number | null;
+  createdAt: string;
+  printer: { serial: string; name: string | null; model: string } | null;
+  printerSnapshot: { firmware: string; capturedAt: string } | null;
+}
 
 interface PrintQueueEntry {
   id: string;
+  state: PrintJobStateValue;
+  stateChangedAt: string;
+  transitions?: PrintStateTransition[];
+  interruptions?: PrintInterruption[];
+  failureReason?: string | null;
   meshFileName?: string;
   printFileName?: string;
   printStartedAt?: string;
@@ -28,6 +57,12 @@ interface PrintQueueEntry {
   progressLastReportAt?: string | null;
   logs?: string | null;
   photos?: Array<{ id: string; photoUrl: string; progress: number; capturedAt: string }>;
+  assignedPrinterSerial?: string | null;
+  assignedPrinterModel?: string | null;
+  claimExpiresAt?: string | null;
+  claimedByDevice?: { id: string; name: string } | null;
+  plateId?: string | null;
+  plate?: { id: string; printerModel: string; arrangedAt: string | null } | null;
   designJob: {
     id: string;
     objectId?: string;
@@ -50,6 +85,20 @@ interface PrintQueueEntry {
   };
 }
 
+interface OrgPrinter {
+  serial: string;
+  model: string;
+  name: string | null;
+  device: { id: string; name: string } | null;
+}
+
+// Assignment select values: '' (any printer), 'model:<model>' or 'printer:<serial>'.
+function assignmentValue(entry: PrintQueueEntry): string {
+  if (entry.assignedPrinterSerial) return `printer:${entry.assignedPrinterSerial}`;
+  if (entry.assignedPrinterModel) return `model:${entry.assignedPrinterModel}`;
+  return '';
+}
+
 export default function PrintQueueDetailPage({ 
   params 
 }: { 
@@ -64,6 +113,7 @@ export default function PrintQueueDetailPage({
   const [id, setId] = useState<string>('');
   const [isElectronClient, setIsElectronClient] = useState(false);
   const [printingJobId, setPrintingJobId] = useState<string | null>(null);
+  const [printers, setPrinters] = useState<OrgPrinter[]>([]);
   const [acceptanceModal, setAcceptanceModal] = useState<{
     printId: string;
     geometryName: string;
@@ -170,6 +220,15 @@ export default function PrintQueueDetailPage({
     }
   }, [session, status, router, id]);
 
+  // Printers the job can be assigned to
+  useEffect(() => {
+    if (!session?.user) return;
+    fetch('/api/printers')
+      .then(res => res.ok ? res.json() : [])
+      .then(setPrinters)
+      .catch(err => console.error('Failed to fetch printers:', err));
+  }, [session]);
+
   // Connect to Server-Sent Events for real-time progress updates
   useEffect(() => {
     if (!id) return;
@@ -191,6 +250,16 @@ export default function PrintQueueDetailPage({
                   ...prev,
                   progress: data.progress,
                   progressLastReportAt: data.progressLastReportAt,
+                  ...(data.state ? { state: data.state } : {}),
+                } : null
+              );
+            } else if (data.type === 'state' && data.id === id) {
+              setEntry((prev) =>
+                prev ? {
+                  ...prev,
+                  state: data.state,
+                  stateChangedAt: data.stateChangedAt,
+                  ...(data.failureReason !== undefined ? { failureReason: data.failureReason } : {}),
                 } : null
               );
             }
@@ -240,10 +309,26 @@ export default function PrintQueueDetailPage({
       return;
     }
 
+    const deviceHeaders: Record<string, string> = deviceId ? { 'X-Device-ID': deviceId } : {};
+    let claimed = false;
+
     try {
       setPrintingJobId(entry.id);
       setError(null);
 
+      // Claim the job for this device first so no other client can send it to a printer
+      if (deviceId) {
+        const claimResponse = await fetch(`/api/print-queue/${entry.id}/claim`, {
+          method: 'POST',
+          headers: deviceHeaders,
+        });
+        if (!claimResponse.ok) {
+          const data = await claimResponse.json().catch(() => ({}));
+          throw new Error(data.error || 'Failed to claim print job');
+        }
+        claimed = true;
+      }
+
       // Get the print queue ID and geometry processing queue ID
       const printQueueId = entry.id;
       const geometryJobId = entry.designJob.id;
@@ -266,17 +351,23 @@ export default function PrintQueueDetailPage({
       if (!result.success) {
         throw new Error(result.error || 'Print failed');
       }
+      claimed = false;
 
       // Update the print queue entry to mark as started
-      await fetch(`/api/print-queue/${entry.id}`, {
+      const startResponse = await fetch(`/api/print-queue/${entry.id}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...deviceHeaders,
         },
         body: JSON.stringify({
           printStartedAt: new Date().toISOString(),
         }),
       });
+      if (!startResponse.ok) {
+        const data = await startResponse.json().catch(() => ({}));
+        throw new Error(data.error || 'Print was sent but could not be marked as started');
+      }
 
       // Refresh the entry
       await fetchEntry();
@@ -285,11 +376,42 @@ export default function PrintQueueDetailPage({
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to start print');
       console.error('Print error:', err);
+      // Nothing reached the printer, so let another device have the job
+      if (claimed) {
+        fetch(`/api/print-queue/${entry.id}/claim`, { method: 'DELETE', headers: deviceHeaders })
+          .catch(releaseErr => console.error('Failed to release print claim:', releaseErr));
+      }
     } finally {
       setPrintingJobId(null);
     }
   };
 
+  const handleAssignmentChange = async (value: string) => {
+    if (!entry) return;
+
+    try {
+      setUpdating(true);
+      setError(null);
+      const response = await fetch(`/api/print-queue/${entry.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          assignedPrinterSerial: value.startsWith('printer:') ? value.slice('printer:'.length) : null,
+          assignedPrinterModel: value.startsWith('model:') ? value.slice('model:'.length) : null,
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update printer assignment');
+      }
+      await fetchEntry();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update printer assignment');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
   // Device auth handlers
   const handleCreateChallenge = useCallback(async () => {
     if (!deviceId) throw new Error('No device ID available');
@@ -365,6 +487,7 @@ export default function PrintQueueDetailPage({
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...(deviceId ? { 'X-Device-ID': deviceId } : {}),
         },
         body: JSON.stringify({
           printStartedAt: new Date().toISOString(),
@@ -372,7 +495,8 @@ export default function PrintQueueDetailPage({
       });
 
       if (!response.ok) {
-        throw new Error('Failed to start print');
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to start print');
       }
 
       // Refresh the entry
@@ -532,6 +656,18 @@ export default function PrintQueueDetailPage({
           </div>
         )}
 
+        {entry.failureReason && (
+          <div className="banner-error mb-6 rounded-lg px-6 py-4 flex items-center gap-4" role="alert" data-testid="print-failure-banner">
+            <div className="text-2xl flex-shrink-0">&#10007;</div>
+            <div>
+              <p className="font-semibold">Print Failed</p>
+              <p className="text-sm opacity-80" data-testid="print-failure-reason">
+                Reason: {entry.failureReason}
+              </p>
+            </div>
+          </div>
+        )}
+
         <div className="space-y-6">
           {/* Status and Actions */}
           <div className="card shadow" data-testid="print-status-card">
@@ -539,14 +675,13 @@ export default function PrintQueueDetailPage({
               <div className="flex justify-between items-center">
                 <h2 className="text-lg font-medium text-primary">Print Status</h2>
                 <div className="flex items-center gap-3">
-                  <PrintStatusBadge printStartedAt={entry.printStartedAt} printCompletedAt={entry.printCompletedAt} isPrintSuccessful={entry.isPrintSuccessful} progress={entry.progress} />
-                  <PrintAcceptanceBadge printAcceptance={entry.printAcceptance} printNote={entry.printNote} />
+                  <PrintStatusBadge state={entry.state} progress={entry.progress} printAcceptance={entry.printAcceptance} printNote={entry.printNote} />
                 </div>
               </div>
             </div>
             <div className="card-body">
               <div className="flex flex-wrap gap-3">
-                {!entry.printStartedAt && !entry.printCompletedAt && entry.hasPrintFile && (
+                {(entry.state === 'QUEUED' || entry.state === 'SENT') && entry.hasPrintFile && !entry.plateId && (
                   <div className="relative group">
                     <button
                       onClick={() => isElectronClient ? handlePrint() : null}
@@ -569,7 +704,7 @@ export default function PrintQueueDetailPage({
                 )}
                 
                 {/* Review button - show for completed prints that haven't been reviewed */}
-                {entry.progress != null && entry.progress > 99 && entry.printAcceptance === null && (
+                {isAwaitingReview(entry.state) && (
                     <button
                       onClick={() => setAcceptanceModal({
                         printId: entry.id,
@@ -597,9 +732,47 @@ export default function PrintQueueDetailPage({
                   {updating ? 'Updating...' : 'Actions'}
                 </button>
               </div>
-              
+
+
+              {/* Plate membership - the plate prints, starts and reports for this job */}
+              {entry.plate && (
+                <div className="mt-4 text-sm text-secondary" data-testid="print-plate-info">
+                  Prints on a {entry.plate.printerModel} plate with other jobs.{' '}
+                  <Link href={`/print-plates/${entry.plate.id}`} className="text-link">View plate</Link>
+                </div>
+              )}
+
+              {/* Printer assignment - which printers may take this job */}
+              {(entry.state === 'QUEUED' || entry.state === 'SENT') && !entry.plate && (
+                <div className="mt-4 flex flex-wrap items-center gap-3" data-testid="printer-assignment">
+                  <label htmlFor="printer-assignment" className="text-sm font-medium text-secondary">Print on</label>
+                  <select
+                    id="printer-assignment"
+                    value={assignmentValue(entry)}
+                    onChange={(e) => handleAssignmentChange(e.target.value)}
+                    disabled={updating}
+                    className="input-field text-sm w-auto"
+                    data-testid="printer-assignment-select"
+                  >
+                    <option value="">Any printer</option>
+                    {[...new Set([...printers.map(p => p.model), ...(entry.assignedPrinterModel ? [entry.assignedPrinterModel] : [])])].map(model => (
+                      <option key={model} value={`model:${model}`}>Any {model}</option>
+                    ))}
+                    {printers.map(p => (
+                      <option key={p.serial} value={`printer:${p.serial}`}>
+                        {p.name || p.serial} ({p.model}{p.device ? ` on ${p.device.name}` : ''})
+                      </option>
+                    ))}
+                  </select>
+                  {entry.claimedByDevice && entry.claimExpiresAt && new Date(entry.claimExpiresAt) > new Date() && (
+                    <span className="text-sm text-muted" data-testid="print-claim-info">
+                      Claimed by {entry.claimedByDevice.name} until {formatDate(entry.claimExpiresAt)}
+                    </span>
+                  )}
+                </div>
+              )}              
               {/* Progress Bar and Info */}
-              {entry.printStartedAt && !entry.printCompletedAt && (
+              {(entry.state === 'PRINTING' || entry.state === 'PAUSED') && (
                 <div className="mt-6 border-t border-[var(--border)] pt-4">
                   {entry.progress != null && (
                     <div data-testid="print-progress-section">
@@ -761,30 +934,8 @@ export default function PrintQueueDetailPage({
                 <div>
                   <dt className="text-sm font-medium text-muted">Print Status</dt>
                   <dd className="mt-1 text-sm" data-testid="print-status">
-                    <div className="flex flex-wrap gap-2">
-                      {entry.printCompletedAt ? (
-                        entry.isPrintSuccessful ? (
-                          <span className="status-badge status-success">&#x2713; Successful</span>
-                        ) : (
-                          <span className="status-badge status-error">&#x2717; Failed</span>
-                        )
-                      ) : entry.printStartedAt ? (
-                        <span className="status-badge status-warning">&#x27F3; In Progress</span>
-                      ) : (
-                        <span className="status-badge status-pending">&#x23F8; Ready</span>
-                      )}
-                      {entry.printAcceptance === 'ACCEPTED' && (
-                        <span className="status-badge status-success">Accepted</span>
-                      )}
-                      {(entry.printAcceptance === 'REJECT_DESIGN' || entry.printAcceptance === 'REJECTED') && (
-                        <span className="status-badge status-warning">
-                          {entry.printAcceptance === 'REJECT_DESIGN' ? 'Rejected - Design' : 'Rejected'}
-                        </span>
-                      )}
-                      {entry.printAcceptance === 'REJECT_PRINT' && (
-                        <span className="status-badge status-error">Rejected - Print</span>
-                      )}
-                    </div>
+                    <PrintStatusBadge state={entry.state} printAcceptance={entry.printAcceptance} printNote={entry.printNote} />
+                    <div className="mt-1 text-xs text-muted">since {formatDate(entry.stateChangedAt)}</div>
                   </dd>
                 </div>
                 <div>
@@ -798,6 +949,56 @@ export default function PrintQueueDetailPage({
                   </dd>
                 </div>
               </dl>
+
+              {/* State history - every recorded transition, oldest first */}
+              {entry.transitions && entry.transitions.length > 0 && (
+                <div className="mt-6 border-t border-[var(--border)] pt-4" data-testid="print-state-history">
+                  <h3 className="text-sm font-medium text-secondary mb-2">State History</h3>
+                  <ol className="space-y-1 text-sm">
+                    {entry.transitions.map((t) => (
+                      <li key={t.id} className="text-primary">
+                        <span className="text-muted">{formatDate(t.createdAt)}</span>{' '}
+                        {PRINT_JOB_STATE_LABELS[t.fromState]} &rarr; {PRINT_JOB_STATE_LABELS[t.toState]}
+                        {(t.actor || t.deviceId) && (
+                          <span className="text-muted"> by {t.actor ? (t.actor.name || t.actor.email) : 'printer'}</span>
+                        )}
+                        {t.reason && <span className="text-muted"> &ndash; {t.reason}</span>}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+
+              {/* Printer reports - failures, cancels and pauses, newest first */}
+              {entry.interruptions && entry.interruptions.length > 0 && (
+                <div className="mt-6 border-t border-[var(--border)] pt-4" data-testid="print-interruptions">
+                  <h3 className="text-sm font-medium text-secondary mb-2">Printer Reports</h3>
+                  <ul className="space-y-2 text-sm">
+                    {entry.interruptions.map((report) => (
+                      <li key={report.id} className="text-primary">
+                        <span className="text-muted">{formatDate(report.createdAt)}</span>{' '}
+                        <span className={`status-badge ${report.kind === 'PAUSED' ? 'status-warning' : 'status-error'}`}>
+                          {PRINT_INTERRUPTION_LABELS[report.kind]}
+                        </span>
+                        {report.progress != null && <span className="text-muted"> at {report.progress.toFixed(1)}%</span>}
+                        {report.hmsCode && (
+                          <div className="mt-1">
+                            HMS <span className="font-mono">{report.hmsCode}</span>
+                            {report.hmsMessage && <> &ndash; {report.hmsMessage}</>}
+                          </div>
+                        )}
+                        {report.message && <div className="mt-1">{report.message}</div>}
+                        {report.printer && (
+                          <div className="text-xs text-muted mt-1">
+                            {report.printer.name || report.printer.serial} ({report.printer.model})
+                            {report.printerSnapshot && <>, firmware {report.printerSnapshot.firmware} as of {formatDate(report.printerSnapshot.capturedAt)}</>}
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
 
@@ -878,10 +1079,7 @@ export default function PrintQueueDetailPage({
                         <dt className="text-xs font-medium text-muted">{param.InputDescription}</dt>
                         <dd className="mt-1 text-sm text-primary" data-testid="param-value">
                           <span className="font-mono">
-                            {parameterData[param.InputName] !== undefined 
-                              ? String(parameterData[param.InputName])
-                              : 'Not set'
-                            }
+                            {formatParameterValue(parameterData[param.InputName])}
                           </span>
                           <span className="ml-2 text-xs text-muted">
                             ({param.InputType})
@@ -1,8 +1,8 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, Fragment, Suspense } from 'react';
 import { useSession } from 'next-auth/react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import Header from '@/components/navigation/Header';
 import PrinterStatusBanner from '@/components/printer/PrinterStatusBanner';
@@ -11,13 +11,15 @@ import DeletePrintModal from '@/components/DeletePrintModal';
 import PrintConfirmModal from '@/components/PrintConfirmModal';
 import DeviceAuthOverlay from '@/components/DeviceAuthOverlay';
 import PrintStatusBadge from '@/components/PrintStatusBadge';
-import PrintAcceptanceBadge from '@/components/PrintAcceptanceBadge';
 import { useSmartPolling } from '@/hooks/useSmartPolling';
 import { formatDate } from '@/lib/formatDate';
+import { isActivePrintState, isAwaitingReview, type PrintJobStateValue } from '@/lib/print-state';
 
 interface PrintQueueEntry {
   id: string;
   createdAt: string;
+  state: PrintJobStateValue;
+  stateChangedAt: string;
   meshFileName?: string;
   printFileName?: string;
   printStartedAt?: string;
@@ -29,6 +31,10 @@ interface PrintQueueEntry {
   hasPrintFile: boolean;
   progress?: number | null;
   progressLastReportAt?: string | null;
+  assignedPrinterSerial?: string | null;
+  assignedPrinterModel?: string | null;
+  assignedPrinter?: { name: string | null } | null;
+  plateId?: string | null;
   designJob: {
     id: string;
     objectId?: string;
@@ -46,12 +52,30 @@ interface PrintQueueEntry {
     owningOrganization: {
       name: string;
     };
+    batch?: {
+      id: string;
+      labelPrefix: string;
+    } | null;
   };
 }
 
-export default function PrintQueuePage() {
+// Keep each batch's prints together, in the position of the batch's first print, so
+// they can be plated together. Entries outside a batch keep their place.
+function groupByBatch(entries: PrintQueueEntry[]): PrintQueueEntry[] {
+  const groups = new Map<string, PrintQueueEntry[]>();
+  for (const entry of entries) {
+    const key = entry.designJob.batch?.id ?? entry.id;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+  return [...groups.values()].flat();
+}
+
+function PrintQueuePage() {
   const { data: session, status, update: updateSession } = useSession();
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const [batchFilter, setBatchFilter] = useState<string | null>(searchParams.get('batchId'));
+  const [groupBatches, setGroupBatches] = useState(!!searchParams.get('batchId'));
   const [isElectronClient, setIsElectronClient] = useState(false);
   const [printingJobId, setPrintingJobId] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'active' | 'history'>('active');
@@ -257,17 +281,15 @@ export default function PrintQueuePage() {
 
 
 
-  const isActivePrint = (entry: PrintQueueEntry) => {
-    // A print moves to History only after clinical review (accept/reject).
-    // Failed prints remain active so the user can retry.
-    if (entry.printAcceptance !== null) return false;
-    return true;
-  };
+  // A print moves to History only after clinical review (accept/reject).
+  // Failed prints remain active so the user can retry.
+  const isActivePrint = (entry: PrintQueueEntry) => isActivePrintState(entry.state);
 
-  const filteredPrintQueue = printQueue
+  const sortedPrintQueue = printQueue
     ?.filter(entry => 
       viewMode === 'active' ? isActivePrint(entry) : !isActivePrint(entry)
     )
+    .filter(entry => !batchFilter || entry.designJob.batch?.id === batchFilter)
     .sort((a, b) => {
       // Get creation times
       const timeA = new Date(a.designJob.createdAt).getTime();
@@ -281,9 +303,13 @@ export default function PrintQueuePage() {
         return timeB - timeA;
       }
     });
+  const filteredPrintQueue = sortedPrintQueue && groupBatches ? groupByBatch(sortedPrintQueue) : sortedPrintQueue;
+  const filteredBatchPrefix = batchFilter
+    ? printQueue?.find(entry => entry.designJob.batch?.id === batchFilter)?.designJob.batch?.labelPrefix
+    : null;
 
   const getProgressInfo = (entry: PrintQueueEntry) => {
-    if (!entry.printStartedAt || entry.printCompletedAt) {
+    if (entry.state !== 'PRINTING' && entry.state !== 'PAUSED') {
       return null;
     }
     
@@ -310,6 +336,7 @@ export default function PrintQueuePage() {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...(deviceId ? { 'X-Device-ID': deviceId } : {}),
         },
         body: JSON.stringify({
           printStartedAt: new Date().toISOString(),
@@ -317,7 +344,8 @@ export default function PrintQueuePage() {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to start print');
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to start print');
       }
 
       // Refresh the list
@@ -327,15 +355,32 @@ export default function PrintQueuePage() {
     }
   };
 
-  const handlePrint = async (entry: PrintQueueEntry) => {
+  const handlePrint = async (entry: PrintQueueEntry, options: { allowFilamentMismatch?: boolean } = {}) => {
     if (!isElectronClient) {
       showNotification('Printing is only available in the Electron client', 'error');
       return;
     }
 
+    const deviceHeaders: Record<string, string> = deviceId ? { 'X-Device-ID': deviceId } : {};
+    let claimed = false;
+
     try {
       setPrintingJobId(entry.id);
 
+      // Claim the job for this device first so no other client can send it to a printer
+      if (deviceId) {
+        const claimResponse = await fetch(`/api/print-queue/${entry.id}/claim`, {
+          method: 'POST',
+          headers: { ...deviceHeaders, 'Content-Type': 'application/json' },
+          body: JSON.stringify({ allowFilamentMismatch: !!options.allowFilamentMismatch }),
+        });
+        if (!claimResponse.ok) {
+          const data = await claimResponse.json().catch(() => ({}));
+          throw new Error(data.error || 'Failed to claim print job');
+        }
+        claimed = true;
+      }
+
       const printQueueId = entry.id;
       const geometryJobId = entry.designJob.id;
       const sessionCookie = document.cookie;
@@ -355,6 +400,7 @@ export default function PrintQueuePage() {
       if (!result.success) {
         throw new Error(result.error || 'Print failed');
       }
+      claimed = false;
 
       // Refresh so the page reflects the printStartedAt the client just wrote
       await refreshPrintQueue();
@@ -368,6 +414,11 @@ export default function PrintQueuePage() {
         null
       );
       console.error('Print error:', err);
+      // Nothing reached the printer, so let another device have the job
+      if (claimed) {
+        fetch(`/api/print-queue/${entry.id}/claim`, { method: 'DELETE', headers: deviceHeaders })
+          .catch(releaseErr => console.error('Failed to release print claim:', releaseErr));
+      }
     } finally {
       setPrintingJobId(null);
     }
@@ -594,6 +645,14 @@ export default function PrintQueuePage() {
                     Updated {lastUpdate.toLocaleTimeString()}
                   </span>
                 )}
+                <Link
+                  href="/print-plates"
+                  className="btn-neutral text-sm"
+                  title="Print several small jobs together"
+                  data-testid="print-plates-btn"
+                >
+                  Plates
+                </Link>
                 <button
                   onClick={refreshPrintQueue}
                   disabled={isFetching}
@@ -644,6 +703,30 @@ export default function PrintQueuePage() {
                 History
               </button>
             </div>
+
+            <div className="flex items-center gap-3 mt-2">
+              <label className="flex items-center gap-2 text-sm text-secondary">
+                <input
+                  type="checkbox"
+                  checked={groupBatches}
+                  onChange={(e) => setGroupBatches(e.target.checked)}
+                  data-testid="group-by-batch-checkbox"
+                />
+                Group by batch
+              </label>
+              {batchFilter && (
+                <button
+                  onClick={() => {
+                    setBatchFilter(null);
+                    router.replace('/print-queue');
+                  }}
+                  className="btn-neutral px-3 py-1 text-sm"
+                  data-testid="clear-batch-filter-btn"
+                >
+                  Batch {filteredBatchPrefix ?? ''} &times;
+                </button>
+              )}
+            </div>
           </div>
           
           <div className="overflow-x-auto">
@@ -684,145 +767,173 @@ export default function PrintQueuePage() {
                     </tr>
                   </thead>
                   <tbody>
-                    {filteredPrintQueue.map((entry) => (
-                      <tr
-                        key={entry.id}
-                        data-testid="print-queue-row"
-                        data-job-label={entry.designJob.jobLabel || ''}
-                        data-design-job-id={entry.designJob.id}
-                      >
-                        <td className="px-2 py-2 whitespace-nowrap">
-                          <div className="flex flex-row sm:flex-col gap-1">
-                            {/* Print button - shows for all users but only enabled in Electron client */}
-                            {!entry.printStartedAt && !entry.printCompletedAt && entry.hasPrintFile && (
-                          <button
-                                onClick={() => isElectronClient && !printerBusy ? setPrintConfirmModal({ entry }) : null}
-                                disabled={!isElectronClient || printingJobId === entry.id || printerBusy}
-                                className="btn-alt px-4 py-1.5 text-sm font-semibold min-w-[80px] inline-flex items-center justify-center gap-1"
-                                data-testid="print-btn"
-                              >
-                                {printingJobId === entry.id ? (
-                                  <>
-                                    <svg className="animate-spin h-3 w-3" fill="none" viewBox="0 0 24 24">
-                                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                                    </svg>
-                                    Sending
-                                  </>
-                                ) : printerBusy ? (
-                                  'Printer Busy'
-                                ) : (
-                                  <>
-                                    <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
-                                      <path fillRule="evenodd" d="M5 4v3H4a2 2 0 00-2 2v3a2 2 0 002 2h1v2a2 2 0 002 2h6a2 2 0 002-2v-2h1a2 2 0 002-2V9a2 2 0 00-2-2h-1V4a2 2 0 00-2-2H7a2 2 0 00-2 2zm8 0H7v3h6V4zm0 8H7v4h6v-4z" clipRule="evenodd" />
-                                    </svg>
-                                    Print
-                                  </>
-                                )}
-                              </button>
-                            )}
-                            
-                            {/* Review button - print is complete (canonical: printCompletedAt, fallback: progress for legacy records) and not yet reviewed */}
-                            {(!!entry.printCompletedAt || (!!entry.printStartedAt && entry.progress != null && entry.progress > 99)) && entry.printAcceptance === null && (
-                                <button
-                                  onClick={() => setAcceptanceModal({
-                                    printId: entry.id,
-                                    geometryName: entry.designJob.design.name,
-                                    designJobId: entry.designJob.id,
-                                  })}
-                                  className="btn-primary px-4 py-1.5 text-sm font-semibold min-w-[80px]"
-                                  title="Review print quality"
-                                  data-testid="review-print-btn"
+                    {filteredPrintQueue.map((entry, index) => (
+                      <Fragment key={entry.id}>
+                        {groupBatches && entry.designJob.batch &&
+                          entry.designJob.batch.id !== filteredPrintQueue[index - 1]?.designJob.batch?.id && (
+                          <tr data-testid="print-queue-batch-header">
+                            <td colSpan={6} className="px-2 py-1 text-xs font-semibold text-secondary bg-[var(--surface-secondary)]">
+                              Batch {entry.designJob.batch.labelPrefix}
+                              <span className="font-normal text-muted ml-2">
+                                {filteredPrintQueue.filter(other => other.designJob.batch?.id === entry.designJob.batch?.id).length} prints
+                              </span>
+                            </td>
+                          </tr>
+                        )}
+                        <tr
+                          data-testid="print-queue-row"
+                          data-job-label={entry.designJob.jobLabel || ''}
+                          data-design-job-id={entry.designJob.id}
+                        >
+                          <td className="px-2 py-2 whitespace-nowrap">
+                            <div className="flex flex-row sm:flex-col gap-1">
+                              {/* Print button - shows for all users but only enabled in Electron client */}
+                              {(entry.state === 'QUEUED' || entry.state === 'SENT') && entry.hasPrintFile && !entry.plateId && (
+                            <button
+                                  onClick={() => isElectronClient && !printerBusy ? setPrintConfirmModal({ entry }) : null}
+                                  disabled={!isElectronClient || printingJobId === entry.id || printerBusy}
+                                  className="btn-alt px-4 py-1.5 text-sm font-semibold min-w-[80px] inline-flex items-center justify-center gap-1"
+                                  data-testid="print-btn"
                                 >
-                                  Review Print
+                                  {printingJobId === entry.id ? (
+                                    <>
+                                      <svg className="animate-spin h-3 w-3" fill="none" viewBox="0 0 24 24">
+                                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                                      </svg>
+                                      Sending
+                                    </>
+                                  ) : printerBusy ? (
+                                    'Printer Busy'
+                                  ) : (
+                                    <>
+                                      <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
+                                        <path fillRule="evenodd" d="M5 4v3H4a2 2 0 00-2 2v3a2 2 0 002 2h1v2a2 2 0 002 2h6a2 2 0 002-2v-2h1a2 2 0 002-2V9a2 2 0 00-2-2h-1V4a2 2 0 00-2-2H7a2 2 0 00-2 2zm8 0H7v3h6V4zm0 8H7v4h6v-4z" clipRule="evenodd" />
+                                      </svg>
+                                      Print
+                                    </>
+                                  )}
                                 </button>
-                            )}
-                          </div>
-                        </td>
-                        <td className="px-2 py-2">
-                          <div className="text-xs text-muted">Object:</div>
-                          <div className="text-sm font-mono font-semibold text-link">
-                            {entry.designJob.objectId || 'N/A'}
-                          </div>
-                          <div className="text-xs text-muted mt-1">Print Queue Label:</div>
-                          <div className="text-sm text-primary">
-                            {entry.designJob.jobLabel || 'N/A'}
-                          </div>
-                          <div className="text-xs text-muted mt-1">
-                            {formatDate(entry.createdAt)}
-                          </div>
-                        </td>
-                        <td className="px-2 py-2">
-                          <Link href={`/print-queue/${entry.id}`} className="block group">
-                            <div className="geometry-name text-sm font-medium text-primary truncate max-w-[200px] group-hover:text-[var(--accent-blue)] transition-colors">
-                              {entry.designJob.design.name}
+                              )}
+                              
+                              {/* Review button - print has finished and not yet been reviewed */}
+                              {isAwaitingReview(entry.state) && (
+                                  <button
+                                    onClick={() => setAcceptanceModal({
+                                      printId: entry.id,
+                                      geometryName: entry.designJob.design.name,
+                                      designJobId: entry.designJob.id,
+                                    })}
+                                    className="btn-primary px-4 py-1.5 text-sm font-semibold min-w-[80px]"
+                                    title="Review print quality"
+                                    data-testid="review-print-btn"
+                                  >
+                                    Review Print
+                                  </button>
+                              )}
                             </div>
-                          </Link>
-                          {entry.designJob.creator?.name && (
-                            <div className="text-xs text-muted mt-0.5">
-                              {entry.designJob.creator.name}
+                          </td>
+                          <td className="px-2 py-2">
+                            <div className="text-xs text-muted">Object:</div>
+                            <div className="text-sm font-mono font-semibold text-link">
+                              {entry.designJob.objectId || 'N/A'}
                             </div>
-                          )}
-                        </td>
-                        <td className="px-2 py-2">
-                          <div className="print-status flex flex-wrap gap-2">
-                            <PrintStatusBadge printStartedAt={entry.printStartedAt} printCompletedAt={entry.printCompletedAt} isPrintSuccessful={entry.isPrintSuccessful} progress={entry.progress} />
-                            <PrintAcceptanceBadge printAcceptance={entry.printAcceptance} printNote={entry.printNote} />
-                          </div>
-                          {entry.printStartedAt && (
-                            <div className="print-started-time text-xs text-muted mt-1 hidden sm:block">
-                              {formatDate(entry.printStartedAt)}
+                            <div className="text-xs text-muted mt-1">Print Queue Label:</div>
+                            <div className="text-sm text-primary">
+                              {entry.designJob.jobLabel || 'N/A'}
                             </div>
-                          )}
-                        </td>
-                        <td className="px-2 py-2 hidden lg:table-cell">
-                          {entry.progress != null ? (
-                            <div className="progress-info">
-                              <div className="progress-percentage text-sm font-semibold text-primary">
-                                {entry.progress.toFixed(1)}%
+                            {entry.designJob.batch && (
+                              <div className="text-xs text-muted mt-1" data-testid="print-queue-batch">
+                                Batch: {entry.designJob.batch.labelPrefix}
                               </div>
-                              {entry.progressLastReportAt && (
-                                <div className="last-updated-time text-xs text-muted mt-0.5">
-                                  {(() => {
-                                    const lastUpdate = new Date(entry.progressLastReportAt);
-                                    const minutesAgo = Math.floor((Date.now() - lastUpdate.getTime()) / 60000);
-                                    
-                                    if (minutesAgo < 1) {
-                                      return 'just now';
-                                    } else if (minutesAgo < 60) {
-                                      return `${minutesAgo}m ago`;
-                                    } else {
-                                      const hoursAgo = Math.floor(minutesAgo / 60);
-                                      return `${hoursAgo}h ago`;
-                                    }
-                                  })()}
-                                </div>
-                              )}
+                            )}
+                            <div className="text-xs text-muted mt-1">
+                              {formatDate(entry.createdAt)}
+                            </div>
+                          </td>
+                          <td className="px-2 py-2">
+                            <Link href={`/print-queue/${entry.id}`} className="block group">
+                              <div className="geometry-name text-sm font-medium text-primary truncate max-w-[200px] group-hover:text-[var(--accent-blue)] transition-colors">
+                                {entry.designJob.design.name}
+                              </div>
+                            </Link>
+                            {entry.designJob.creator?.name && (
+                              <div className="text-xs text-muted mt-0.5">
+                                {entry.designJob.creator.name}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-2 py-2">
+                            <div className="print-status flex flex-wrap gap-2">
+                              <PrintStatusBadge state={entry.state} progress={entry.progress} printAcceptance={entry.printAcceptance} printNote={entry.printNote} />
                             </div>
-                          ) : (
-                            <span className="text-xs text-muted">—</span>
-                          )}
-                        </td>
-                        <td className="px-2 py-2 text-center">
-                          <button
-                            onClick={() => setDeleteModal({
-                              printId: entry.id,
-                              geometryName: entry.designJob.design.name,
-                              printStarted: !!entry.printStartedAt,
-                              printCompleted: !!entry.printCompletedAt,
-                            })}
-                            className="action-menu w-10 h-10"
-                            title="Print job actions"
-                            data-testid="delete-btn"
-                          >
-                            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
-                              <circle cx="12" cy="5" r="1.5" />
-                              <circle cx="12" cy="12" r="1.5" />
-                              <circle cx="12" cy="19" r="1.5" />
-                            </svg>
-                          </button>
-                        </td>
-                      </tr>
+                            {entry.plateId && (
+                              <div className="text-xs mt-1" data-testid="print-queue-plate">
+                                <Link href={`/print-plates/${entry.plateId}`} className="text-link">On a plate</Link>
+                              </div>
+                            )}
+                            {(entry.state === 'QUEUED' || entry.state === 'SENT') && (entry.assignedPrinterSerial || entry.assignedPrinterModel) && (
+                              <div className="text-xs text-muted mt-1" data-testid="print-queue-assignment">
+                                🖨️ {entry.assignedPrinterSerial
+                                  ? entry.assignedPrinter?.name || entry.assignedPrinterSerial
+                                  : `Any ${entry.assignedPrinterModel}`}
+                              </div>
+                            )}
+                            {entry.printStartedAt && (
+                              <div className="print-started-time text-xs text-muted mt-1 hidden sm:block">
+                                {formatDate(entry.printStartedAt)}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-2 py-2 hidden lg:table-cell">
+                            {entry.progress != null ? (
+                              <div className="progress-info">
+                                <div className="progress-percentage text-sm font-semibold text-primary">
+                                  {entry.progress.toFixed(1)}%
+                                </div>
+                                {entry.progressLastReportAt && (
+                                  <div className="last-updated-time text-xs text-muted mt-0.5">
+                                    {(() => {
+                                      const lastUpdate = new Date(entry.progressLastReportAt);
+                                      const minutesAgo = Math.floor((Date.now() - lastUpdate.getTime()) / 60000);
+                                      
+                                      if (minutesAgo < 1) {
+                                        return 'just now';
+                                      } else if (minutesAgo < 60) {
+                                        return `${minutesAgo}m ago`;
+                                      } else {
+                                        const hoursAgo = Math.floor(minutesAgo / 60);
+                                        return `${hoursAgo}h ago`;
+                                      }
+                                    })()}
+                                  </div>
+                                )}
+                              </div>
+                            ) : (
+                              <span className="text-xs text-muted">—</span>
+                            )}
+                          </td>
+                          <td className="px-2 py-2 text-center">
+                            <button
+                              onClick={() => setDeleteModal({
+                                printId: entry.id,
+                                geometryName: entry.designJob.design.name,
+                                printStarted: !!entry.printStartedAt,
+                                printCompleted: !!entry.printCompletedAt,
+                              })}
+                              className="action-menu w-10 h-10"
+                              title="Print job actions"
+                              data-testid="delete-btn"
+                            >
+                              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                                <circle cx="12" cy="5" r="1.5" />
+                                <circle cx="12" cy="12" r="1.5" />
+                                <circle cx="12" cy="19" r="1.5" />
+                              </svg>
+                            </button>
+                          </td>
+                        </tr>
+                      </Fragment>
                     ))}
                     </tbody>
                 </table>
@@ -845,12 +956,14 @@ export default function PrintQueuePage() {
       {/* Print Confirm Modal */}
       {printConfirmModal && (
         <PrintConfirmModal
+          printJobId={printConfirmModal.entry.id}
+          deviceId={deviceId}
           geometryName={printConfirmModal.entry.designJob.design.name}
           onClose={() => setPrintConfirmModal(null)}
-          onConfirm={() => {
+          onConfirm={(options) => {
             const entry = printConfirmModal.entry;
             setPrintConfirmModal(null);
-            handlePrint(entry);
+            handlePrint(entry, options);
           }}
         />
       )}
@@ -883,4 +996,20 @@ export default function PrintQueuePage() {
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Wrap the page component in Suspense to handle useSearchParams
+export default function PrintQueuePageWrapper() {
+  return (
+    <Suspense fallback={
+      <div className="page-shell flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[var(--accent-blue)] mx-auto"></div>
+          <p className="mt-2 text-sm text-secondary">Loading...</p>
+        </div>
+      </div>
+    }>
+      <PrintQueuePage />
+    </Suspense>
+  );
+}
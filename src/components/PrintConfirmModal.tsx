@@ -1,18 +1,51 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
+import { describeFilament, type AmsTray, type FilamentMatchStatus, type FilamentRequirement } from '@/lib/filament';
+
+interface PrinterFilamentCheck {
+  printer: { serial: string; model: string; name: string | null };
+  snapshotAt: string | null;
+  status: FilamentMatchStatus;
+  tray: AmsTray | null;
+}
 
 interface PrintConfirmModalProps {
+  printJobId: string;
+  deviceId: string | null;
   geometryName: string;
   onClose: () => void;
-  onConfirm: () => void;
+  // allowFilamentMismatch: the operator confirmed the filament is loaded although the
+  // latest AMS snapshot says otherwise.
+  onConfirm: (options: { allowFilamentMismatch: boolean }) => void;
 }
 
 export default function PrintConfirmModal({
+  printJobId,
+  deviceId,
   geometryName,
   onClose,
   onConfirm,
 }: PrintConfirmModalProps) {
+  const [filament, setFilament] = useState<FilamentRequirement | null>(null);
+  const [checks, setChecks] = useState<PrinterFilamentCheck[]>([]);
+  const [filamentConfirmed, setFilamentConfirmed] = useState(false);
+
+  // What the design needs and what the printers' AMS trays held at their last snapshot.
+  // A failed check just leaves the requirement off; the claim re-checks server-side.
+  useEffect(() => {
+    fetch(`/api/print-queue/${printJobId}/filament`, {
+      headers: deviceId ? { 'X-Device-ID': deviceId } : {},
+    })
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!data) return;
+        setFilament(data.filament);
+        setChecks(data.printers);
+      })
+      .catch(err => console.warn('[PrintConfirmModal] filament check failed:', err));
+  }, [printJobId, deviceId]);
+
   // Helper to drive the chamber light. Resolves silently — failures are
   // logged but never block the user's flow. The splint_client IPC handler
   // resolves with { success, error } rather than rejecting, so we inspect
@@ -47,6 +80,11 @@ export default function PrintConfirmModal({
     };
   }, []);
 
+  // Blocked until confirmed when no printer the job can use shows the material loaded.
+  const materialMissing = checks.length > 0 && checks.every(check => check.status === 'missing');
+  const colorMismatch = !materialMissing && checks.length > 0 && !checks.some(check => check.status === 'match')
+    && checks.some(check => check.status === 'color-mismatch');
+
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
       <div className="card shadow-xl max-w-sm w-full p-6 relative">
@@ -71,6 +109,51 @@ export default function PrintConfirmModal({
           Please ensure the print bed is clean before continuing.
         </div>
 
+        {/* Filament requirement */}
+        {filament && (
+          <div className="mb-4 text-sm" data-testid="print-filament-requirement">
+            <div className="flex items-center gap-2 text-primary">
+              <span className="font-medium">Filament:</span>
+              {filament.color && (
+                <span
+                  className="inline-block w-4 h-4 rounded-full border border-[var(--border)]"
+                  style={{ backgroundColor: `#${filament.color}` }}
+                />
+              )}
+              <span>{describeFilament(filament)}</span>
+            </div>
+            {checks.map(check => (
+              <div key={check.printer.serial} className="text-xs text-muted mt-1">
+                {check.printer.name || check.printer.serial}:{' '}
+                {check.status === 'match' && `loaded in ${check.tray?.slot}`}
+                {check.status === 'color-mismatch' && `${check.tray?.material} in ${check.tray?.slot} is another colour`}
+                {check.status === 'missing' && `no ${filament.material} tray`}
+                {check.status === 'unknown' && 'no AMS data'}
+                {check.snapshotAt && ` (as of ${new Date(check.snapshotAt).toLocaleDateString()})`}
+              </div>
+            ))}
+            {materialMissing && (
+              <div className="alert-error mt-2" data-testid="print-filament-missing">
+                <p>The last AMS snapshot shows no {filament.material} loaded. Load it before printing.</p>
+                <label className="flex items-center gap-2 mt-2">
+                  <input
+                    type="checkbox"
+                    checked={filamentConfirmed}
+                    onChange={(e) => setFilamentConfirmed(e.target.checked)}
+                    data-testid="print-filament-confirm"
+                  />
+                  {filament.material} is loaded now
+                </label>
+              </div>
+            )}
+            {colorMismatch && (
+              <div className="alert-warning mt-2" data-testid="print-filament-color-warning">
+                {filament.material} is loaded, but not in the colour this design asks for.
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Action buttons */}
         <div className="flex gap-3">
           <button
@@ -80,8 +163,10 @@ export default function PrintConfirmModal({
             Cancel
           </button>
           <button
-            onClick={() => onConfirm()}
+            onClick={() => onConfirm({ allowFilamentMismatch: materialMissing && filamentConfirmed })}
+            disabled={materialMissing && !filamentConfirmed}
             className="btn-alt flex-1 font-semibold py-3 px-4 rounded-lg"
+            data-testid="print-confirm-btn"
           >
             Print
           </button>
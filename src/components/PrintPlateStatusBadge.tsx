@@ -0,0 +1,27 @@
+import PrintStatusBadge from '@/components/PrintStatusBadge';
+import { derivePrintPlateState, type PrintJobStateValue } from '@/lib/print-state';
+
+interface Props {
+  arrangeStartedAt?: string | null;
+  arrangedAt?: string | null;
+  arrangeFailureReason?: string | null;
+  printStartedAt?: string | null;
+  progress?: number | null;
+  printJobs: Array<{ state: PrintJobStateValue }>;
+}
+
+// A plate is arranged by the geo processor before it prints; after that it reads like its members.
+export default function PrintPlateStatusBadge({ arrangeStartedAt, arrangedAt, arrangeFailureReason, printJobs, ...print }: Props) {
+  if (arrangeFailureReason) {
+    return <span className="status-badge status-error" title={arrangeFailureReason}>Arranging Failed</span>;
+  }
+  if (!arrangedAt && !print.printStartedAt) {
+    return (
+      <span className="status-badge status-pending">
+        {arrangeStartedAt ? 'Arranging' : 'Waiting to Arrange'}
+      </span>
+    );
+  }
+  const state = derivePrintPlateState(printJobs.map(printJob => printJob.state));
+  return <PrintStatusBadge state={state} progress={print.progress} />;
+}
@@ -1,31 +1,42 @@
+import { PRINT_JOB_STATE_LABELS, type PrintJobStateValue } from '@/lib/print-state';
+import PrintAcceptanceBadge from '@/components/PrintAcceptanceBadge';
+
 interface Props {
-  printStartedAt?: string | null;
-  printCompletedAt?: string | null;
-  isPrintSuccessful: boolean;
+  state: PrintJobStateValue;
   progress?: number | null;
+  // Reviewed prints show the review outcome (which kind of rejection, the note) instead.
+  printAcceptance?: string | null;
+  printNote?: string | null;
 }
 
-// Shared badge for print job execution status (not acceptance/review outcome).
-export default function PrintStatusBadge({ printStartedAt, printCompletedAt, isPrintSuccessful, progress }: Props) {
-  if (printCompletedAt && isPrintSuccessful) {
-    return <span className="status-badge status-success">Print Successful</span>;
-  }
-  if (printCompletedAt && !isPrintSuccessful) {
-    return <span className="status-badge status-error">Print Failed</span>;
-  }
-  if (printStartedAt) {
-    const progressText = progress != null ? `${Math.floor(progress)}%` : null;
-    return (
-      <span className="status-badge status-warning">
-        Printing
-        {progressText && (
-          <>
-            {'\u00A0'}
-            <span className="progress-percentage">{progressText}</span>
-          </>
-        )}
-      </span>
-    );
+const STATE_CLASSES: Record<PrintJobStateValue, string> = {
+  QUEUED: 'status-pending',
+  SENT: 'status-pending',
+  PRINTING: 'status-warning',
+  PAUSED: 'status-warning',
+  FAILED: 'status-error',
+  COMPLETED: 'status-success',
+  ACCEPTED: 'status-success',
+  REJECTED: 'status-error',
+  ARCHIVED: 'status-neutral',
+};
+
+// Shared badge for a print job's state (see src/lib/print-state.ts).
+export default function PrintStatusBadge({ state, progress, printAcceptance, printNote }: Props) {
+  if (printAcceptance && (state === 'ACCEPTED' || state === 'REJECTED' || state === 'ARCHIVED')) {
+    return <PrintAcceptanceBadge printAcceptance={printAcceptance} printNote={printNote} />;
   }
-  return <span className="status-badge status-pending">Ready to Print</span>;
+
+  const progressText = (state === 'PRINTING' || state === 'PAUSED') && progress != null ? `${Math.floor(progress)}%` : null;
+  return (
+    <span className={`status-badge ${STATE_CLASSES[state]}`} data-state={state}>
+      {PRINT_JOB_STATE_LABELS[state]}
+      {progressText && (
+        <>
+          {'\u00A0'}
+          <span className="progress-percentage">{progressText}</span>
+        </>
+      )}
+    </span>
+  );
 }
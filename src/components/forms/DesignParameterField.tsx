@@ -0,0 +1,254 @@
+'use client';
+
+/**
+ * Renders one design input parameter in the new-job form, recursing into Group
+ * and Array parameters. `path` is the parameter's dotted field path (the plain
+ * InputName at the top level), matching the keys the shared validator puts in
+ * its error map, so nested errors land under the right input.
+ */
+import type { InputParameter } from '@/types/design-input-parameter';
+import type { DesignHint } from '@/designs/types';
+import { fieldErrorClass, type FieldErrors } from '@/lib/formValidation';
+import { getArrayItemLabel, joinFieldPath } from '@/designs/validation';
+import { buildInitialParameterValues } from '@/designs/parameter-values';
+
+interface DesignParameterFieldProps {
+  param: InputParameter;
+  value: unknown;
+  path: string;
+  errors: FieldErrors;
+  onChange: (value: unknown) => void;
+  // Fired after a scalar input loses focus, with the committed value (used for hints).
+  onBlur?: (value: unknown) => void;
+  hints?: DesignHint[];
+  label?: string;
+  // Set by an org preset that fixes this field's value (scalar parameters only).
+  locked?: boolean;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {};
+}
+
+function rangeHelpText(param: InputParameter): string {
+  if (param.InputType === 'Float' || param.InputType === 'Integer') {
+    return param.NumberMin !== undefined && param.NumberMax !== undefined
+      ? `Range: ${param.NumberMin} - ${param.NumberMax}`
+      : param.NumberMin !== undefined
+      ? `Minimum: ${param.NumberMin}`
+      : param.NumberMax !== undefined
+      ? `Maximum: ${param.NumberMax}`
+      : '';
+  }
+  if (param.InputType === 'Text') {
+    return param.TextMinLen !== undefined && param.TextMaxLen !== undefined
+      ? `Length: ${param.TextMinLen} - ${param.TextMaxLen} characters`
+      : param.TextMinLen !== undefined
+      ? `Minimum: ${param.TextMinLen} characters`
+      : param.TextMaxLen !== undefined
+      ? `Maximum: ${param.TextMaxLen} characters`
+      : '';
+  }
+  return '';
+}
+
+export default function DesignParameterField({
+  param,
+  value,
+  path,
+  errors,
+  onChange,
+  onBlur,
+  hints = [],
+  label = param.InputDescription,
+  locked = false,
+}: DesignParameterFieldProps) {
+  const fieldError = errors[path];
+  const errClass = fieldErrorClass(fieldError);
+  const helpText = rangeHelpText(param);
+
+  const lockedNote = (
+    <p className="mt-1 text-xs text-muted" data-testid={`field-locked-${path}`}>Set by your organization&apos;s preset</p>
+  );
+
+  const errorAndHints = (
+    <>
+      {fieldError && (
+        <p className="mt-1 text-xs text-[var(--accent-red)]" data-testid={`field-error-${path}`}>
+          {fieldError}
+        </p>
+      )}
+      {hints.map((hint, i) => (
+        <p key={i} className="mt-1 text-xs text-[var(--accent-yellow)]" data-testid={`hint-${path}`}>
+          {hint.message}
+        </p>
+      ))}
+    </>
+  );
+
+  if (param.InputType === 'Group') {
+    const groupValue = asRecord(value);
+    return (
+      <fieldset className="border border-[var(--border)] rounded-lg p-4" data-testid={`param-group-${path}`}>
+        <legend className="text-sm font-medium text-secondary px-1">{label}</legend>
+        <div className="grid grid-cols-1 gap-4">
+          {param.GroupParameters.map((child) => (
+            <DesignParameterField
+              key={child.InputName}
+              param={child}
+              value={groupValue[child.InputName]}
+              path={joinFieldPath(path, child.InputName)}
+              errors={errors}
+              onChange={(childValue) => onChange({ ...groupValue, [child.InputName]: childValue })}
+            />
+          ))}
+        </div>
+        {errorAndHints}
+      </fieldset>
+    );
+  }
+
+  if (param.InputType === 'Array') {
+    const items = Array.isArray(value) ? value : [];
+    const min = param.ArrayMinItems ?? 0;
+    const canAdd = param.ArrayMaxItems === undefined || items.length < param.ArrayMaxItems;
+    const canRemove = items.length > min;
+    const updateItem = (index: number, itemValue: unknown) => {
+      onChange(items.map((item, i) => (i === index ? itemValue : item)));
+    };
+
+    return (
+      <fieldset className="border border-[var(--border)] rounded-lg p-4 space-y-4" data-testid={`param-array-${path}`}>
+        <legend className="text-sm font-medium text-secondary px-1">{label}</legend>
+        {items.map((item, index) => {
+          const itemValue = asRecord(item);
+          const itemPath = joinFieldPath(path, index);
+          return (
+            <div key={index} className="rounded-lg bg-[var(--surface-secondary)] p-3" data-testid={`param-array-item-${itemPath}`}>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-primary">{getArrayItemLabel(param, index)}</span>
+                {canRemove && (
+                  <button
+                    type="button"
+                    onClick={() => onChange(items.filter((_, i) => i !== index))}
+                    className="btn-neutral px-2 py-1 text-xs"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {param.ArrayItemParameters.map((child) => (
+                  <DesignParameterField
+                    key={child.InputName}
+                    param={child}
+                    value={itemValue[child.InputName]}
+                    path={joinFieldPath(itemPath, child.InputName)}
+                    errors={errors}
+                    onChange={(childValue) => updateItem(index, { ...itemValue, [child.InputName]: childValue })}
+                  />
+                ))}
+              </div>
+              {errors[itemPath] && (
+                <p className="mt-1 text-xs text-[var(--accent-red)]" data-testid={`field-error-${itemPath}`}>
+                  {errors[itemPath]}
+                </p>
+              )}
+            </div>
+          );
+        })}
+        {canAdd && (
+          <button
+            type="button"
+            onClick={() => onChange([...items, buildInitialParameterValues(param.ArrayItemParameters)])}
+            className="btn-alt px-3 py-1 text-sm"
+            data-testid={`param-array-add-${path}`}
+          >
+            + Add {param.ArrayItemLabels?.[items.length] ?? 'item'}
+          </button>
+        )}
+        {errorAndHints}
+      </fieldset>
+    );
+  }
+
+  if (param.InputType === 'Boolean') {
+    return (
+      <div>
+        <label htmlFor={path} className="mt-2 inline-flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            id={path}
+            checked={!!value}
+            onChange={(e) => onChange(e.target.checked)}
+            disabled={locked}
+            className="h-5 w-5 rounded border-[var(--border)] accent-[var(--accent-blue)]"
+          />
+          <span className="text-sm text-secondary">{label}</span>
+        </label>
+        {errorAndHints}
+        {locked && lockedNote}
+      </div>
+    );
+  }
+
+  // Numeric inputs keep the raw string while typing and commit a number on blur.
+  const handleNumericBlur = (raw: string) => {
+    const numVal = param.InputType === 'Integer' ? parseInt(raw) : parseFloat(raw);
+    if (raw !== '' && !isNaN(numVal)) {
+      onChange(numVal);
+    }
+    onBlur?.(!isNaN(numVal) ? numVal : raw);
+  };
+
+  return (
+    <div>
+      <label htmlFor={path} className="block text-sm font-medium text-secondary">
+        {label} *
+      </label>
+      {param.InputType === 'Enum' ? (
+        <select
+          id={path}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={(e) => onBlur?.(e.target.value)}
+          disabled={locked}
+          className={`mt-1 input-field ${errClass}`}
+          aria-invalid={!!fieldError}
+        >
+          <option value="">Select...</option>
+          {param.EnumOptions.map((option) => (
+            <option key={option.Value} value={option.Value}>{option.Label ?? option.Value}</option>
+          ))}
+        </select>
+      ) : param.InputType === 'Float' || param.InputType === 'Integer' ? (
+        <input
+          type="text"
+          inputMode={param.InputType === 'Float' ? 'decimal' : 'numeric'}
+          id={path}
+          value={value === undefined || value === null ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={(e) => handleNumericBlur(e.target.value)}
+          disabled={locked}
+          className={`mt-1 input-field ${errClass}`}
+          aria-invalid={!!fieldError}
+        />
+      ) : (
+        <input
+          type="text"
+          id={path}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={(e) => onBlur?.(e.target.value)}
+          disabled={locked}
+          className={`mt-1 input-field ${errClass}`}
+          aria-invalid={!!fieldError}
+        />
+      )}
+      {errorAndHints}
+      {locked ? lockedNote : helpText && <p className="mt-1 text-xs text-muted">{helpText}</p>}
+    </div>
+  );
+}
@@ -2,6 +2,9 @@
  * Reusable validation summary banner. Renders nothing when there are no errors.
  * Place inside the form card (typically near the top) and pass the ref returned
  * by `useFormValidation` so the hook can scroll to it on failed submit.
+ *
+ * Set `showDetails` when the errors have no inline field to sit under (e.g. nested
+ * paths from a design's own validator); each message is then listed in the banner.
  */
 import type { FieldErrors } from '@/lib/formValidation';
 
@@ -10,6 +13,7 @@ interface ValidationSummaryProps {
   summaryRef: React.RefObject<HTMLDivElement | null>;
   message?: string;
   testId?: string;
+  showDetails?: boolean;
 }
 
 export default function ValidationSummary({
@@ -17,6 +21,7 @@ export default function ValidationSummary({
   summaryRef,
   message = 'Please fix the highlighted fields below.',
   testId,
+  showDetails = false,
 }: ValidationSummaryProps) {
   const count = Object.keys(errors).length;
   // Always render the wrapper so the ref is stable for scroll targeting,
@@ -33,6 +38,13 @@ export default function ValidationSummary({
       data-testid={testId}
     >
       {message}
+      {showDetails && (
+        <ul className="list-disc list-inside mt-1 space-y-0.5 text-sm">
+          {Object.entries(errors).map(([field, fieldMessage]) => (
+            <li key={field}>{fieldMessage}</li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
@@ -243,6 +243,15 @@ export default function Header({ variant = 'browser', hideMaintenanceBanner = fa
                               >
                                 Design Jobs
                               </Link>
+
+                              {/* Measurement Sets - All roles */}
+                              <Link
+                                href="/measurement-sets"
+                                onClick={() => setShowAdminDropdown(false)}
+                                className="block px-4 py-2 text-sm text-secondary hover:bg-[var(--surface)] hover:text-[var(--text-primary)]"
+                              >
+                                Measurement Sets
+                              </Link>
                               
                               {/* Print Queue - All roles */}
                               <Link
@@ -274,6 +283,17 @@ export default function Header({ variant = 'browser', hideMaintenanceBanner = fa
                                 </Link>
                               )}
                               
+                              {/* Design Migrations - SYSTEM_ADMIN only */}
+                              {session?.user?.role === 'SYSTEM_ADMIN' && (
+                                <Link
+                                  href="/admin/design-migrations"
+                                  onClick={() => setShowAdminDropdown(false)}
+                                  className="block px-4 py-2 text-sm text-secondary hover:bg-[var(--surface)] hover:text-[var(--text-primary)]"
+                                >
+                                  Design Migrations
+                                </Link>
+                              )}
+                              
                               {/* Link Tracking - SYSTEM_ADMIN only */}
                               {session?.user?.role === 'SYSTEM_ADMIN' && (
                                 <Link
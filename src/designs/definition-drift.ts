@@ -0,0 +1,88 @@
+// Client-safe: no fs or server-only imports.
+// Compares a stored job against the design's current definition. Jobs snapshot the
+// definitionVersion and generatorVersion they were created under; once a design moves
+// on, the job detail page warns about the difference and reprocessing (or reusing the
+// job as a template) has to cope with parameters that were renamed or removed.
+import type { FieldErrors } from '@/lib/formValidation';
+import { validateDesignInputs, type ValidatableDesign } from './validation';
+
+export interface DefinitionDrift {
+  definitionVersionSnapshot: number;
+  currentDefinitionVersion: number;
+  // Null for jobs created before generator versions were snapshotted.
+  generatorVersionSnapshot: string | null;
+  currentGeneratorVersion: string;
+  // Stored keys the current definition no longer declares (removed or renamed).
+  removedParameters: string[];
+  // Current parameters the job has no value for (added since, or renamed).
+  missingParameters: string[];
+  // Stored values the current definition rejects (e.g. a narrowed range, or a rule).
+  invalidParameters: FieldErrors;
+}
+
+export interface DriftCheckDesign extends ValidatableDesign {
+  definitionVersion: number;
+  generatorVersion: string;
+}
+
+export interface DriftCheckJob {
+  inputParameters: Record<string, unknown>;
+  definitionVersionSnapshot: number;
+  generatorVersionSnapshot: string | null;
+}
+
+export function getDefinitionDrift(design: DriftCheckDesign, job: DriftCheckJob): DefinitionDrift {
+  const declared = new Set(design.inputParameters.map((param) => param.InputName));
+  // Designs with a bespoke form declare no parameters; their payload can't be diffed.
+  const removedParameters = design.inputParameters.length > 0
+    ? Object.keys(job.inputParameters).filter((key) => !declared.has(key))
+    : [];
+  const missingParameters = design.inputParameters
+    .filter((param) => job.inputParameters[param.InputName] === undefined)
+    .map((param) => param.InputName);
+
+  const { errors } = validateDesignInputs(design, job.inputParameters);
+  const invalidParameters: FieldErrors = {};
+  for (const [path, message] of Object.entries(errors)) {
+    if (!missingParameters.includes(path)) {
+      invalidParameters[path] = message;
+    }
+  }
+
+  return {
+    definitionVersionSnapshot: job.definitionVersionSnapshot,
+    currentDefinitionVersion: design.definitionVersion,
+    generatorVersionSnapshot: job.generatorVersionSnapshot,
+    currentGeneratorVersion: design.generatorVersion,
+    removedParameters,
+    missingParameters,
+    invalidParameters,
+  };
+}
+
+// True when the stored inputParameters no longer fit the current definition, so
+// reprocessing would send the generator a payload it wasn't written for.
+export function hasParameterDrift(drift: DefinitionDrift): boolean {
+  return drift.removedParameters.length > 0
+    || drift.missingParameters.length > 0
+    || Object.keys(drift.invalidParameters).length > 0;
+}
+
+export function hasDefinitionDrift(drift: DefinitionDrift): boolean {
+  return drift.definitionVersionSnapshot !== drift.currentDefinitionVersion
+    || (drift.generatorVersionSnapshot !== null && drift.generatorVersionSnapshot !== drift.currentGeneratorVersion)
+    || hasParameterDrift(drift);
+}
+
+// Plain-language list of the parameter differences, for warnings and API errors.
+export function describeParameterDrift(drift: DefinitionDrift): string[] {
+  const lines: string[] = [];
+  if (drift.removedParameters.length > 0) {
+    lines.push(`No longer in the design: ${drift.removedParameters.join(', ')}`);
+  }
+  if (drift.missingParameters.length > 0) {
+    lines.push(`New parameters without a value: ${drift.missingParameters.join(', ')}`);
+  }
+  lines.push(...Object.values(drift.invalidParameters));
+  return lines;
+}
@@ -1,12 +1,10 @@
 // Client-safe: no fs or server-only imports.
 // Maps design IDs to their hint evaluation functions.
-// Add an entry here when a new design has hints.ts.
+// Most hints belong in definition.json `rules`; a design ships a hints.ts (exporting
+// getHints) only for logic the declarative rules can't express. The map is generated
+// by scripts/generate-design-manifest.js.
 import type { HintsFn } from './types';
-import { getHints as infinityFlexHints } from './infinity-flex/hints';
-
-const hintsByDesignId: Record<string, HintsFn> = {
-  'cmlljl3ha0001ju04s6szruyx': infinityFlexHints, // Infinity Flex
-};
+import { hintsByDesignId } from './generated/modules';
 
 export function getDesignHintsFn(designId: string): HintsFn | undefined {
   return hintsByDesignId[designId];
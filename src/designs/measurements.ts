@@ -0,0 +1,175 @@
+// Client-safe: no fs or server-only imports.
+// Measurement sets: one hand's finger measurements, entered once under a de-identified
+// case reference and reused to prefill jobs for any design. A design opts in with a
+// `measurementMap` in definition.json from its InputNames (or, for designs with a custom
+// form, dotted payload paths such as "relative_motion_data.finger_data.0.p1_mid_circ") to
+// measurement references:
+//   "p1_circumference"     - that measurement on the finger chosen when prefilling
+//   "mf.p1_circumference"  - that measurement on a specific finger
+//   "hand.is_right"        - true for a right-hand set
+// Values are canonical mm, like every stored inputParameters payload.
+import type { FieldErrors } from '@/lib/formValidation';
+
+export const FINGERS = [
+  { key: 'if', label: 'Index' },
+  { key: 'mf', label: 'Middle' },
+  { key: 'rf', label: 'Ring' },
+  { key: 'sf', label: 'Small' },
+] as const;
+
+export type FingerKey = (typeof FINGERS)[number]['key'];
+
+export const MEASUREMENTS = [
+  { key: 'p1_circumference', label: 'P1 circumference', description: 'At the midpoint of the proximal phalanx' },
+  { key: 'pip_circumference', label: 'PIP circumference', description: 'At the proximal interphalangeal joint' },
+  { key: 'p2_circumference', label: 'P2 circumference', description: 'At the midpoint of the middle phalanx' },
+  { key: 'dip_circumference', label: 'DIP circumference', description: 'At the distal interphalangeal joint' },
+  { key: 'tip_circumference', label: 'Tip circumference', description: 'At the midpoint of the distal phalanx' },
+  { key: 'p1_length', label: 'P1 length', description: 'Proximal phalanx length' },
+  { key: 'p2_length', label: 'P2 length', description: 'Middle phalanx length' },
+  { key: 'p3_length', label: 'P3 length', description: 'Distal phalanx length' },
+  { key: 'interphalangeal_length', label: 'Interphalangeal length', description: 'Midpoint of P1 to midpoint of P2' },
+] as const;
+
+export type MeasurementKey = (typeof MEASUREMENTS)[number]['key'];
+
+export type Hand = 'LEFT' | 'RIGHT';
+
+// Canonical mm keyed by "<finger>.<measurement>".
+export type Measurements = Record<string, number>;
+
+export interface MeasurementSetData {
+  id: string;
+  caseReference: string;
+  hand: Hand;
+  measurements: Measurements;
+  notes: string | null;
+}
+
+// Design InputName or payload path -> measurement reference.
+export type MeasurementMap = Record<string, string>;
+
+export const HAND_REFERENCE = 'hand.is_right';
+export const CASE_REFERENCE_MAX_LENGTH = 40;
+export const NOTES_MAX_LENGTH = 500;
+// Generous upper bound; anything larger is a typo, not a finger.
+export const MEASUREMENT_MAX_MM = 300;
+
+const CASE_REFERENCE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const fingerKeys = new Set<string>(FINGERS.map((finger) => finger.key));
+const measurementKeys = new Set<string>(MEASUREMENTS.map((measurement) => measurement.key));
+
+export function measurementKey(finger: FingerKey, measurement: MeasurementKey): string {
+  return `${finger}.${measurement}`;
+}
+
+export function describeMeasurementKey(key: string): string {
+  const [finger, measurement] = key.split('.');
+  const fingerLabel = FINGERS.find((candidate) => candidate.key === finger)?.label ?? finger;
+  const measurementLabel = MEASUREMENTS.find((candidate) => candidate.key === measurement)?.label ?? measurement;
+  return `${fingerLabel} ${measurementLabel}`;
+}
+
+export function isMeasurementReference(ref: string): boolean {
+  if (ref === HAND_REFERENCE) return true;
+  const parts = ref.split('.');
+  if (parts.length === 1) return measurementKeys.has(parts[0]);
+  return parts.length === 2 && fingerKeys.has(parts[0]) && measurementKeys.has(parts[1]);
+}
+
+// True when the map has finger-relative references, so prefilling needs a finger.
+export function mapNeedsFinger(map: MeasurementMap): boolean {
+  return Object.values(map).some((ref) => ref !== HAND_REFERENCE && !ref.includes('.'));
+}
+
+export function validateCaseReference(raw: unknown): string | null {
+  if (typeof raw !== 'string' || raw.trim() === '') {
+    return 'Case reference is required';
+  }
+  const value = raw.trim();
+  if (value.length > CASE_REFERENCE_MAX_LENGTH) {
+    return `Case reference must be ${CASE_REFERENCE_MAX_LENGTH} characters or less`;
+  }
+  if (!CASE_REFERENCE_PATTERN.test(value)) {
+    return 'Use a de-identified case reference (letters, numbers, ".", "_" or "-"), never a name, MRN or date of birth';
+  }
+  return null;
+}
+
+// Check entered measurements. Empty values are dropped; the rest are rounded to 0.01 mm.
+// Errors are keyed like the measurements.
+export function parseMeasurements(raw: unknown): { measurements: Measurements; errors: FieldErrors } {
+  const measurements: Measurements = {};
+  const errors: FieldErrors = {};
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { measurements, errors: { measurements: 'measurements must be an object keyed by "<finger>.<measurement>"' } };
+  }
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (!key.includes('.') || !isMeasurementReference(key)) {
+      errors[key] = `${key} is not a known measurement`;
+      continue;
+    }
+    if (value === null || value === undefined || value === '') continue;
+    const numeric = typeof value === 'string' ? Number(value) : value;
+    if (typeof numeric !== 'number' || !Number.isFinite(numeric)) {
+      errors[key] = `${describeMeasurementKey(key)} must be a number`;
+    } else if (numeric <= 0 || numeric > MEASUREMENT_MAX_MM) {
+      errors[key] = `${describeMeasurementKey(key)} must be greater than 0 and at most ${MEASUREMENT_MAX_MM} mm`;
+    } else {
+      measurements[key] = Math.round(numeric * 100) / 100;
+    }
+  }
+
+  return { measurements, errors };
+}
+
+// Values a set provides for a design, keyed like the map. `missing` lists the mapped
+// measurements ("<finger>.<measurement>") the set doesn't have, so the form can point them
+// out. Finger-relative references are read from `finger`.
+export function resolveMeasurementPrefill(
+  map: MeasurementMap,
+  set: Pick<MeasurementSetData, 'hand' | 'measurements'>,
+  finger: FingerKey,
+): { values: Record<string, number | boolean>; missing: string[] } {
+  const values: Record<string, number | boolean> = {};
+  const missing: string[] = [];
+  for (const [target, ref] of Object.entries(map)) {
+    if (ref === HAND_REFERENCE) {
+      values[target] = set.hand === 'RIGHT';
+      continue;
+    }
+    const key = ref.includes('.') ? ref : `${finger}.${ref}`;
+    const value = set.measurements[key];
+    if (value === undefined) {
+      missing.push(key);
+    } else {
+      values[target] = value;
+    }
+  }
+  return { values, missing };
+}
+
+// Write prefill values into a payload, following dotted paths into nested objects and
+// arrays (numeric segments index arrays). Returns a copy; paths that don't exist in the
+// payload are created as objects.
+export function applyMeasurementPrefill(
+  payload: Record<string, unknown>,
+  values: Record<string, number | boolean>,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = structuredClone(payload);
+  for (const [path, value] of Object.entries(values)) {
+    const segments = path.split('.');
+    let node: Record<string, unknown> | unknown[] = result;
+    for (const segment of segments.slice(0, -1)) {
+      const container = node as Record<string, unknown>;
+      const next = container[segment];
+      if (typeof next !== 'object' || next === null) {
+        container[segment] = {};
+      }
+      node = container[segment] as Record<string, unknown> | unknown[];
+    }
+    (node as Record<string, unknown>)[segments[segments.length - 1]] = value;
+  }
+  return result;
+}
@@ -0,0 +1,10 @@
+// Client-safe: no fs or server-only imports.
+// Maps design IDs to their parameter migrations (see ParameterMigrations in types.ts).
+// A design ships a migrations.ts once its definitionVersion has been bumped for a change
+// that existing jobs' payloads need to follow; scripts/generate-design-manifest.js picks it up.
+import type { ParameterMigrations } from './types';
+import { migrationsByDesignId } from './generated/modules';
+
+export function getDesignMigrations(designId: string): ParameterMigrations | undefined {
+  return migrationsByDesignId[designId];
+}
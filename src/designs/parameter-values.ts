@@ -0,0 +1,34 @@
+// Client-safe: no fs or server-only imports.
+// Helpers for building and displaying inputParameters payloads from a parameter schema.
+import type { InputParameter } from '@/types/design-input-parameter';
+
+// Empty starting value for a parameter in the new-job form. Scalars start blank
+// (no defaults, so clinicians enter every measurement), booleans start false,
+// groups start with their children blank, and arrays start at their minimum length.
+export function getInitialParameterValue(param: InputParameter): unknown {
+  switch (param.InputType) {
+    case 'Boolean':
+      return false;
+    case 'Group':
+      return buildInitialParameterValues(param.GroupParameters);
+    case 'Array':
+      return Array.from({ length: param.ArrayMinItems ?? 0 }, () => buildInitialParameterValues(param.ArrayItemParameters));
+    default:
+      return '';
+  }
+}
+
+export function buildInitialParameterValues(params: InputParameter[]): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const param of params) {
+    values[param.InputName] = getInitialParameterValue(param);
+  }
+  return values;
+}
+
+// Read-only rendering of a stored value on the job and print detail pages.
+export function formatParameterValue(value: unknown): string {
+  if (value === undefined) return 'Not set';
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
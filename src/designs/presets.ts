@@ -0,0 +1,205 @@
+// Client-safe: no fs or server-only imports.
+// Organization presets: named starting points an org admin defines for one of the org's
+// designs. A preset can prefill values, lock fields to them, and narrow numeric ranges
+// within the definition's. The new-job form applies the chosen preset and
+// POST /api/design-jobs enforces it through validatePresetDesignInputs, so a job created
+// from a preset can't leave its bounds. Only top-level scalar parameters can be preset.
+import type { FieldErrors } from '@/lib/formValidation';
+import type { InputParameter } from '@/types/design-input-parameter';
+import {
+  validateEnteredDesignInputs,
+  validateParameters,
+  type DesignValidationOptions,
+  type DesignValidationResult,
+  type ValidatableDesign,
+} from './validation';
+import { toEnteredValues, type MeasurementMode } from './units';
+
+export type PresetValue = number | boolean | string;
+
+export interface PresetFieldSettings {
+  // Prefilled value, in canonical units. Required when locked.
+  value?: PresetValue;
+  locked?: boolean;
+  // Numeric parameters only; must lie within the definition's range.
+  min?: number;
+  max?: number;
+}
+
+// Keyed by InputName.
+export type PresetFields = Record<string, PresetFieldSettings>;
+
+export interface DesignPresetData {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  fields: PresetFields;
+}
+
+export const PRESET_NAME_MAX_LENGTH = 50;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumericParameter(param: InputParameter): param is Extract<InputParameter, { InputType: 'Float' | 'Integer' }> {
+  return param.InputType === 'Float' || param.InputType === 'Integer';
+}
+
+export function isPresettableParameter(param: InputParameter): boolean {
+  return param.InputType !== 'Group' && param.InputType !== 'Array';
+}
+
+// The definition's parameters with the preset's ranges applied.
+export function applyPresetToParameters(params: InputParameter[], fields: PresetFields): InputParameter[] {
+  return params.map((param) => {
+    const settings = fields[param.InputName];
+    if (!settings || !isNumericParameter(param) || (settings.min === undefined && settings.max === undefined)) {
+      return param;
+    }
+    return {
+      ...param,
+      NumberMin: settings.min ?? param.NumberMin,
+      NumberMax: settings.max ?? param.NumberMax,
+    };
+  });
+}
+
+// Prefilled values (canonical units) for the new-job form, locked ones included.
+export function getPresetValues(fields: PresetFields): Record<string, PresetValue> {
+  const values: Record<string, PresetValue> = {};
+  for (const [name, settings] of Object.entries(fields)) {
+    if (settings.value !== undefined) {
+      values[name] = settings.value;
+    }
+  }
+  return values;
+}
+
+export function getLockedPresetValues(fields: PresetFields): Record<string, PresetValue> {
+  const values: Record<string, PresetValue> = {};
+  for (const [name, settings] of Object.entries(fields)) {
+    if (settings.locked && settings.value !== undefined) {
+      values[name] = settings.value;
+    }
+  }
+  return values;
+}
+
+// Check an org admin's preset settings against the design's definition. Returns the
+// settings with empty entries dropped, or errors keyed by InputName.
+export function parsePresetFields(raw: unknown, params: InputParameter[]): { fields: PresetFields; errors: FieldErrors } {
+  const fields: PresetFields = {};
+  const errors: FieldErrors = {};
+  if (!isPlainObject(raw)) {
+    return { fields, errors: { fields: 'fields must be an object keyed by parameter name' } };
+  }
+
+  const paramsByName = new Map(params.map((param) => [param.InputName, param]));
+  for (const [name, rawSettings] of Object.entries(raw)) {
+    const param = paramsByName.get(name);
+    if (!param || !isPresettableParameter(param)) {
+      errors[name] = `${name} is not a top-level parameter of this design`;
+      continue;
+    }
+    const label = param.InputDescription || param.InputName;
+    if (!isPlainObject(rawSettings)) {
+      errors[name] = `${label}: settings must be an object`;
+      continue;
+    }
+
+    const settings: PresetFieldSettings = {};
+    const { value, locked, min, max } = rawSettings;
+
+    if (min !== undefined || max !== undefined) {
+      if (!isNumericParameter(param)) {
+        errors[name] = `${label}: only numeric parameters can have a range`;
+        continue;
+      }
+      if ((min !== undefined && typeof min !== 'number') || (max !== undefined && typeof max !== 'number')) {
+        errors[name] = `${label}: min and max must be numbers`;
+        continue;
+      }
+      const outsideDefinition = [min, max].some((bound) => typeof bound === 'number'
+        && ((param.NumberMin !== undefined && bound < param.NumberMin) || (param.NumberMax !== undefined && bound > param.NumberMax)));
+      if (outsideDefinition) {
+        errors[name] = `${label}: the preset range must lie within ${param.NumberMin ?? 'any'} - ${param.NumberMax ?? 'any'}`;
+        continue;
+      }
+      if (typeof min === 'number' && typeof max === 'number' && min > max) {
+        errors[name] = `${label}: min must be <= max`;
+        continue;
+      }
+      if (typeof min === 'number') settings.min = min;
+      if (typeof max === 'number') settings.max = max;
+    }
+
+    if (locked !== undefined && typeof locked !== 'boolean') {
+      errors[name] = `${label}: locked must be true or false`;
+      continue;
+    }
+
+    if (value !== undefined && value !== null && value !== '') {
+      const narrowed = applyPresetToParameters([param], { [name]: settings })[0];
+      const valueError = validateParameters([narrowed], { [name]: value }).errors[name];
+      if (valueError) {
+        errors[name] = valueError;
+        continue;
+      }
+      settings.value = value as PresetValue;
+    }
+
+    if (locked) {
+      if (settings.value === undefined) {
+        errors[name] = `${label}: a locked field needs a value`;
+        continue;
+      }
+      settings.locked = true;
+    }
+
+    if (Object.keys(settings).length > 0) {
+      fields[name] = settings;
+    }
+  }
+
+  return { fields, errors };
+}
+
+// Validation for a job created from a preset: the design's own checks against the
+// preset's narrower ranges, plus its locked fields, which must match the preset value as
+// the form showed it (in the entry units). Locked values are then stored exactly as the
+// preset has them, so unit rounding can't move them.
+export function validatePresetDesignInputs(
+  design: ValidatableDesign,
+  preset: Pick<DesignPresetData, 'name' | 'fields'> | null,
+  values: unknown,
+  mode: MeasurementMode,
+  options: DesignValidationOptions = {},
+): DesignValidationResult & { enteredValues: Record<string, unknown> } {
+  if (!preset) {
+    return validateEnteredDesignInputs(design, values, mode, options);
+  }
+
+  const result = validateEnteredDesignInputs(
+    { ...design, inputParameters: applyPresetToParameters(design.inputParameters, preset.fields) },
+    values,
+    mode,
+    options,
+  );
+  const locked = getLockedPresetValues(preset.fields);
+  const expected = toEnteredValues(design.inputParameters, locked, mode);
+  const errors = { ...result.errors };
+  for (const [name, lockedValue] of Object.entries(expected)) {
+    if (result.enteredValues[name] !== lockedValue && !(name in errors)) {
+      const param = design.inputParameters.find((candidate) => candidate.InputName === name);
+      errors[name] = `${param?.InputDescription || name} is locked to ${String(lockedValue)} by the "${preset.name}" preset`;
+    }
+  }
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+    values: { ...result.values, ...locked },
+    enteredValues: result.enteredValues,
+  };
+}
@@ -1,52 +1,41 @@
 import { existsSync } from 'fs';
-import { join } from 'path';
-import type { DesignDefinition, DesignRegistryEntry } from './types';
-
-import cylinderDef from './cylinder/definition.json';
-import infinityExtendDef from './infinity-extend/definition.json';
-import infinityExtendContractureDef from './infinity-extend-contracture/definition.json';
-import infinityFlexDef from './infinity-flex/definition.json';
-import infinitySplint251004Def from './infinity-splint-251004/definition.json';
-import staxSplintDef from './stax-splint/definition.json';
-import buddyRingsDuoDef from './buddy-rings-duo/definition.json';
-import sizingRingsDef from './sizing-rings/definition.json';
-import relativeMotionDef from './relative-motion/definition.json';
+import { join, resolve } from 'path';
+import type { DesignRegistryEntry } from './types';
+// Generated from src/designs/*/definition.json by scripts/generate-design-manifest.js
+import { designDefinitions } from './generated/definitions';
 
 const publicDesignsDir = join(process.cwd(), 'public', 'designs');
-const srcDesignsDir = join(process.cwd(), 'src', 'designs');
-
-// Each entry pairs a slug (directory name) with its definition.json
-const designEntries: Array<{ slug: string; definition: DesignDefinition }> = [
-  { slug: 'cylinder', definition: cylinderDef as DesignDefinition },
-  { slug: 'infinity-extend', definition: infinityExtendDef as DesignDefinition },
-  { slug: 'infinity-extend-contracture', definition: infinityExtendContractureDef as DesignDefinition },
-  { slug: 'infinity-flex', definition: infinityFlexDef as DesignDefinition },
-  { slug: 'infinity-splint-251004', definition: infinitySplint251004Def as DesignDefinition },
-  { slug: 'stax-splint', definition: staxSplintDef as DesignDefinition },
-  { slug: 'buddy-rings-duo', definition: buddyRingsDuoDef as DesignDefinition },
-  { slug: 'sizing-rings', definition: sizingRingsDef as DesignDefinition },
-  { slug: 'relative-motion', definition: relativeMotionDef as DesignDefinition },
-];
+// Same lookup as the manifest script, so designs kept outside src/designs find their guides.
+const srcDesignsDir = process.env.DESIGNS_DIR
+  ? resolve(process.cwd(), process.env.DESIGNS_DIR)
+  : join(process.cwd(), 'src', 'designs');
 
 // Build the registry map (by ID) at module load time
 const registryById = new Map<string, DesignRegistryEntry>();
 const registryBySlug = new Map<string, DesignRegistryEntry>();
 
-for (const { slug, definition } of designEntries) {
+for (const { slug, definition } of designDefinitions) {
   const entry: DesignRegistryEntry = {
     ...definition,
     slug,
     hasPreviewImage: existsSync(join(publicDesignsDir, slug, 'preview.png')),
     hasMeasurementImage: existsSync(join(publicDesignsDir, slug, 'measurement.png')),
     hasCustomForm: false,
-    hasClinicalGuide: existsSync(join(srcDesignsDir, slug, 'clinical-guide.md')),
+    hasClinicalGuide: existsSync(getDesignSourcePath(slug, 'clinical-guide.md')),
     category: definition.category ?? 'splint',
     generatorVersion: definition.generatorVersion ?? '1',
+    definitionVersion: definition.definitionVersion ?? 1,
+    rules: definition.rules ?? [],
   };
   registryById.set(definition.id, entry);
   registryBySlug.set(slug, entry);
 }
 
+// Path of a file that lives alongside a design's definition.json.
+export function getDesignSourcePath(slug: string, file: string): string {
+  return join(srcDesignsDir, slug, file);
+}
+
 export function getDesignById(id: string): DesignRegistryEntry | undefined {
   return registryById.get(id);
 }
@@ -3,10 +3,12 @@
 // Bespoke input form for the RelativeMotion splint. Unlike the flat scalar designs, this
 // design needs a nested per-finger structure, so it renders its own fields and writes the
 // whole job payload as { relative_motion_data: {...} } (the shape the geo processor reads
-// via job_data["relative_motion_data"]). Minimal first pass: basic fields + light validation.
+// via job_data["relative_motion_data"]). Validation lives in validate.ts so the API runs
+// the same rules against the submitted payload.
 
 import { useEffect, useMemo, useState } from 'react';
 import type { CustomFormProps } from '../types';
+import { validate, FINGER_LABELS, ELEVATION_MIN, ELEVATION_MAX } from './validate';
 
 type FingerAbbr = 'if' | 'mf' | 'rf' | 'sf';
 
@@ -29,16 +31,7 @@ interface FormModel {
   enable_support_path_ramp: boolean;
 }
 
-const FINGER_LABELS: Record<FingerAbbr, string> = {
-  if: 'Index',
-  mf: 'Middle',
-  rf: 'Ring',
-  sf: 'Small',
-};
-
 const FINGER_ORDER: FingerAbbr[] = ['if', 'mf', 'rf', 'sf'];
-const ELEVATION_MIN = -120;
-const ELEVATION_MAX = 45;
 
 // Default: index + ring anchor the middle finger; small finger excluded.
 function defaultModel(): FormModel {
@@ -139,45 +132,9 @@ function buildRawData(model: FormModel) {
   };
 }
 
-// Minimal first-pass validation; richer feedback is a follow-up.
-function validate(model: FormModel): string[] {
-  const errors: string[] = [];
-  const fingers = model.fingers;
-  const includedIdx = fingers.map((f, i) => (f.is_included ? i : -1)).filter((i) => i >= 0);
-
-  if (includedIdx.length < 2) {
-    errors.push('Include at least two fingers.');
-  } else if (includedIdx[includedIdx.length - 1] - includedIdx[0] + 1 !== includedIdx.length) {
-    errors.push('Included fingers must be contiguous (no gaps between them).');
-  }
-
-  const anchors = fingers.filter((f) => f.is_included && f.is_anchor_finger).length;
-  const supported = fingers.filter((f) => f.is_included && !f.is_anchor_finger).length;
-  if (anchors < 2) errors.push('At least two anchor fingers are required.');
-  if (supported < 1) errors.push('At least one supported (non-anchor) finger is required.');
-
-  const firstIdx = firstIncludedIndex(fingers);
-  fingers.forEach((f, idx) => {
-    if (!f.is_included) return;
-    const label = FINGER_LABELS[f.finger_abbr];
-    if ((toNum(f.p1_mid_circ) ?? 0) <= 0) errors.push(`${label}: P1 circumference must be > 0.`);
-    if ((toNum(f.p1_length) ?? 0) <= 0) errors.push(`${label}: P1 length must be > 0.`);
-    if (idx !== firstIdx && toNum(f.pip_neighbor_fwd_offset) === null) {
-      errors.push(`${label}: forward offset is required.`);
-    }
-  });
-
-  if ((toNum(model.all_splint_finger_circ) ?? 0) <= 0) {
-    errors.push('All-fingers circumference must be > 0.');
-  }
-  const elev = toNum(model.relative_elevation_angle);
-  if (elev === null || elev < ELEVATION_MIN || elev > ELEVATION_MAX) {
-    errors.push(`Relative elevation angle must be between ${ELEVATION_MIN} and ${ELEVATION_MAX} degrees.`);
-  }
-  if ((toNum(model.longitudinal_band_width_mm) ?? 0) <= 0) {
-    errors.push('Band width must be > 0.');
-  }
-  return errors;
+// Error messages for the current model, in display order.
+function collectErrors(model: FormModel): string[] {
+  return Object.values(validate({ relative_motion_data: buildRawData(model) }));
 }
 
 export default function RelativeMotionForm({ value, onChange, onValidChange }: CustomFormProps) {
@@ -187,11 +144,11 @@ export default function RelativeMotionForm({ value, onChange, onValidChange }: C
   // onChange / onValidChange are stable state setters from the parent.
   useEffect(() => {
     onChange({ relative_motion_data: buildRawData(model) });
-    onValidChange?.(validate(model).length === 0);
+    onValidChange?.(collectErrors(model).length === 0);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [model]);
 
-  const errors = useMemo(() => validate(model), [model]);
+  const errors = useMemo(() => collectErrors(model), [model]);
   const firstIdx = useMemo(() => firstIncludedIndex(model.fingers), [model.fingers]);
 
   const updateFinger = (idx: number, patch: Partial<FingerModel>) => {
@@ -0,0 +1,94 @@
+import type { FieldErrors } from '@/lib/formValidation';
+
+// Validation for the Relative Motion payload ({ relative_motion_data: {...} }), shared by
+// the CustomForm and the API. The flat parameter schema is empty for this design, so
+// everything the processor relies on is checked here.
+
+export const FINGER_LABELS: Record<string, string> = {
+  if: 'Index',
+  mf: 'Middle',
+  rf: 'Ring',
+  sf: 'Small',
+};
+
+export const ELEVATION_MIN = -120;
+export const ELEVATION_MAX = 45;
+
+const ROOT = 'relative_motion_data';
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// First error per path wins, matching how the form highlights fields.
+function addError(errors: FieldErrors, path: string, message: string) {
+  if (!(path in errors)) {
+    errors[path] = message;
+  }
+}
+
+export function validate(values: Record<string, unknown>): FieldErrors {
+  const errors: FieldErrors = {};
+  const rmd = values[ROOT] as Record<string, unknown> | null | undefined;
+
+  if (!rmd || typeof rmd !== 'object' || Array.isArray(rmd)) {
+    addError(errors, ROOT, 'Relative motion details are required.');
+    return errors;
+  }
+
+  if (!Array.isArray(rmd.finger_data)) {
+    addError(errors, `${ROOT}.finger_data`, 'Finger data is required.');
+    return errors;
+  }
+
+  const fingers = rmd.finger_data as Array<Record<string, unknown>>;
+  const seen = new Set<string>();
+  for (const [idx, finger] of fingers.entries()) {
+    const abbr = typeof finger?.finger_abbr === 'string' ? finger.finger_abbr : '';
+    if (!FINGER_LABELS[abbr] || seen.has(abbr)) {
+      addError(errors, `${ROOT}.finger_data.${idx}.finger_abbr`, `Finger ${idx + 1}: unknown or repeated finger.`);
+    }
+    seen.add(abbr);
+  }
+
+  const includedIdx = fingers.map((f, i) => (f?.is_included === true ? i : -1)).filter((i) => i >= 0);
+  if (includedIdx.length < 2) {
+    addError(errors, `${ROOT}.finger_data`, 'Include at least two fingers.');
+  } else if (includedIdx[includedIdx.length - 1] - includedIdx[0] + 1 !== includedIdx.length) {
+    addError(errors, `${ROOT}.finger_data`, 'Included fingers must be contiguous (no gaps between them).');
+  }
+
+  const anchors = fingers.filter((f) => f?.is_included === true && f.is_anchor_finger === true).length;
+  const supported = fingers.filter((f) => f?.is_included === true && f.is_anchor_finger !== true).length;
+  if (anchors < 2) addError(errors, `${ROOT}.finger_data.anchors`, 'At least two anchor fingers are required.');
+  if (supported < 1) addError(errors, `${ROOT}.finger_data.supported`, 'At least one supported (non-anchor) finger is required.');
+
+  // The first included finger is the forward-offset reference, so it needs no offset.
+  const firstIdx = includedIdx[0] ?? -1;
+  fingers.forEach((f, idx) => {
+    if (f?.is_included !== true) return;
+    const label = FINGER_LABELS[f.finger_abbr as string] ?? `Finger ${idx + 1}`;
+    const path = `${ROOT}.finger_data.${idx}`;
+    if (!isPositiveNumber(f.p1_mid_circ)) addError(errors, `${path}.p1_mid_circ`, `${label}: P1 circumference must be > 0.`);
+    if (!isPositiveNumber(f.p1_length)) addError(errors, `${path}.p1_length`, `${label}: P1 length must be > 0.`);
+    if (idx !== firstIdx && !isNumber(f.pip_neighbor_fwd_offset)) {
+      addError(errors, `${path}.pip_neighbor_fwd_offset`, `${label}: forward offset is required.`);
+    }
+  });
+
+  if (!isPositiveNumber(rmd.all_splint_finger_circ)) {
+    addError(errors, `${ROOT}.all_splint_finger_circ`, 'All-fingers circumference must be > 0.');
+  }
+  const elev = rmd.relative_elevation_angle;
+  if (!isNumber(elev) || elev < ELEVATION_MIN || elev > ELEVATION_MAX) {
+    addError(errors, `${ROOT}.relative_elevation_angle`, `Relative elevation angle must be between ${ELEVATION_MIN} and ${ELEVATION_MAX} degrees.`);
+  }
+  if (!isPositiveNumber(rmd.longitudinal_band_width_mm)) {
+    addError(errors, `${ROOT}.longitudinal_band_width_mm`, 'Band width must be > 0.');
+  }
+  return errors;
+}
@@ -0,0 +1,116 @@
+// Client-safe: no fs or server-only imports.
+// Evaluates the declarative `rules` from a design's definition.json. The new-job form
+// uses it for hints (warning/info) and the shared validator uses it for blocking
+// errors, so a rule written once applies in both places.
+import type { FieldErrors } from '@/lib/formValidation';
+import type { DesignHint, DesignRule, RuleCondition, RuleOperator } from './types';
+
+export interface RuleEvaluation {
+  hints: DesignHint[];
+  errors: FieldErrors;
+}
+
+// Look up a dotted path ("fingers.1.p1_mid_circ") in a nested payload.
+export function getValueAtPath(values: Record<string, unknown>, path: string): unknown {
+  let current: unknown = values;
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function hasValue(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '';
+}
+
+// Numbers may still be strings while the user is typing; treat those as numbers.
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function compare(left: unknown, op: RuleOperator, right: unknown): boolean {
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+
+  if (op === 'eq' || op === 'neq') {
+    const equal = leftNumber !== null && rightNumber !== null ? leftNumber === rightNumber : left === right;
+    return op === 'eq' ? equal : !equal;
+  }
+
+  // Ordering comparisons only apply once both sides are numbers, so a half-filled
+  // form never trips a rule on blank fields.
+  if (leftNumber === null || rightNumber === null) {
+    return false;
+  }
+
+  switch (op) {
+    case 'lt': return leftNumber < rightNumber;
+    case 'lte': return leftNumber <= rightNumber;
+    case 'gt': return leftNumber > rightNumber;
+    case 'gte': return leftNumber >= rightNumber;
+  }
+}
+
+export function evaluateCondition(condition: RuleCondition, values: Record<string, unknown>): boolean {
+  if ('all' in condition) {
+    return condition.all.every((child) => evaluateCondition(child, values));
+  }
+  if ('any' in condition) {
+    return condition.any.some((child) => evaluateCondition(child, values));
+  }
+  if ('not' in condition) {
+    return !evaluateCondition(condition.not, values);
+  }
+  if ('ratio' in condition) {
+    const numerator = toNumber(getValueAtPath(values, condition.ratio[0]));
+    const denominator = toNumber(getValueAtPath(values, condition.ratio[1]));
+    if (numerator === null || denominator === null || denominator === 0) {
+      return false;
+    }
+    return compare(numerator / denominator, condition.op, condition.value);
+  }
+  if ('present' in condition) {
+    return hasValue(getValueAtPath(values, condition.field)) === condition.present;
+  }
+
+  const left = getValueAtPath(values, condition.field);
+  if (condition.ref !== undefined) {
+    const ref = toNumber(getValueAtPath(values, condition.ref));
+    return ref !== null && compare(left, condition.op, ref * (condition.factor ?? 1));
+  }
+  return compare(left, condition.op, condition.value);
+}
+
+export function evaluateDesignRules(rules: DesignRule[] | undefined, values: Record<string, unknown>): RuleEvaluation {
+  const result: RuleEvaluation = { hints: [], errors: {} };
+
+  for (const rule of rules ?? []) {
+    if (rule.when && !evaluateCondition(rule.when, values)) {
+      continue;
+    }
+
+    const targets = rule.require
+      ? rule.require.filter((path) => !hasValue(getValueAtPath(values, path)))
+      : rule.target ? [rule.target] : [];
+
+    for (const target of targets) {
+      if (rule.severity === 'error') {
+        if (!(target in result.errors)) {
+          result.errors[target] = rule.message;
+        }
+      } else {
+        result.hints.push({ message: rule.message, targetParameter: target, severity: rule.severity });
+      }
+    }
+  }
+
+  return result;
+}
@@ -1,4 +1,6 @@
 import type { InputParameter } from '@/types/design-input-parameter';
+import type { FieldErrors } from '@/lib/formValidation';
+import type { FilamentRequirement } from '@/lib/filament';
 
 export interface DesignDefinition {
   id: string;
@@ -9,8 +11,19 @@ export interface DesignDefinition {
   inputParameters: InputParameter[];
   // 'splint' (default) = main design-menu grid. 'tool' = Tools section + quick-run flow.
   category?: 'splint' | 'tool';
-  // Bump when the tool's .gh/.py generator changes; invalidates cached/cloned jobs.
+  // Bump when the .gh/.py generator changes. Snapshotted on every job; for tools it
+  // also invalidates cached/cloned jobs.
   generatorVersion?: string;
+  // Bump when inputParameters change. Snapshotted on every job (see definition-drift.ts).
+  definitionVersion?: number;
+  // Declarative cross-field hints and validation rules (see rules.ts).
+  rules?: DesignRule[];
+  // InputName (or payload path, for custom forms) -> measurement-set field, for
+  // prefilling from a measurement set (see measurements.ts).
+  measurementMap?: Record<string, string>;
+  // Filament the print needs. Checked against the target printer's AMS trays before
+  // dispatch (see filament.ts); omitted = any loaded filament will do.
+  filament?: FilamentRequirement;
 }
 
 // Slug is the directory name under src/designs/, used for image paths and routing
@@ -23,9 +36,52 @@ export interface DesignHint {
   severity: 'warning' | 'info';
 }
 
+export type RuleOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq' | 'neq';
+
+// A condition over form values. Fields are InputNames or dotted paths into Group/Array
+// values (e.g. "fingers.1.p1_mid_circ").
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  // field <op> value, or field <op> ref * factor (factor defaults to 1)
+  | { field: string; op: RuleOperator; value?: number | string | boolean; ref?: string; factor?: number }
+  // fields[0] / fields[1] <op> value
+  | { ratio: [string, string]; op: RuleOperator; value: number }
+  // field has (or lacks) a value
+  | { field: string; present: boolean };
+
+// A declarative rule from definition.json. 'error' rules block submission (client and
+// API); 'warning'/'info' rules surface as hints under the target field.
+export interface DesignRule {
+  message: string;
+  severity: 'error' | 'warning' | 'info';
+  // Field path the message is shown under. Optional for `require` rules, whose
+  // messages go under each missing field.
+  target?: string;
+  // Omitted = always applies (useful with `require`).
+  when?: RuleCondition;
+  // Conditional requirement: these fields must have a value whenever `when` holds.
+  require?: string[];
+}
+
 // Function signature for per-design hint evaluation (client-safe, pure logic)
 export type HintsFn = (values: Record<string, number | boolean | string>) => DesignHint[];
 
+// Per-design validation for rules the flat schema can't express: cross-field checks
+// and nested payloads. Client-safe, pure logic; runs in the new-job form and the API.
+// Returns errors keyed by dotted field path (e.g. "relative_motion_data.all_splint_finger_circ").
+export type ValidateFn = (values: Record<string, unknown>) => FieldErrors;
+
+// Upgrades a stored inputParameters payload by one definitionVersion. Client-safe, pure
+// logic. Throw an Error whose message explains why when a payload can't be upgraded
+// automatically (e.g. a new required measurement with no sensible default).
+export type ParameterMigrationFn = (values: Record<string, unknown>) => Record<string, unknown>;
+
+// A design's migrations.ts, keyed by the version each step upgrades *from*:
+// migrations[1] turns a v1 payload into a v2 payload.
+export type ParameterMigrations = Record<number, ParameterMigrationFn>;
+
 // Props for a design's bespoke input form. Used when a design's parameters do not fit
 // the flat scalar schema (e.g. RelativeMotion's nested per-finger data). The form owns its
 // own fields/validation and writes the full job payload up via onChange.
@@ -47,4 +103,6 @@ export interface DesignRegistryEntry extends DesignDefinition {
   // so registry consumers don't need to handle undefined.
   category: 'splint' | 'tool';
   generatorVersion: string;
+  definitionVersion: number;
+  rules: DesignRule[];
 }
@@ -0,0 +1,230 @@
+// Client-safe: no fs or server-only imports.
+// Measurement-mode support for the new-job form. Design parameters are declared (and
+// stored) in canonical units: millimetres for lengths and circumferences, degrees for
+// angles. Users may enter 'mm' parameters in cm or inches, and circumferences as a
+// diameter; normalizeEnteredValues() converts what they typed back to canonical units
+// before validation and storage.
+import type { InputParameter, NumericInputParameter } from '@/types/design-input-parameter';
+
+export type LengthUnit = 'mm' | 'cm' | 'in';
+export type CircumferenceEntry = 'circumference' | 'diameter';
+
+export interface MeasurementMode {
+  lengthUnit: LengthUnit;
+  circumferenceEntry: CircumferenceEntry;
+}
+
+export const LENGTH_UNITS: LengthUnit[] = ['mm', 'cm', 'in'];
+
+export const DEFAULT_MEASUREMENT_MODE: MeasurementMode = {
+  lengthUnit: 'mm',
+  circumferenceEntry: 'circumference',
+};
+
+const MM_PER_UNIT: Record<LengthUnit, number> = { mm: 1, cm: 10, in: 25.4 };
+
+// Canonical values derived from a conversion are rounded to this many decimals.
+const CANONICAL_DECIMALS = 2;
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isDefaultMeasurementMode(mode: MeasurementMode): boolean {
+  return mode.lengthUnit === DEFAULT_MEASUREMENT_MODE.lengthUnit
+    && mode.circumferenceEntry === DEFAULT_MEASUREMENT_MODE.circumferenceEntry;
+}
+
+// Parse a measurement mode from an API body. Missing fields fall back to the default;
+// unknown values return null.
+export function parseMeasurementMode(raw: unknown): MeasurementMode | null {
+  if (raw === undefined || raw === null) {
+    return DEFAULT_MEASUREMENT_MODE;
+  }
+  if (!isPlainObject(raw)) {
+    return null;
+  }
+  const lengthUnit = raw.lengthUnit ?? DEFAULT_MEASUREMENT_MODE.lengthUnit;
+  const circumferenceEntry = raw.circumferenceEntry ?? DEFAULT_MEASUREMENT_MODE.circumferenceEntry;
+  if (!LENGTH_UNITS.includes(lengthUnit as LengthUnit)) {
+    return null;
+  }
+  if (circumferenceEntry !== 'circumference' && circumferenceEntry !== 'diameter') {
+    return null;
+  }
+  return { lengthUnit: lengthUnit as LengthUnit, circumferenceEntry };
+}
+
+function isLengthParameter(param: InputParameter): param is NumericInputParameter {
+  return (param.InputType === 'Float' || param.InputType === 'Integer') && param.Unit === 'mm';
+}
+
+function isCircumferenceParameter(param: InputParameter): boolean {
+  return isLengthParameter(param) && param.Measurement === 'circumference';
+}
+
+function someParameter(params: InputParameter[], predicate: (param: InputParameter) => boolean): boolean {
+  return params.some((param) => {
+    if (predicate(param)) return true;
+    if (param.InputType === 'Group') return someParameter(param.GroupParameters, predicate);
+    if (param.InputType === 'Array') return someParameter(param.ArrayItemParameters, predicate);
+    return false;
+  });
+}
+
+// Whether the form should offer a unit picker / diameter entry for these parameters.
+export function hasLengthParameters(params: InputParameter[]): boolean {
+  return someParameter(params, isLengthParameter);
+}
+
+export function hasCircumferenceParameters(params: InputParameter[]): boolean {
+  return someParameter(params, isCircumferenceParameter);
+}
+
+// Canonical millimetres per entered unit for one parameter (1 when the mode leaves it alone).
+function getEntryFactor(param: InputParameter, mode: MeasurementMode): number {
+  if (!isLengthParameter(param)) {
+    return 1;
+  }
+  const diameter = param.Measurement === 'circumference' && mode.circumferenceEntry === 'diameter';
+  return MM_PER_UNIT[mode.lengthUnit] * (diameter ? Math.PI : 1);
+}
+
+// Short unit label for a parameter as entered, e.g. "cm" or "in, diameter".
+export function describeEntryUnit(param: InputParameter, mode: MeasurementMode): string | null {
+  if (param.InputType !== 'Float' && param.InputType !== 'Integer') {
+    return null;
+  }
+  if (param.Unit === 'deg') {
+    return 'degrees';
+  }
+  if (param.Unit !== 'mm') {
+    return null;
+  }
+  return param.Measurement === 'circumference' && mode.circumferenceEntry === 'diameter'
+    ? `${mode.lengthUnit}, diameter`
+    : mode.lengthUnit;
+}
+
+// Rewrite "(mm)" and "circumference" in a label for the entry mode, appending the
+// unit when the label doesn't name one.
+function relabel(description: string, param: NumericInputParameter, mode: MeasurementMode): string {
+  let label = description.includes('(mm)')
+    ? description.replace(/\(mm\)/g, `(${mode.lengthUnit})`)
+    : `${description} (${mode.lengthUnit})`;
+  if (param.Measurement === 'circumference' && mode.circumferenceEntry === 'diameter') {
+    label = label.replace(/circumference/g, 'diameter').replace(/Circumference/g, 'Diameter');
+  }
+  return label;
+}
+
+// The parameter schema as the user fills it in under a measurement mode: labels name
+// the entry unit and ranges are converted (rounded inward, so any value inside the
+// shown range is still inside the canonical one). Validating entered values against
+// this schema gives error messages in the units the user typed.
+export function toEntrySchema(params: InputParameter[], mode: MeasurementMode): InputParameter[] {
+  if (isDefaultMeasurementMode(mode)) {
+    return params;
+  }
+  return params.map((param): InputParameter => {
+    if (param.InputType === 'Group') {
+      return { ...param, GroupParameters: toEntrySchema(param.GroupParameters, mode) };
+    }
+    if (param.InputType === 'Array') {
+      return { ...param, ArrayItemParameters: toEntrySchema(param.ArrayItemParameters, mode) };
+    }
+    if (!isLengthParameter(param)) {
+      return param;
+    }
+    const factor = getEntryFactor(param, mode);
+    const scale = 10 ** CANONICAL_DECIMALS;
+    return {
+      ...param,
+      InputDescription: relabel(param.InputDescription, param, mode),
+      NumberMin: param.NumberMin === undefined ? undefined : Math.ceil((param.NumberMin / factor) * scale) / scale,
+      NumberMax: param.NumberMax === undefined ? undefined : Math.floor((param.NumberMax / factor) * scale) / scale,
+    };
+  });
+}
+
+// Apply `convert` to every length value in a payload, leaving anything that is not
+// (yet) a number untouched so half-typed form values survive a mode switch.
+function mapLengthValues(
+  params: InputParameter[],
+  values: Record<string, unknown>,
+  convert: (value: number, param: NumericInputParameter) => number,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...values };
+  for (const param of params) {
+    const value = values[param.InputName];
+    if (param.InputType === 'Group' && isPlainObject(value)) {
+      result[param.InputName] = mapLengthValues(param.GroupParameters, value, convert);
+    } else if (param.InputType === 'Array' && Array.isArray(value)) {
+      result[param.InputName] = value.map((item) =>
+        isPlainObject(item) ? mapLengthValues(param.ArrayItemParameters, item, convert) : item,
+      );
+    } else if (isLengthParameter(param)) {
+      const numeric = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof numeric === 'number' && Number.isFinite(numeric)) {
+        result[param.InputName] = convert(numeric, param);
+      }
+    }
+  }
+  return result;
+}
+
+// Convert values entered under `mode` to canonical units.
+export function normalizeEnteredValues(
+  params: InputParameter[],
+  values: Record<string, unknown>,
+  mode: MeasurementMode,
+): Record<string, unknown> {
+  if (isDefaultMeasurementMode(mode)) {
+    return values;
+  }
+  return mapLengthValues(params, values, (value, param) => roundTo(value * getEntryFactor(param, mode), CANONICAL_DECIMALS));
+}
+
+// Convert canonical values into `mode` for display in the form (e.g. after the user
+// switches units, or when a template is loaded into a non-default mode).
+export function toEnteredValues(
+  params: InputParameter[],
+  values: Record<string, unknown>,
+  mode: MeasurementMode,
+): Record<string, unknown> {
+  if (isDefaultMeasurementMode(mode)) {
+    return values;
+  }
+  return mapLengthValues(params, values, (value, param) => roundTo(value / getEntryFactor(param, mode), CANONICAL_DECIMALS));
+}
+
+// Audit record stored on DesignJob.enteredInputParameters.
+export interface EnteredInputParameters {
+  measurementMode: MeasurementMode;
+  values: Record<string, unknown>;
+}
+
+export function parseEnteredInputParameters(raw: string | null | undefined): EnteredInputParameters | null {
+  if (!raw) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    const measurementMode = parseMeasurementMode(parsed?.measurementMode);
+    return measurementMode && isPlainObject(parsed.values) ? { measurementMode, values: parsed.values } : null;
+  } catch {
+    return null;
+  }
+}
+
+// e.g. "cm, circumferences as diameters"
+export function describeMeasurementMode(mode: MeasurementMode): string {
+  return mode.circumferenceEntry === 'diameter'
+    ? `${mode.lengthUnit}, circumferences as diameters`
+    : mode.lengthUnit;
+}
@@ -0,0 +1,245 @@
+// Client-safe: no fs or server-only imports.
+// Shared validator for design job inputs. The new-job form and POST /api/design-jobs
+// both run it, so any payload the form accepts is one the API accepts (and vice versa).
+// Errors are keyed by field path: the InputName for flat parameters, or a dotted path
+// (e.g. "relative_motion_data.finger_data.1.p1_length") for values nested inside one.
+import type { FieldErrors } from '@/lib/formValidation';
+import type { InputParameter } from '@/types/design-input-parameter';
+import type { DesignRule } from './types';
+import { evaluateDesignRules } from './rules';
+import { getDesignValidateFn } from './validators-registry';
+import { isDefaultMeasurementMode, normalizeEnteredValues, toEntrySchema, type MeasurementMode } from './units';
+
+// Key used for errors that do not belong to any single field.
+export const ROOT_FIELD_ERROR_KEY = '__root';
+
+export interface DesignValidationOptions {
+  // Form inputs hold numbers as strings until blur; accept and convert them.
+  // The API leaves this off so stored payloads always carry real numbers.
+  coerceNumericStrings?: boolean;
+}
+
+export interface DesignValidationResult {
+  valid: boolean;
+  errors: FieldErrors;
+  // The input with numeric strings converted (when coercion is on). Unknown keys
+  // are passed through untouched.
+  values: Record<string, unknown>;
+}
+
+// Minimal shape the engine needs; both registry entries and client-side design
+// objects satisfy it.
+export interface ValidatableDesign {
+  id: string;
+  inputParameters: InputParameter[];
+  rules?: DesignRule[];
+}
+
+export function joinFieldPath(...segments: Array<string | number>): string {
+  return segments.filter((segment) => segment !== '').join('.');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function coerceNumber(value: unknown, coerceNumericStrings: boolean): unknown {
+  if (coerceNumericStrings && typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isNaN(parsed) ? value : parsed;
+  }
+  return value;
+}
+
+// Validate one value against its parameter definition, recording errors under path
+// (Group and Array values recurse, so one parameter can yield several errors).
+// Returns the value with numeric strings coerced when that option is on.
+function validateValueAt(
+  param: InputParameter,
+  rawValue: unknown,
+  options: DesignValidationOptions,
+  path: string,
+  errors: FieldErrors,
+  label: string = param.InputDescription || param.InputName,
+): unknown {
+  if (rawValue === undefined || rawValue === null || rawValue === '') {
+    errors[path] = `${label} is required`;
+    return rawValue;
+  }
+
+  switch (param.InputType) {
+    case 'Boolean':
+      if (typeof rawValue !== 'boolean') {
+        errors[path] = `${label} must be true or false`;
+      }
+      return rawValue;
+
+    case 'Float':
+    case 'Integer': {
+      const value = coerceNumber(rawValue, options.coerceNumericStrings ?? false);
+      const isInteger = param.InputType === 'Integer';
+      if (typeof value !== 'number' || !Number.isFinite(value) || (isInteger && !Number.isInteger(value))) {
+        errors[path] = `${label} must be a valid ${isInteger ? 'integer' : 'number'}`;
+      } else if (param.NumberMin !== undefined && value < param.NumberMin) {
+        errors[path] = `${label} must be >= ${param.NumberMin}`;
+      } else if (param.NumberMax !== undefined && value > param.NumberMax) {
+        errors[path] = `${label} must be <= ${param.NumberMax}`;
+      }
+      return value;
+    }
+
+    case 'Text':
+      if (typeof rawValue !== 'string') {
+        errors[path] = `${label} must be text`;
+      } else if (param.TextMinLen !== undefined && rawValue.length < param.TextMinLen) {
+        errors[path] = `${label} must be at least ${param.TextMinLen} characters`;
+      } else if (param.TextMaxLen !== undefined && rawValue.length > param.TextMaxLen) {
+        errors[path] = `${label} must be no more than ${param.TextMaxLen} characters`;
+      }
+      return rawValue;
+
+    case 'Enum':
+      if (!param.EnumOptions.some((option) => option.Value === rawValue)) {
+        errors[path] = `${label} must be one of: ${param.EnumOptions.map((option) => option.Label ?? option.Value).join(', ')}`;
+      }
+      return rawValue;
+
+    case 'Group':
+      if (!isPlainObject(rawValue)) {
+        errors[path] = `${label} must be an object`;
+        return rawValue;
+      }
+      return validateParametersAt(param.GroupParameters, rawValue, options, path, errors);
+
+    case 'Array': {
+      if (!Array.isArray(rawValue)) {
+        errors[path] = `${label} must be a list`;
+        return rawValue;
+      }
+      const min = param.ArrayMinItems ?? 0;
+      if (rawValue.length < min) {
+        errors[path] = `${label} needs at least ${min} item${min === 1 ? '' : 's'}`;
+      } else if (param.ArrayMaxItems !== undefined && rawValue.length > param.ArrayMaxItems) {
+        errors[path] = `${label} allows at most ${param.ArrayMaxItems} item${param.ArrayMaxItems === 1 ? '' : 's'}`;
+      }
+      return rawValue.map((item, index) => {
+        const itemPath = joinFieldPath(path, index);
+        if (!isPlainObject(item)) {
+          errors[itemPath] = `${getArrayItemLabel(param, index)} must be an object`;
+          return item;
+        }
+        return validateParametersAt(param.ArrayItemParameters, item, options, itemPath, errors, getArrayItemLabel(param, index));
+      });
+    }
+  }
+}
+
+function validateParametersAt(
+  params: InputParameter[],
+  values: Record<string, unknown>,
+  options: DesignValidationOptions,
+  pathPrefix: string,
+  errors: FieldErrors,
+  labelPrefix?: string,
+): Record<string, unknown> {
+  const normalized: Record<string, unknown> = { ...values };
+
+  for (const param of params) {
+    const baseLabel = param.InputDescription || param.InputName;
+    const label = labelPrefix ? `${labelPrefix}: ${baseLabel}` : baseLabel;
+    const value = validateValueAt(param, values[param.InputName], options, joinFieldPath(pathPrefix, param.InputName), errors, label);
+    if (value !== undefined) {
+      normalized[param.InputName] = value;
+    }
+  }
+
+  return normalized;
+}
+
+// Label for one item of an Array parameter, e.g. "Index" or "Finger 2".
+export function getArrayItemLabel(param: { InputDescription: string; ArrayItemLabels?: string[] }, index: number): string {
+  return param.ArrayItemLabels?.[index] ?? `${param.InputDescription} ${index + 1}`;
+}
+
+// Validate a list of parameters against an object of values. pathPrefix places the
+// errors when the object is itself nested inside a larger payload.
+export function validateParameters(
+  params: InputParameter[],
+  values: Record<string, unknown>,
+  options: DesignValidationOptions = {},
+  pathPrefix = '',
+): { errors: FieldErrors; values: Record<string, unknown> } {
+  const errors: FieldErrors = {};
+  const normalized = validateParametersAt(params, values, options, pathPrefix, errors);
+  return { errors, values: normalized };
+}
+
+// Full validation for a design job: every declared parameter, then the 'error'
+// rules from definition.json, then the design's own validate.ts when it registers
+// one. For any path, the first error found wins.
+export function validateDesignInputs(
+  design: ValidatableDesign,
+  values: unknown,
+  options: DesignValidationOptions = {},
+): DesignValidationResult {
+  if (!isPlainObject(values)) {
+    return {
+      valid: false,
+      errors: { [ROOT_FIELD_ERROR_KEY]: 'inputParameters must be a JSON object' },
+      values: {},
+    };
+  }
+
+  const result = validateParameters(design.inputParameters, values, options);
+  const validateFn = getDesignValidateFn(design.id);
+  const extraErrors: FieldErrors[] = [
+    evaluateDesignRules(design.rules, result.values).errors,
+    validateFn ? validateFn(result.values) : {},
+  ];
+
+  for (const errors of extraErrors) {
+    for (const [path, message] of Object.entries(errors)) {
+      if (!(path in result.errors)) {
+        result.errors[path] = message;
+      }
+    }
+  }
+
+  return {
+    valid: Object.keys(result.errors).length === 0,
+    errors: result.errors,
+    values: result.values,
+  };
+}
+
+// Validation for values entered under a measurement mode (cm, inches, diameters).
+// Field-level checks run against the converted schema so messages use the units the
+// user typed; the values are then normalized to canonical units and run through
+// validateDesignInputs, so rules and validate.ts always see millimetres.
+export function validateEnteredDesignInputs(
+  design: ValidatableDesign,
+  values: unknown,
+  mode: MeasurementMode,
+  options: DesignValidationOptions = {},
+): DesignValidationResult & { enteredValues: Record<string, unknown> } {
+  if (!isPlainObject(values) || isDefaultMeasurementMode(mode)) {
+    const result = validateDesignInputs(design, values, options);
+    return { ...result, enteredValues: result.values };
+  }
+
+  const entered = validateParameters(toEntrySchema(design.inputParameters, mode), values, options);
+  const canonical = validateDesignInputs(design, normalizeEnteredValues(design.inputParameters, entered.values, mode), options);
+  const errors = { ...canonical.errors, ...entered.errors };
+
+  return {
+    valid: Object.keys(errors).length === 0,
+    errors,
+    values: canonical.values,
+    enteredValues: entered.values,
+  };
+}
+
+// One-line summary for API error strings and logs.
+export function summarizeFieldErrors(errors: FieldErrors): string {
+  return Object.values(errors).join('; ');
+}
@@ -0,0 +1,9 @@
+// Client-safe: no fs or server-only imports.
+// Maps design IDs to their validation functions (see ValidateFn in types.ts), picked up
+// from each design's validate.ts by scripts/generate-design-manifest.js.
+import type { ValidateFn } from './types';
+import { validateByDesignId } from './generated/modules';
+
+export function getDesignValidateFn(designId: string): ValidateFn | undefined {
+  return validateByDesignId[designId];
+}
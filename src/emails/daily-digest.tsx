@@ -1,3 +1,4 @@
+import { Fragment } from 'react';
 import {
   Html,
   Head,
@@ -20,6 +21,11 @@ export interface OrgDesignJobStats {
   inProgress: number;
 }
 
+export interface PrintFailureEntry {
+  label: string; // object ID, job label or print ID
+  reason: string;
+}
+
 export interface OrgPrintStats {
   orgName: string;
   total: number;
@@ -28,6 +34,7 @@ export interface OrgPrintStats {
   accepted: number;
   rejected: number;
   pending: number;
+  failures: PrintFailureEntry[];
 }
 
 export interface MoreInfoSummary {
@@ -35,10 +42,25 @@ export interface MoreInfoSummary {
   names: string[]; // name + org for quick scan
 }
 
+export interface ProcessorDigestEntry {
+  name: string;
+  currentlyOnline: boolean;
+  wasOffline: boolean;
+  offlineDurationMinutes: number | null;
+}
+
+// Queued jobs no online processor advertises support for, grouped by algorithm.
+export interface WaitingAlgorithmEntry {
+  algorithmName: string;
+  jobCount: number;
+}
+
 export interface ProcessorHealthSummary {
   wasOffline: boolean;
   offlineDurationMinutes: number | null;
   currentlyOnline: boolean;
+  processors: ProcessorDigestEntry[];
+  waitingForCapableProcessor: WaitingAlgorithmEntry[];
   digestSelfCheckStatus: 'NOT_RUN' | 'PASSED' | 'FAILED' | 'TIMEOUT' | 'ERROR';
   digestSelfCheckObjectId: string | null;
   digestSelfCheckDurationSeconds: number | null;
@@ -134,15 +156,20 @@ export default function DailyDigestEmail({
               <Text style={row}>No prints in the last 24 hours.</Text>
             ) : (
               prints.map((org, i) => (
-                <Text key={i} style={row}>
-                  <strong>{org.orgName}</strong>
-                  {' - '}
-                  {org.total} total, {org.succeeded} successful
-                  {org.accepted > 0 ? `, ${org.accepted} accepted` : ''}
-                  {org.rejected > 0 ? `, ${org.rejected} rejected` : ''}
-                  {org.failed > 0 ? `, ${org.failed} failed` : ''}
-                  {org.pending > 0 ? `, ${org.pending} pending` : ''}
-                </Text>
+                <Fragment key={i}>
+                  <Text style={row}>
+                    <strong>{org.orgName}</strong>
+                    {' - '}
+                    {org.total} total, {org.succeeded} successful
+                    {org.accepted > 0 ? `, ${org.accepted} accepted` : ''}
+                    {org.rejected > 0 ? `, ${org.rejected} rejected` : ''}
+                    {org.failed > 0 ? `, ${org.failed} failed` : ''}
+                    {org.pending > 0 ? `, ${org.pending} pending` : ''}
+                  </Text>
+                  {org.failures.map((failure, j) => (
+                    <Text key={j} style={subRow}>- {failure.label}: {failure.reason}</Text>
+                  ))}
+                </Fragment>
               ))
             )}
           </Section>
@@ -152,19 +179,31 @@ export default function DailyDigestEmail({
           {/* Processor health */}
           <Section style={section}>
             <Text style={sectionHeading}>Geo Processor</Text>
-            {processor.currentlyOnline ? (
-              <Text style={rowGood}>Online</Text>
-            ) : (
-              <Text style={rowBad}>Currently OFFLINE</Text>
+            {processor.processors.length === 0 && (
+              <Text style={rowBad}>No processors registered</Text>
             )}
-            {processor.wasOffline && processor.offlineDurationMinutes !== null && (
-              <Text style={rowWarn}>
-                Was offline for {processor.offlineDurationMinutes} minute{processor.offlineDurationMinutes !== 1 ? 's' : ''} during this period.
-              </Text>
-            )}
-            {!processor.wasOffline && (
+            {processor.processors.map((entry) => (
+              <Fragment key={entry.name}>
+                {entry.currentlyOnline ? (
+                  <Text style={rowGood}>{entry.name}: Online</Text>
+                ) : (
+                  <Text style={rowBad}>{entry.name}: Currently OFFLINE</Text>
+                )}
+                {entry.wasOffline && entry.offlineDurationMinutes !== null && (
+                  <Text style={rowWarn}>
+                    {entry.name} was offline for {entry.offlineDurationMinutes} minute{entry.offlineDurationMinutes !== 1 ? 's' : ''} during this period.
+                  </Text>
+                )}
+              </Fragment>
+            ))}
+            {processor.processors.length > 0 && !processor.wasOffline && (
               <Text style={subRow}>No outages in the last 24 hours.</Text>
             )}
+            {processor.waitingForCapableProcessor.map((entry) => (
+              <Text key={entry.algorithmName} style={rowWarn}>
+                {entry.jobCount} job{entry.jobCount !== 1 ? 's' : ''} waiting for a processor that supports {entry.algorithmName}
+              </Text>
+            ))}
 
             {processor.digestSelfCheckStatus === 'PASSED' && (
               <Text style={rowGood}>Pre-digest self-check: PASSED</Text>
@@ -12,6 +12,7 @@ import {
 
 interface ProcessorOfflineAlertEmailProps {
   isReminder: boolean;
+  processorName: string;
   lastPingTime: string;
   offlineDuration: string;
   adminUrl: string;
@@ -21,6 +22,7 @@ interface ProcessorOfflineAlertEmailProps {
 
 export default function ProcessorOfflineAlertEmail({
   isReminder,
+  processorName,
   lastPingTime,
   offlineDuration,
   adminUrl,
@@ -38,6 +40,7 @@ export default function ProcessorOfflineAlertEmail({
           <Text style={heading}>{title}</Text>
 
           <Section style={detailsSection}>
+            <Text style={detailRow}><strong>Processor:</strong> {processorName}</Text>
             <Text style={detailRow}><strong>Last check-in:</strong> {lastPingTime}</Text>
             <Text style={detailRow}><strong>Offline duration:</strong> {offlineDuration}</Text>
             <Text style={detailRow}><strong>Offline threshold:</strong> {thresholdSeconds}s</Text>
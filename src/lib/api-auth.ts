@@ -1,5 +1,10 @@
 import { NextRequest } from 'next/server';
+import { randomBytes } from 'crypto';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit';
+import { getClientIp, isIpAllowed, normalizeCidr } from '@/lib/ip-allowlist';
+import { API_KEY_MAX_CIDRS, isApiKeyScope, type ApiKeyScope } from '@/lib/api-key-scopes';
 import bcrypt from 'bcryptjs';
 
 export interface ApiAuthResult {
@@ -10,13 +15,176 @@ export interface ApiAuthResult {
     name: string;
     permissions: string[];
     organizationId: string | null;
+    createdBy: string;
+    // Where the request came from, for auditing a later scope denial.
+    clientIp: string | null;
+    requestPath: string;
   };
 }
 
+// Keys are issued as sfk_<prefix>_<secret>. The prefix is stored in the clear and finds
+// the row with one indexed lookup; only the secret is hashed (bcrypt reads at most 72 bytes).
+const API_KEY_PATTERN = /^sfk_([0-9a-f]{12})_([0-9a-f]{64})$/;
+const API_KEY_HASH_ROUNDS = 12;
+
+function generateSecret(): string {
+  return randomBytes(32).toString('hex');
+}
+
+export async function generateApiKey(): Promise<{ apiKey: string; keyPrefix: string; keyHash: string }> {
+  const keyPrefix = randomBytes(6).toString('hex');
+  const secret = generateSecret();
+  return {
+    apiKey: `sfk_${keyPrefix}_${secret}`,
+    keyPrefix,
+    keyHash: await bcrypt.hash(secret, API_KEY_HASH_ROUNDS),
+  };
+}
+
+// A new secret for an existing key. Prefixed keys keep their prefix; legacy keys get one.
+export async function generateRotatedApiKey(keyPrefix: string | null): Promise<{ apiKey: string; keyPrefix: string; keyHash: string }> {
+  if (!keyPrefix) return generateApiKey();
+  const secret = generateSecret();
+  return {
+    apiKey: `sfk_${keyPrefix}_${secret}`,
+    keyPrefix,
+    keyHash: await bcrypt.hash(secret, API_KEY_HASH_ROUNDS),
+  };
+}
+
+export interface ApiKeyRestrictionsInput {
+  permissions: ApiKeyScope[];
+  expiresAt: Date | null;
+  allowedCidrs: string[];
+}
+
+// Validate the scopes, expiry and allow-list submitted by the admin form.
+export function parseApiKeyRestrictions(body: {
+  permissions?: unknown;
+  expiresAt?: unknown;
+  allowedCidrs?: unknown;
+}): { input: ApiKeyRestrictionsInput; error?: never } | { input?: never; error: string } {
+  if (!Array.isArray(body.permissions) || body.permissions.length === 0) {
+    return { error: 'At least one permission is required' };
+  }
+  const unknownScopes = body.permissions.filter((scope) => !isApiKeyScope(scope));
+  if (unknownScopes.length > 0) {
+    return { error: `Unknown permissions: ${unknownScopes.join(', ')}` };
+  }
+
+  let expiresAt: Date | null = null;
+  if (body.expiresAt !== undefined && body.expiresAt !== null && body.expiresAt !== '') {
+    expiresAt = typeof body.expiresAt === 'string' ? new Date(body.expiresAt) : new Date(NaN);
+    if (Number.isNaN(expiresAt.getTime())) {
+      return { error: 'Expiry must be a date' };
+    }
+  }
+
+  const rawCidrs = body.allowedCidrs ?? [];
+  if (!Array.isArray(rawCidrs) || rawCidrs.some((cidr) => typeof cidr !== 'string')) {
+    return { error: 'Allowed IP ranges must be a list' };
+  }
+  const entries = rawCidrs.map((cidr: string) => cidr.trim()).filter(Boolean);
+  if (entries.length > API_KEY_MAX_CIDRS) {
+    return { error: `At most ${API_KEY_MAX_CIDRS} allowed IP ranges` };
+  }
+  const invalid = entries.filter((cidr) => !normalizeCidr(cidr));
+  if (invalid.length > 0) {
+    return { error: `Invalid IP range: ${invalid.join(', ')}. Use an address or CIDR block, e.g. 203.0.113.0/24` };
+  }
+
+  return {
+    input: {
+      permissions: [...new Set(body.permissions as ApiKeyScope[])],
+      expiresAt,
+      allowedCidrs: [...new Set(entries.map((cidr) => normalizeCidr(cidr)!))],
+    },
+  };
+}
+
+const apiKeyAuthSelect = {
+  id: true,
+  name: true,
+  keyPrefix: true,
+  keyHash: true,
+  previousKeyHash: true,
+  previousKeyExpiresAt: true,
+  permissions: true,
+  organizationId: true,
+  createdBy: true,
+  isActive: true,
+  expiresAt: true,
+  allowedCidrs: true,
+} as const;
+
+type ApiKeyAuthRow = Prisma.ApiKeyGetPayload<{ select: typeof apiKeyAuthSelect }>;
+
+// The hashes a presented secret may match: the current one, and the one it replaced
+// while the rotation grace period lasts.
+async function matchesKey(apiKey: ApiKeyAuthRow, secret: string, now: Date): Promise<boolean> {
+  if (await bcrypt.compare(secret, apiKey.keyHash)) return true;
+  return !!apiKey.previousKeyHash
+    && !!apiKey.previousKeyExpiresAt
+    && apiKey.previousKeyExpiresAt > now
+    && await bcrypt.compare(secret, apiKey.previousKeyHash);
+}
+
+async function findApiKey(apiKeyValue: string, now: Date): Promise<ApiKeyAuthRow | null> {
+  const match = API_KEY_PATTERN.exec(apiKeyValue);
+  if (match) {
+    const [, keyPrefix, secret] = match;
+    const apiKey = await prisma.apiKey.findUnique({ where: { keyPrefix }, select: apiKeyAuthSelect });
+    return apiKey && await matchesKey(apiKey, secret, now) ? apiKey : null;
+  }
+
+  // Legacy keys have no prefix to look up by, so each one has to be compared. That
+  // includes legacy keys rotated to a prefixed key whose old secret is still in grace.
+  const legacyKeys = await prisma.apiKey.findMany({
+    where: {
+      isActive: true,
+      OR: [{ keyPrefix: null }, { previousKeyExpiresAt: { gt: now } }],
+    },
+    select: apiKeyAuthSelect,
+  });
+  for (const apiKey of legacyKeys) {
+    if (await matchesKey(apiKey, apiKeyValue, now)) {
+      console.warn(`API key ${apiKey.name} (${apiKey.id}) used a legacy secret; rotate it to a prefixed key`);
+      return apiKey;
+    }
+  }
+  return null;
+}
+
+type ApiKeyDenialReason = 'invalid_key' | 'disabled' | 'expired' | 'ip_not_allowed' | 'missing_scope';
+
+// Every request refused for its API key is recorded; requests without one aren't, since
+// some routes fall back to session auth.
+function logApiKeyDenial(
+  reason: ApiKeyDenialReason,
+  context: { clientIp: string | null; requestPath: string },
+  apiKey?: { id: string; name: string; organizationId: string | null } | null,
+  details?: Record<string, unknown>,
+): void {
+  console.warn(`API key denied (${reason}) | key=${apiKey ? `${apiKey.name} (${apiKey.id})` : '(unknown)'} ip=${context.clientIp ?? '(unknown)'} path=${context.requestPath}`);
+  logAuditEvent({
+    eventType: 'API_KEY_DENIED',
+    channel: 'AUTH',
+    organizationId: apiKey?.organizationId,
+    metadata: {
+      reason,
+      apiKeyId: apiKey?.id ?? null,
+      apiKeyName: apiKey?.name ?? null,
+      clientIp: context.clientIp,
+      path: context.requestPath,
+      ...details,
+    },
+  });
+}
+
 export async function validateApiKey(request: NextRequest): Promise<ApiAuthResult> {
   try {
     const authorization = request.headers.get('authorization');
-    
+
     if (!authorization) {
       console.warn('API auth failed: no Authorization header present');
       return { success: false, error: 'Authorization header missing' };
@@ -27,57 +195,55 @@ export async function validateApiKey(request: NextRequest): Promise<ApiAuthResul
     }
 
     const apiKeyValue = authorization.slice(7); // Remove 'Bearer ' prefix
-    
+
     if (!apiKeyValue) {
       console.warn('API auth failed: Bearer token is empty');
       return { success: false, error: 'API key missing' };
     }
 
-    // Find all active API keys and check against the provided key
-    const apiKeys = await prisma.apiKey.findMany({
-      where: {
-        isActive: true
-      },
-      select: {
-        id: true,
-        name: true,
-        keyHash: true,
-        permissions: true,
-        organizationId: true,
-        lastUsedAt: true
-      }
+    const context = { clientIp: getClientIp(request), requestPath: request.nextUrl.pathname };
+    const now = new Date();
+    const apiKey = await findApiKey(apiKeyValue, now);
+    if (!apiKey) {
+      // Only the public prefix, if any, is safe to record.
+      const prefixMatch = /^sfk_([0-9a-f]{12})_/.exec(apiKeyValue);
+      logApiKeyDenial('invalid_key', context, null, { keyPrefix: prefixMatch ? prefixMatch[1] : null });
+      return { success: false, error: 'Invalid API key' };
+    }
+    if (!apiKey.isActive) {
+      logApiKeyDenial('disabled', context, apiKey);
+      return { success: false, error: 'API key is disabled' };
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+      logApiKeyDenial('expired', context, apiKey, { expiresAt: apiKey.expiresAt });
+      return { success: false, error: 'API key has expired' };
+    }
+    // Written only through parseApiKeyRestrictions, so the stored shape is trusted.
+    const allowedCidrs = apiKey.allowedCidrs as string[];
+    if (!isIpAllowed(context.clientIp, allowedCidrs)) {
+      logApiKeyDenial('ip_not_allowed', context, apiKey, { allowedCidrs });
+      return { success: false, error: 'API key is not allowed from this address' };
+    }
+
+    // Update last used timestamp
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: now }
     });
 
-    // Check each API key hash
-    for (const apiKey of apiKeys) {
-      const isValid = await bcrypt.compare(apiKeyValue, apiKey.keyHash);
-      
-      if (isValid) {
-        // Update last used timestamp
-        await prisma.apiKey.update({
-          where: { id: apiKey.id },
-          data: { lastUsedAt: new Date() }
-        });
-
-        console.log(`API key authenticated: ${apiKey.name} (${apiKey.id})`);
-
-        return {
-          success: true,
-          apiKey: {
-            id: apiKey.id,
-            name: apiKey.name,
-            permissions: JSON.parse(apiKey.permissions),
-            organizationId: apiKey.organizationId
-          }
-        };
-      }
-    }
+    console.log(`API key authenticated: ${apiKey.name} (${apiKey.id})`);
 
-    const keyPreview = apiKeyValue.length > 6
-      ? `${apiKeyValue.slice(0, 3)}...${apiKeyValue.slice(-3)}`
-      : '(too short)';
-    console.warn(`Invalid API key attempted | length=${apiKeyValue.length} preview=${keyPreview} | checked against ${apiKeys.length} active key(s): [${apiKeys.map(k => k.name).join(', ')}]`);
-    return { success: false, error: 'Invalid API key' };
+    return {
+      success: true,
+      apiKey: {
+        id: apiKey.id,
+        name: apiKey.name,
+        permissions: JSON.parse(apiKey.permissions),
+        organizationId: apiKey.organizationId,
+        createdBy: apiKey.createdBy,
+        ...context,
+      }
+    };
 
   } catch (error) {
     console.error('Error validating API key:', error);
@@ -85,14 +251,18 @@ export async function validateApiKey(request: NextRequest): Promise<ApiAuthResul
   }
 }
 
-export function hasPermission(permissions: string[], requiredPermission: string): boolean {
-  return permissions.includes(requiredPermission) || permissions.includes('*');
+export function hasPermission(permissions: string[], requiredPermission: ApiKeyScope): boolean {
+  return permissions.includes(requiredPermission);
 }
 
-export function checkApiPermission(apiKey: any, requiredPermission: string): boolean {
+export function checkApiPermission(apiKey: ApiAuthResult['apiKey'], requiredPermission: ApiKeyScope): boolean {
   if (!apiKey || !apiKey.permissions) {
     return false;
   }
-  
-  return hasPermission(apiKey.permissions, requiredPermission);
-}
\ No newline at end of file
+
+  if (!hasPermission(apiKey.permissions, requiredPermission)) {
+    logApiKeyDenial('missing_scope', apiKey, apiKey, { requiredScope: requiredPermission });
+    return false;
+  }
+  return true;
+}
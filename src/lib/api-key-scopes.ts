@@ -0,0 +1,56 @@
+// The scopes an API key can be granted. Routes check them with checkApiPermission()
+// (src/lib/api-auth.ts); the api-keys routes only store these. Client-safe.
+export const API_KEY_SCOPES = [
+  {
+    id: 'geometry-queue:read',
+    label: 'Design Processing - Read',
+    category: 'Design Processing',
+    description: 'Claim jobs and read their inputs (geometry processor)',
+  },
+  {
+    id: 'geometry-queue:write',
+    label: 'Design Processing - Write',
+    category: 'Design Processing',
+    description: 'Report progress and results, upload files (geometry processor)',
+  },
+  {
+    id: 'design-jobs:read',
+    label: 'Design Jobs - Read',
+    category: 'Design Jobs',
+    description: 'List and read design jobs through /api/v1',
+  },
+  {
+    id: 'design-jobs:write',
+    label: 'Design Jobs - Create & Import',
+    category: 'Design Jobs',
+    description: 'Create jobs through /api/v1 and bulk import',
+  },
+  {
+    id: 'designs:read',
+    label: 'Designs - Read',
+    category: 'Designs',
+    description: 'List designs and their input parameters through /api/v1',
+  },
+  {
+    id: 'print-queue:read',
+    label: 'Print Queue - Read',
+    category: 'Print Queue',
+    description: 'List and read print jobs through /api/v1',
+  },
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]['id'];
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return API_KEY_SCOPES.some((scope) => scope.id === value);
+}
+
+// How long a rotated key's old secret keeps working.
+export const API_KEY_GRACE_PERIODS = [
+  { hours: 0, label: 'None - the old secret stops working now' },
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '24 hours' },
+  { hours: 24 * 7, label: '7 days' },
+] as const;
+
+export const API_KEY_MAX_CIDRS = 20;
@@ -0,0 +1,277 @@
+import { JOB_LABEL_MAX_LENGTH } from '@/lib/design-job-input';
+import { IMPORT_KEY_MAX_LENGTH } from '@/lib/design-job-import';
+import type { ApiKeyScope } from '@/lib/api-key-scopes';
+
+// Schemas for the public /api/v1 surface. Routes validate request bodies against these
+// (validateApiV1Body in api-v1.ts) and buildOpenApiDocument() assembles the OpenAPI 3.1
+// document served at /api/v1/openapi.json from the same objects, so the published
+// contract can't drift from what the routes accept. Response shapes are documented
+// here and built by the to*Resource() mappers in api-v1.ts.
+
+// The JSON Schema subset the runtime validator understands; the OpenAPI-only keywords
+// (description, format, $ref) are passed through to the document.
+export interface JsonSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null'
+    | Array<'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null'>;
+  description?: string;
+  format?: string;
+  enum?: Array<string | null>;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  $ref?: string;
+}
+
+export const API_V1_PAGE_DEFAULT_LIMIT = 50;
+export const API_V1_PAGE_MAX_LIMIT = 100;
+
+export const DESIGN_JOB_STATUSES = ['pending', 'processing', 'completed', 'failed', 'disabled'] as const;
+export type DesignJobStatus = (typeof DESIGN_JOB_STATUSES)[number];
+
+export const PRINT_JOB_STATUSES = ['queued', 'printing', 'completed', 'failed', 'disabled'] as const;
+export type PrintJobStatus = (typeof PRINT_JOB_STATUSES)[number];
+
+export const PRINT_ACCEPTANCES = ['ACCEPTED', 'REJECT_PRINT', 'REJECT_DESIGN', 'REJECTED', 'ARCHIVED'] as const;
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const timestamp = (description: string): JsonSchema => ({ type: ['string', 'null'], format: 'date-time', description });
+
+export const createDesignJobRequestSchema: JsonSchema = {
+  type: 'object',
+  required: ['designId', 'inputParameters'],
+  additionalProperties: false,
+  properties: {
+    designId: { type: 'string', minLength: 1, description: 'A design visible to the organization (GET /api/v1/designs).' },
+    inputParameters: {
+      type: 'object',
+      description: 'Values keyed by the design\'s InputName, in canonical units (mm, degrees).',
+    },
+    jobLabel: { type: ['string', 'null'], maxLength: JOB_LABEL_MAX_LENGTH },
+    idempotencyKey: {
+      type: ['string', 'null'],
+      minLength: 1,
+      maxLength: IMPORT_KEY_MAX_LENGTH,
+      description: 'Unique within the organization. Resending a key returns the job it created (200) instead of a new one; a key already used for another design is invalid_request.',
+    },
+  },
+};
+
+const schemas: Record<string, JsonSchema> = {
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: {
+        type: 'object',
+        required: ['code', 'message'],
+        properties: {
+          code: { type: 'string', enum: ['invalid_request', 'unauthorized', 'forbidden', 'not_found', 'internal_error'] },
+          message: { type: 'string' },
+          fieldErrors: {
+            type: 'object',
+            description: 'Per-field messages for invalid_request, keyed by property or InputName.',
+          },
+        },
+      },
+    },
+  },
+  Design: {
+    type: 'object',
+    required: ['id', 'name', 'slug', 'category', 'definitionVersion', 'inputParameters'],
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      slug: { type: 'string' },
+      shortDescription: { type: ['string', 'null'] },
+      category: { type: 'string', enum: ['splint', 'tool'] },
+      definitionVersion: { type: 'integer' },
+      inputParameters: {
+        type: 'array',
+        description: 'The design\'s input parameters as in its definition.json (InputName, InputType, ranges).',
+        items: { type: 'object' },
+      },
+    },
+  },
+  DesignJob: {
+    type: 'object',
+    required: ['id', 'designId', 'status', 'inputParameters', 'createdAt'],
+    properties: {
+      id: { type: 'string' },
+      objectId: { type: ['string', 'null'], description: 'Short id printed on the part.' },
+      designId: { type: 'string' },
+      designName: { type: 'string' },
+      jobLabel: { type: ['string', 'null'] },
+      idempotencyKey: { type: ['string', 'null'] },
+      batchId: { type: ['string', 'null'] },
+      status: { type: 'string', enum: [...DESIGN_JOB_STATUSES] },
+      inputParameters: { type: 'object', description: 'Canonical units.' },
+      failureReason: { type: ['string', 'null'] },
+      createdAt: { type: 'string', format: 'date-time' },
+      processStartedAt: timestamp('When geometry generation started.'),
+      processCompletedAt: timestamp('When geometry generation finished, successfully or not.'),
+    },
+  },
+  PrintJob: {
+    type: 'object',
+    required: ['id', 'designJobId', 'status', 'createdAt'],
+    properties: {
+      id: { type: 'string' },
+      designJobId: { type: 'string' },
+      objectId: { type: ['string', 'null'] },
+      jobLabel: { type: ['string', 'null'] },
+      status: { type: 'string', enum: [...PRINT_JOB_STATUSES] },
+      acceptance: { type: ['string', 'null'], enum: [...PRINT_ACCEPTANCES, null], description: 'Review of the finished print.' },
+      progress: { type: ['number', 'null'], description: 'Percent complete while printing.' },
+      createdAt: { type: 'string', format: 'date-time' },
+      printStartedAt: timestamp('When the printer started.'),
+      printCompletedAt: timestamp('When the print finished, successfully or not.'),
+    },
+  },
+  CreateDesignJobRequest: createDesignJobRequestSchema,
+};
+
+export interface ApiV1Parameter {
+  name: string;
+  in: 'path' | 'query';
+  required?: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface ApiV1Operation {
+  method: 'get' | 'post';
+  path: string;
+  operationId: string;
+  summary: string;
+  // API key permission the route checks.
+  permission: ApiKeyScope;
+  parameters?: ApiV1Parameter[];
+  requestSchema?: string;
+  // Success status and the component the response's data holds; list = paginated array.
+  response: { status: number; description: string; schema: string; list?: boolean };
+  errors: number[];
+}
+
+const idParam = (description: string): ApiV1Parameter => ({ name: 'id', in: 'path', required: true, description, schema: { type: 'string' } });
+const pageParams: ApiV1Parameter[] = [
+  {
+    name: 'limit',
+    in: 'query',
+    description: `Page size, at most ${API_V1_PAGE_MAX_LIMIT}.`,
+    schema: { type: 'integer', minimum: 1, maximum: API_V1_PAGE_MAX_LIMIT, default: API_V1_PAGE_DEFAULT_LIMIT },
+  },
+  { name: 'cursor', in: 'query', description: 'nextCursor from the previous page.', schema: { type: 'string' } },
+];
+
+export const API_V1_OPERATIONS: ApiV1Operation[] = [
+  {
+    method: 'get', path: '/designs', operationId: 'listDesigns', summary: 'List the active designs the organization can order',
+    permission: 'designs:read', parameters: pageParams,
+    response: { status: 200, description: 'A page of designs, by name.', schema: 'Design', list: true },
+    errors: [400, 401, 403],
+  },
+  {
+    method: 'get', path: '/designs/{id}', operationId: 'getDesign', summary: 'Get a design and its input parameters',
+    permission: 'designs:read', parameters: [idParam('Design id.')],
+    response: { status: 200, description: 'The design.', schema: 'Design' },
+    errors: [401, 403, 404],
+  },
+  {
+    method: 'get', path: '/design-jobs', operationId: 'listDesignJobs', summary: 'List the organization\'s design jobs, newest first',
+    permission: 'design-jobs:read',
+    parameters: [...pageParams, { name: 'designId', in: 'query', description: 'Only jobs for this design.', schema: { type: 'string' } }],
+    response: { status: 200, description: 'A page of design jobs.', schema: 'DesignJob', list: true },
+    errors: [400, 401, 403],
+  },
+  {
+    method: 'post', path: '/design-jobs', operationId: 'createDesignJob', summary: 'Create a design job',
+    permission: 'design-jobs:write', requestSchema: 'CreateDesignJobRequest',
+    response: { status: 201, description: 'The new job (200 with the existing job for a repeated idempotencyKey).', schema: 'DesignJob' },
+    errors: [400, 401, 403, 404],
+  },
+  {
+    method: 'get', path: '/design-jobs/{id}', operationId: 'getDesignJob', summary: 'Get a design job',
+    permission: 'design-jobs:read', parameters: [idParam('Design job id.')],
+    response: { status: 200, description: 'The design job.', schema: 'DesignJob' },
+    errors: [401, 403, 404],
+  },
+  {
+    method: 'get', path: '/print-jobs', operationId: 'listPrintJobs', summary: 'List the organization\'s print jobs, newest first',
+    permission: 'print-queue:read',
+    parameters: [...pageParams, { name: 'designJobId', in: 'query', description: 'Only prints of this design job.', schema: { type: 'string' } }],
+    response: { status: 200, description: 'A page of print jobs.', schema: 'PrintJob', list: true },
+    errors: [400, 401, 403],
+  },
+  {
+    method: 'get', path: '/print-jobs/{id}', operationId: 'getPrintJob', summary: 'Get a print job',
+    permission: 'print-queue:read', parameters: [idParam('Print job id.')],
+    response: { status: 200, description: 'The print job.', schema: 'PrintJob' },
+    errors: [401, 403, 404],
+  },
+];
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'Invalid request; fieldErrors says which fields.',
+  401: 'Missing or invalid API key.',
+  403: 'The API key lacks the permission or isn\'t scoped to an organization.',
+  404: 'Not found, or not visible to the organization.',
+};
+
+export function buildOpenApiDocument(serverUrl: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of API_V1_OPERATIONS) {
+    const data: JsonSchema = operation.response.list
+      ? { type: 'array', items: ref(operation.response.schema) }
+      : ref(operation.response.schema);
+    const properties: Record<string, JsonSchema> = operation.response.list
+      ? { data, nextCursor: { type: ['string', 'null'], description: 'Pass as cursor for the next page; null on the last page.' } }
+      : { data };
+    const responses: Record<string, unknown> = {
+      [operation.response.status]: {
+        description: operation.response.description,
+        content: { 'application/json': { schema: { type: 'object', required: Object.keys(properties), properties } } },
+      },
+    };
+    for (const status of operation.errors) {
+      responses[status] = { $ref: `#/components/responses/Error${status}` };
+    }
+
+    paths[operation.path] ??= {};
+    paths[operation.path][operation.method] = {
+      operationId: operation.operationId,
+      summary: operation.summary,
+      description: `Requires the \`${operation.permission}\` permission.`,
+      parameters: operation.parameters,
+      requestBody: operation.requestSchema
+        ? { required: true, content: { 'application/json': { schema: ref(operation.requestSchema) } } }
+        : undefined,
+      responses,
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Splint Factory API',
+      version: '1',
+      description: 'Design jobs, print jobs and designs for partner systems. Authenticate with an organization-scoped API key as a Bearer token. Errors use one envelope: { error: { code, message, fieldErrors? } }. Lists are paginated with limit and cursor.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ apiKey: [] }],
+    paths,
+    components: {
+      securitySchemes: { apiKey: { type: 'http', scheme: 'bearer' } },
+      schemas,
+      responses: Object.fromEntries(Object.entries(ERROR_DESCRIPTIONS).map(([status, description]) => [
+        `Error${status}`,
+        { description, content: { 'application/json': { schema: ref('Error') } } },
+      ])),
+    },
+  };
+}
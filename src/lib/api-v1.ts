@@ -0,0 +1,331 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { validateApiKey, checkApiPermission } from '@/lib/api-auth';
+import type { ApiKeyScope } from '@/lib/api-key-scopes';
+import type { DesignRegistryEntry } from '@/designs/types';
+import type { FieldErrors } from '@/lib/formValidation';
+import {
+  API_V1_PAGE_DEFAULT_LIMIT,
+  API_V1_PAGE_MAX_LIMIT,
+  type DesignJobStatus,
+  type JsonSchema,
+  type PrintJobStatus,
+} from '@/lib/api-v1-schema';
+
+// Shared plumbing for the /api/v1 routes: every error goes out as
+// { error: { code, message, fieldErrors? } }, every success as { data } (plus nextCursor
+// on lists), and resources are mapped from rows here rather than returning Prisma shapes.
+
+export type ApiV1ErrorCode = 'invalid_request' | 'unauthorized' | 'forbidden' | 'not_found' | 'internal_error';
+
+const ERROR_STATUS: Record<ApiV1ErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  internal_error: 500,
+};
+
+export function apiV1Error(code: ApiV1ErrorCode, message: string, fieldErrors?: FieldErrors): NextResponse {
+  return NextResponse.json(
+    { error: { code, message, ...(fieldErrors && Object.keys(fieldErrors).length > 0 ? { fieldErrors } : {}) } },
+    { status: ERROR_STATUS[code] },
+  );
+}
+
+export function apiV1InternalError(context: string, error: unknown): NextResponse {
+  console.error(`Error in API v1 ${context}:`, error);
+  return apiV1Error('internal_error', 'Internal server error');
+}
+
+export interface ApiV1Caller {
+  apiKeyId: string;
+  apiKeyName: string;
+  organizationId: string;
+  createdBy: string;
+}
+
+// Every v1 resource belongs to an organization, so keys must be scoped to one.
+export async function authenticateApiV1(
+  request: NextRequest,
+  permission: ApiKeyScope,
+): Promise<{ caller: ApiV1Caller; response?: never } | { caller?: never; response: NextResponse }> {
+  const apiAuth = await validateApiKey(request);
+  if (!apiAuth.success || !apiAuth.apiKey) {
+    return { response: apiV1Error('unauthorized', apiAuth.error || 'Invalid API key') };
+  }
+  if (!checkApiPermission(apiAuth.apiKey, permission)) {
+    return { response: apiV1Error('forbidden', `API key lacks the ${permission} permission`) };
+  }
+  if (!apiAuth.apiKey.organizationId) {
+    return { response: apiV1Error('forbidden', 'API key must be scoped to an organization') };
+  }
+  return {
+    caller: {
+      apiKeyId: apiAuth.apiKey.id,
+      apiKeyName: apiAuth.apiKey.name,
+      organizationId: apiAuth.apiKey.organizationId,
+      createdBy: apiAuth.apiKey.createdBy,
+    },
+  };
+}
+
+// Cursors are opaque to clients: the sort key of the last item on the page.
+function encodeCursor(values: string[]): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+// What each cursor value must be; a 'date' value reaches Prisma as a Date.
+export type ApiV1CursorShape = ReadonlyArray<'string' | 'date'>;
+
+// Lists ordered by createdAt desc, id desc (see createdBeforeCursor).
+export const CREATED_AT_CURSOR: ApiV1CursorShape = ['date', 'string'];
+
+function decodeCursor(cursor: string, shape: ApiV1CursorShape): string[] | null {
+  try {
+    const values: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    return Array.isArray(values)
+      && values.length === shape.length
+      && values.every((value, i) => typeof value === 'string' && (shape[i] !== 'date' || !Number.isNaN(Date.parse(value))))
+      ? values
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface ApiV1PageParams {
+  limit: number;
+  // Decoded sort key of the previous page's last item.
+  after: string[] | null;
+}
+
+export function parseApiV1PageParams(
+  request: NextRequest,
+  cursorShape: ApiV1CursorShape,
+): { page: ApiV1PageParams; response?: never } | { page?: never; response: NextResponse } {
+  const params = request.nextUrl.searchParams;
+  const rawLimit = params.get('limit');
+  const limit = rawLimit === null ? API_V1_PAGE_DEFAULT_LIMIT : Number(rawLimit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > API_V1_PAGE_MAX_LIMIT) {
+    return {
+      response: apiV1Error('invalid_request', `limit must be a whole number from 1 to ${API_V1_PAGE_MAX_LIMIT}`, {
+        limit: `Must be a whole number from 1 to ${API_V1_PAGE_MAX_LIMIT}`,
+      }),
+    };
+  }
+  const rawCursor = params.get('cursor');
+  const after = rawCursor ? decodeCursor(rawCursor, cursorShape) : null;
+  if (rawCursor && !after) {
+    return { response: apiV1Error('invalid_request', 'cursor is not a cursor from this list', { cursor: 'Unrecognized cursor' }) };
+  }
+  return { page: { limit, after } };
+}
+
+// Rows are fetched with take: limit + 1; the extra row only says there is another page.
+export function apiV1Page<Row, Resource>(
+  rows: Row[],
+  limit: number,
+  cursorOf: (row: Row) => string[],
+  toResource: (row: Row) => Resource,
+): NextResponse {
+  const pageRows = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeCursor(cursorOf(pageRows[pageRows.length - 1])) : null;
+  return NextResponse.json({ data: pageRows.map(toResource), nextCursor });
+}
+
+// Keyset condition for lists ordered by createdAt desc, id desc.
+export function createdBeforeCursor(after: string[] | null) {
+  if (!after) return {};
+  const [createdAt, id] = after;
+  return {
+    OR: [
+      { createdAt: { lt: new Date(createdAt) } },
+      { createdAt: new Date(createdAt), id: { lt: id } },
+    ],
+  };
+}
+
+export const createdAtCursor = (row: { createdAt: Date; id: string }) => [row.createdAt.toISOString(), row.id];
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+// Validates against the JsonSchema subset the v1 schemas use. Errors are keyed by the
+// property path, like the design validators' field errors.
+function validateValue(schema: JsonSchema, value: unknown, path: string, errors: FieldErrors): void {
+  const key = path || 'body';
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    if (!allowed.includes(actual as never) && !(actual === 'integer' && allowed.includes('number'))) {
+      errors[key] = `Must be ${allowed.join(' or ')}`;
+      return;
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value as string | null)) {
+    errors[key] = `Must be one of ${schema.enum.join(', ')}`;
+    return;
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors[key] = schema.minLength === 1 ? 'Must not be empty' : `Must be at least ${schema.minLength} characters`;
+    } else if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors[key] = `Must be ${schema.maxLength} characters or less`;
+    }
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors[key] = `Must be at least ${schema.minimum}`;
+    if (schema.maximum !== undefined && value > schema.maximum) errors[key] = `Must be at most ${schema.maximum}`;
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validateValue(schema.items!, item, `${key}.${index}`, errors));
+  }
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const prefix = path ? `${path}.` : '';
+    for (const name of schema.required ?? []) {
+      if (object[name] === undefined) errors[`${prefix}${name}`] = 'Required';
+    }
+    for (const [name, propertyValue] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[name];
+      if (propertySchema) {
+        validateValue(propertySchema, propertyValue, `${prefix}${name}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors[`${prefix}${name}`] = 'Unknown property';
+      }
+    }
+  }
+}
+
+// Parse and validate a JSON request body against its published schema.
+export async function validateApiV1Body<T>(
+  request: NextRequest,
+  schema: JsonSchema,
+): Promise<{ body: T; response?: never } | { body?: never; response: NextResponse }> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { response: apiV1Error('invalid_request', 'Body must be valid JSON') };
+  }
+  const errors: FieldErrors = {};
+  validateValue(schema, body, '', errors);
+  if (Object.keys(errors).length > 0) {
+    const summary = Object.entries(errors).map(([key, message]) => `${key}: ${message}`).join('; ');
+    return { response: apiV1Error('invalid_request', `Invalid request: ${summary}`, errors) };
+  }
+  return { body: body as T };
+}
+
+export function toDesignResource(design: DesignRegistryEntry) {
+  return {
+    id: design.id,
+    name: design.name,
+    slug: design.slug,
+    shortDescription: design.shortDescription,
+    category: design.category,
+    definitionVersion: design.definitionVersion,
+    inputParameters: design.inputParameters,
+  };
+}
+
+export const apiV1DesignJobSelect = {
+  id: true,
+  objectId: true,
+  designId: true,
+  jobLabel: true,
+  importKey: true,
+  batchId: true,
+  inputParameters: true,
+  isEnabled: true,
+  isProcessSuccessful: true,
+  failureReason: true,
+  createdAt: true,
+  processStartedAt: true,
+  processCompletedAt: true,
+  design: { select: { name: true } },
+} as const;
+
+export type ApiV1DesignJobRow = Prisma.DesignJobGetPayload<{ select: typeof apiV1DesignJobSelect }>;
+
+function designJobStatus(job: ApiV1DesignJobRow): DesignJobStatus {
+  if (!job.isEnabled) return 'disabled';
+  if (job.processCompletedAt) return job.isProcessSuccessful ? 'completed' : 'failed';
+  return job.processStartedAt ? 'processing' : 'pending';
+}
+
+export function toDesignJobResource(job: ApiV1DesignJobRow) {
+  return {
+    id: job.id,
+    objectId: job.objectId,
+    designId: job.designId,
+    designName: job.design.name,
+    jobLabel: job.jobLabel,
+    idempotencyKey: job.importKey,
+    batchId: job.batchId,
+    status: designJobStatus(job),
+    // Always stored as canonical-unit JSON by prepareDesignJobInput().
+    inputParameters: JSON.parse(job.inputParameters) as Record<string, unknown>,
+    failureReason: job.failureReason,
+    createdAt: job.createdAt,
+    processStartedAt: job.processStartedAt,
+    processCompletedAt: job.processCompletedAt,
+  };
+}
+
+export const apiV1PrintJobSelect = {
+  id: true,
+  designJobId: true,
+  isEnabled: true,
+  state: true,
+  isPrintSuccessful: true,
+  printAcceptance: true,
+  progress: true,
+  createdAt: true,
+  printStartedAt: true,
+  printCompletedAt: true,
+  designJob: { select: { objectId: true, jobLabel: true } },
+} as const;
+
+type ApiV1PrintJobRow = Prisma.PrintJobGetPayload<{ select: typeof apiV1PrintJobSelect }>;
+
+// The v1 status predates PrintJobState and stays coarser: review states report how the
+// print itself went.
+function printJobStatus(print: ApiV1PrintJobRow): PrintJobStatus {
+  if (!print.isEnabled) return 'disabled';
+  switch (print.state) {
+    case 'QUEUED':
+    case 'SENT':
+      return 'queued';
+    case 'PRINTING':
+    case 'PAUSED':
+      return 'printing';
+    case 'COMPLETED':
+      return 'completed';
+    case 'FAILED':
+      return 'failed';
+    default:
+      if (!print.printCompletedAt) return 'queued';
+      return print.isPrintSuccessful ? 'completed' : 'failed';
+  }
+}
+
+export function toPrintJobResource(print: ApiV1PrintJobRow) {
+  return {
+    id: print.id,
+    designJobId: print.designJobId,
+    objectId: print.designJob.objectId,
+    jobLabel: print.designJob.jobLabel,
+    status: printJobStatus(print),
+    acceptance: print.printAcceptance,
+    progress: print.progress,
+    createdAt: print.createdAt,
+    printStartedAt: print.printStartedAt,
+    printCompletedAt: print.printCompletedAt,
+  };
+}
@@ -127,7 +127,11 @@ async function cleanupIntermediatePrintPhotos(): Promise<void> {
     const toDelete = job.photos.slice(0, -1); // keep only the last photo
     if (toDelete.length === 0) continue;
     for (const photo of toDelete) {
-      if (photo.photoPathname) {
+      // Plate photos are shared by every member; the last member to let go deletes the blob.
+      const sharedWith = photo.photoPathname
+        ? await prisma.printJobPhoto.count({ where: { photoPathname: photo.photoPathname, id: { not: photo.id } } })
+        : 0;
+      if (photo.photoPathname && sharedWith === 0) {
         await storage.delete(photo.photoPathname).catch((e) =>
           console.warn(`[DailyDigest] Failed to delete photo blob ${photo.photoPathname}:`, e)
         );
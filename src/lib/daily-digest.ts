@@ -4,9 +4,15 @@ import {
   type OrgPrintStats,
   type MoreInfoSummary,
   type ProcessorHealthSummary,
+  type ProcessorDigestEntry,
+  type WaitingAlgorithmEntry,
   type NewUserSummary,
 } from '@/emails/daily-digest';
 import { HEALTH_CHECK_JOB_LABEL_PREFIX, type ProcessorHealthCheckOutcome } from '@/lib/processor-health-check';
+import { getOnlineProcessorCapabilities } from '@/lib/geo-processor-health';
+import { isActivePrintState } from '@/lib/print-state';
+import { isWaitingForCapableProcessor } from '@/lib/processor-capabilities';
+import { buildClaimableDesignJobWhere } from '@/lib/design-job-lease';
 
 export function buildAdminUrl(): string {
   const base = process.env.NEXTAUTH_URL || 'http://localhost:3000';
@@ -35,6 +41,40 @@ function parseSelfCheckSource(jobLabel: string | null): string | null {
   return source.length > 0 ? source : null;
 }
 
+// Claimable jobs that no online processor can run. Empty when nothing is online;
+// the offline section already covers that case.
+async function gatherWaitingForCapableProcessor(now: Date): Promise<WaitingAlgorithmEntry[]> {
+  const onlineCapabilities = await getOnlineProcessorCapabilities();
+  if (onlineCapabilities.length === 0) {
+    return [];
+  }
+
+  const queuedJobs = await prisma.designJob.findMany({
+    where: buildClaimableDesignJobWhere(now),
+    select: {
+      designId: true,
+      generatorVersionSnapshot: true,
+      design: { select: { algorithmName: true } },
+    },
+  });
+
+  const counts = new Map<string, number>();
+  for (const job of queuedJobs) {
+    const routable = {
+      designId: job.designId,
+      algorithmName: job.design.algorithmName,
+      generatorVersionSnapshot: job.generatorVersionSnapshot,
+    };
+    if (isWaitingForCapableProcessor(onlineCapabilities, routable)) {
+      counts.set(routable.algorithmName, (counts.get(routable.algorithmName) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(counts.entries())
+    .map(([algorithmName, jobCount]) => ({ algorithmName, jobCount }))
+    .sort((a, b) => a.algorithmName.localeCompare(b.algorithmName));
+}
+
 export async function gatherDigestData(
   since: Date,
   options: { digestSelfCheck?: ProcessorHealthCheckOutcome | null } = {},
@@ -45,7 +85,7 @@ export async function gatherDigestData(
   processor: ProcessorHealthSummary;
   newUsers: NewUserSummary;
 }> {
-  const [designJobRows, printRows, moreInfoRows, heartbeat, latestSelfCheck, latestCompletedSelfCheck, newUserRows, totalUsers, totalOrgs] = await Promise.all([
+  const [designJobRows, printRows, failureRows, moreInfoRows, heartbeats, latestSelfCheck, latestCompletedSelfCheck, newUserRows, totalUsers, totalOrgs] = await Promise.all([
     // Design jobs completed (or in-progress) in the window
     prisma.designJob.findMany({
       where: {
@@ -65,11 +105,32 @@ export async function gatherDigestData(
     prisma.printJob.findMany({
       where: { createdAt: { gte: since } },
       select: {
+        id: true,
+        state: true,
         isPrintSuccessful: true,
-        printAcceptance: true,
         printCompletedAt: true,
         designJob: {
-          select: { owningOrganization: { select: { name: true } } },
+          select: { objectId: true, jobLabel: true, owningOrganization: { select: { name: true } } },
+        },
+      },
+    }),
+
+    // Prints that failed or were cancelled in the window, whenever they were queued. A print
+    // already reviewed since still counts if the printer reported the failure in the window.
+    prisma.printJob.findMany({
+      where: {
+        failureReason: { not: null },
+        OR: [
+          { state: 'FAILED', stateChangedAt: { gte: since } },
+          { interruptions: { some: { kind: { in: ['FAILED', 'CANCELLED'] }, createdAt: { gte: since } } } },
+        ],
+      },
+      orderBy: { stateChangedAt: 'asc' },
+      select: {
+        id: true,
+        failureReason: true,
+        designJob: {
+          select: { objectId: true, jobLabel: true, owningOrganization: { select: { name: true } } },
         },
       },
     }),
@@ -80,8 +141,11 @@ export async function gatherDigestData(
       select: { name: true, data: true },
     }),
 
-    // Processor heartbeat
-    prisma.processorHeartbeat.findFirst({ where: { id: 'geo_processor' } }),
+    // Processor heartbeats (retired processors are left out of the digest)
+    prisma.processorHeartbeat.findMany({
+      where: { isActive: true },
+      orderBy: { name: 'asc' },
+    }),
 
     // Latest processor self-check job created by admin or digest automation
     prisma.designJob.findFirst({
@@ -150,23 +214,36 @@ export async function gatherDigestData(
 
   // -- Prints by org --
   const printByOrg = new Map<string, OrgPrintStats>();
-  for (const print of printRows) {
-    const org = print.designJob.owningOrganization.name;
+  const printStatsFor = (org: string): OrgPrintStats => {
     if (!printByOrg.has(org)) {
-      printByOrg.set(org, { orgName: org, total: 0, succeeded: 0, failed: 0, accepted: 0, rejected: 0, pending: 0 });
+      printByOrg.set(org, { orgName: org, total: 0, succeeded: 0, failed: 0, accepted: 0, rejected: 0, pending: 0, failures: [] });
     }
-    const s = printByOrg.get(org)!;
+    return printByOrg.get(org)!;
+  };
+  for (const print of printRows) {
+    const s = printStatsFor(print.designJob.owningOrganization.name);
     s.total += 1;
-    if (print.printCompletedAt == null) {
+    // Reviewed prints keep their print outcome in the completion fields; a design rejected
+    // before it printed never finished, so it stays pending.
+    if (print.state === 'COMPLETED') {
+      s.succeeded += 1;
+    } else if (print.state === 'FAILED') {
+      s.failed += 1;
+    } else if (isActivePrintState(print.state) || print.printCompletedAt == null) {
       s.pending += 1;
     } else if (print.isPrintSuccessful) {
       s.succeeded += 1;
     } else {
       s.failed += 1;
     }
-    if (print.printAcceptance === 'ACCEPTED') s.accepted += 1;
-    // REJECT_PRINT and REJECT_DESIGN are the current values; REJECTED is legacy
-    if (['REJECTED', 'REJECT_PRINT', 'REJECT_DESIGN'].includes(print.printAcceptance ?? '')) s.rejected += 1;
+    if (print.state === 'ACCEPTED') s.accepted += 1;
+    if (print.state === 'REJECTED') s.rejected += 1;
+  }
+  for (const print of failureRows) {
+    printStatsFor(print.designJob.owningOrganization.name).failures.push({
+      label: print.designJob.objectId || print.designJob.jobLabel || print.id,
+      reason: print.failureReason!,
+    });
   }
 
   // -- More-info summary --
@@ -180,15 +257,26 @@ export async function gatherDigestData(
 
   // -- Processor health --
   const now = new Date();
-  const currentlyOnline = heartbeat?.lastPingAt
-    ? now.getTime() - heartbeat.lastPingAt.getTime() < 3 * 60 * 1000
-    : false;
-  const wasOffline = Boolean(heartbeat?.offlineSince && heartbeat.offlineSince >= since)
-    || (!currentlyOnline && heartbeat?.lastPingAt && heartbeat.lastPingAt >= since);
-  let offlineDurationMinutes: number | null = null;
-  if (heartbeat?.offlineSince && heartbeat.offlineSince >= since) {
-    offlineDurationMinutes = Math.round((now.getTime() - heartbeat.offlineSince.getTime()) / 60000);
-  }
+  const processorEntries: ProcessorDigestEntry[] = heartbeats.map((heartbeat) => {
+    const currentlyOnline = heartbeat.lastPingAt
+      ? now.getTime() - heartbeat.lastPingAt.getTime() < 3 * 60 * 1000
+      : false;
+    const wasOffline = Boolean(heartbeat.offlineSince && heartbeat.offlineSince >= since)
+      || Boolean(!currentlyOnline && heartbeat.lastPingAt && heartbeat.lastPingAt >= since);
+    const offlineDurationMinutes = heartbeat.offlineSince && heartbeat.offlineSince >= since
+      ? Math.round((now.getTime() - heartbeat.offlineSince.getTime()) / 60000)
+      : null;
+    return { name: heartbeat.name, currentlyOnline, wasOffline, offlineDurationMinutes };
+  });
+
+  // The service is online while any processor is; an outage means all were down.
+  const currentlyOnline = processorEntries.some((entry) => entry.currentlyOnline);
+  const wasOffline = processorEntries.some((entry) => entry.wasOffline);
+  const offlineDurations = processorEntries
+    .map((entry) => entry.offlineDurationMinutes)
+    .filter((minutes): minutes is number => minutes !== null);
+  const offlineDurationMinutes = offlineDurations.length > 0 ? Math.max(...offlineDurations) : null;
+  const waitingForCapableProcessor = await gatherWaitingForCapableProcessor(now);
   const completedSelfCheckStatus = latestCompletedSelfCheck
     ? latestCompletedSelfCheck.isProcessSuccessful
       ? 'PASSED'
@@ -199,9 +287,11 @@ export async function gatherDigestData(
   const digestSelfCheck = options.digestSelfCheck ?? null;
 
   const processor: ProcessorHealthSummary = {
-    wasOffline: Boolean(wasOffline),
+    wasOffline,
     offlineDurationMinutes,
     currentlyOnline,
+    processors: processorEntries,
+    waitingForCapableProcessor,
     digestSelfCheckStatus: digestSelfCheck?.status ?? 'NOT_RUN',
     digestSelfCheckObjectId: digestSelfCheck?.objectId ?? null,
     digestSelfCheckDurationSeconds: digestSelfCheck?.durationSeconds ?? null,
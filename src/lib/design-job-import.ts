@@ -0,0 +1,113 @@
+import { parseCsv } from '@/lib/csv';
+import type { InputParameter } from '@/types/design-input-parameter';
+import type { FieldErrors } from '@/lib/formValidation';
+
+// Partner systems push orders in chunks; larger imports should be split.
+export const IMPORT_MAX_ROWS = 200;
+export const IMPORT_KEY_MAX_LENGTH = 100;
+
+// CSV columns that are not design parameters.
+const IMPORT_KEY_COLUMN = 'idempotencyKey';
+const JOB_LABEL_COLUMN = 'jobLabel';
+
+export interface ImportRow {
+  idempotencyKey: unknown;
+  jobLabel: unknown;
+  inputParameters: unknown;
+}
+
+export type ImportRowResult =
+  | { row: number; idempotencyKey: string | null; status: 'created' | 'duplicate'; designJobId: string; objectId: string | null }
+  | { row: number; idempotencyKey: string | null; status: 'invalid'; error: string; fieldErrors?: FieldErrors };
+
+// A CSV cell as the parameter's type. Anything that doesn't convert is passed through as
+// text so the design validator reports it.
+function fromCsvCell(param: InputParameter, cell: string): unknown {
+  const value = cell.trim();
+  if (value === '') return '';
+  switch (param.InputType) {
+    case 'Float':
+    case 'Integer': {
+      const parsed = Number(value);
+      return Number.isNaN(parsed) ? value : parsed;
+    }
+    case 'Boolean': {
+      const lower = value.toLowerCase();
+      if (['true', 'yes', '1'].includes(lower)) return true;
+      if (['false', 'no', '0'].includes(lower)) return false;
+      return value;
+    }
+    default:
+      return cell;
+  }
+}
+
+// Rows from a CSV body: a header row of `idempotencyKey`, optional `jobLabel`, and one
+// column per parameter InputName, then one job per line. Only flat designs can be
+// imported as CSV; the rest need JSON.
+export function parseCsvImport(
+  text: string,
+  params: InputParameter[],
+): { rows: ImportRow[]; error?: undefined } | { rows?: undefined; error: string } {
+  if (params.some((param) => param.InputType === 'Group' || param.InputType === 'Array')) {
+    return { error: 'This design has nested parameters; import it as JSON' };
+  }
+
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    return { error: 'CSV is empty' };
+  }
+  const columns = header.map((column) => column.trim());
+  const paramsByName = new Map(params.map((param) => [param.InputName, param]));
+  const unknown = columns.filter(
+    (column) => column !== IMPORT_KEY_COLUMN && column !== JOB_LABEL_COLUMN && !paramsByName.has(column),
+  );
+  if (unknown.length > 0) {
+    return { error: `Unknown CSV columns: ${unknown.join(', ')}` };
+  }
+  if (!columns.includes(IMPORT_KEY_COLUMN)) {
+    return { error: `CSV must have an ${IMPORT_KEY_COLUMN} column` };
+  }
+
+  return {
+    rows: lines.map((cells) => {
+      const row: ImportRow = { idempotencyKey: '', jobLabel: null, inputParameters: {} };
+      const inputParameters: Record<string, unknown> = {};
+      columns.forEach((column, index) => {
+        const cell = cells[index] ?? '';
+        if (column === IMPORT_KEY_COLUMN) {
+          row.idempotencyKey = cell.trim();
+        } else if (column === JOB_LABEL_COLUMN) {
+          row.jobLabel = cell.trim() || null;
+        } else {
+          inputParameters[column] = fromCsvCell(paramsByName.get(column)!, cell);
+        }
+      });
+      row.inputParameters = inputParameters;
+      return row;
+    }),
+  };
+}
+
+// Rows from a JSON body: an array of { idempotencyKey, jobLabel?, inputParameters }.
+export function parseJsonImport(body: unknown): { rows: ImportRow[]; error?: undefined } | { rows?: undefined; error: string } {
+  if (!Array.isArray(body)) {
+    return { error: 'JSON body must be an array of jobs' };
+  }
+  return {
+    rows: body.map((item) => {
+      const raw = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+      return { idempotencyKey: raw.idempotencyKey, jobLabel: raw.jobLabel ?? null, inputParameters: raw.inputParameters };
+    }),
+  };
+}
+
+export function validateImportKey(raw: unknown): string | null {
+  if (typeof raw !== 'string' || raw.trim() === '') {
+    return 'idempotencyKey is required';
+  }
+  if (raw.trim().length > IMPORT_KEY_MAX_LENGTH) {
+    return `idempotencyKey must be ${IMPORT_KEY_MAX_LENGTH} characters or less`;
+  }
+  return null;
+}
@@ -0,0 +1,69 @@
+import { summarizeFieldErrors } from '@/designs/validation';
+import { validatePresetDesignInputs, type DesignPresetData } from '@/designs/presets';
+import { isDefaultMeasurementMode, type EnteredInputParameters, type MeasurementMode } from '@/designs/units';
+import type { DesignRegistryEntry } from '@/designs/types';
+import type { FieldErrors } from '@/lib/formValidation';
+
+export const JOB_LABEL_MAX_LENGTH = 20;
+// A batch is one order: a splint per finger, or per hand.
+export const BATCH_MAX_ROWS = 10;
+
+// A batch job's label: the shared prefix and the row's own label.
+export function buildBatchJobLabel(labelPrefix: string, rowLabel: string): string {
+  return [labelPrefix.trim(), rowLabel.trim()].filter(Boolean).join(' ');
+}
+
+// The DesignJob columns derived from a submitted payload.
+export interface PreparedDesignJobInput {
+  inputParameters: string;
+  enteredInputParameters: string | null;
+  definitionVersionSnapshot: number;
+  generatorVersionSnapshot: string;
+}
+
+export type PrepareDesignJobInputResult =
+  | { ok: true; data: PreparedDesignJobInput }
+  | { ok: false; error: string; fieldErrors?: FieldErrors };
+
+// Validate one job's inputParameters (a JSON string, or an object from the batch API)
+// against the design and the org preset, if any, and work out what to store. Shared by
+// POST /api/design-jobs and POST /api/design-jobs/batch so both enforce the same rules.
+export function prepareDesignJobInput(
+  design: DesignRegistryEntry,
+  rawInputParameters: unknown,
+  measurementMode: MeasurementMode,
+  preset: DesignPresetData | null,
+): PrepareDesignJobInputResult {
+  const submitted = typeof rawInputParameters === 'string' ? rawInputParameters : JSON.stringify(rawInputParameters);
+  let inputData: unknown;
+  try {
+    inputData = JSON.parse(submitted);
+  } catch {
+    return { ok: false, error: 'Invalid geometry input parameters: inputParameters must be valid JSON' };
+  }
+
+  const validation = validatePresetDesignInputs(design, preset, inputData, measurementMode);
+  if (!validation.valid) {
+    return {
+      ok: false,
+      error: `Invalid geometry input parameters: ${summarizeFieldErrors(validation.errors)}`,
+      fieldErrors: validation.errors,
+    };
+  }
+
+  // With a non-default measurementMode, inputParameters holds the values as entered
+  // (cm, inches, diameters); they are normalized to canonical units before storage.
+  return {
+    ok: true,
+    data: {
+      inputParameters: isDefaultMeasurementMode(measurementMode) && !preset
+        ? submitted
+        : JSON.stringify(validation.values),
+      enteredInputParameters: isDefaultMeasurementMode(measurementMode)
+        ? null
+        : JSON.stringify({ measurementMode, values: validation.enteredValues } satisfies EnteredInputParameters),
+      definitionVersionSnapshot: design.definitionVersion,
+      generatorVersionSnapshot: design.generatorVersion,
+    },
+  };
+}
@@ -0,0 +1,271 @@
+import type { NextRequest } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { logAuditEvent } from '@/lib/audit';
+import { emitDesignJobWebhookEvent } from '@/lib/webhooks';
+
+const DEFAULT_LEASE_MS = 10 * 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+// How many queue-head candidates a claim tries before giving up. Losing a race on
+// one row just moves on to the next, so this only needs to cover concurrent workers.
+const CLAIM_CANDIDATE_BATCH_SIZE = 5;
+
+export const WORKER_ID_HEADER = 'x-worker-id';
+const MAX_WORKER_ID_LENGTH = 128;
+
+function getPositiveIntFromEnv(name: string, fallback: number): number {
+  const rawValue = process.env[name];
+  const parsed = rawValue ? Number(rawValue) : NaN;
+
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return fallback;
+  }
+
+  return Math.floor(parsed);
+}
+
+export function getDesignJobLeaseMs(): number {
+  return getPositiveIntFromEnv('DESIGN_JOB_LEASE_MS', DEFAULT_LEASE_MS);
+}
+
+export function getDesignJobMaxAttempts(): number {
+  return getPositiveIntFromEnv('DESIGN_JOB_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS);
+}
+
+// Worker identity comes from the X-Worker-Id header (or ?workerId=) so several
+// processors can share one API key; falls back to the caller's own identity.
+export function resolveWorkerId(request: NextRequest, fallback: string): string {
+  const raw = request.headers.get(WORKER_ID_HEADER)
+    ?? request.nextUrl.searchParams.get('workerId')
+    ?? '';
+  const trimmed = raw.trim();
+  if (!trimmed) return fallback;
+  return trimmed.slice(0, MAX_WORKER_ID_LENGTH);
+}
+
+// Jobs waiting for a worker: enabled, not completed, and either never leased
+// or holding a lease that has lapsed.
+export function buildClaimableDesignJobWhere(now: Date): Prisma.DesignJobWhereInput {
+  return {
+    isEnabled: true,
+    processCompletedAt: null,
+    OR: [
+      { leaseExpiresAt: null },
+      { leaseExpiresAt: { lt: now } },
+    ],
+  };
+}
+
+export const claimedDesignJobInclude = {
+  design: {
+    select: {
+      name: true,
+      algorithmName: true,
+    },
+  },
+  creator: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  owningOrganization: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.DesignJobInclude;
+
+export type ClaimedDesignJob = Prisma.DesignJobGetPayload<{ include: typeof claimedDesignJobInclude }>;
+
+// Fail jobs whose lease lapsed on their final attempt. Runs before every claim so
+// an exhausted job never gets handed out again.
+export async function failExhaustedDesignJobs(now: Date = new Date()): Promise<number> {
+  const maxAttempts = getDesignJobMaxAttempts();
+  const where: Prisma.DesignJobWhereInput = {
+    isEnabled: true,
+    processCompletedAt: null,
+    leaseExpiresAt: { lt: now },
+    attemptCount: { gte: maxAttempts },
+  };
+
+  const exhausted = await prisma.designJob.findMany({
+    where,
+    select: {
+      id: true,
+      objectId: true,
+      leaseOwner: true,
+      attemptCount: true,
+      owningOrganizationId: true,
+    },
+  });
+
+  if (exhausted.length === 0) {
+    return 0;
+  }
+
+  const failureReason = `Processor lease expired ${maxAttempts} time(s) without a result; giving up.`;
+
+  // Re-apply the same predicate so a job renewed since the read is left alone.
+  const result = await prisma.designJob.updateMany({
+    where: { ...where, id: { in: exhausted.map((job) => job.id) } },
+    data: {
+      processCompletedAt: now,
+      isProcessSuccessful: false,
+      failureReason,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+    },
+  });
+
+  for (const job of exhausted) {
+    console.warn(`Design job ${job.id} failed after ${job.attemptCount} attempt(s); last lease owner ${job.leaseOwner ?? 'unknown'}`);
+    logAuditEvent({
+      eventType: 'DESIGN_JOB_RETRIES_EXHAUSTED',
+      channel: 'SYSTEM',
+      organizationId: job.owningOrganizationId,
+      metadata: {
+        designJobId: job.id,
+        objectId: job.objectId,
+        attemptCount: job.attemptCount,
+        lastLeaseOwner: job.leaseOwner,
+      },
+    });
+    emitDesignJobWebhookEvent(job.id, 'design_job.failed');
+  }
+
+  return result.count;
+}
+
+// Queue order: the highest-priority tier that has claimable work, then round-robin
+// across organizations within it (the organization whose job last started longest
+// ago goes first), then that organization's oldest job. One busy clinic's batch
+// therefore can't starve everyone else at the same priority.
+async function findDesignJobCandidateIds(where: Prisma.DesignJobWhereInput, take: number): Promise<string[]> {
+  const head = await prisma.designJob.findFirst({
+    where,
+    select: { priority: true },
+    orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  if (!head) {
+    return [];
+  }
+
+  const oldestPerOrganization = await prisma.designJob.findMany({
+    where: { AND: [where, { priority: head.priority }] },
+    select: { id: true, owningOrganizationId: true, createdAt: true },
+    orderBy: { createdAt: 'asc' },
+    distinct: ['owningOrganizationId'],
+  });
+
+  const lastServed = await prisma.designJob.groupBy({
+    by: ['owningOrganizationId'],
+    where: {
+      owningOrganizationId: { in: oldestPerOrganization.map((job) => job.owningOrganizationId) },
+      processStartedAt: { not: null },
+    },
+    _max: { processStartedAt: true },
+  });
+  const lastServedAt = new Map(
+    lastServed.map((row) => [row.owningOrganizationId, row._max.processStartedAt?.getTime() ?? 0]),
+  );
+
+  return oldestPerOrganization
+    .sort((a, b) => (
+      (lastServedAt.get(a.owningOrganizationId) ?? 0) - (lastServedAt.get(b.owningOrganizationId) ?? 0)
+      || a.createdAt.getTime() - b.createdAt.getTime()
+    ))
+    .slice(0, take)
+    .map((job) => job.id);
+}
+
+// Next job in queue order without taking a lease. Used for session-auth peeks so a
+// human looking at the queue never blocks a processor.
+export async function peekNextDesignJob(now: Date = new Date()): Promise<ClaimedDesignJob | null> {
+  const [nextId] = await findDesignJobCandidateIds(buildClaimableDesignJobWhere(now), 1);
+
+  if (!nextId) {
+    return null;
+  }
+
+  return prisma.designJob.findUnique({
+    where: { id: nextId },
+    include: claimedDesignJobInclude,
+  });
+}
+
+export interface ClaimDesignJobOptions {
+  leaseMs?: number;
+  // Extra restriction on which jobs this worker may take (e.g. its capabilities).
+  where?: Prisma.DesignJobWhereInput;
+}
+
+// Claim the next job in queue order for workerId. The claim is a conditional update
+// that re-checks claimability, so when two workers race for the same row exactly
+// one update matches and the loser moves on to the next candidate.
+export async function claimNextDesignJob(
+  workerId: string,
+  options: ClaimDesignJobOptions = {},
+): Promise<ClaimedDesignJob | null> {
+  const leaseMs = options.leaseMs ?? getDesignJobLeaseMs();
+  const now = new Date();
+  await failExhaustedDesignJobs(now);
+
+  const claimableWhere: Prisma.DesignJobWhereInput = options.where
+    ? { AND: [buildClaimableDesignJobWhere(now), options.where] }
+    : buildClaimableDesignJobWhere(now);
+
+  const candidateIds = await findDesignJobCandidateIds(claimableWhere, CLAIM_CANDIDATE_BATCH_SIZE);
+
+  for (const candidateId of candidateIds) {
+    const claimed = await prisma.$transaction(async (tx) => {
+      const result = await tx.designJob.updateMany({
+        where: { AND: [claimableWhere, { id: candidateId }] },
+        data: {
+          leaseOwner: workerId,
+          leaseExpiresAt: new Date(now.getTime() + leaseMs),
+          processStartedAt: now,
+          attemptCount: { increment: 1 },
+        },
+      });
+
+      if (result.count === 0) {
+        return null;
+      }
+
+      return tx.designJob.findUnique({
+        where: { id: candidateId },
+        include: claimedDesignJobInclude,
+      });
+    });
+
+    if (claimed) {
+      return claimed;
+    }
+  }
+
+  return null;
+}
+
+// Extend the lease held by workerId. Returns null when the worker no longer owns
+// the job (reclaimed by another worker, completed, or reprocessed).
+export async function renewDesignJobLease(
+  jobId: string,
+  workerId: string,
+  leaseMs: number = getDesignJobLeaseMs(),
+): Promise<Date | null> {
+  const leaseExpiresAt = new Date(Date.now() + leaseMs);
+  const result = await prisma.designJob.updateMany({
+    where: {
+      id: jobId,
+      leaseOwner: workerId,
+      processCompletedAt: null,
+    },
+    data: { leaseExpiresAt },
+  });
+
+  return result.count > 0 ? leaseExpiresAt : null;
+}
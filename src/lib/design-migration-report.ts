@@ -0,0 +1,108 @@
+import { prisma } from '@/lib/prisma';
+import { getAllDesigns } from '@/designs/registry';
+import { describeParameterDrift, hasParameterDrift } from '@/designs/definition-drift';
+import { checkStoredJobParameters } from '@/designs/parameter-migrations';
+import type { DesignRegistryEntry } from '@/designs/types';
+
+// Jobs are read in pages so a design with a long history doesn't load every payload at once.
+const DRY_RUN_BATCH_SIZE = 500;
+
+export interface MigrationFailure {
+  designJobId: string;
+  objectId: string | null;
+  jobLabel: string | null;
+  organizationName: string;
+  createdAt: Date;
+  isEnabled: boolean;
+  fromVersion: number;
+  // 'migration-error': a migration step threw. 'invalid-after-migration': the steps ran
+  // but the result still doesn't satisfy the current definition.
+  reason: 'migration-error' | 'invalid-after-migration';
+  details: string[];
+}
+
+export interface DesignMigrationReport {
+  designId: string;
+  designName: string;
+  currentVersion: number;
+  // Jobs created under an older definitionVersion.
+  outdatedJobCount: number;
+  migratableJobCount: number;
+  failures: MigrationFailure[];
+}
+
+async function buildDesignReport(design: DesignRegistryEntry): Promise<DesignMigrationReport> {
+  const report: DesignMigrationReport = {
+    designId: design.id,
+    designName: design.name,
+    currentVersion: design.definitionVersion,
+    outdatedJobCount: 0,
+    migratableJobCount: 0,
+    failures: [],
+  };
+
+  let cursor: string | undefined;
+  for (;;) {
+    const jobs = await prisma.designJob.findMany({
+      where: { designId: design.id, definitionVersionSnapshot: { lt: design.definitionVersion } },
+      select: {
+        id: true,
+        objectId: true,
+        jobLabel: true,
+        createdAt: true,
+        isEnabled: true,
+        inputParameters: true,
+        definitionVersionSnapshot: true,
+        generatorVersionSnapshot: true,
+        owningOrganization: { select: { name: true } },
+      },
+      orderBy: { id: 'asc' },
+      take: DRY_RUN_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    for (const job of jobs) {
+      report.outdatedJobCount++;
+      const { migration, drift } = checkStoredJobParameters(design, job);
+      const failure = !migration.ok
+        ? { reason: 'migration-error' as const, details: [migration.error] }
+        : hasParameterDrift(drift)
+        ? { reason: 'invalid-after-migration' as const, details: describeParameterDrift(drift) }
+        : null;
+
+      if (!failure) {
+        report.migratableJobCount++;
+        continue;
+      }
+      report.failures.push({
+        designJobId: job.id,
+        objectId: job.objectId,
+        jobLabel: job.jobLabel,
+        organizationName: job.owningOrganization.name,
+        createdAt: job.createdAt,
+        isEnabled: job.isEnabled,
+        fromVersion: job.definitionVersionSnapshot,
+        ...failure,
+      });
+    }
+
+    if (jobs.length < DRY_RUN_BATCH_SIZE) break;
+    cursor = jobs[jobs.length - 1].id;
+  }
+
+  return report;
+}
+
+// Dry run: migrate every job created under an older definition version in memory and
+// report the ones that would fail. Nothing is written.
+export async function buildDesignMigrationReport(designId?: string): Promise<DesignMigrationReport[]> {
+  const designs = getAllDesigns()
+    .filter((design) => !designId || design.id === designId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const reports: DesignMigrationReport[] = [];
+  for (const design of designs) {
+    reports.push(await buildDesignReport(design));
+  }
+  return reports;
+}
@@ -0,0 +1,123 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { DesignRegistryEntry } from '@/designs/types';
+import { PRESET_NAME_MAX_LENGTH, parsePresetFields, type DesignPresetData, type PresetFields } from '@/designs/presets';
+import type { FieldErrors } from '@/lib/formValidation';
+
+export const designPresetSelect = {
+  id: true,
+  name: true,
+  isDefault: true,
+  fields: true,
+  updatedAt: true,
+  createdBy: { select: { name: true, email: true } },
+} as const;
+
+type DesignPresetRow = Prisma.DesignPresetGetPayload<{ select: typeof designPresetSelect }>;
+
+export function toDesignPresetData(row: DesignPresetRow): DesignPresetData & {
+  updatedAt: Date;
+  createdBy: { name: string | null; email: string };
+} {
+  return {
+    id: row.id,
+    name: row.name,
+    isDefault: row.isDefault,
+    // Written only through parsePresetFields, so the stored shape is trusted.
+    fields: row.fields as unknown as PresetFields,
+    updatedAt: row.updatedAt,
+    createdBy: row.createdBy,
+  };
+}
+
+export async function findDesignPreset(organizationId: string, designId: string, presetId: string) {
+  const row = await prisma.designPreset.findFirst({
+    where: { id: presetId, organizationId, designId },
+    select: designPresetSelect,
+  });
+  return row ? toDesignPresetData(row) : null;
+}
+
+export interface PresetInput {
+  name: string;
+  isDefault: boolean;
+  fields: PresetFields;
+}
+
+// Validate a create/update body. On update, omitted properties keep their current values.
+export function parsePresetInput(
+  body: unknown,
+  design: DesignRegistryEntry,
+  current?: PresetInput,
+): { input: PresetInput; errors: FieldErrors } {
+  const raw = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const errors: FieldErrors = {};
+
+  const name = raw.name === undefined && current ? current.name : typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) {
+    errors.name = 'Preset name is required';
+  } else if (name.length > PRESET_NAME_MAX_LENGTH) {
+    errors.name = `Preset name must be ${PRESET_NAME_MAX_LENGTH} characters or less`;
+  }
+
+  const isDefault = raw.isDefault === undefined ? current?.isDefault ?? false : raw.isDefault;
+  if (typeof isDefault !== 'boolean') {
+    errors.isDefault = 'isDefault must be true or false';
+  }
+
+  const parsed = raw.fields === undefined && current
+    ? { fields: current.fields, errors: {} }
+    : parsePresetFields(raw.fields, design.inputParameters);
+
+  return {
+    input: { name, isDefault: isDefault === true, fields: parsed.fields },
+    errors: { ...errors, ...parsed.errors },
+  };
+}
+
+// Save a preset; making it the default clears the flag on the org's other presets for
+// the design.
+export async function saveDesignPreset(
+  organizationId: string,
+  designId: string,
+  input: PresetInput,
+  options: { presetId?: string; createdById: string },
+) {
+  const data = {
+    name: input.name,
+    isDefault: input.isDefault,
+    fields: input.fields as unknown as Prisma.InputJsonValue,
+  };
+
+  const row = await prisma.$transaction(async (tx) => {
+    if (input.isDefault) {
+      await tx.designPreset.updateMany({
+        where: { organizationId, designId, isDefault: true, ...(options.presetId ? { id: { not: options.presetId } } : {}) },
+        data: { isDefault: false },
+      });
+    }
+    return options.presetId
+      ? tx.designPreset.update({ where: { id: options.presetId }, data, select: designPresetSelect })
+      : tx.designPreset.create({
+          data: { ...data, organizationId, designId, createdById: options.createdById },
+          select: designPresetSelect,
+        });
+  });
+
+  return toDesignPresetData(row);
+}
+
+// Members of the organization can read its presets (the new-job form applies them);
+// its ORG_ADMINs and system admins can manage them.
+export async function getPresetAccess(userId: string, organizationId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, organizationId: true },
+  });
+  const isSystemAdmin = user?.role === 'SYSTEM_ADMIN';
+  const isMember = user?.organizationId === organizationId;
+  return {
+    canRead: isSystemAdmin || isMember,
+    canManage: isSystemAdmin || (isMember && user?.role === 'ORG_ADMIN'),
+  };
+}
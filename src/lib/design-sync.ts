@@ -0,0 +1,269 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getAllDesigns } from '@/designs/registry';
+import { registerInternalTask } from '@/lib/internal-task-scheduler';
+import type { DesignRegistryEntry } from '@/designs/types';
+
+// Designs are defined in code (src/designs) but DesignJob.designId still references the
+// Design table, so every code design needs a matching row. Reconciling upserts those rows
+// and deactivates rows whose design was removed from code, keeping them so old jobs still
+// resolve. It runs at deploy (scripts/sync-designs.ts), on server startup and on demand
+// from the admin page, which also shows any drift between the two.
+
+const DESIGN_SYNC_TASK_KEY = 'design-sync';
+const DEFAULT_SYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+export type DesignSyncIssueKind =
+  | 'missing'              // in code, no row yet
+  | 'name-mismatch'
+  | 'algorithm-mismatch'
+  | 'active-mismatch'
+  | 'name-conflict'        // another row already has this design's name; needs a manual fix
+  | 'removed-still-active'; // row whose design is gone from code but is still active
+
+export interface DesignSyncIssue {
+  designId: string;
+  designName: string;
+  kind: DesignSyncIssueKind;
+  codeValue?: string;
+  databaseValue?: string;
+}
+
+export interface RemovedDesign {
+  id: string;
+  name: string;
+  algorithmName: string;
+  isActive: boolean;
+  removedFromCodeAt: Date | null;
+  jobCount: number;
+}
+
+export interface DesignSyncReport {
+  issues: DesignSyncIssue[];
+  removedDesigns: RemovedDesign[];
+  lastSyncedAt: Date | null;
+}
+
+export interface DesignSyncResult {
+  created: string[];
+  updated: string[];
+  deactivated: string[];
+  conflicts: DesignSyncIssue[];
+}
+
+const designRowSelect = {
+  id: true,
+  name: true,
+  algorithmName: true,
+  shortDescription: true,
+  isActive: true,
+  removedFromCodeAt: true,
+  lastSyncedAt: true,
+} as const;
+
+type DesignRow = Prisma.DesignGetPayload<{ select: typeof designRowSelect }>;
+
+function findNameConflict(design: DesignRegistryEntry, rows: Iterable<DesignRow>): DesignRow | undefined {
+  for (const row of rows) {
+    if (row.id !== design.id && row.name === design.name) {
+      return row;
+    }
+  }
+  return undefined;
+}
+
+function nameConflictIssue(design: DesignRegistryEntry, holder: DesignRow): DesignSyncIssue {
+  return {
+    designId: design.id,
+    designName: design.name,
+    kind: 'name-conflict',
+    codeValue: design.id,
+    databaseValue: holder.id,
+  };
+}
+
+function rowNeedsUpdate(design: DesignRegistryEntry, row: DesignRow): boolean {
+  return row.name !== design.name
+    || row.algorithmName !== design.algorithmName
+    || row.shortDescription !== design.shortDescription
+    || row.isActive !== design.isActive
+    || row.removedFromCodeAt !== null;
+}
+
+// Read-only comparison of the Design table with the code registry.
+export async function getDesignSyncReport(): Promise<DesignSyncReport> {
+  const designs = getAllDesigns();
+  const codeIds = new Set(designs.map((design) => design.id));
+  const rows: DesignRow[] = await prisma.design.findMany({ select: designRowSelect });
+  const rowsById = new Map(rows.map((row) => [row.id, row]));
+
+  const issues: DesignSyncIssue[] = [];
+  for (const design of designs) {
+    const row = rowsById.get(design.id);
+    const holder = findNameConflict(design, rows);
+    if (holder) {
+      issues.push(nameConflictIssue(design, holder));
+    }
+    if (!row) {
+      if (!holder) {
+        issues.push({ designId: design.id, designName: design.name, kind: 'missing' });
+      }
+      continue;
+    }
+    if (row.name !== design.name) {
+      issues.push({ designId: design.id, designName: design.name, kind: 'name-mismatch', codeValue: design.name, databaseValue: row.name });
+    }
+    if (row.algorithmName !== design.algorithmName) {
+      issues.push({ designId: design.id, designName: design.name, kind: 'algorithm-mismatch', codeValue: design.algorithmName, databaseValue: row.algorithmName });
+    }
+    if (row.isActive !== design.isActive) {
+      issues.push({ designId: design.id, designName: design.name, kind: 'active-mismatch', codeValue: String(design.isActive), databaseValue: String(row.isActive) });
+    }
+  }
+
+  const removedRows = rows.filter((row) => !codeIds.has(row.id));
+  for (const row of removedRows) {
+    if (row.isActive) {
+      issues.push({ designId: row.id, designName: row.name, kind: 'removed-still-active' });
+    }
+  }
+
+  const jobCounts = removedRows.length > 0
+    ? await prisma.designJob.groupBy({
+        by: ['designId'],
+        where: { designId: { in: removedRows.map((row) => row.id) } },
+        _count: { _all: true },
+      })
+    : [];
+  const jobCountById = new Map(jobCounts.map((entry) => [entry.designId, entry._count._all]));
+
+  const lastSyncedAt = rows.reduce<Date | null>(
+    (latest, row) => (row.lastSyncedAt && (!latest || row.lastSyncedAt > latest) ? row.lastSyncedAt : latest),
+    null,
+  );
+
+  return {
+    issues,
+    removedDesigns: removedRows
+      .map((row) => ({
+        id: row.id,
+        name: row.name,
+        algorithmName: row.algorithmName,
+        isActive: row.isActive,
+        removedFromCodeAt: row.removedFromCodeAt,
+        jobCount: jobCountById.get(row.id) ?? 0,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    lastSyncedAt,
+  };
+}
+
+// Bring the Design table in line with the code registry. Idempotent.
+export async function reconcileDesigns(): Promise<DesignSyncResult> {
+  const designs = getAllDesigns();
+  const codeIds = new Set(designs.map((design) => design.id));
+  const rows: DesignRow[] = await prisma.design.findMany({ select: designRowSelect });
+  const rowsById = new Map(rows.map((row) => [row.id, row]));
+  const now = new Date();
+  const result: DesignSyncResult = { created: [], updated: [], deactivated: [], conflicts: [] };
+
+  // Deactivate removed designs first. Their rows (and names) stay so history still resolves.
+  for (const row of rows) {
+    if (codeIds.has(row.id) || (row.removedFromCodeAt && !row.isActive)) continue;
+    const updated = await prisma.design.update({
+      where: { id: row.id },
+      data: { isActive: false, removedFromCodeAt: row.removedFromCodeAt ?? now },
+      select: designRowSelect,
+    });
+    rowsById.set(row.id, updated);
+    result.deactivated.push(row.name);
+  }
+
+  // A rename can collide with a name another code design is giving up in the same run,
+  // so designs blocked by a conflict are retried until a pass makes no progress.
+  let pending = designs;
+  for (;;) {
+    const blocked: DesignRegistryEntry[] = [];
+    for (const design of pending) {
+      if (findNameConflict(design, rowsById.values())) {
+        blocked.push(design);
+        continue;
+      }
+
+      const row = rowsById.get(design.id);
+      const data = {
+        name: design.name,
+        algorithmName: design.algorithmName,
+        shortDescription: design.shortDescription,
+        isActive: design.isActive,
+        removedFromCodeAt: null,
+        lastSyncedAt: now,
+      };
+      const synced = await prisma.design.upsert({
+        where: { id: design.id },
+        update: data,
+        create: { id: design.id, ...data },
+        select: designRowSelect,
+      });
+      rowsById.set(design.id, synced);
+
+      if (!row) {
+        result.created.push(design.name);
+      } else if (rowNeedsUpdate(design, row)) {
+        result.updated.push(design.name);
+      }
+    }
+
+    if (blocked.length === 0 || blocked.length === pending.length) {
+      result.conflicts = blocked.map((design) => nameConflictIssue(design, findNameConflict(design, rowsById.values())!));
+      break;
+    }
+    pending = blocked;
+  }
+
+  return result;
+}
+
+export function describeDesignSyncResult(result: DesignSyncResult): string {
+  const parts = [
+    `${result.created.length} created`,
+    `${result.updated.length} updated`,
+    `${result.deactivated.length} deactivated`,
+  ];
+  if (result.conflicts.length > 0) {
+    parts.push(`${result.conflicts.length} name conflict(s)`);
+  }
+  return parts.join(', ');
+}
+
+function getSyncIntervalMs(): number {
+  const rawValue = process.env.DESIGN_SYNC_INTERVAL_MS;
+  const parsed = rawValue ? Number(rawValue) : NaN;
+
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return DEFAULT_SYNC_INTERVAL_MS;
+  }
+
+  return Math.floor(parsed);
+}
+
+async function runDesignSync(): Promise<void> {
+  const result = await reconcileDesigns();
+  if (result.created.length + result.updated.length + result.deactivated.length > 0) {
+    console.log(`[DesignSync] ${describeDesignSyncResult(result)}`);
+  }
+  if (result.conflicts.length > 0) {
+    throw new Error(`Name conflicts for ${result.conflicts.map((issue) => issue.designName).join(', ')}`);
+  }
+}
+
+export function registerDesignSyncTask(): void {
+  registerInternalTask({
+    key: DESIGN_SYNC_TASK_KEY,
+    label: 'Design Sync',
+    description: 'Upserts Design rows from the code registry and deactivates designs removed from code.',
+    intervalMs: getSyncIntervalMs(),
+    runOnStartup: true,
+    task: runDesignSync,
+  });
+}
@@ -0,0 +1,107 @@
+// Filament a design needs, and matching it against a printer's AMS trays as recorded in
+// PrinterSnapshot.amsConfig. Client-safe, pure logic: used by dispatch and the print
+// confirm modal alike.
+
+export const FILAMENT_MATERIALS = ['PLA', 'PETG', 'TPU', 'ABS', 'ASA', 'PA', 'PC'] as const;
+
+export type FilamentMaterial = typeof FILAMENT_MATERIALS[number];
+
+export interface FilamentRequirement {
+  material: FilamentMaterial;
+  // RRGGBB hex; omitted when any colour of the material will do.
+  color?: string;
+}
+
+export interface AmsTray {
+  // "AMS 1 tray 2", or "External spool" for the spool holder outside the AMS
+  slot: string;
+  // tray_type as the printer reports it, e.g. "PETG" or "PETG-CF"
+  material: string;
+  // RRGGBB, without the alpha byte the printer appends
+  color: string | null;
+}
+
+// 'unknown' means the snapshot has no tray data to judge by (no snapshot, or no AMS).
+export type FilamentMatchStatus = 'match' | 'color-mismatch' | 'missing' | 'unknown';
+
+export interface FilamentMatch {
+  status: FilamentMatchStatus;
+  // The tray that satisfies the requirement, or has the material in another colour.
+  tray: AmsTray | null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function normalizeColor(value: unknown): string | null {
+  if (typeof value !== 'string' || !/^[0-9a-f]{6}([0-9a-f]{2})?$/i.test(value)) {
+    return null;
+  }
+  return value.slice(0, 6).toUpperCase();
+}
+
+function slotNumber(value: unknown, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed + 1 : fallback + 1;
+}
+
+// Loaded trays from the `ams` block of a printer report: { ams: [{ id, tray: [{ id,
+// tray_type, tray_color }] }], vt_tray? }. Empty trays have no tray_type and are left out.
+// Returns null when the snapshot carries no AMS data at all.
+export function parseAmsTrays(amsConfig: unknown): AmsTray[] | null {
+  if (!isRecord(amsConfig) || !Array.isArray(amsConfig.ams)) {
+    return null;
+  }
+
+  const trays: AmsTray[] = [];
+  amsConfig.ams.forEach((unit, unitIndex) => {
+    if (!isRecord(unit) || !Array.isArray(unit.tray)) return;
+    const unitNumber = slotNumber(unit.id, unitIndex);
+    unit.tray.forEach((tray, trayIndex) => {
+      if (!isRecord(tray) || typeof tray.tray_type !== 'string' || !tray.tray_type) return;
+      trays.push({
+        slot: `AMS ${unitNumber} tray ${slotNumber(tray.id, trayIndex)}`,
+        material: tray.tray_type,
+        color: normalizeColor(tray.tray_color),
+      });
+    });
+  });
+
+  const external = amsConfig.vt_tray;
+  if (isRecord(external) && typeof external.tray_type === 'string' && external.tray_type) {
+    trays.push({ slot: 'External spool', material: external.tray_type, color: normalizeColor(external.tray_color) });
+  }
+
+  return trays;
+}
+
+// Variants count as their base material: "PETG-CF" and "PETG HF" are PETG.
+function isMaterial(trayMaterial: string, material: FilamentMaterial): boolean {
+  return trayMaterial.trim().toUpperCase().split(/[-\s]/)[0] === material;
+}
+
+export function matchFilament(requirement: FilamentRequirement, amsConfig: unknown): FilamentMatch {
+  const trays = parseAmsTrays(amsConfig);
+  if (!trays) {
+    return { status: 'unknown', tray: null };
+  }
+
+  const sameMaterial = trays.filter((tray) => isMaterial(tray.material, requirement.material));
+  if (sameMaterial.length === 0) {
+    return { status: 'missing', tray: null };
+  }
+
+  const wantedColor = normalizeColor(requirement.color);
+  if (!wantedColor) {
+    return { status: 'match', tray: sameMaterial[0] };
+  }
+  const sameColor = sameMaterial.find((tray) => tray.color === wantedColor);
+  return sameColor
+    ? { status: 'match', tray: sameColor }
+    : { status: 'color-mismatch', tray: sameMaterial[0] };
+}
+
+export function describeFilament(requirement: FilamentRequirement): string {
+  return requirement.color ? `${requirement.material} (#${requirement.color.toUpperCase()})` : requirement.material;
+}
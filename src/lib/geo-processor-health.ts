@@ -1,6 +1,6 @@
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
-
-export const PROCESSOR_HEARTBEAT_ID = 'geo_processor';
+import { parseProcessorCapabilities, type ProcessorCapability } from '@/lib/processor-capabilities';
 
 const DEFAULT_OFFLINE_THRESHOLD_MS = 120_000;
 const DEFAULT_OFFLINE_REMINDER_INTERVAL_MS = 60 * 60 * 1000;
@@ -27,6 +27,7 @@ export function getProcessorOfflineReminderIntervalMs(): number {
   return getPositiveIntFromEnv('PROCESSOR_OFFLINE_REMINDER_INTERVAL_MS', DEFAULT_OFFLINE_REMINDER_INTERVAL_MS);
 }
 
+// Fleet-level status: healthy when at least one active processor is polling.
 export interface ProcessorStatus {
   lastPingMs: number | null;
   lastPingTime: string | null;
@@ -38,89 +39,169 @@ export interface ProcessorStatus {
   keepWarmRemainingSeconds: number;
 }
 
+// Status of a single registered processor, as shown in the admin panel.
+export interface ProcessorInstanceStatus extends ProcessorStatus {
+  id: string;
+  name: string;
+  apiKeyId: string | null;
+  isActive: boolean;
+  // null until the processor advertises; such processors are offered every job.
+  capabilities: ProcessorCapability[] | null;
+  capabilitiesUpdatedAt: string | null;
+  currentJob: {
+    id: string;
+    objectId: string | null;
+    designName: string;
+  } | null;
+}
+
 export interface ProcessorHeartbeatSnapshot {
   id: string;
+  apiKeyId: string | null;
+  name: string;
+  isActive: boolean;
   lastPingAt: Date | null;
   offlineSince: Date | null;
   lastOfflineAlertSentAt: Date | null;
   warmUntil: Date | null;
+  currentJobId: string | null;
+  capabilities: Prisma.JsonValue | null;
+  capabilitiesUpdatedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export async function getOrCreateProcessorHeartbeat(): Promise<ProcessorHeartbeatSnapshot> {
-  return prisma.processorHeartbeat.upsert({
-    where: { id: PROCESSOR_HEARTBEAT_ID },
-    update: {},
-    create: { id: PROCESSOR_HEARTBEAT_ID },
+// The API key a processor polls with is its identity in the registry.
+export interface ProcessorIdentity {
+  apiKeyId: string;
+  name: string;
+}
+
+export async function listProcessorHeartbeats(
+  options: { includeInactive?: boolean } = {},
+): Promise<ProcessorHeartbeatSnapshot[]> {
+  return prisma.processorHeartbeat.findMany({
+    where: options.includeInactive ? {} : { isActive: true },
+    orderBy: { name: 'asc' },
   });
 }
 
-export async function updateProcessorPing(pingTime: Date = new Date()): Promise<void> {
-  await prisma.processorHeartbeat.upsert({
-    where: { id: PROCESSOR_HEARTBEAT_ID },
+// Record a poll. Registers the processor on first contact and keeps its name in
+// sync with the API key name so renaming the key renames the processor.
+export async function updateProcessorPing(
+  identity: ProcessorIdentity,
+  pingTime: Date = new Date(),
+): Promise<ProcessorHeartbeatSnapshot> {
+  return prisma.processorHeartbeat.upsert({
+    where: { apiKeyId: identity.apiKeyId },
     update: {
+      name: identity.name,
       lastPingAt: pingTime,
       offlineSince: null,
       lastOfflineAlertSentAt: null,
     },
     create: {
-      id: PROCESSOR_HEARTBEAT_ID,
+      apiKeyId: identity.apiKeyId,
+      name: identity.name,
       lastPingAt: pingTime,
     },
   });
 }
 
-export async function clearProcessorOfflineState(): Promise<void> {
-  await prisma.processorHeartbeat.upsert({
-    where: { id: PROCESSOR_HEARTBEAT_ID },
-    update: {
-      offlineSince: null,
-      lastOfflineAlertSentAt: null,
-    },
-    create: {
-      id: PROCESSOR_HEARTBEAT_ID,
+// Replace the processor's advertised capabilities, registering it if this is
+// the first thing it sends.
+export async function setProcessorCapabilities(
+  identity: ProcessorIdentity,
+  capabilities: ProcessorCapability[],
+  updatedAt: Date = new Date(),
+): Promise<ProcessorHeartbeatSnapshot> {
+  const data = {
+    capabilities: capabilities as unknown as Prisma.InputJsonValue,
+    capabilitiesUpdatedAt: updatedAt,
+  };
+
+  return prisma.processorHeartbeat.upsert({
+    where: { apiKeyId: identity.apiKeyId },
+    update: { name: identity.name, ...data },
+    create: { apiKeyId: identity.apiKeyId, name: identity.name, ...data },
+  });
+}
+
+export function getProcessorCapabilities(
+  heartbeat: Pick<ProcessorHeartbeatSnapshot, 'capabilities'>,
+): ProcessorCapability[] | null {
+  return heartbeat.capabilities === null ? null : parseProcessorCapabilities(heartbeat.capabilities);
+}
+
+// Capabilities of every active processor that pinged within the offline threshold.
+// An empty result means nothing is online to route jobs to.
+export async function getOnlineProcessorCapabilities(
+  offlineThresholdMs: number = getProcessorOfflineThresholdMs(),
+): Promise<Array<ProcessorCapability[] | null>> {
+  const heartbeats = await prisma.processorHeartbeat.findMany({
+    where: {
+      isActive: true,
+      lastPingAt: { gte: new Date(Date.now() - offlineThresholdMs) },
     },
+    select: { capabilities: true },
   });
+
+  return heartbeats.map(getProcessorCapabilities);
 }
 
-export async function setProcessorOfflineState(offlineSince: Date): Promise<void> {
-  const heartbeat = await getOrCreateProcessorHeartbeat();
+export async function setProcessorCurrentJob(processorId: string, jobId: string | null): Promise<void> {
+  await prisma.processorHeartbeat.update({
+    where: { id: processorId },
+    data: { currentJobId: jobId },
+  });
+}
 
-  if (heartbeat.offlineSince) {
-    return;
-  }
+// Called when a job's result lands, whichever processor reported it.
+export async function clearProcessorCurrentJob(jobId: string): Promise<void> {
+  await prisma.processorHeartbeat.updateMany({
+    where: { currentJobId: jobId },
+    data: { currentJobId: null },
+  });
+}
 
+export async function clearProcessorOfflineState(processorId: string): Promise<void> {
   await prisma.processorHeartbeat.update({
-    where: { id: PROCESSOR_HEARTBEAT_ID },
+    where: { id: processorId },
+    data: {
+      offlineSince: null,
+      lastOfflineAlertSentAt: null,
+    },
+  });
+}
+
+export async function setProcessorOfflineState(processorId: string, offlineSince: Date): Promise<void> {
+  // Only the first transition sets offlineSince; later evaluations keep the original.
+  await prisma.processorHeartbeat.updateMany({
+    where: { id: processorId, offlineSince: null },
     data: { offlineSince },
   });
 }
 
-export async function setProcessorOfflineAlertSent(sentAt: Date): Promise<void> {
-  await prisma.processorHeartbeat.upsert({
-    where: { id: PROCESSOR_HEARTBEAT_ID },
-    update: {
-      lastOfflineAlertSentAt: sentAt,
-    },
-    create: {
-      id: PROCESSOR_HEARTBEAT_ID,
+export async function setProcessorOfflineAlertSent(processorId: string, sentAt: Date): Promise<void> {
+  await prisma.processorHeartbeat.update({
+    where: { id: processorId },
+    data: {
       lastOfflineAlertSentAt: sentAt,
     },
   });
 }
 
-export async function getProcessorStatus(
-  offlineThresholdMs: number = getProcessorOfflineThresholdMs(),
-): Promise<ProcessorStatus> {
-  const heartbeat = await getOrCreateProcessorHeartbeat();
+function getKeepWarmRemainingSeconds(warmUntil: Date | null, now: number): number {
+  const warmUntilMs = warmUntil ? warmUntil.getTime() : 0;
+  return warmUntilMs > now ? Math.ceil((warmUntilMs - now) / 1000) : 0;
+}
 
-  // Compute keep-warm lease values from the same heartbeat row.
-  const now = Date.now();
-  const warmUntilMs = heartbeat.warmUntil ? heartbeat.warmUntil.getTime() : 0;
-  const keepWarmRemainingSeconds = warmUntilMs > now
-    ? Math.ceil((warmUntilMs - now) / 1000)
-    : 0;
+function buildProcessorStatus(
+  heartbeat: Pick<ProcessorHeartbeatSnapshot, 'lastPingAt' | 'offlineSince' | 'warmUntil'>,
+  offlineThresholdMs: number,
+  now: number,
+): ProcessorStatus {
+  const keepWarmRemainingSeconds = getKeepWarmRemainingSeconds(heartbeat.warmUntil, now);
   const keepWarmUntil = heartbeat.warmUntil ? heartbeat.warmUntil.toISOString() : null;
 
   if (!heartbeat.lastPingAt) {
@@ -149,34 +230,108 @@ export async function getProcessorStatus(
   };
 }
 
-// Extend the keep-warm lease so warmUntil >= now + leaseMs (never shortens an
-// existing longer lease). Called by the /design-jobs/new page on mount.
+export async function getProcessorStatuses(
+  offlineThresholdMs: number = getProcessorOfflineThresholdMs(),
+  options: { includeInactive?: boolean } = {},
+): Promise<ProcessorInstanceStatus[]> {
+  const heartbeats = await prisma.processorHeartbeat.findMany({
+    where: options.includeInactive ? {} : { isActive: true },
+    orderBy: { name: 'asc' },
+    include: {
+      currentJob: {
+        select: {
+          id: true,
+          objectId: true,
+          design: { select: { name: true } },
+        },
+      },
+    },
+  });
+
+  const now = Date.now();
+  return heartbeats.map((heartbeat) => ({
+    ...buildProcessorStatus(heartbeat, offlineThresholdMs, now),
+    id: heartbeat.id,
+    name: heartbeat.name,
+    apiKeyId: heartbeat.apiKeyId,
+    isActive: heartbeat.isActive,
+    capabilities: getProcessorCapabilities(heartbeat),
+    capabilitiesUpdatedAt: heartbeat.capabilitiesUpdatedAt ? heartbeat.capabilitiesUpdatedAt.toISOString() : null,
+    currentJob: heartbeat.currentJob
+      ? {
+        id: heartbeat.currentJob.id,
+        objectId: heartbeat.currentJob.objectId,
+        designName: heartbeat.currentJob.design.name,
+      }
+      : null,
+  }));
+}
+
+// Roll the active processors up into one status: the freshest ping, the longest
+// keep-warm lease, and offlineSince only when every processor is offline.
+export async function getProcessorStatus(
+  offlineThresholdMs: number = getProcessorOfflineThresholdMs(),
+): Promise<ProcessorStatus> {
+  const heartbeats = await listProcessorHeartbeats();
+  const now = Date.now();
+  const statuses = heartbeats.map((heartbeat) => buildProcessorStatus(heartbeat, offlineThresholdMs, now));
+
+  const freshest = statuses
+    .filter((status) => status.lastPingMs !== null)
+    .sort((a, b) => (b.lastPingMs ?? 0) - (a.lastPingMs ?? 0))[0];
+  const warmest = [...statuses]
+    .sort((a, b) => b.keepWarmRemainingSeconds - a.keepWarmRemainingSeconds)[0];
+  const isHealthy = statuses.some((status) => status.isHealthy);
+  const offlineSinceValues = statuses
+    .map((status) => status.offlineSince)
+    .filter((value): value is string => value !== null)
+    .sort();
+
+  return {
+    lastPingMs: freshest?.lastPingMs ?? null,
+    lastPingTime: freshest?.lastPingTime ?? null,
+    isHealthy,
+    secondsSinceLastPing: freshest?.secondsSinceLastPing ?? null,
+    offlineSince: isHealthy ? null : offlineSinceValues[offlineSinceValues.length - 1] ?? null,
+    keepWarmUntil: warmest?.keepWarmUntil ?? null,
+    keepWarmRemainingSeconds: warmest?.keepWarmRemainingSeconds ?? 0,
+  };
+}
+
+// Extend every active processor's keep-warm lease so warmUntil >= now + leaseMs
+// (never shortens an existing longer lease). Called by the /design-jobs/new page
+// on mount; any processor may pick up the job that follows.
 export async function extendProcessorWarmLease(
   leaseMs: number = PROCESSOR_KEEP_WARM_LEASE_MS,
 ): Promise<Date> {
-  const now = Date.now();
-  const candidate = new Date(now + leaseMs);
-  const heartbeat = await getOrCreateProcessorHeartbeat();
-  const current = heartbeat.warmUntil;
-
-  if (current && current.getTime() >= candidate.getTime()) {
-    return current;
-  }
+  const candidate = new Date(Date.now() + leaseMs);
 
-  const updated = await prisma.processorHeartbeat.update({
-    where: { id: PROCESSOR_HEARTBEAT_ID },
+  await prisma.processorHeartbeat.updateMany({
+    where: {
+      isActive: true,
+      OR: [
+        { warmUntil: null },
+        { warmUntil: { lt: candidate } },
+      ],
+    },
     data: { warmUntil: candidate },
   });
-  return updated.warmUntil ?? candidate;
+
+  return candidate;
 }
 
-// Seconds remaining on the keep-warm lease (0 when expired or unset). The
-// processor reads this from poll responses to decide whether to keep Rhino
+// Seconds remaining on a processor's keep-warm lease (0 when expired or unset).
+// Without a processorId, returns the longest lease across active processors.
+// The processor reads this from poll responses to decide whether to keep Rhino
 // warm; relative seconds avoids any reliance on processor clock accuracy.
-export async function getProcessorKeepWarmRemainingSeconds(): Promise<number> {
-  const heartbeat = await getOrCreateProcessorHeartbeat();
-  if (!heartbeat.warmUntil) return 0;
-  const remainingMs = heartbeat.warmUntil.getTime() - Date.now();
-  if (remainingMs <= 0) return 0;
-  return Math.ceil(remainingMs / 1000);
+export async function getProcessorKeepWarmRemainingSeconds(processorId?: string): Promise<number> {
+  const heartbeats = processorId
+    ? await prisma.processorHeartbeat.findMany({ where: { id: processorId } })
+    : await listProcessorHeartbeats();
+  const now = Date.now();
+
+  return heartbeats.reduce(
+    (max, heartbeat) => Math.max(max, getKeepWarmRemainingSeconds(heartbeat.warmUntil, now)),
+    0,
+  );
 }
@@ -4,6 +4,8 @@ import {
 } from '@/lib/internal-task-scheduler';
 import { registerProcessorOfflineMonitorTask } from '@/lib/processor-offline-monitor';
 import { registerDailyDigestTask } from '@/lib/daily-digest-task';
+import { registerDesignSyncTask } from '@/lib/design-sync';
+import { registerWebhookDeliveryTask } from '@/lib/webhooks';
 
 function internalTasksEnabled(): boolean {
   if (process.env.NEXT_PHASE === 'phase-production-build') {
@@ -20,6 +22,8 @@ export function ensureInternalTaskRuntimeStarted(): void {
 
   registerProcessorOfflineMonitorTask();
   registerDailyDigestTask();
+  registerDesignSyncTask();
+  registerWebhookDeliveryTask();
   ensureInternalTaskSchedulerStarted();
 }
 
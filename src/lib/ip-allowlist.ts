@@ -0,0 +1,57 @@
+import { BlockList, isIP } from 'net';
+import type { NextRequest } from 'next/server';
+
+// IPv4-mapped IPv6 (::ffff:10.0.0.1) is how dual-stack servers report IPv4 clients.
+function unmapIpv4(address: string): string {
+  const match = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  return match ? match[1] : address;
+}
+
+// Canonical "address/prefix" for a CIDR block or a single address, or null if invalid.
+export function normalizeCidr(raw: string): string | null {
+  const [rawAddress, rawPrefix, ...rest] = raw.trim().split('/');
+  const address = unmapIpv4(rawAddress ?? '');
+  const version = isIP(address);
+  if (!version || rest.length > 0) return null;
+  const maxPrefix = version === 4 ? 32 : 128;
+  if (rawPrefix === undefined) return `${address}/${maxPrefix}`;
+  if (!/^\d{1,3}$/.test(rawPrefix) || Number(rawPrefix) > maxPrefix) return null;
+  return `${address}/${Number(rawPrefix)}`;
+}
+
+export function isIpAllowed(ip: string | null, cidrs: string[]): boolean {
+  if (cidrs.length === 0) return true;
+  if (!ip) return false;
+  const address = unmapIpv4(ip);
+  const version = isIP(address);
+  if (!version) return false;
+
+  const allowed = new BlockList();
+  for (const cidr of cidrs) {
+    const [network, prefix] = cidr.split('/');
+    const networkVersion = isIP(network);
+    if (networkVersion) {
+      allowed.addSubnet(network, Number(prefix), networkVersion === 4 ? 'ipv4' : 'ipv6');
+    }
+  }
+  return allowed.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+// How many proxies in front of the app append to X-Forwarded-For. Defaults to 1, which is right
+// for Vercel (it replaces the header with the connecting address) and a single nginx.
+function getTrustedProxyCount(): number {
+  const raw = process.env.TRUSTED_PROXY_COUNT;
+  const parsed = raw ? parseInt(raw, 10) : NaN;
+  return Number.isFinite(parsed) && parsed >= 1 ? parsed : 1;
+}
+
+// The client address as seen by the outermost trusted proxy. Everything left of that hop came
+// from the client and can be forged, so the leftmost entry is never used. Without the header
+// (no proxy appends it) falls back to X-Real-IP, which only a proxy that sets it makes trustworthy.
+export function getClientIp(request: NextRequest): string | null {
+  const hops = request.headers.get('x-forwarded-for')?.split(',').map((hop) => hop.trim()).filter(Boolean) ?? [];
+  if (hops.length > 0) {
+    return hops[hops.length - getTrustedProxyCount()] ?? null;
+  }
+  return request.headers.get('x-real-ip')?.trim() || null;
+}
@@ -0,0 +1,111 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  NOTES_MAX_LENGTH,
+  parseMeasurements,
+  validateCaseReference,
+  type Hand,
+  type MeasurementSetData,
+  type Measurements,
+} from '@/designs/measurements';
+import type { FieldErrors } from '@/lib/formValidation';
+
+export const measurementSetSelect = {
+  id: true,
+  caseReference: true,
+  hand: true,
+  measurements: true,
+  notes: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: { select: { name: true, email: true } },
+  _count: { select: { designJobs: true } },
+} as const;
+
+type MeasurementSetRow = Prisma.MeasurementSetGetPayload<{ select: typeof measurementSetSelect }>;
+
+export function toMeasurementSetData(row: MeasurementSetRow): MeasurementSetData & {
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: { name: string | null; email: string };
+  jobCount: number;
+} {
+  return {
+    id: row.id,
+    caseReference: row.caseReference,
+    hand: row.hand,
+    // Written only through parseMeasurements, so the stored shape is trusted.
+    measurements: row.measurements as unknown as Measurements,
+    notes: row.notes,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    createdBy: row.createdBy,
+    jobCount: row._count.designJobs,
+  };
+}
+
+export async function findMeasurementSet(organizationId: string, id: string) {
+  const row = await prisma.measurementSet.findFirst({
+    where: { id, organizationId },
+    select: measurementSetSelect,
+  });
+  return row ? toMeasurementSetData(row) : null;
+}
+
+export interface MeasurementSetInput {
+  caseReference: string;
+  hand: Hand;
+  measurements: Measurements;
+  notes: string | null;
+}
+
+// Validate a create/update body. On update, omitted properties keep their current values.
+export function parseMeasurementSetInput(
+  body: unknown,
+  current?: MeasurementSetInput,
+): { input: MeasurementSetInput; errors: FieldErrors } {
+  const raw = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const errors: FieldErrors = {};
+
+  const rawReference = raw.caseReference === undefined && current ? current.caseReference : raw.caseReference;
+  const referenceError = validateCaseReference(rawReference);
+  if (referenceError) {
+    errors.caseReference = referenceError;
+  }
+
+  const hand = raw.hand === undefined && current ? current.hand : raw.hand;
+  if (hand !== 'LEFT' && hand !== 'RIGHT') {
+    errors.hand = 'hand must be LEFT or RIGHT';
+  }
+
+  const rawNotes = raw.notes === undefined && current ? current.notes : raw.notes;
+  const notes = typeof rawNotes === 'string' && rawNotes.trim() ? rawNotes.trim() : null;
+  if (rawNotes !== undefined && rawNotes !== null && typeof rawNotes !== 'string') {
+    errors.notes = 'notes must be a string';
+  } else if (notes && notes.length > NOTES_MAX_LENGTH) {
+    errors.notes = `Notes must be ${NOTES_MAX_LENGTH} characters or less`;
+  }
+
+  const parsed = raw.measurements === undefined && current
+    ? { measurements: current.measurements, errors: {} }
+    : parseMeasurements(raw.measurements);
+
+  return {
+    input: {
+      caseReference: typeof rawReference === 'string' ? rawReference.trim() : '',
+      hand: hand === 'LEFT' ? 'LEFT' : 'RIGHT',
+      measurements: parsed.measurements,
+      notes,
+    },
+    errors: { ...errors, ...parsed.errors },
+  };
+}
+
+// The caller's organization, which scopes every measurement-set query.
+export async function getMeasurementSetOrganizationId(userId: string): Promise<string | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { organizationId: true },
+  });
+  return user?.organizationId ?? null;
+}
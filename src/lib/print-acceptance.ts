@@ -0,0 +1,7 @@
+// Outcomes an operator can record for a finished (or abandoned) print. Client-safe.
+export const VALID_ACCEPTANCE_VALUES = ['ACCEPTED', 'REJECT_DESIGN', 'REJECT_PRINT', 'ARCHIVED'] as const;
+export type PrintAcceptanceValue = typeof VALID_ACCEPTANCE_VALUES[number];
+
+export function isPrintAcceptanceValue(value: unknown): value is PrintAcceptanceValue {
+  return VALID_ACCEPTANCE_VALUES.includes(value as PrintAcceptanceValue);
+}
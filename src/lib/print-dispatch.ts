@@ -0,0 +1,494 @@
+import type { NextRequest } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getAllDesigns, getDesignById } from '@/designs/registry';
+import { buildUnclaimedByOthersWhere, transitionPrintJob } from '@/lib/print-state-transitions';
+import { describeFilament, matchFilament, type FilamentMatch, type FilamentRequirement } from '@/lib/filament';
+
+const DEFAULT_CLAIM_MS = 15 * 60 * 1000;
+// A started print that hasn't finished or reported progress for this long no longer
+// keeps its printer busy; the client most likely lost track of it.
+const DEFAULT_BUSY_STALE_MS = 6 * 60 * 60 * 1000;
+// Same role as in design-job-lease.ts: losing a race on one row moves on to the next.
+const CLAIM_CANDIDATE_BATCH_SIZE = 5;
+
+export const DEVICE_ID_HEADER = 'x-device-id';
+const MAX_PRINTER_MODEL_LENGTH = 50;
+
+function getPositiveIntFromEnv(name: string, fallback: number): number {
+  const rawValue = process.env[name];
+  const parsed = rawValue ? Number(rawValue) : NaN;
+
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return fallback;
+  }
+
+  return Math.floor(parsed);
+}
+
+export function getPrintClaimMs(): number {
+  return getPositiveIntFromEnv('PRINT_CLAIM_MS', DEFAULT_CLAIM_MS);
+}
+
+export function getPrintBusyStaleMs(): number {
+  return getPositiveIntFromEnv('PRINT_BUSY_STALE_MS', DEFAULT_BUSY_STALE_MS);
+}
+
+export interface DispatchDevice {
+  id: string;
+  organizationId: string;
+}
+
+export type DispatchPrinter = { serial: string; model: string; name: string | null };
+
+const dispatchPrinterSelect = { serial: true, model: true, name: true } as const;
+
+// The calling ClientDevice, identified by the X-Device-ID header. It has to belong to
+// the signed-in user's organization to take that organization's work.
+export async function resolveDispatchDevice(
+  request: NextRequest,
+  organizationId: string,
+): Promise<{ device: DispatchDevice; error?: never } | { device?: never; error: string; status: number }> {
+  const deviceId = request.headers.get(DEVICE_ID_HEADER);
+  if (!deviceId) {
+    return { error: 'X-Device-ID header required', status: 400 };
+  }
+
+  const device = await prisma.clientDevice.findUnique({
+    where: { id: deviceId },
+    select: { id: true, organizationId: true },
+  });
+  if (!device) {
+    return { error: 'Device not registered', status: 404 };
+  }
+  if (device.organizationId !== organizationId) {
+    return { error: 'Device does not belong to your organization', status: 403 };
+  }
+
+  return { device: { id: device.id, organizationId } };
+}
+
+// Jobs waiting for a printer: enabled, queued (or sent under a claim that has since lapsed),
+// not printing as part of a plate, with a print file from a successful design job.
+export function buildDispatchablePrintJobWhere(organizationId: string, now: Date): Prisma.PrintJobWhereInput {
+  return {
+    isEnabled: true,
+    state: { in: ['QUEUED', 'SENT'] },
+    plateId: null,
+    designJob: {
+      owningOrganizationId: organizationId,
+      isProcessSuccessful: true,
+      printFileName: { not: null },
+    },
+    OR: [
+      { claimExpiresAt: null },
+      { claimExpiresAt: { lt: now } },
+    ],
+  };
+}
+
+// Jobs this printer may take: assigned to it, to its model, or to no printer at all.
+export function buildPrinterEligibleWhere(printer: { serial: string; model: string }): Prisma.PrintJobWhereInput {
+  return {
+    OR: [
+      { assignedPrinterSerial: printer.serial },
+      { assignedPrinterSerial: null, assignedPrinterModel: printer.model },
+      { assignedPrinterSerial: null, assignedPrinterModel: null },
+    ],
+  };
+}
+
+// Jobs that occupy their printer: sent and about to start, or printing (paused included).
+function buildBusyPrintJobWhere(now: Date): Prisma.PrintJobWhereInput {
+  const staleBefore = new Date(now.getTime() - getPrintBusyStaleMs());
+  return {
+    isEnabled: true,
+    OR: [
+      { state: 'SENT', claimExpiresAt: { gt: now } },
+      { state: { in: ['PRINTING', 'PAUSED'] }, printStartedAt: { gt: staleBefore } },
+      { state: { in: ['PRINTING', 'PAUSED'] }, progressLastReportAt: { gt: staleBefore } },
+    ],
+  };
+}
+
+export const claimedPrintJobSelect = {
+  id: true,
+  createdAt: true,
+  assignedPrinterSerial: true,
+  assignedPrinterModel: true,
+  claimedAt: true,
+  claimExpiresAt: true,
+  printerSerial: true,
+  designJob: {
+    select: {
+      id: true,
+      objectId: true,
+      jobLabel: true,
+      printFileName: true,
+      design: { select: { name: true } },
+    },
+  },
+} satisfies Prisma.PrintJobSelect;
+
+export type ClaimedPrintJob = Prisma.PrintJobGetPayload<{ select: typeof claimedPrintJobSelect }>;
+
+export interface PrintDispatch {
+  printJob: ClaimedPrintJob;
+  printer: DispatchPrinter | null;
+}
+
+// The device's printers, optionally narrowed to the serials it asked about. Returns
+// null when a requested serial isn't attached to the device.
+export async function findDevicePrinters(deviceId: string, serials?: string[]): Promise<DispatchPrinter[] | null> {
+  const printers = await prisma.printer.findMany({
+    where: { deviceId, ...(serials ? { serial: { in: serials } } : {}) },
+    select: dispatchPrinterSelect,
+    orderBy: { serial: 'asc' },
+  });
+  if (serials && printers.length !== new Set(serials).size) {
+    return null;
+  }
+  return printers;
+}
+
+// The filament a job's design needs, or null when any will do.
+export function getDesignFilament(designId: string): FilamentRequirement | null {
+  return getDesignById(designId)?.filament ?? null;
+}
+
+export interface PrinterAmsState {
+  amsConfig: Prisma.JsonValue | null;
+  capturedAt: Date;
+}
+
+// Each printer's AMS trays as of its latest snapshot. Printers never snapshotted are absent.
+export async function findLatestAmsStates(serials: string[]): Promise<Map<string, PrinterAmsState>> {
+  const printers = await prisma.printer.findMany({
+    where: { serial: { in: serials } },
+    select: {
+      serial: true,
+      snapshots: { orderBy: { capturedAt: 'desc' }, take: 1, select: { amsConfig: true, capturedAt: true } },
+    },
+  });
+  const states = new Map<string, PrinterAmsState>();
+  for (const printer of printers) {
+    if (printer.snapshots[0]) {
+      states.set(printer.serial, printer.snapshots[0]);
+    }
+  }
+  return states;
+}
+
+export interface PrinterFilamentCheck extends FilamentMatch {
+  printer: DispatchPrinter;
+  snapshotAt: Date | null;
+}
+
+export async function checkPrintersFilament(
+  filament: FilamentRequirement,
+  printers: DispatchPrinter[],
+): Promise<PrinterFilamentCheck[]> {
+  const states = await findLatestAmsStates(printers.map((printer) => printer.serial));
+  return printers.map((printer) => {
+    const state = states.get(printer.serial);
+    return { printer, snapshotAt: state?.capturedAt ?? null, ...matchFilament(filament, state?.amsConfig) };
+  });
+}
+
+// Designs a printer can't take because its latest snapshot shows none of their material
+// loaded. A printer without tray data blocks nothing.
+function findFilamentBlockedDesignIds(state: PrinterAmsState | undefined): string[] {
+  return getAllDesigns()
+    .filter((design) => design.filament && matchFilament(design.filament, state?.amsConfig).status === 'missing')
+    .map((design) => design.id);
+}
+
+async function findIdleSerials(serials: string[], now: Date): Promise<Set<string>> {
+  const idle = await prisma.printer.findMany({
+    where: { serial: { in: serials }, printJobs: { none: buildBusyPrintJobWhere(now) } },
+    select: { serial: true },
+  });
+  return new Set(idle.map((printer) => printer.serial));
+}
+
+// Conditional update that re-checks dispatchability, so when two devices race for the
+// same row exactly one update matches.
+async function tryClaim(
+  jobId: string,
+  where: Prisma.PrintJobWhereInput,
+  device: DispatchDevice,
+  printer: DispatchPrinter | null,
+  now: Date,
+): Promise<ClaimedPrintJob | null> {
+  return prisma.$transaction(async (tx) => {
+    const result = await transitionPrintJob(jobId, 'SENT', {
+      where,
+      data: {
+        claimedByDeviceId: device.id,
+        claimedAt: now,
+        claimExpiresAt: new Date(now.getTime() + getPrintClaimMs()),
+        ...(printer ? { printerSerial: printer.serial } : {}),
+      },
+      deviceId: device.id,
+      reason: printer ? `Claimed for printer ${printer.serial}` : 'Claimed',
+    }, tx);
+
+    if (!result.ok) {
+      return null;
+    }
+
+    return tx.printJob.findUnique({ where: { id: jobId }, select: claimedPrintJobSelect });
+  });
+}
+
+// Claim the oldest job one of the device's idle printers can take. A device that
+// already holds an unexpired claim gets that claim back, so retries are safe.
+export async function claimNextPrintJob(device: DispatchDevice, printers: DispatchPrinter[]): Promise<PrintDispatch | null> {
+  if (printers.length === 0) {
+    return null;
+  }
+  const now = new Date();
+
+  const held = await prisma.printJob.findFirst({
+    where: {
+      claimedByDeviceId: device.id,
+      state: 'SENT',
+      isEnabled: true,
+      claimExpiresAt: { gt: now },
+      printerSerial: { in: printers.map((printer) => printer.serial) },
+    },
+    select: claimedPrintJobSelect,
+    orderBy: { claimedAt: 'asc' },
+  });
+  if (held) {
+    return { printJob: held, printer: printers.find((printer) => printer.serial === held.printerSerial) ?? null };
+  }
+
+  const idleSerials = await findIdleSerials(printers.map((printer) => printer.serial), now);
+  const idlePrinters = printers.filter((p) => idleSerials.has(p.serial));
+  const amsStates = await findLatestAmsStates(idlePrinters.map((printer) => printer.serial));
+  const dispatchableWhere = buildDispatchablePrintJobWhere(device.organizationId, now);
+
+  for (const printer of idlePrinters) {
+    const blockedDesignIds = findFilamentBlockedDesignIds(amsStates.get(printer.serial));
+    const where: Prisma.PrintJobWhereInput = {
+      AND: [
+        dispatchableWhere,
+        buildPrinterEligibleWhere(printer),
+        ...(blockedDesignIds.length > 0 ? [{ designJob: { designId: { notIn: blockedDesignIds } } }] : []),
+      ],
+    };
+    const candidates = await prisma.printJob.findMany({
+      where,
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: CLAIM_CANDIDATE_BATCH_SIZE,
+    });
+
+    for (const candidate of candidates) {
+      const claimed = await tryClaim(candidate.id, where, device, printer, now);
+      if (claimed) {
+        return { printJob: claimed, printer };
+      }
+    }
+  }
+
+  return null;
+}
+
+// Claim one particular job, e.g. when an operator picks it from the queue. Uses the
+// requested printer, or else the first idle printer of the device the job may go to,
+// preferring one with the job's filament loaded. allowFilamentMismatch lets the operator
+// override a snapshot that says the material isn't loaded (snapshots can be days old).
+export async function claimPrintJob(
+  jobId: string,
+  device: DispatchDevice,
+  printers: DispatchPrinter[],
+  options: { allowFilamentMismatch?: boolean } = {},
+): Promise<{ dispatch: PrintDispatch; conflict?: never } | { dispatch?: never; conflict: string }> {
+  const now = new Date();
+  const job = await prisma.printJob.findUnique({
+    where: { id: jobId },
+    select: {
+      assignedPrinterSerial: true,
+      assignedPrinterModel: true,
+      claimedByDeviceId: true,
+      claimExpiresAt: true,
+      printerSerial: true,
+      designJob: { select: { designId: true } },
+    },
+  });
+  if (!job) {
+    return { conflict: 'Print job not found' };
+  }
+
+  // Claiming again before the claim expires just renews it.
+  const heldByDevice = job.claimedByDeviceId === device.id && job.claimExpiresAt && job.claimExpiresAt > now;
+  const dispatchableWhere: Prisma.PrintJobWhereInput = heldByDevice
+    ? { isEnabled: true, state: 'SENT', claimedByDeviceId: device.id }
+    : buildDispatchablePrintJobWhere(device.organizationId, now);
+
+  const assigned = !!(job.assignedPrinterSerial || job.assignedPrinterModel);
+  const eligible = printers.filter((printer) => (
+    job.assignedPrinterSerial ? printer.serial === job.assignedPrinterSerial
+      : job.assignedPrinterModel ? printer.model === job.assignedPrinterModel
+        : true
+  ));
+  if (assigned && eligible.length === 0) {
+    return {
+      conflict: job.assignedPrinterSerial
+        ? `This job is assigned to printer ${job.assignedPrinterSerial}, which is not attached to this device`
+        : `This job is assigned to a ${job.assignedPrinterModel} printer and this device has none`,
+    };
+  }
+
+  let usable = eligible;
+  const filament = getDesignFilament(job.designJob.designId);
+  if (filament && !options.allowFilamentMismatch && eligible.length > 0) {
+    const rank: Record<FilamentMatch['status'], number> = { match: 0, 'color-mismatch': 1, unknown: 1, missing: 2 };
+    const checks = await checkPrintersFilament(filament, eligible);
+    usable = checks
+      .filter((check) => check.status !== 'missing')
+      .sort((a, b) => rank[a.status] - rank[b.status])
+      .map((check) => check.printer);
+    if (usable.length === 0) {
+      return { conflict: `This job needs ${describeFilament(filament)} and no printer it can use has that loaded in its last AMS snapshot` };
+    }
+  }
+
+  let printer: DispatchPrinter | null = null;
+  if (heldByDevice) {
+    printer = usable.find((p) => p.serial === job.printerSerial) ?? null;
+  }
+  if (!printer && usable.length > 0) {
+    const idleSerials = await findIdleSerials(usable.map((p) => p.serial), now);
+    printer = usable.find((p) => idleSerials.has(p.serial)) ?? null;
+    if (!printer) {
+      return { conflict: 'Every printer this job can use is busy' };
+    }
+  }
+
+  const where: Prisma.PrintJobWhereInput = printer
+    ? { AND: [dispatchableWhere, buildPrinterEligibleWhere(printer)] }
+    : dispatchableWhere;
+  const claimed = await tryClaim(jobId, where, device, printer, now);
+  if (!claimed) {
+    return { conflict: 'This print job has already been claimed or started by another device' };
+  }
+
+  return { dispatch: { printJob: claimed, printer } };
+}
+
+// Give a claim back, e.g. when the printer refused the file. Only the holder can.
+export async function releasePrintJobClaim(jobId: string, deviceId: string): Promise<boolean> {
+  const result = await transitionPrintJob(jobId, 'QUEUED', {
+    where: { claimedByDeviceId: deviceId, state: 'SENT' },
+    data: { claimedByDeviceId: null, claimedAt: null, claimExpiresAt: null, printerSerial: null },
+    deviceId,
+    reason: 'Claim released',
+  });
+  return result.ok;
+}
+
+// Mark a job started. The update only matches while the job is unstarted and not held
+// by another device's live claim, so two devices can never both start it.
+export async function startPrintJob(
+  jobId: string,
+  options: { startedAt: Date; userId: string; deviceId: string | null },
+): Promise<{ started: true; reason?: never } | { started: false; reason: string }> {
+  const now = new Date();
+  const { deviceId } = options;
+
+  const job = await prisma.printJob.findUnique({
+    where: { id: jobId },
+    select: { assignedPrinterSerial: true, assignedPrinterModel: true, plateId: true },
+  });
+  if (!job) {
+    return { started: false, reason: 'Print job not found' };
+  }
+  if (job.plateId) {
+    return { started: false, reason: 'This print job is on a plate; start the plate instead' };
+  }
+
+  if (deviceId && (job.assignedPrinterSerial || job.assignedPrinterModel)) {
+    const eligiblePrinter = await prisma.printer.findFirst({
+      where: {
+        deviceId,
+        ...(job.assignedPrinterSerial ? { serial: job.assignedPrinterSerial } : { model: job.assignedPrinterModel! }),
+      },
+      select: { serial: true },
+    });
+    if (!eligiblePrinter) {
+      return {
+        started: false,
+        reason: job.assignedPrinterSerial
+          ? `This job is assigned to printer ${job.assignedPrinterSerial}, which is not attached to this device`
+          : `This job is assigned to a ${job.assignedPrinterModel} printer and this device has none`,
+      };
+    }
+  }
+
+  const result = await transitionPrintJob(jobId, 'PRINTING', {
+    where: {
+      state: { in: ['QUEUED', 'SENT'] },
+      plateId: null,
+      ...buildUnclaimedByOthersWhere(deviceId, now),
+    },
+    data: {
+      printStartedAt: options.startedAt,
+      printedByUserId: options.userId,
+      claimExpiresAt: null,
+      ...(deviceId ? { claimedByDeviceId: deviceId } : {}),
+    },
+    actorUserId: options.userId,
+    deviceId,
+    reason: 'Print started',
+  });
+
+  if (!result.ok) {
+    return { started: false, reason: 'This print job has already been claimed or started by another device' };
+  }
+  return { started: true };
+}
+
+export interface PrintAssignmentInput {
+  assignedPrinterSerial: string | null;
+  assignedPrinterModel: string | null;
+}
+
+// Validate an assignment from the queue UI: one printer of the organization, any
+// printer of a model, or neither. Returns undefined when the body doesn't touch it.
+export async function parsePrintAssignment(
+  body: { assignedPrinterSerial?: unknown; assignedPrinterModel?: unknown },
+  organizationId: string,
+): Promise<{ input?: PrintAssignmentInput; error?: string }> {
+  if (body.assignedPrinterSerial === undefined && body.assignedPrinterModel === undefined) {
+    return {};
+  }
+
+  const serial = body.assignedPrinterSerial ?? null;
+  const model = body.assignedPrinterModel ?? null;
+  if ((serial !== null && typeof serial !== 'string') || (model !== null && typeof model !== 'string')) {
+    return { error: 'Printer assignment must be a string' };
+  }
+  if (serial && model) {
+    return { error: 'Assign either a printer or a printer model, not both' };
+  }
+
+  if (serial) {
+    const printer = await prisma.printer.findFirst({
+      where: { serial, device: { organizationId } },
+      select: { serial: true },
+    });
+    if (!printer) {
+      return { error: 'Printer not found in your organization' };
+    }
+    return { input: { assignedPrinterSerial: serial, assignedPrinterModel: null } };
+  }
+
+  const trimmedModel = model?.trim() || null;
+  if (trimmedModel && trimmedModel.length > MAX_PRINTER_MODEL_LENGTH) {
+    return { error: `Printer model must be at most ${MAX_PRINTER_MODEL_LENGTH} characters` };
+  }
+  return { input: { assignedPrinterSerial: null, assignedPrinterModel: trimmedModel } };
+}
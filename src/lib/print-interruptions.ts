@@ -0,0 +1,102 @@
+import type { PrintJobStateValue } from '@/lib/print-state';
+
+// What the printer client can report stopping or holding a print. Client-safe.
+export const PRINT_INTERRUPTION_KINDS = ['FAILED', 'CANCELLED', 'PAUSED'] as const;
+export type PrintInterruptionKindValue = typeof PRINT_INTERRUPTION_KINDS[number];
+
+export const PRINT_INTERRUPTION_LABELS: Record<PrintInterruptionKindValue, string> = {
+  FAILED: 'Failed',
+  CANCELLED: 'Cancelled',
+  PAUSED: 'Paused',
+};
+
+// A cancelled print is over just like a failed one; only the report says which it was.
+export const PRINT_INTERRUPTION_STATES: Record<PrintInterruptionKindValue, PrintJobStateValue> = {
+  FAILED: 'FAILED',
+  CANCELLED: 'FAILED',
+  PAUSED: 'PAUSED',
+};
+
+const MAX_MESSAGE_LENGTH = 500;
+
+export interface PrintInterruptionInput {
+  kind: PrintInterruptionKindValue;
+  hmsCode: string | null;
+  hmsMessage: string | null;
+  message: string | null;
+  progress: number | null;
+  printerSerial: string | null;
+}
+
+export function isPrintInterruptionKind(value: unknown): value is PrintInterruptionKindValue {
+  return PRINT_INTERRUPTION_KINDS.includes(value as PrintInterruptionKindValue);
+}
+
+// Bambu shows HMS codes as "0300_0100_0001_0007", "HMS_0300-0100-0001-0007" or, for print
+// errors, "0500_4038"; stored in the first form. Returns null for anything else.
+export function normalizeHmsCode(value: string): string | null {
+  const code = value.trim().toUpperCase().replace(/^HMS_/, '').replace(/-/g, '_');
+  return /^[0-9A-F]{4}(_[0-9A-F]{4}){1,3}$/.test(code) ? code : null;
+}
+
+function optionalText(value: unknown, field: string): { value: string | null; error?: string } {
+  if (value === undefined || value === null || value === '') return { value: null };
+  if (typeof value !== 'string' || value.length > MAX_MESSAGE_LENGTH) {
+    return { value: null, error: `${field} must be text of at most ${MAX_MESSAGE_LENGTH} characters` };
+  }
+  return { value: value.trim() || null };
+}
+
+export function parsePrintInterruptionInput(
+  body: Record<string, unknown>,
+): { input: PrintInterruptionInput; error?: never } | { input?: never; error: string } {
+  if (!isPrintInterruptionKind(body.kind)) {
+    return { error: `kind must be one of: ${PRINT_INTERRUPTION_KINDS.join(', ')}` };
+  }
+
+  let hmsCode: string | null = null;
+  if (body.hmsCode !== undefined && body.hmsCode !== null && body.hmsCode !== '') {
+    hmsCode = typeof body.hmsCode === 'string' ? normalizeHmsCode(body.hmsCode) : null;
+    if (!hmsCode) {
+      return { error: 'hmsCode must be a Bambu HMS code such as 0300_0100_0001_0007' };
+    }
+  }
+
+  const hmsMessage = optionalText(body.hmsMessage, 'hmsMessage');
+  if (hmsMessage.error) return { error: hmsMessage.error };
+  const message = optionalText(body.message, 'message');
+  if (message.error) return { error: message.error };
+
+  const { progress } = body;
+  if (progress !== undefined && progress !== null && (typeof progress !== 'number' || progress < 0 || progress > 100)) {
+    return { error: 'progress must be a number from 0 to 100' };
+  }
+
+  const { printerSerial } = body;
+  if (printerSerial !== undefined && printerSerial !== null && typeof printerSerial !== 'string') {
+    return { error: 'printerSerial must be a string' };
+  }
+
+  return {
+    input: {
+      kind: body.kind,
+      hmsCode,
+      hmsMessage: hmsMessage.value,
+      message: message.value,
+      progress: typeof progress === 'number' ? progress : null,
+      printerSerial: printerSerial || null,
+    },
+  };
+}
+
+// The one-line reason stored on the print job and shown in the queue and digest.
+export function describePrintInterruption(
+  interruption: Pick<PrintInterruptionInput, 'kind' | 'hmsCode' | 'hmsMessage' | 'message'>,
+): string {
+  const details = [
+    interruption.hmsCode && `HMS ${interruption.hmsCode}${interruption.hmsMessage ? `: ${interruption.hmsMessage}` : ''}`,
+    interruption.message,
+  ].filter(Boolean);
+  const label = `${PRINT_INTERRUPTION_LABELS[interruption.kind]} on the printer`;
+  return details.length > 0 ? `${label} - ${details.join('; ')}` : label;
+}
@@ -0,0 +1,443 @@
+import type { PrintInterruption, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { emitPrintWebhookEvent } from '@/lib/webhooks';
+import { getDesignFilament } from '@/lib/print-dispatch';
+import { PrintTransitionError, recordPrintProgress, transitionPrintJob } from '@/lib/print-state-transitions';
+import {
+  PRINT_INTERRUPTION_STATES,
+  describePrintInterruption,
+  type PrintInterruptionInput,
+} from '@/lib/print-interruptions';
+
+export const PRINT_PLATE_MIN_JOBS = 2;
+export const PRINT_PLATE_MAX_JOBS = 24;
+const MAX_PRINTER_MODEL_LENGTH = 50;
+// A plate handed to a geo processor that hasn't reported back by then is offered again.
+const DEFAULT_ARRANGE_TIMEOUT_MS = 10 * 60 * 1000;
+
+function getPositiveIntFromEnv(name: string, fallback: number): number {
+  const rawValue = process.env[name];
+  const parsed = rawValue ? Number(rawValue) : NaN;
+
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return fallback;
+  }
+
+  return Math.floor(parsed);
+}
+
+export function getPlateArrangeTimeoutMs(): number {
+  return getPositiveIntFromEnv('PRINT_PLATE_ARRANGE_TIMEOUT_MS', DEFAULT_ARRANGE_TIMEOUT_MS);
+}
+
+export const printPlateInclude = {
+  createdBy: { select: { id: true, name: true, email: true } },
+  printJobs: {
+    select: {
+      id: true,
+      state: true,
+      printStartedAt: true,
+      printCompletedAt: true,
+      isPrintSuccessful: true,
+      printAcceptance: true,
+      printNote: true,
+      progress: true,
+      designJob: {
+        select: {
+          id: true,
+          objectId: true,
+          jobLabel: true,
+          meshFileName: true,
+          design: { select: { name: true } },
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.PrintPlateInclude;
+
+export type PrintPlateWithJobs = Prisma.PrintPlateGetPayload<{ include: typeof printPlateInclude }>;
+
+export interface PrintPlateInput {
+  printJobIds: string[];
+  printerModel: string;
+}
+
+// Validate a new plate: enough unstarted, unplated print jobs from the organization, each
+// with a mesh the geo processor can arrange and an assignment the printer model satisfies.
+export async function parsePrintPlateInput(
+  body: { printJobIds?: unknown; printerModel?: unknown },
+  organizationId: string,
+): Promise<{ input: PrintPlateInput; error?: never } | { input?: never; error: string }> {
+  if (typeof body.printerModel !== 'string' || !body.printerModel.trim()) {
+    return { error: 'printerModel is required' };
+  }
+  const printerModel = body.printerModel.trim();
+  if (printerModel.length > MAX_PRINTER_MODEL_LENGTH) {
+    return { error: `printerModel must be at most ${MAX_PRINTER_MODEL_LENGTH} characters` };
+  }
+
+  if (!Array.isArray(body.printJobIds) || body.printJobIds.some((id) => typeof id !== 'string')) {
+    return { error: 'printJobIds must be a list of print job IDs' };
+  }
+  const printJobIds = [...new Set(body.printJobIds as string[])];
+  if (printJobIds.length < PRINT_PLATE_MIN_JOBS || printJobIds.length > PRINT_PLATE_MAX_JOBS) {
+    return { error: `A plate holds ${PRINT_PLATE_MIN_JOBS} to ${PRINT_PLATE_MAX_JOBS} print jobs` };
+  }
+
+  const jobs = await prisma.printJob.findMany({
+    where: { id: { in: printJobIds }, designJob: { owningOrganizationId: organizationId } },
+    select: {
+      id: true,
+      isEnabled: true,
+      state: true,
+      plateId: true,
+      assignedPrinterModel: true,
+      assignedPrinter: { select: { model: true } },
+      designJob: { select: { objectId: true, designId: true, isProcessSuccessful: true, meshFileName: true } },
+    },
+  });
+  if (jobs.length !== printJobIds.length) {
+    return { error: 'Some print jobs were not found in your organization' };
+  }
+
+  // The geo processor arranges a plate for one filament, so members can't need different materials.
+  let plateMaterial: { material: string; label: string } | null = null;
+  for (const job of jobs) {
+    const label = job.designJob.objectId ?? job.id;
+    if (!job.isEnabled || (job.state !== 'QUEUED' && job.state !== 'SENT')) {
+      return { error: `Print job ${label} has already started or was removed` };
+    }
+    if (job.plateId) {
+      return { error: `Print job ${label} is already on a plate` };
+    }
+    if (!job.designJob.isProcessSuccessful || !job.designJob.meshFileName) {
+      return { error: `Print job ${label} has no mesh to arrange` };
+    }
+    const assignedModel = job.assignedPrinter?.model ?? job.assignedPrinterModel;
+    if (assignedModel && assignedModel !== printerModel) {
+      return { error: `Print job ${label} is assigned to a ${assignedModel} printer` };
+    }
+    const filament = getDesignFilament(job.designJob.designId);
+    if (filament && plateMaterial && filament.material !== plateMaterial.material) {
+      return { error: `Print job ${label} needs ${filament.material} but ${plateMaterial.label} needs ${plateMaterial.material}` };
+    }
+    if (filament && !plateMaterial) {
+      plateMaterial = { material: filament.material, label };
+    }
+  }
+
+  return { input: { printJobIds, printerModel } };
+}
+
+// Create the plate and attach its members in one transaction. Attaching re-checks that no
+// member was started or plated since validation, and voids any claim (SENT -> QUEUED).
+export async function createPrintPlate(
+  organizationId: string,
+  userId: string,
+  input: PrintPlateInput,
+): Promise<PrintPlateWithJobs | null> {
+  return prisma.$transaction(async (tx) => {
+    const plate = await tx.printPlate.create({
+      data: { organizationId, printerModel: input.printerModel, createdById: userId },
+    });
+
+    for (const printJobId of input.printJobIds) {
+      const attached = await transitionPrintJob(printJobId, 'QUEUED', {
+        where: { plateId: null, isEnabled: true, state: { in: ['QUEUED', 'SENT'] } },
+        data: {
+          plateId: plate.id,
+          claimedByDeviceId: null,
+          claimedAt: null,
+          claimExpiresAt: null,
+          printerSerial: null,
+        },
+        actorUserId: userId,
+        reason: 'Added to a plate',
+      }, tx);
+      if (!attached.ok) {
+        throw new PrintTransitionError(attached.reason);
+      }
+    }
+
+    return tx.printPlate.findUnique({ where: { id: plate.id }, include: printPlateInclude });
+  }).catch((error) => {
+    if (error instanceof PrintTransitionError) return null;
+    throw error;
+  });
+}
+
+// Break a plate up before it prints; its members go back to the queue individually.
+export async function disbandPrintPlate(plateId: string): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const result = await tx.printPlate.updateMany({
+      where: { id: plateId, isEnabled: true, printStartedAt: null },
+      data: { isEnabled: false },
+    });
+    if (result.count === 0) {
+      return false;
+    }
+    await tx.printJob.updateMany({ where: { plateId }, data: { plateId: null } });
+    return true;
+  });
+}
+
+// Start an arranged plate. The conditional update means a plate is only ever started
+// once; every member is marked started with it.
+export async function startPrintPlate(
+  plateId: string,
+  options: { startedAt: Date; userId: string; printerSerial: string | null },
+): Promise<boolean> {
+  const memberIds = await prisma.$transaction(async (tx) => {
+    const result = await tx.printPlate.updateMany({
+      where: { id: plateId, isEnabled: true, printStartedAt: null, arrangedAt: { not: null } },
+      data: { printStartedAt: options.startedAt, printerSerial: options.printerSerial },
+    });
+    if (result.count === 0) {
+      return null;
+    }
+
+    const members = await tx.printJob.findMany({ where: { plateId, state: 'QUEUED' }, select: { id: true } });
+    for (const member of members) {
+      const started = await transitionPrintJob(member.id, 'PRINTING', {
+        data: {
+          printStartedAt: options.startedAt,
+          printedByUserId: options.userId,
+          printerSerial: options.printerSerial,
+          claimExpiresAt: null,
+        },
+        actorUserId: options.userId,
+        reason: 'Plate started',
+      }, tx);
+      if (!started.ok) {
+        throw new PrintTransitionError(started.reason);
+      }
+    }
+    return members.map((member) => member.id);
+  }).catch((error) => {
+    if (error instanceof PrintTransitionError) return null;
+    throw error;
+  });
+
+  if (!memberIds) {
+    return false;
+  }
+  for (const id of memberIds) {
+    emitPrintWebhookEvent(id, 'print.started');
+  }
+  return true;
+}
+
+// One progress report for the plate, copied to every member still printing. Reaching 100%
+// completes the plate and its members; a completed plate keeps its final progress. Returns
+// the updated member IDs so callers can broadcast them, or why a member couldn't move.
+export async function recordPrintPlateProgress(
+  plate: { id: string; printStartedAt: Date | null; printCompletedAt: Date | null },
+  progress: number,
+): Promise<{ ok: true; memberIds: string[]; reportedAt: Date; reason?: never } | { ok: false; reason: string }> {
+  const now = new Date();
+  // Covers a client that reports progress before (or instead of) starting the plate.
+  const startedAt = plate.printStartedAt ? undefined : now;
+  const completedAt = progress >= 100 && !plate.printCompletedAt ? now : undefined;
+
+  const members = await prisma.$transaction(async (tx) => {
+    if (!plate.printCompletedAt) {
+      await tx.printPlate.update({
+        where: { id: plate.id },
+        data: {
+          progress,
+          progressLastReportAt: now,
+          ...(startedAt ? { printStartedAt: startedAt } : {}),
+          ...(completedAt ? { printCompletedAt: completedAt, isPrintSuccessful: true } : {}),
+        },
+      });
+    }
+    // Members still printing (or waiting to); finished or reviewed ones keep their state.
+    const memberRows = await tx.printJob.findMany({
+      where: { plateId: plate.id, state: { in: ['QUEUED', 'SENT', 'PRINTING', 'PAUSED'] } },
+      select: { id: true },
+    });
+    const results: Array<{ id: string; started: boolean; completed: boolean }> = [];
+    for (const member of memberRows) {
+      const result = await recordPrintProgress(member.id, progress, { now }, tx);
+      if (!result.ok) {
+        throw new PrintTransitionError(result.reason);
+      }
+      results.push({ id: member.id, started: result.started, completed: result.completed });
+    }
+    return results;
+  }).catch((error) => {
+    if (error instanceof PrintTransitionError) return { error };
+    throw error;
+  });
+  if (!Array.isArray(members)) {
+    return { ok: false, reason: members.error.message };
+  }
+
+  for (const member of members) {
+    if (member.started) {
+      emitPrintWebhookEvent(member.id, 'print.started');
+    }
+    if (member.completed) {
+      emitPrintWebhookEvent(member.id, 'print.completed');
+    }
+  }
+
+  return { ok: true, memberIds: members.map((member) => member.id), reportedAt: now };
+}
+
+// One interruption report for the plate, recorded against every member still printing and
+// moving them all to the interruption's state. Failing or cancelling ends the plate; a pause
+// leaves it running until the next progress report resumes the members.
+export async function recordPrintPlateInterruption(
+  plate: { id: string; printCompletedAt: Date | null },
+  input: PrintInterruptionInput,
+  options: {
+    actorUserId: string;
+    deviceId: string | null;
+    printer: { serial: string; snapshotId: string | null } | null;
+  },
+): Promise<
+  | { ok: true; memberIds: string[]; interruptions: PrintInterruption[]; reason?: never }
+  | { ok: false; reason: string }
+> {
+  const now = new Date();
+  const state = PRINT_INTERRUPTION_STATES[input.kind];
+  const reason = describePrintInterruption(input);
+  const progressData = input.progress != null ? { progress: input.progress, progressLastReportAt: now } : {};
+
+  const recorded = await prisma.$transaction(async (tx) => {
+    const memberRows = await tx.printJob.findMany({
+      where: { plateId: plate.id, state: { in: ['QUEUED', 'SENT', 'PRINTING', 'PAUSED'] } },
+      select: { id: true, printCompletedAt: true },
+    });
+    if (memberRows.length === 0) {
+      throw new PrintTransitionError('This plate has no prints left to interrupt');
+    }
+
+    if (!plate.printCompletedAt) {
+      await tx.printPlate.update({
+        where: { id: plate.id },
+        data: state === 'FAILED'
+          ? { ...progressData, printCompletedAt: now, isPrintSuccessful: false }
+          : progressData,
+      });
+    }
+
+    const results: Array<{ id: string; failed: boolean; interruption: PrintInterruption }> = [];
+    for (const member of memberRows) {
+      const result = await transitionPrintJob(member.id, state, {
+        data: state === 'FAILED' ? {
+          ...progressData,
+          failureReason: reason,
+          isPrintSuccessful: false,
+          claimExpiresAt: null,
+          ...(member.printCompletedAt ? {} : { printCompletedAt: now }),
+        } : progressData,
+        actorUserId: options.actorUserId,
+        deviceId: options.deviceId,
+        reason,
+      }, tx);
+      if (!result.ok) {
+        throw new PrintTransitionError(result.reason);
+      }
+
+      const interruption = await tx.printInterruption.create({
+        data: {
+          printJobId: member.id,
+          kind: input.kind,
+          hmsCode: input.hmsCode,
+          hmsMessage: input.hmsMessage,
+          message: input.message,
+          progress: input.progress,
+          printerSerial: options.printer?.serial ?? null,
+          printerSnapshotId: options.printer?.snapshotId ?? null,
+          deviceId: options.deviceId,
+          createdAt: now,
+        },
+      });
+      results.push({ id: member.id, failed: state === 'FAILED' && result.from !== 'FAILED', interruption });
+    }
+    return results;
+  }).catch((error) => {
+    if (error instanceof PrintTransitionError) return { error };
+    throw error;
+  });
+  if (!Array.isArray(recorded)) {
+    return { ok: false, reason: recorded.error.message };
+  }
+
+  for (const member of recorded) {
+    if (member.failed) {
+      emitPrintWebhookEvent(member.id, 'print.failed');
+    }
+  }
+
+  return {
+    ok: true,
+    memberIds: recorded.map((member) => member.id),
+    interruptions: recorded.map((member) => member.interruption),
+  };
+}
+
+// Plates waiting for a geo processor to arrange them: never handed out, or handed out
+// long enough ago that the processor is presumed gone.
+function buildArrangeablePlateWhere(now: Date): Prisma.PrintPlateWhereInput {
+  return {
+    isEnabled: true,
+    arrangedAt: null,
+    arrangeFailureReason: null,
+    printStartedAt: null,
+    OR: [
+      { arrangeStartedAt: null },
+      { arrangeStartedAt: { lt: new Date(now.getTime() - getPlateArrangeTimeoutMs()) } },
+    ],
+  };
+}
+
+export const plateArrangeInclude = {
+  printJobs: {
+    select: {
+      id: true,
+      designJob: {
+        select: {
+          id: true,
+          objectId: true,
+          jobLabel: true,
+          meshFileName: true,
+          meshBlobUrl: true,
+          meshFileContents: true,
+          meshMetadata: true,
+        },
+      },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.PrintPlateInclude;
+
+export type PlateToArrange = Prisma.PrintPlateGetPayload<{ include: typeof plateArrangeInclude }>;
+
+// Hand the oldest waiting plate to a geo processor. Same conditional-update claim as
+// design jobs, so two processors never arrange the same plate.
+export async function claimNextPlateToArrange(): Promise<PlateToArrange | null> {
+  const now = new Date();
+  const where = buildArrangeablePlateWhere(now);
+  const candidates = await prisma.printPlate.findMany({
+    where,
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+    take: 5,
+  });
+
+  for (const candidate of candidates) {
+    const result = await prisma.printPlate.updateMany({
+      where: { AND: [where, { id: candidate.id }] },
+      data: { arrangeStartedAt: now },
+    });
+    if (result.count > 0) {
+      return prisma.printPlate.findUnique({ where: { id: candidate.id }, include: plateArrangeInclude });
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,168 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { canTransition, PRINT_JOB_STATE_LABELS, type PrintJobStateValue } from '@/lib/print-state';
+
+export interface PrintTransitionOptions {
+  // Extra conditions the job must still meet when the update runs (e.g. a live claim).
+  where?: Prisma.PrintJobWhereInput;
+  // Other columns written with the state change, e.g. timestamps and the claim.
+  data?: Prisma.PrintJobUncheckedUpdateManyInput;
+  actorUserId?: string | null;
+  deviceId?: string | null;
+  reason?: string | null;
+}
+
+// Thrown inside a transaction that moves several jobs, to roll it back when one can't move.
+export class PrintTransitionError extends Error {}
+
+// A job no other device holds a live dispatch claim on, so this device (or a session
+// without one) may start it.
+export function buildUnclaimedByOthersWhere(deviceId: string | null | undefined, now: Date): Prisma.PrintJobWhereInput {
+  return {
+    OR: [
+      { claimedByDeviceId: null },
+      { claimExpiresAt: null },
+      { claimExpiresAt: { lt: now } },
+      ...(deviceId ? [{ claimedByDeviceId: deviceId }] : []),
+    ],
+  };
+}
+
+export type PrintTransitionResult =
+  | { ok: true; from: PrintJobStateValue; reason?: never }
+  | { ok: false; from?: PrintJobStateValue; reason: string };
+
+async function runTransition(
+  tx: Prisma.TransactionClient,
+  jobId: string,
+  to: PrintJobStateValue,
+  options: PrintTransitionOptions,
+): Promise<PrintTransitionResult> {
+  const job = await tx.printJob.findUnique({ where: { id: jobId }, select: { state: true } });
+  if (!job) {
+    return { ok: false, reason: 'Print job not found' };
+  }
+
+  const from = job.state;
+  // Staying put is allowed (a renewed claim, another progress report) and isn't history.
+  if (from !== to && !canTransition(from, to)) {
+    return {
+      ok: false,
+      from,
+      reason: `Can't move a print from ${PRINT_JOB_STATE_LABELS[from]} to ${PRINT_JOB_STATE_LABELS[to]}`,
+    };
+  }
+
+  const now = new Date();
+  // Conditional on the state just read, so a concurrent transition makes this one miss.
+  const result = await tx.printJob.updateMany({
+    where: { AND: [options.where ?? {}, { id: jobId, state: from }] },
+    data: {
+      ...options.data,
+      state: to,
+      ...(from !== to ? { stateChangedAt: now } : {}),
+    },
+  });
+  if (result.count === 0) {
+    return { ok: false, from, reason: 'This print job was changed by someone else; refresh and try again' };
+  }
+
+  if (from !== to) {
+    await tx.printJobTransition.create({
+      data: {
+        printJobId: jobId,
+        fromState: from,
+        toState: to,
+        reason: options.reason ?? null,
+        actorUserId: options.actorUserId ?? null,
+        deviceId: options.deviceId ?? null,
+        createdAt: now,
+      },
+    });
+  }
+
+  return { ok: true, from };
+}
+
+// The one way a print job's state changes: checks the move against PRINT_JOB_TRANSITIONS,
+// applies it with the accompanying data, and records it. Pass a transaction client to
+// make it part of a larger change (e.g. a whole plate).
+export async function transitionPrintJob(
+  jobId: string,
+  to: PrintJobStateValue,
+  options: PrintTransitionOptions = {},
+  tx?: Prisma.TransactionClient,
+): Promise<PrintTransitionResult> {
+  if (tx) {
+    return runTransition(tx, jobId, to, options);
+  }
+  return prisma.$transaction((client) => runTransition(client, jobId, to, options));
+}
+
+// A progress report from the printer: the first one also starts the print (covering a
+// client that restarted before reporting the start), one on a paused print resumes it, and
+// 100% completes it, via PRINTING when the report beats the start.
+export async function recordPrintProgress(
+  jobId: string,
+  progress: number,
+  options: { now: Date; actorUserId?: string | null; deviceId?: string | null },
+  tx?: Prisma.TransactionClient,
+): Promise<{ ok: true; started: boolean; completed: boolean; reason?: never } | { ok: false; reason: string }> {
+  const run = async (client: Prisma.TransactionClient) => {
+    const job = await client.printJob.findUnique({
+      where: { id: jobId },
+      select: { state: true, printStartedAt: true, printCompletedAt: true },
+    });
+    if (!job) {
+      throw new PrintTransitionError('Print job not found');
+    }
+
+    const targets: PrintJobStateValue[] = progress < 100 ? ['PRINTING']
+      : job.state === 'QUEUED' || job.state === 'SENT' ? ['PRINTING', 'COMPLETED']
+        : ['COMPLETED'];
+    let started = false;
+    let completed = false;
+    for (const target of targets) {
+      // A report that starts the print gets the same claim guard as startPrintJob().
+      const starting = target === 'PRINTING' && (job.state === 'QUEUED' || job.state === 'SENT');
+      const result = await runTransition(client, jobId, target, {
+        where: starting ? buildUnclaimedByOthersWhere(options.deviceId, options.now) : undefined,
+        data: {
+          progress,
+          progressLastReportAt: options.now,
+          ...(target === 'PRINTING' && !job.printStartedAt ? { printStartedAt: options.now } : {}),
+          ...(target === 'COMPLETED' && !job.printCompletedAt ? { printCompletedAt: options.now, isPrintSuccessful: true } : {}),
+        },
+        actorUserId: options.actorUserId,
+        deviceId: options.deviceId,
+        reason: target === 'COMPLETED' ? 'Printer reported 100%' : `Printer reported ${progress}%`,
+      });
+      if (!result.ok) {
+        throw new PrintTransitionError(
+          starting && result.from ? 'This print job has already been claimed or started by another device' : result.reason
+        );
+      }
+      started ||= target === 'PRINTING' && (result.from === 'QUEUED' || result.from === 'SENT');
+      completed ||= target === 'COMPLETED' && result.from !== 'COMPLETED';
+    }
+    return { ok: true as const, started, completed };
+  };
+
+  if (tx) {
+    return run(tx);
+  }
+  return prisma.$transaction(run).catch((error) => {
+    if (error instanceof PrintTransitionError) return { ok: false as const, reason: error.message };
+    throw error;
+  });
+}
+
+export const printJobTransitionSelect = {
+  id: true,
+  fromState: true,
+  toState: true,
+  reason: true,
+  deviceId: true,
+  createdAt: true,
+  actor: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.PrintJobTransitionSelect;
@@ -0,0 +1,89 @@
+import type { PrintAcceptanceValue } from '@/lib/print-acceptance';
+
+// Print job lifecycle (mirrors the PrintJobState enum in schema.prisma). Client-safe.
+export const PRINT_JOB_STATES = [
+  'QUEUED',
+  'SENT',
+  'PRINTING',
+  'PAUSED',
+  'FAILED',
+  'COMPLETED',
+  'ACCEPTED',
+  'REJECTED',
+  'ARCHIVED',
+] as const;
+export type PrintJobStateValue = typeof PRINT_JOB_STATES[number];
+
+// Allowed moves. SENT -> QUEUED is a released claim, PRINTING/PAUSED -> QUEUED an operator
+// resetting a print that never really started. Review ends the lifecycle; REJECT_DESIGN can
+// be recorded before a print ever runs, so REJECTED is reachable from every active state.
+export const PRINT_JOB_TRANSITIONS: Record<PrintJobStateValue, readonly PrintJobStateValue[]> = {
+  QUEUED: ['SENT', 'PRINTING', 'REJECTED', 'ARCHIVED'],
+  SENT: ['QUEUED', 'PRINTING', 'FAILED', 'REJECTED', 'ARCHIVED'],
+  PRINTING: ['PAUSED', 'COMPLETED', 'FAILED', 'QUEUED', 'REJECTED', 'ARCHIVED'],
+  PAUSED: ['PRINTING', 'COMPLETED', 'FAILED', 'QUEUED', 'REJECTED', 'ARCHIVED'],
+  FAILED: ['REJECTED', 'ARCHIVED'],
+  COMPLETED: ['ACCEPTED', 'REJECTED', 'ARCHIVED'],
+  ACCEPTED: [],
+  REJECTED: [],
+  ARCHIVED: [],
+};
+
+export const PRINT_JOB_STATE_LABELS: Record<PrintJobStateValue, string> = {
+  QUEUED: 'Ready to Print',
+  SENT: 'Sent to Printer',
+  PRINTING: 'Printing',
+  PAUSED: 'Paused',
+  FAILED: 'Print Failed',
+  COMPLETED: 'Print Successful',
+  ACCEPTED: 'Accepted',
+  REJECTED: 'Rejected',
+  ARCHIVED: 'Archived',
+};
+
+export function isPrintJobState(value: unknown): value is PrintJobStateValue {
+  return PRINT_JOB_STATES.includes(value as PrintJobStateValue);
+}
+
+export function canTransition(from: PrintJobStateValue, to: PrintJobStateValue): boolean {
+  return PRINT_JOB_TRANSITIONS[from].includes(to);
+}
+
+// Not yet reviewed: still in the queue view rather than history.
+export function isActivePrintState(state: PrintJobStateValue): boolean {
+  return PRINT_JOB_TRANSITIONS[state].length > 0;
+}
+
+// Claimed, printing or paused: the job has (or is about to have) a printer.
+export function isPrintInProgress(state: PrintJobStateValue): boolean {
+  return state === 'SENT' || state === 'PRINTING' || state === 'PAUSED';
+}
+
+// Finished printing and waiting for review.
+export function isAwaitingReview(state: PrintJobStateValue): boolean {
+  return state === 'COMPLETED' || state === 'FAILED';
+}
+
+// Plate members move together, but review (and a reset) can split them. The plate reads as its
+// most pressing member: anything on the printer, then anything still to print or review.
+const PLATE_STATE_PRIORITY: readonly PrintJobStateValue[] = [
+  'PAUSED',
+  'PRINTING',
+  'SENT',
+  'QUEUED',
+  'FAILED',
+  'COMPLETED',
+  'REJECTED',
+  'ACCEPTED',
+  'ARCHIVED',
+];
+
+export function derivePrintPlateState(memberStates: readonly PrintJobStateValue[]): PrintJobStateValue {
+  return PLATE_STATE_PRIORITY.find((state) => memberStates.includes(state)) ?? 'QUEUED';
+}
+
+export function stateForAcceptance(acceptance: PrintAcceptanceValue): PrintJobStateValue {
+  if (acceptance === 'ACCEPTED') return 'ACCEPTED';
+  if (acceptance === 'ARCHIVED') return 'ARCHIVED';
+  return 'REJECTED';
+}
@@ -0,0 +1,142 @@
+import type { Prisma } from '@prisma/client';
+import { getAllDesigns, getDesignById } from '@/designs/registry';
+
+// What a geo processor says it can run. Without generatorVersions the processor
+// accepts any version of the algorithm.
+export interface ProcessorCapability {
+  algorithmName: string;
+  generatorVersions?: string[];
+}
+
+// Fields of a design job needed to decide whether a processor can run it.
+export interface RoutableDesignJob {
+  designId: string;
+  algorithmName: string;
+  generatorVersionSnapshot: string | null;
+}
+
+const MAX_CAPABILITIES = 100;
+const MAX_NAME_LENGTH = 128;
+
+function isValidName(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_NAME_LENGTH;
+}
+
+// Accepts either objects ({ algorithmName, generatorVersions }) or the shorthand
+// strings "InfinityFlex" / "SizingRings@1". Returns null when the payload is malformed.
+export function parseProcessorCapabilities(raw: unknown): ProcessorCapability[] | null {
+  if (!Array.isArray(raw) || raw.length > MAX_CAPABILITIES) {
+    return null;
+  }
+
+  const byAlgorithm = new Map<string, ProcessorCapability>();
+
+  for (const item of raw) {
+    let algorithmName: string;
+    let versions: string[] | undefined;
+
+    if (typeof item === 'string') {
+      const [name, version] = item.split('@');
+      if (!isValidName(name) || (version !== undefined && !isValidName(version))) {
+        return null;
+      }
+      algorithmName = name.trim();
+      versions = version !== undefined ? [version.trim()] : undefined;
+    } else if (item && typeof item === 'object') {
+      const candidate = item as { algorithmName?: unknown; generatorVersions?: unknown };
+      if (!isValidName(candidate.algorithmName)) {
+        return null;
+      }
+      algorithmName = candidate.algorithmName.trim();
+      if (candidate.generatorVersions !== undefined) {
+        if (!Array.isArray(candidate.generatorVersions) || !candidate.generatorVersions.every(isValidName)) {
+          return null;
+        }
+        versions = candidate.generatorVersions.map((version) => version.trim());
+      }
+    } else {
+      return null;
+    }
+
+    // Repeated entries merge; an unversioned entry wins over versioned ones.
+    const existing = byAlgorithm.get(algorithmName);
+    if (existing && (!existing.generatorVersions || !versions)) {
+      byAlgorithm.set(algorithmName, { algorithmName });
+    } else if (existing) {
+      byAlgorithm.set(algorithmName, {
+        algorithmName,
+        generatorVersions: Array.from(new Set([...(existing.generatorVersions ?? []), ...(versions ?? [])])),
+      });
+    } else {
+      byAlgorithm.set(algorithmName, versions ? { algorithmName, generatorVersions: versions } : { algorithmName });
+    }
+  }
+
+  return Array.from(byAlgorithm.values());
+}
+
+// Generator version a job needs: the snapshot taken when it was created, else the
+// design's current version from the registry.
+export function getRequiredGeneratorVersion(job: Pick<RoutableDesignJob, 'designId' | 'generatorVersionSnapshot'>): string {
+  return job.generatorVersionSnapshot ?? getDesignById(job.designId)?.generatorVersion ?? '1';
+}
+
+// capabilities === null means the processor never advertised (legacy) and runs anything.
+export function canProcessorRunJob(capabilities: ProcessorCapability[] | null, job: RoutableDesignJob): boolean {
+  if (capabilities === null) {
+    return true;
+  }
+
+  const capability = capabilities.find((entry) => entry.algorithmName === job.algorithmName);
+  if (!capability) {
+    return false;
+  }
+
+  if (!capability.generatorVersions) {
+    return true;
+  }
+
+  return capability.generatorVersions.includes(getRequiredGeneratorVersion(job));
+}
+
+// Prisma filter matching exactly the jobs canProcessorRunJob would accept. Jobs
+// without a version snapshot are matched through the registry's current version.
+export function buildCapabilityJobFilter(capabilities: ProcessorCapability[] | null): Prisma.DesignJobWhereInput | undefined {
+  if (capabilities === null) {
+    return undefined;
+  }
+
+  if (capabilities.length === 0) {
+    return { id: { in: [] } };
+  }
+
+  const designs = getAllDesigns();
+
+  return {
+    OR: capabilities.map((capability): Prisma.DesignJobWhereInput => {
+      if (!capability.generatorVersions) {
+        return { design: { algorithmName: capability.algorithmName } };
+      }
+
+      const versions = capability.generatorVersions;
+      const currentVersionDesignIds = designs
+        .filter((design) => design.algorithmName === capability.algorithmName && versions.includes(design.generatorVersion))
+        .map((design) => design.id);
+
+      return {
+        design: { algorithmName: capability.algorithmName },
+        OR: [
+          { generatorVersionSnapshot: { in: versions } },
+          { generatorVersionSnapshot: null, designId: { in: currentVersionDesignIds } },
+        ],
+      };
+    }),
+  };
+}
+
+export function isWaitingForCapableProcessor(
+  onlineCapabilities: Array<ProcessorCapability[] | null>,
+  job: RoutableDesignJob,
+): boolean {
+  return !onlineCapabilities.some((capabilities) => canProcessorRunJob(capabilities, job));
+}
@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma';
 import { generateObjectId } from '@/lib/objectId';
+import { getDesignById } from '@/designs/registry';
 
 export const HEALTH_CHECK_JOB_LABEL_PREFIX = 'processor-health-check:';
 const DEFAULT_HEALTH_CHECK_WAIT_TIMEOUT_MS = 5 * 60 * 1000;
@@ -182,6 +183,7 @@ export async function createProcessorHealthCheckJob(options: {
 
   const objectId = await generateObjectId();
   const jobLabel = buildProcessorHealthCheckJobLabel(options.source);
+  const cylinderDefinition = getDesignById(cylinderDesign.id);
 
   const job = await prisma.designJob.create({
     data: {
@@ -190,6 +192,9 @@ export async function createProcessorHealthCheckJob(options: {
       owningOrganizationId: systemOrg.id,
       inputParameters: JSON.stringify({ radius: 10, height: 10 }),
       isDebugRequest: true,
+      priority: 'BACKGROUND',
+      definitionVersionSnapshot: cylinderDefinition?.definitionVersion,
+      generatorVersionSnapshot: cylinderDefinition?.generatorVersion,
       objectId,
       objectIdGeneratedAt: new Date(),
       jobLabel,
@@ -3,11 +3,12 @@ import { sendEmail } from '@/lib/email';
 import { logAuditEvent } from '@/lib/audit';
 import {
   clearProcessorOfflineState,
-  getOrCreateProcessorHeartbeat,
   getProcessorOfflineReminderIntervalMs,
   getProcessorOfflineThresholdMs,
+  listProcessorHeartbeats,
   setProcessorOfflineAlertSent,
   setProcessorOfflineState,
+  type ProcessorHeartbeatSnapshot,
 } from '@/lib/geo-processor-health';
 import { registerInternalTask } from '@/lib/internal-task-scheduler';
 import ProcessorOfflineAlertEmail from '@/emails/processor-offline-alert';
@@ -48,11 +49,14 @@ function formatDuration(durationMs: number): string {
   return `${seconds}s`;
 }
 
-async function evaluateProcessorOfflineState(): Promise<void> {
-  const heartbeat = await getOrCreateProcessorHeartbeat();
+// Each registered processor is evaluated on its own so one box going down alerts
+// even while another keeps the queue moving.
+async function evaluateSingleProcessorOfflineState(
+  heartbeat: ProcessorHeartbeatSnapshot,
+  now: Date,
+): Promise<void> {
   const thresholdMs = getProcessorOfflineThresholdMs();
   const reminderIntervalMs = getProcessorOfflineReminderIntervalMs();
-  const now = new Date();
 
   if (!heartbeat.lastPingAt) {
     return;
@@ -63,11 +67,13 @@ async function evaluateProcessorOfflineState(): Promise<void> {
 
   if (!isOffline) {
     if (heartbeat.offlineSince || heartbeat.lastOfflineAlertSentAt) {
-      await clearProcessorOfflineState();
+      await clearProcessorOfflineState(heartbeat.id);
       logAuditEvent({
         eventType: 'PROCESSOR_OFFLINE_RECOVERED',
         channel: 'SYSTEM',
         metadata: {
+          processorId: heartbeat.id,
+          processorName: heartbeat.name,
           recoveredAt: now.toISOString(),
           lastPingAt: heartbeat.lastPingAt.toISOString(),
         },
@@ -80,7 +86,7 @@ async function evaluateProcessorOfflineState(): Promise<void> {
   const isInitialOfflineAlert = !heartbeat.lastOfflineAlertSentAt;
 
   if (!heartbeat.offlineSince) {
-    await setProcessorOfflineState(offlineSince);
+    await setProcessorOfflineState(heartbeat.id, offlineSince);
   }
 
   const shouldSendReminder = Boolean(
@@ -107,11 +113,13 @@ async function evaluateProcessorOfflineState(): Promise<void> {
   const isReminder = !isInitialOfflineAlert;
 
   if (recipientEmails.length === 0) {
-    await setProcessorOfflineAlertSent(now);
+    await setProcessorOfflineAlertSent(heartbeat.id, now);
     logAuditEvent({
       eventType: 'PROCESSOR_OFFLINE_ALERT_SKIPPED_NO_RECIPIENTS',
       channel: 'SYSTEM',
       metadata: {
+        processorId: heartbeat.id,
+        processorName: heartbeat.name,
         at: now.toISOString(),
         offlineSince: offlineSince.toISOString(),
         lastPingAt: heartbeat.lastPingAt.toISOString(),
@@ -122,9 +130,12 @@ async function evaluateProcessorOfflineState(): Promise<void> {
 
   await sendEmail({
     to: recipientEmails,
-    subject: isReminder ? 'Reminder: Design Processor still offline' : 'Design Processor Offline',
+    subject: isReminder
+      ? `Reminder: Design Processor "${heartbeat.name}" still offline`
+      : `Design Processor "${heartbeat.name}" Offline`,
     react: ProcessorOfflineAlertEmail({
       isReminder,
+      processorName: heartbeat.name,
       lastPingTime: heartbeat.lastPingAt.toISOString(),
       offlineDuration: formatDuration(now.getTime() - offlineSince.getTime()),
       adminUrl: buildAdminUrl(),
@@ -133,11 +144,13 @@ async function evaluateProcessorOfflineState(): Promise<void> {
     }),
   });
 
-  await setProcessorOfflineAlertSent(now);
+  await setProcessorOfflineAlertSent(heartbeat.id, now);
   logAuditEvent({
     eventType: isReminder ? 'PROCESSOR_OFFLINE_REMINDER_SENT' : 'PROCESSOR_OFFLINE_ALERT_SENT',
     channel: 'SYSTEM',
     metadata: {
+      processorId: heartbeat.id,
+      processorName: heartbeat.name,
       at: now.toISOString(),
       recipientCount: recipientEmails.length,
       offlineSince: offlineSince.toISOString(),
@@ -147,11 +160,20 @@ async function evaluateProcessorOfflineState(): Promise<void> {
   });
 }
 
+async function evaluateProcessorOfflineState(): Promise<void> {
+  const heartbeats = await listProcessorHeartbeats();
+  const now = new Date();
+
+  for (const heartbeat of heartbeats) {
+    await evaluateSingleProcessorOfflineState(heartbeat, now);
+  }
+}
+
 export function registerProcessorOfflineMonitorTask(): void {
   registerInternalTask({
     key: PROCESSOR_OFFLINE_MONITOR_TASK_KEY,
     label: 'Processor Offline Monitor',
-    description: 'Evaluates processor heartbeat and sends transition/reminder alerts.',
+    description: 'Evaluates each processor heartbeat and sends transition/reminder alerts.',
     intervalMs: getMonitorIntervalMs(),
     runOnStartup: true,
     task: evaluateProcessorOfflineState,
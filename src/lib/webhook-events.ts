@@ -0,0 +1,20 @@
+// Client-safe: no fs or server-only imports.
+// Lifecycle events an organization's webhook endpoints can subscribe to.
+export const WEBHOOK_EVENTS = [
+  { type: 'design_job.completed', label: 'Design job completed', description: 'Geometry is generated and the job is in the print queue' },
+  { type: 'design_job.failed', label: 'Design job failed', description: 'The processor reported an error or gave up on the job' },
+  { type: 'print.started', label: 'Print started', description: 'A printer started the job' },
+  { type: 'print.completed', label: 'Print completed', description: 'The printer finished the job' },
+  { type: 'print.failed', label: 'Print failed', description: 'The print failed or was cancelled before it finished' },
+  { type: 'print.accepted', label: 'Print accepted', description: 'The print passed clinical review' },
+  { type: 'print.rejected', label: 'Print rejected', description: 'The print was rejected at review (design or print fault)' },
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number]['type'];
+
+// Sent from the admin page to check an endpoint; endpoints always receive it.
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return WEBHOOK_EVENTS.some((event) => event.type === value);
+}
@@ -0,0 +1,424 @@
+import { createHmac, randomBytes } from 'crypto';
+import { lookup as lookupCallback, type LookupAddress, type LookupOptions } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { Agent, fetch } from 'undici';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { registerInternalTask } from '@/lib/internal-task-scheduler';
+import { isWebhookEventType, type WebhookEventType } from '@/lib/webhook-events';
+import type { FieldErrors } from '@/lib/formValidation';
+
+// Outbound webhooks. An event is recorded as one WebhookDelivery per subscribed endpoint
+// and sent straight away; deliveries that fail are retried by the webhook-deliveries task
+// with exponential backoff. Each POST carries:
+//   X-Splint-Event:     the event type
+//   X-Splint-Delivery:  the delivery id (stable across retries, so receivers can dedupe)
+//   X-Splint-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>" with the secret>
+// scripts/webhook-receiver.ts is a local receiver that checks the signature, for testing.
+
+const TASK_KEY = 'webhook-deliveries';
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+// 1 min, 2 min, 4 min ... capped at 6 h; eight attempts span about four hours.
+const BACKOFF_BASE_MS = 60 * 1000;
+const BACKOFF_MAX_MS = 6 * 60 * 60 * 1000;
+// How long a claimed delivery is held before the retry task may pick it up again.
+const IN_FLIGHT_MS = 2 * 60 * 1000;
+const RETRY_BATCH_SIZE = 50;
+export const WEBHOOK_URL_MAX_LENGTH = 500;
+export const WEBHOOK_DESCRIPTION_MAX_LENGTH = 250;
+
+export const webhookEndpointSelect = {
+  id: true,
+  url: true,
+  events: true,
+  description: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: { select: { name: true, email: true } },
+} as const;
+
+type WebhookEndpointRow = Prisma.WebhookEndpointGetPayload<{ select: typeof webhookEndpointSelect }>;
+
+// The secret is only returned when the endpoint is created.
+export function toWebhookEndpointData(row: WebhookEndpointRow) {
+  return {
+    ...row,
+    // Written only through parseWebhookEndpointInput, so the stored shape is trusted.
+    events: row.events as unknown as WebhookEventType[],
+  };
+}
+
+// Endpoints hold a signing secret and receive order data, so only the organization's
+// admins (and system admins) can see or change them.
+export async function canManageWebhooks(userId: string, organizationId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, organizationId: true },
+  });
+  return user?.role === 'SYSTEM_ADMIN' || (user?.organizationId === organizationId && user?.role === 'ORG_ADMIN');
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export interface WebhookEndpointInput {
+  url: string;
+  events: WebhookEventType[];
+  description: string | null;
+  isActive: boolean;
+}
+
+// Loopback, private, link-local, shared, documentation, multicast and other reserved
+// ranges. Endpoints are chosen by org admins, so the server must not be made to POST into
+// its own network.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isPublicAddress(address: string): boolean {
+  // Dotted IPv4-mapped addresses are judged as IPv4; other mapped forms are refused above.
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  const ip = mapped ? mapped[1] : address;
+  const version = isIP(ip);
+  return version !== 0 && !NON_PUBLIC_ADDRESSES.check(ip, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+function isLocalReceiver(hostname: string): boolean {
+  return ['localhost', '127.0.0.1', '[::1]', '::1'].includes(hostname) && process.env.NODE_ENV !== 'production';
+}
+
+// Resolve the endpoint's host and refuse it if any address it resolves to isn't public.
+// This is for a useful error when the endpoint is saved; sends are guarded by webhookAgent.
+async function checkWebhookHost(url: URL): Promise<string | null> {
+  if (isLocalReceiver(url.hostname)) return null;
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+  } catch {
+    return 'URL host could not be resolved';
+  }
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    return 'URL must point to a public address';
+  }
+  return null;
+}
+
+// DNS can change between that check and a send, so deliveries connect through an agent whose
+// lookup refuses non-public addresses: the address checked is the address the socket dials.
+function publicAddressLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: Error | null, address: string | LookupAddress[], family?: number) => void,
+): void {
+  lookupCallback(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (!isLocalReceiver(hostname) && (addresses.length === 0 || !addresses.every((entry) => isPublicAddress(entry.address)))) {
+      return callback(new Error(`${hostname} does not resolve to a public address`), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+const webhookAgent = new Agent({ connect: { lookup: publicAddressLookup } });
+
+// Hosts given as an IP address are dialled without a lookup, so they are checked directly.
+function checkWebhookAddressLiteral(url: URL): string | null {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (!isIP(hostname) || isLocalReceiver(url.hostname)) return null;
+  return isPublicAddress(hostname) ? null : 'URL must point to a public address';
+}
+
+// Plain http is allowed only for a local receiver outside production, for testing.
+async function validateWebhookUrl(raw: unknown): Promise<string | null> {
+  if (typeof raw !== 'string' || raw.trim() === '') {
+    return 'URL is required';
+  }
+  if (raw.trim().length > WEBHOOK_URL_MAX_LENGTH) {
+    return `URL must be ${WEBHOOK_URL_MAX_LENGTH} characters or less`;
+  }
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return 'URL is not valid';
+  }
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && isLocalReceiver(url.hostname))) {
+    return 'URL must use https';
+  }
+  return checkWebhookHost(url);
+}
+
+// Validate a create/update body. On update, omitted properties keep their current values.
+export async function parseWebhookEndpointInput(
+  body: unknown,
+  current?: WebhookEndpointInput,
+): Promise<{ input: WebhookEndpointInput; errors: FieldErrors }> {
+  const raw = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const errors: FieldErrors = {};
+
+  const rawUrl = raw.url === undefined && current ? current.url : raw.url;
+  const urlError = await validateWebhookUrl(rawUrl);
+  if (urlError) {
+    errors.url = urlError;
+  }
+
+  const rawEvents = raw.events === undefined && current ? current.events : raw.events;
+  const events = Array.isArray(rawEvents) ? [...new Set(rawEvents.filter(isWebhookEventType))] : [];
+  if (!Array.isArray(rawEvents) || events.length !== rawEvents.length || events.length === 0) {
+    errors.events = 'Choose at least one known event';
+  }
+
+  const rawDescription = raw.description === undefined && current ? current.description : raw.description;
+  const description = typeof rawDescription === 'string' && rawDescription.trim() ? rawDescription.trim() : null;
+  if (description && description.length > WEBHOOK_DESCRIPTION_MAX_LENGTH) {
+    errors.description = `Description must be ${WEBHOOK_DESCRIPTION_MAX_LENGTH} characters or less`;
+  }
+
+  const isActive = raw.isActive === undefined ? current?.isActive ?? true : raw.isActive === true;
+
+  return {
+    input: { url: typeof rawUrl === 'string' ? rawUrl.trim() : '', events, description, isActive },
+    errors,
+  };
+}
+
+function nextBackoffMs(attemptCount: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** (attemptCount - 1), BACKOFF_MAX_MS);
+}
+
+// Send one delivery. It is claimed first (by pushing nextAttemptAt forward), so the
+// immediate send and the retry task never post the same delivery at once.
+export async function attemptWebhookDelivery(deliveryId: string): Promise<void> {
+  const now = new Date();
+  const claimed = await prisma.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: 'PENDING', nextAttemptAt: { lte: now } },
+    data: { nextAttemptAt: new Date(now.getTime() + IN_FLIGHT_MS) },
+  });
+  if (claimed.count === 0) return;
+
+  const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: { endpoint: { select: { url: true, secret: true, isActive: true } } },
+  });
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(now.getTime() / 1000);
+  let responseStatus: number | null = null;
+  let lastError: string | null = null;
+  const hostError = delivery.endpoint.isActive ? checkWebhookAddressLiteral(new URL(delivery.endpoint.url)) : null;
+  if (!delivery.endpoint.isActive) {
+    lastError = 'Endpoint is disabled';
+  } else if (hostError) {
+    lastError = hostError;
+  } else {
+    try {
+      const response = await fetch(delivery.endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'SplintFactory-Webhooks/1',
+          'X-Splint-Event': delivery.eventType,
+          'X-Splint-Delivery': delivery.id,
+          'X-Splint-Signature': `t=${timestamp},v1=${signWebhookPayload(delivery.endpoint.secret, timestamp, body)}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        dispatcher: webhookAgent,
+      });
+      responseStatus = response.status;
+      // Only the status line is kept: the body is the receiver's, and org admins can read lastError.
+      await response.body?.cancel().catch(() => {});
+      if (!response.ok) {
+        lastError = `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`;
+      }
+    } catch (error) {
+      // undici reports connection failures (including a refused address) as the cause.
+      const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+      lastError = cause instanceof Error ? cause.message : String(cause);
+    }
+  }
+
+  const attemptCount = delivery.attemptCount + 1;
+  const succeeded = lastError === null;
+  const exhausted = !succeeded && attemptCount >= WEBHOOK_MAX_ATTEMPTS;
+  await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      attemptCount,
+      lastAttemptAt: now,
+      responseStatus,
+      lastError,
+      status: succeeded ? 'SUCCEEDED' : exhausted ? 'FAILED' : 'PENDING',
+      deliveredAt: succeeded ? new Date() : null,
+      nextAttemptAt: succeeded || exhausted ? null : new Date(Date.now() + nextBackoffMs(attemptCount)),
+    },
+  });
+
+  if (!succeeded) {
+    console.warn(`[Webhooks] Delivery ${deliveryId} (${delivery.eventType}) attempt ${attemptCount} failed: ${lastError}${exhausted ? '; giving up' : ''}`);
+  }
+}
+
+// Queue a delivery to one endpoint and send it in the background.
+export async function createWebhookDelivery(endpointId: string, eventType: string, payload: Prisma.InputJsonValue) {
+  const delivery = await prisma.webhookDelivery.create({
+    data: { endpointId, eventType, payload },
+    select: { id: true },
+  });
+  void attemptWebhookDelivery(delivery.id).catch((error) => {
+    console.error(`[Webhooks] Failed to send delivery ${delivery.id}:`, error);
+  });
+  return delivery;
+}
+
+// Fire-and-forget, like logAuditEvent: each emit function records the event for every
+// active endpoint of the organization subscribed to it. Failures are logged and never
+// reach the caller.
+function runInBackground(eventType: string, work: () => Promise<void>): void {
+  work().catch((error) => {
+    console.error('[Webhooks] Failed to queue event:', eventType, error);
+  });
+}
+
+async function queueWebhookEvent(organizationId: string, eventType: WebhookEventType, data: Record<string, unknown>) {
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    where: { organizationId, isActive: true },
+    select: { id: true, events: true },
+  });
+  for (const endpoint of endpoints) {
+    if (!(endpoint.events as unknown as string[]).includes(eventType)) continue;
+    await createWebhookDelivery(endpoint.id, eventType, {
+      type: eventType,
+      createdAt: new Date().toISOString(),
+      organizationId,
+      data,
+    } as Prisma.InputJsonValue);
+  }
+}
+
+// Payloads carry ids and the de-identified job label, never patient data.
+export function emitDesignJobWebhookEvent(
+  designJobId: string,
+  eventType: Extract<WebhookEventType, `design_job.${string}`>,
+): void {
+  runInBackground(eventType, async () => {
+    const job = await prisma.designJob.findUnique({
+      where: { id: designJobId },
+      select: {
+        id: true,
+        objectId: true,
+        jobLabel: true,
+        designId: true,
+        owningOrganizationId: true,
+        importKey: true,
+        processCompletedAt: true,
+        failureReason: true,
+        isDebugRequest: true,
+        design: { select: { name: true } },
+      },
+    });
+    // Processor self-checks and test runs aren't orders.
+    if (!job || job.isDebugRequest) return;
+    await queueWebhookEvent(job.owningOrganizationId, eventType, {
+      designJobId: job.id,
+      objectId: job.objectId,
+      jobLabel: job.jobLabel,
+      designId: job.designId,
+      designName: job.design.name,
+      importKey: job.importKey,
+      processCompletedAt: job.processCompletedAt,
+      failureReason: job.failureReason,
+    });
+  });
+}
+
+export function emitPrintWebhookEvent(
+  printJobId: string,
+  eventType: Extract<WebhookEventType, `print.${string}`>,
+): void {
+  runInBackground(eventType, async () => {
+    const print = await prisma.printJob.findUnique({
+      where: { id: printJobId },
+      select: {
+        id: true,
+        state: true,
+        printStartedAt: true,
+        printCompletedAt: true,
+        isPrintSuccessful: true,
+        failureReason: true,
+        printAcceptance: true,
+        designJob: {
+          select: {
+            id: true,
+            objectId: true,
+            jobLabel: true,
+            designId: true,
+            owningOrganizationId: true,
+            importKey: true,
+            isDebugRequest: true,
+          },
+        },
+      },
+    });
+    if (!print || print.designJob.isDebugRequest) return;
+    await queueWebhookEvent(print.designJob.owningOrganizationId, eventType, {
+      printJobId: print.id,
+      designJobId: print.designJob.id,
+      objectId: print.designJob.objectId,
+      jobLabel: print.designJob.jobLabel,
+      designId: print.designJob.designId,
+      importKey: print.designJob.importKey,
+      state: print.state,
+      printStartedAt: print.printStartedAt,
+      printCompletedAt: print.printCompletedAt,
+      isPrintSuccessful: print.isPrintSuccessful,
+      failureReason: print.failureReason,
+      printAcceptance: print.printAcceptance,
+    });
+  });
+}
+
+async function retryDueWebhookDeliveries(): Promise<void> {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+    select: { id: true },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: RETRY_BATCH_SIZE,
+  });
+  for (const delivery of due) {
+    await attemptWebhookDelivery(delivery.id);
+  }
+}
+
+export function registerWebhookDeliveryTask(): void {
+  registerInternalTask({
+    key: TASK_KEY,
+    label: 'Webhook Deliveries',
+    description: `Retries failed webhook deliveries with exponential backoff, up to ${WEBHOOK_MAX_ATTEMPTS} attempts.`,
+    intervalMs: 60 * 1000,
+    runOnStartup: true,
+    task: retryDueWebhookDeliveries,
+  });
+}
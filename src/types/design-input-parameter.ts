@@ -3,7 +3,7 @@
  * Based on the specification in agent-instructions/250903_print_queue_agent_instructions.md
  */
 
-export type InputType = 'Float' | 'Integer' | 'Text' | 'Boolean';
+export type InputType = 'Float' | 'Integer' | 'Text' | 'Boolean' | 'Enum' | 'Group' | 'Array';
 
 export interface BaseInputParameter {
   /**
@@ -41,9 +41,31 @@ export interface TextInputParameter extends BaseInputParameter {
   TextMaxLen: number;
 }
 
+/**
+ * Canonical unit of a numeric parameter. Stored inputParameters are always in this
+ * unit, whatever the user entered it in.
+ */
+export type ParameterUnit = 'mm' | 'deg' | 'count';
+
+/**
+ * What an 'mm' parameter measures. Circumferences may be entered as a diameter.
+ */
+export type ParameterMeasurement = 'length' | 'circumference';
+
 export interface NumericInputParameter extends BaseInputParameter {
   InputType: 'Float' | 'Integer';
-  
+
+  /**
+   * Canonical unit of the value. NumberMin/NumberMax are in this unit.
+   * Omitted for unitless parameters.
+   */
+  Unit?: ParameterUnit;
+
+  /**
+   * Only meaningful when Unit is 'mm'. Defaults to 'length'.
+   */
+  Measurement?: ParameterMeasurement;
+
   /**
    * Minimum value for Integer or Float type parameters
    * Optional but at least one of NumberMin or NumberMax should be provided
@@ -62,7 +84,70 @@ export interface BooleanInputParameter extends BaseInputParameter {
   InputType: 'Boolean';
 }
 
-export type InputParameter = TextInputParameter | NumericInputParameter | BooleanInputParameter;
+export interface EnumOption {
+  /**
+   * Value stored in inputParameters and sent to the geo processor
+   */
+  Value: string;
+
+  /**
+   * Label shown in the form; defaults to Value
+   */
+  Label?: string;
+}
+
+export interface EnumInputParameter extends BaseInputParameter {
+  InputType: 'Enum';
+
+  /**
+   * Allowed values, in display order. At least one option is required.
+   */
+  EnumOptions: EnumOption[];
+}
+
+export interface GroupInputParameter extends BaseInputParameter {
+  InputType: 'Group';
+
+  /**
+   * Child parameters. The group's value is an object keyed by their InputNames.
+   */
+  GroupParameters: InputParameter[];
+}
+
+export interface ArrayInputParameter extends BaseInputParameter {
+  InputType: 'Array';
+
+  /**
+   * Parameters of each item. Every item is an object keyed by their InputNames
+   * (e.g. one entry per finger).
+   */
+  ArrayItemParameters: InputParameter[];
+
+  /**
+   * Minimum number of items (default 0)
+   */
+  ArrayMinItems?: number;
+
+  /**
+   * Maximum number of items. When equal to ArrayMinItems the list is fixed-length
+   * and the form offers no add/remove buttons.
+   */
+  ArrayMaxItems?: number;
+
+  /**
+   * Optional per-index labels for the items (e.g. ["Index", "Middle", "Ring", "Small"]).
+   * Items beyond the list are labelled "<InputDescription> N".
+   */
+  ArrayItemLabels?: string[];
+}
+
+export type InputParameter =
+  | TextInputParameter
+  | NumericInputParameter
+  | BooleanInputParameter
+  | EnumInputParameter
+  | GroupInputParameter
+  | ArrayInputParameter;
 
 /**
  * Array of geometry input parameters for a named geometry design
@@ -111,5 +196,23 @@ export const InputParameterValidation = {
                       param.NumberMax >= param.NumberMin;
     
     return hasMinOrMax && validRange;
+  },
+
+  /**
+   * Validates an enum parameter configuration
+   */
+  isValidEnumParameter: (param: EnumInputParameter): boolean => {
+    const values = param.EnumOptions.map(option => option.Value);
+    return values.length >= 1 && new Set(values).size === values.length;
+  },
+
+  /**
+   * Validates an array parameter configuration
+   */
+  isValidArrayParameter: (param: ArrayInputParameter): boolean => {
+    const min = param.ArrayMinItems ?? 0;
+    return param.ArrayItemParameters.length >= 1 &&
+           min >= 0 &&
+           (param.ArrayMaxItems === undefined || param.ArrayMaxItems >= min);
   }
 };
@@ -0,0 +1,94 @@
+import { test, expect, type APIRequestContext } from '@playwright/test';
+import Ajv from 'ajv';
+import { INFINITY_FLEX, makeJobLabel } from '../fixtures/test-data';
+
+// Contract test for the public /api/v1 surface: requests are checked against the
+// served OpenAPI document before they are sent, and responses after.
+// Needs an API key scoped to the test organization with designs:read,
+// design-jobs:read, design-jobs:write and print-queue:read.
+const API_KEY = process.env.E2E_API_KEY;
+const DESIGN_NAME = process.env.E2E_DESIGN_NAME || INFINITY_FLEX.designName;
+
+test.describe('api v1: requests and responses match the OpenAPI document', () => {
+  test.skip(!API_KEY, 'Set E2E_API_KEY in .env.e2e.local to run the API contract test.');
+
+  let ajv: Ajv.Ajv;
+  const headers = { Authorization: `Bearer ${API_KEY}` };
+
+  const schema = (name: string) => ajv.getSchema(`openapi.json#/components/schemas/${name}`)!;
+  const expectValid = (name: string, value: unknown) => {
+    const validate = schema(name);
+    expect(validate(value), `${name}: ${ajv.errorsText(validate.errors)}`).toBe(true);
+  };
+  const getData = async (request: APIRequestContext, path: string) => {
+    const res = await request.get(`/api/v1${path}`, { headers });
+    expect(res.status(), `GET ${path}`).toBe(200);
+    return (await res.json()).data;
+  };
+
+  test.beforeAll(async ({ request }) => {
+    const res = await request.get('/api/v1/openapi.json');
+    expect(res.ok()).toBe(true);
+    const doc = await res.json();
+    expect(doc.openapi).toMatch(/^3\./);
+    ajv = new Ajv();
+    ajv.addSchema(doc, 'openapi.json');
+  });
+
+  test('partner can find a design, create a job and read it back', async ({ request }) => {
+    // 1. Designs list, paginated.
+    const designsRes = await request.get('/api/v1/designs?limit=100', { headers });
+    expect(designsRes.status()).toBe(200);
+    const designs = await designsRes.json();
+    designs.data.forEach((design: unknown) => expectValid('Design', design));
+    const design = designs.data.find((d: { name: string }) => d.name === DESIGN_NAME);
+    expect(design, `design "${DESIGN_NAME}" should be visible to the key's organization`).toBeTruthy();
+    expectValid('Design', await getData(request, `/designs/${design.id}`));
+
+    // 2. Create a job; the body is validated against the document first.
+    const body = {
+      designId: design.id,
+      jobLabel: makeJobLabel('e2e-api'),
+      idempotencyKey: `e2e-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      inputParameters: INFINITY_FLEX.params,
+    };
+    expectValid('CreateDesignJobRequest', body);
+    const created = await request.post('/api/v1/design-jobs', { headers, data: body });
+    expect(created.status()).toBe(201);
+    const job = (await created.json()).data;
+    expectValid('DesignJob', job);
+    test.info().annotations.push({ type: 'designJobId', description: job.id });
+
+    // 3. The same idempotency key returns the same job.
+    const repeated = await request.post('/api/v1/design-jobs', { headers, data: body });
+    expect(repeated.status()).toBe(200);
+    expect((await repeated.json()).data.id).toBe(job.id);
+
+    // 4. Read it back, alone and in the list.
+    expectValid('DesignJob', await getData(request, `/design-jobs/${job.id}`));
+    const jobs = await getData(request, `/design-jobs?designId=${design.id}&limit=5`);
+    expect(jobs.map((j: { id: string }) => j.id)).toContain(job.id);
+
+    const prints = await getData(request, '/print-jobs?limit=5');
+    prints.forEach((print: unknown) => expectValid('PrintJob', print));
+  });
+
+  test('errors use the shared envelope', async ({ request }) => {
+    const invalid = { designId: '', inputParameters: 'not an object' };
+    expect(schema('CreateDesignJobRequest')(invalid)).toBe(false);
+    const res = await request.post('/api/v1/design-jobs', { headers, data: invalid });
+    expect(res.status()).toBe(400);
+    const error = await res.json();
+    expectValid('Error', error);
+    expect(error.error.code).toBe('invalid_request');
+    expect(Object.keys(error.error.fieldErrors)).toEqual(expect.arrayContaining(['designId', 'inputParameters']));
+
+    const missing = await request.get('/api/v1/design-jobs/does-not-exist', { headers });
+    expect(missing.status()).toBe(404);
+    expectValid('Error', await missing.json());
+
+    const unauthenticated = await request.get('/api/v1/design-jobs');
+    expect(unauthenticated.status()).toBe(401);
+    expectValid('Error', await unauthenticated.json());
+  });
+});